@@ -5,188 +5,6 @@
 */
 export const EncryptedStudyTrackerABI = {
   "abi": [
-    {
-      "anonymous": false,
-      "inputs": [
-        {
-          "indexed": true,
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        },
-        {
-          "indexed": false,
-          "internalType": "bool",
-          "name": "success",
-          "type": "bool"
-        }
-      ],
-      "name": "DebugFHEConversion",
-      "type": "event"
-    },
-    {
-      "anonymous": false,
-      "inputs": [
-        {
-          "indexed": true,
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        },
-        {
-          "indexed": false,
-          "internalType": "bool",
-          "name": "isInitialized",
-          "type": "bool"
-        }
-      ],
-      "name": "DebugGetDaily",
-      "type": "event"
-    },
-    {
-      "anonymous": false,
-      "inputs": [
-        {
-          "indexed": true,
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        },
-        {
-          "indexed": false,
-          "internalType": "bool",
-          "name": "isInitialized",
-          "type": "bool"
-        }
-      ],
-      "name": "DebugGetTotal",
-      "type": "event"
-    },
-    {
-      "anonymous": false,
-      "inputs": [
-        {
-          "indexed": true,
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        },
-        {
-          "indexed": false,
-          "internalType": "bool",
-          "name": "wasInitialized",
-          "type": "bool"
-        },
-        {
-          "indexed": false,
-          "internalType": "bool",
-          "name": "isNewDay",
-          "type": "bool"
-        }
-      ],
-      "name": "DebugRecordDaily",
-      "type": "event"
-    },
-    {
-      "anonymous": false,
-      "inputs": [
-        {
-          "indexed": true,
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        },
-        {
-          "indexed": false,
-          "internalType": "uint256",
-          "name": "currentDate",
-          "type": "uint256"
-        },
-        {
-          "indexed": false,
-          "internalType": "uint256",
-          "name": "lastDate",
-          "type": "uint256"
-        }
-      ],
-      "name": "DebugRecordStart",
-      "type": "event"
-    },
-    {
-      "anonymous": false,
-      "inputs": [
-        {
-          "indexed": true,
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        },
-        {
-          "indexed": false,
-          "internalType": "bool",
-          "name": "wasInitialized",
-          "type": "bool"
-        }
-      ],
-      "name": "DebugRecordTotal",
-      "type": "event"
-    },
-    {
-      "anonymous": false,
-      "inputs": [
-        {
-          "indexed": true,
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        },
-        {
-          "indexed": false,
-          "internalType": "bool",
-          "name": "dailyInitialized",
-          "type": "bool"
-        },
-        {
-          "indexed": false,
-          "internalType": "bool",
-          "name": "totalInitialized",
-          "type": "bool"
-        },
-        {
-          "indexed": false,
-          "internalType": "uint256",
-          "name": "lastDate",
-          "type": "uint256"
-        }
-      ],
-      "name": "DebugState",
-      "type": "event"
-    },
-    {
-      "anonymous": false,
-      "inputs": [
-        {
-          "indexed": true,
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        },
-        {
-          "indexed": false,
-          "internalType": "uint32",
-          "name": "decryptedTime",
-          "type": "uint32"
-        },
-        {
-          "indexed": false,
-          "internalType": "bool",
-          "name": "isDaily",
-          "type": "bool"
-        }
-      ],
-      "name": "StudyTimeDecrypted",
-      "type": "event"
-    },
     {
       "anonymous": false,
       "inputs": [
@@ -207,33 +25,8 @@ export const EncryptedStudyTrackerABI = {
       "type": "event"
     },
     {
-      "inputs": [
-        {
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        }
-      ],
-      "name": "debugDailyInitialized",
-      "outputs": [
-        {
-          "internalType": "bool",
-          "name": "",
-          "type": "bool"
-        }
-      ],
-      "stateMutability": "view",
-      "type": "function"
-    },
-    {
-      "inputs": [
-        {
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        }
-      ],
-      "name": "debugLastStudyDate",
+      "inputs": [],
+      "name": "getCurrentDate",
       "outputs": [
         {
           "internalType": "uint256",
@@ -245,19 +38,13 @@ export const EncryptedStudyTrackerABI = {
       "type": "function"
     },
     {
-      "inputs": [
-        {
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        }
-      ],
-      "name": "debugTotalInitialized",
+      "inputs": [],
+      "name": "getDailyStudyTime",
       "outputs": [
         {
-          "internalType": "bool",
+          "internalType": "euint32",
           "name": "",
-          "type": "bool"
+          "type": "bytes32"
         }
       ],
       "stateMutability": "view",
@@ -265,7 +52,7 @@ export const EncryptedStudyTrackerABI = {
     },
     {
       "inputs": [],
-      "name": "getCurrentDate",
+      "name": "getLastStudyDate",
       "outputs": [
         {
           "internalType": "uint256",
@@ -277,62 +64,21 @@ export const EncryptedStudyTrackerABI = {
       "type": "function"
     },
     {
-      "inputs": [
-        {
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        }
-      ],
-      "name": "getDailyStudyTime",
+      "inputs": [],
+      "name": "getTotalStudyTime",
       "outputs": [
         {
-          "internalType": "uint32",
+          "internalType": "euint32",
           "name": "",
-          "type": "uint32"
+          "type": "bytes32"
         }
       ],
       "stateMutability": "view",
       "type": "function"
     },
     {
-      "inputs": [
-        {
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        }
-      ],
-      "name": "getDebugState",
-      "outputs": [
-        {
-          "internalType": "bool",
-          "name": "dailyInit",
-          "type": "bool"
-        },
-        {
-          "internalType": "bool",
-          "name": "totalInit",
-          "type": "bool"
-        },
-        {
-          "internalType": "uint256",
-          "name": "lastDate",
-          "type": "uint256"
-        }
-      ],
-      "stateMutability": "view",
-      "type": "function"
-    },
-    {
-      "inputs": [
-        {
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        }
-      ],
-      "name": "getLastStudyDate",
+      "inputs": [],
+      "name": "protocolId",
       "outputs": [
         {
           "internalType": "uint256",
@@ -340,34 +86,15 @@ export const EncryptedStudyTrackerABI = {
           "type": "uint256"
         }
       ],
-      "stateMutability": "view",
-      "type": "function"
-    },
-    {
-      "inputs": [
-        {
-          "internalType": "address",
-          "name": "user",
-          "type": "address"
-        }
-      ],
-      "name": "getTotalStudyTime",
-      "outputs": [
-        {
-          "internalType": "uint32",
-          "name": "",
-          "type": "uint32"
-        }
-      ],
-      "stateMutability": "view",
+      "stateMutability": "pure",
       "type": "function"
     },
     {
       "inputs": [
         {
-          "internalType": "uint256",
-          "name": "studyTimeEuint32",
-          "type": "uint256"
+          "internalType": "externalEuint32",
+          "name": "studyTime",
+          "type": "bytes32"
         },
         {
           "internalType": "bytes",
@@ -379,44 +106,6 @@ export const EncryptedStudyTrackerABI = {
       "outputs": [],
       "stateMutability": "nonpayable",
       "type": "function"
-    },
-    {
-      "inputs": [
-        {
-          "internalType": "uint256",
-          "name": "requestId",
-          "type": "uint256"
-        }
-      ],
-      "name": "requestDecryptDaily",
-      "outputs": [
-        {
-          "internalType": "uint32",
-          "name": "",
-          "type": "uint32"
-        }
-      ],
-      "stateMutability": "nonpayable",
-      "type": "function"
-    },
-    {
-      "inputs": [
-        {
-          "internalType": "uint256",
-          "name": "requestId",
-          "type": "uint256"
-        }
-      ],
-      "name": "requestDecryptTotal",
-      "outputs": [
-        {
-          "internalType": "uint32",
-          "name": "",
-          "type": "uint32"
-        }
-      ],
-      "stateMutability": "nonpayable",
-      "type": "function"
     }
   ]
 } as const;
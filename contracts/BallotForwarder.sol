@@ -0,0 +1,123 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice The EncryptedVotingSystem function BallotForwarder casts signed ballots with
+interface IBallotRecipient {
+    function castVote(uint256 voteId, bytes32 encryptedOptionId, bytes calldata inputProof) external;
+}
+
+/// @title Ballot Forwarder
+/// @author crypto-vote
+/// @notice Casts the EIP-712 signed ballots of voters, so that a relayer pays the gas instead of the voters.
+/// EncryptedVotingSystem instances deployed with this forwarder trust it as their ERC-2771 forwarder: it calls
+/// castVote with the voter appended to the calldata, and the ballot counts as the voter's own.
+/// The encrypted choice is encrypted for the election and the voter, like for a direct castVote, so a relayer can
+/// submit a ballot or withhold it, but can neither read it nor cast it for another voter.
+contract BallotForwarder {
+    struct Ballot {
+        address voter;
+        address election; // EncryptedVotingSystem instance trusting this forwarder
+        uint256 voteId;
+        bytes32 encryptedChoice; // externalEuint32 handle of the option ID or approval bitmask
+        bytes inputProof;
+        uint256 nonce; // nonces(voter) when the ballot is cast
+        uint256 deadline; // Last timestamp the ballot can be cast at
+    }
+
+    bytes32 public constant BALLOT_TYPEHASH =
+        keccak256(
+            "Ballot(address voter,address election,uint256 voteId,bytes32 encryptedChoice,bytes inputProof,"
+            "uint256 nonce,uint256 deadline)"
+        );
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant NAME_HASH = keccak256("BallotForwarder");
+    bytes32 private constant VERSION_HASH = keccak256("1");
+
+    // Upper bound of the s value of a signature, half the secp256k1 curve order
+    uint256 private constant MAX_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    mapping(address => uint256) public nonces; // voter => nonce of their next signed ballot
+
+    event BallotForwarded(
+        address indexed voter,
+        address indexed election,
+        uint256 indexed voteId,
+        uint256 nonce,
+        address relayer
+    );
+    event NonceUsed(address indexed voter, uint256 nonce);
+
+    /// @notice Cast a ballot signed by its voter, paying the gas for them
+    /// @dev Reverts with the election's error when it rejects the ballot, e.g. "Already voted in this vote";
+    /// the nonce is then still unused.
+    /// @param ballot The signed ballot
+    /// @param signature The voter's 65-byte EIP-712 signature of the ballot
+    function castVoteBySig(Ballot calldata ballot, bytes calldata signature) external {
+        require(block.timestamp <= ballot.deadline, "Ballot signature expired");
+        require(ballot.nonce == nonces[ballot.voter], "Invalid ballot nonce");
+        require(_recover(hashBallot(ballot), signature) == ballot.voter, "Signer is not the voter");
+        require(ballot.election.code.length > 0, "Election is not a contract");
+        nonces[ballot.voter]++;
+
+        bytes memory call = abi.encodeCall(
+            IBallotRecipient.castVote,
+            (ballot.voteId, ballot.encryptedChoice, ballot.inputProof)
+        );
+        (bool success, bytes memory returndata) = ballot.election.call(abi.encodePacked(call, ballot.voter));
+        if (!success) {
+            // Bubble up the election's revert reason
+            assembly ("memory-safe") {
+                revert(add(returndata, 0x20), mload(returndata))
+            }
+        }
+        emit BallotForwarded(ballot.voter, ballot.election, ballot.voteId, ballot.nonce, msg.sender);
+    }
+
+    /// @notice Invalidate the caller's signed ballots that have not been cast yet
+    /// @dev Consumes the caller's current nonce, e.g. to take back a ballot handed to a relayer
+    function useNonce() external {
+        emit NonceUsed(msg.sender, nonces[msg.sender]++);
+    }
+
+    /// @notice Get the EIP-712 domain separator, for the current chain
+    /// @return The hash of the domain, named "BallotForwarder" at version "1"
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_TYPEHASH, NAME_HASH, VERSION_HASH, block.chainid, address(this)));
+    }
+
+    /// @notice Get the EIP-712 digest a voter signs for a ballot
+    /// @param ballot The ballot
+    /// @return The digest of the typed ballot data
+    function hashBallot(Ballot calldata ballot) public view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                BALLOT_TYPEHASH,
+                ballot.voter,
+                ballot.election,
+                ballot.voteId,
+                ballot.encryptedChoice,
+                keccak256(ballot.inputProof),
+                ballot.nonce,
+                ballot.deadline
+            )
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
+    /// @notice Recover the signer of a digest
+    /// @dev Rejects malleable signatures with an s in the upper half of the curve order, like OpenZeppelin's ECDSA
+    /// @param digest The signed digest
+    /// @param signature The 65-byte r, s, v signature
+    /// @return signer The signer, never zero
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address signer) {
+        require(signature.length == 65, "Invalid signature length");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        require(uint256(s) <= MAX_S, "Invalid signature");
+
+        signer = ecrecover(digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+    }
+}
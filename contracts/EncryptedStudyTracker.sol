@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title Encrypted Study Tracker
+/// @author crypto-vote
+/// @notice Records the study minutes of each account as encrypted counters: the minutes of the current day and the
+/// total since the first session. Only the contract and the account itself can decrypt them.
+/// @dev Days are UTC days since the Unix epoch. The daily counter restarts with the first session of a new day.
+contract EncryptedStudyTracker is SepoliaConfig {
+    mapping(address => euint32) private _dailyStudyTime; // user => minutes of their last study day
+    mapping(address => euint32) private _totalStudyTime; // user => minutes since their first session
+    mapping(address => uint256) private _lastStudyDate; // user => day of their last session, zero before the first
+
+    event StudyTimeRecorded(address indexed user, uint256 date);
+
+    /// @notice Add a study session to the caller's daily and total minutes
+    /// @param studyTime The encrypted number of minutes
+    /// @param inputProof The proof of the encrypted input
+    function recordStudyTime(externalEuint32 studyTime, bytes calldata inputProof) external {
+        euint32 minutesStudied = FHE.fromExternal(studyTime, inputProof);
+        uint256 today = getCurrentDate();
+
+        // The first session of a day replaces the minutes of the previous study day
+        euint32 daily = _lastStudyDate[msg.sender] == today
+            ? FHE.add(_dailyStudyTime[msg.sender], minutesStudied)
+            : minutesStudied;
+        euint32 total = FHE.isInitialized(_totalStudyTime[msg.sender])
+            ? FHE.add(_totalStudyTime[msg.sender], minutesStudied)
+            : minutesStudied;
+
+        _dailyStudyTime[msg.sender] = daily;
+        _totalStudyTime[msg.sender] = total;
+        _lastStudyDate[msg.sender] = today;
+
+        FHE.allowThis(daily);
+        FHE.allow(daily, msg.sender);
+        FHE.allowThis(total);
+        FHE.allow(total, msg.sender);
+
+        emit StudyTimeRecorded(msg.sender, today);
+    }
+
+    /// @notice Get the caller's encrypted study minutes of the current day
+    /// @return The encrypted minutes, or an uninitialized handle when the caller has not studied today
+    function getDailyStudyTime() external view returns (euint32) {
+        if (_lastStudyDate[msg.sender] != getCurrentDate()) {
+            return euint32.wrap(0);
+        }
+        return _dailyStudyTime[msg.sender];
+    }
+
+    /// @notice Get the caller's encrypted total study minutes
+    /// @return The encrypted minutes, or an uninitialized handle before the caller's first session
+    function getTotalStudyTime() external view returns (euint32) {
+        return _totalStudyTime[msg.sender];
+    }
+
+    /// @notice Get the day of the caller's last study session
+    /// @return Days since the Unix epoch, zero before the first session
+    function getLastStudyDate() external view returns (uint256) {
+        return _lastStudyDate[msg.sender];
+    }
+
+    /// @notice Get the current day
+    /// @return Days since the Unix epoch of the current block, in UTC
+    function getCurrentDate() public view returns (uint256) {
+        return block.timestamp / 1 days;
+    }
+}
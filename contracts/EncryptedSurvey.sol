@@ -0,0 +1,279 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint8, euint32, externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @title Encrypted Survey Contract
+/// @author crypto-vote
+/// @notice Surveys mixing single-choice and numeric rating questions. Each respondent answers every question with
+/// one encrypted input proof, and only encrypted aggregates are kept: a counter per option of choice questions,
+/// and the sum and count of the answers of rating questions, from which averages are computed.
+/// @dev Kept apart from EncryptedVotingSystem, which is at the contract size limit. Every answer is an euint8,
+/// an option index for choice questions and a rating for rating questions.
+/// There are no free-text questions: encrypted text cannot be added into an aggregate, so free-text answers would
+/// have to be stored and decrypted one by one, revealing each respondent's answer instead of only the aggregates.
+contract EncryptedSurvey is SepoliaConfig {
+    // Upper bounds keeping a response within the gas limit
+    uint256 internal constant MAX_QUESTIONS = 10;
+    uint256 internal constant MAX_OPTIONS = 10;
+
+    // Shortest and longest answering period between the start and end time of a survey
+    uint256 private constant MIN_DURATION = 1 minutes;
+    uint256 private constant MAX_DURATION = 365 days;
+
+    // How a question is answered, always with a number so that answers can be aggregated
+    enum QuestionType {
+        Choice, // one encrypted option index
+        Rating // one encrypted number between the question's bounds, e.g. 1 to 10
+    }
+
+    // A question of a new survey
+    struct Question {
+        string prompt;
+        QuestionType questionType;
+        string[] options; // Options of choice questions, empty for rating questions
+        uint8 minRating; // Lowest valid answer of rating questions
+        uint8 maxRating; // Highest valid answer of rating questions
+    }
+
+    // Encrypted aggregates of the answers to a question
+    struct Aggregate {
+        euint32[] counts; // Answers per option of choice questions
+        euint32 sum; // Sum of the valid answers of rating questions
+        euint32 count; // Valid answers of rating questions
+    }
+
+    struct Survey {
+        string title;
+        string description;
+        address creator;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 responseCount;
+    }
+
+    mapping(uint256 => Survey) private _surveys; // surveyId => Survey struct
+    mapping(uint256 => Question[]) private _questions; // surveyId => questions, in answering order
+    mapping(uint256 => Aggregate[]) private _aggregates; // surveyId => encrypted aggregates per question
+    mapping(uint256 => mapping(address => bool)) private _hasResponded; // surveyId => respondent => responded
+
+    uint256 private _nextSurveyId = 1;
+
+    event SurveyCreated(uint256 indexed surveyId, address indexed creator, string title);
+    event SurveyResponded(uint256 indexed surveyId, address indexed respondent);
+    event SurveyResultsAccessGranted(uint256 indexed surveyId, address indexed account);
+
+    /// @notice Create a new survey
+    /// @param title Survey title
+    /// @param description Survey description
+    /// @param questions The questions, answered in this order
+    /// @param startTime Timestamp answering opens at, 0 to open right away
+    /// @param endTime Timestamp answering closes at, 1 minute to 365 days after the start time
+    /// @return surveyId The ID of the created survey
+    function createSurvey(
+        string calldata title,
+        string calldata description,
+        Question[] calldata questions,
+        uint256 startTime,
+        uint256 endTime
+    ) external returns (uint256 surveyId) {
+        require(bytes(title).length > 0, "Title cannot be empty");
+        require(questions.length > 0 && questions.length <= MAX_QUESTIONS, "Surveys have 1 to 10 questions");
+        uint256 opensAt = startTime == 0 ? block.timestamp : startTime;
+        require(opensAt >= block.timestamp, "Start time cannot be in the past");
+        require(
+            endTime >= opensAt + MIN_DURATION && endTime <= opensAt + MAX_DURATION,
+            "Duration must be between 1 minute and 365 days"
+        );
+
+        surveyId = _nextSurveyId++;
+        Survey storage survey = _surveys[surveyId];
+        survey.title = title;
+        survey.description = description;
+        survey.creator = msg.sender;
+        survey.startTime = opensAt;
+        survey.endTime = endTime;
+
+        for (uint256 i = 0; i < questions.length; i++) {
+            _addQuestion(surveyId, questions[i]);
+        }
+
+        emit SurveyCreated(surveyId, msg.sender, title);
+    }
+
+    /// @notice Answer every question of a survey in one encrypted response
+    /// @dev An answer outside the options of a choice question, or outside the bounds of a rating question,
+    /// counts for nothing, so respondents can skip questions without revealing it
+    /// @param surveyId The ID of the survey
+    /// @param answers The encrypted answers, one per question in answering order
+    /// @param inputProof The FHE input proof covering every answer
+    function respond(uint256 surveyId, externalEuint8[] calldata answers, bytes calldata inputProof) external {
+        Survey storage survey = _surveys[surveyId];
+        require(survey.creator != address(0), "Survey does not exist");
+        require(block.timestamp >= survey.startTime, "Survey has not started yet");
+        require(block.timestamp < survey.endTime, "Survey has ended");
+        require(!_hasResponded[surveyId][msg.sender], "Already responded to this survey");
+        require(answers.length == _questions[surveyId].length, "One answer per question required");
+
+        _hasResponded[surveyId][msg.sender] = true;
+        survey.responseCount++;
+
+        for (uint256 i = 0; i < answers.length; i++) {
+            euint8 answer = FHE.fromExternal(answers[i], inputProof);
+            _recordAnswer(_questions[surveyId][i], _aggregates[surveyId][i], answer);
+        }
+
+        emit SurveyResponded(surveyId, msg.sender);
+    }
+
+    /// @notice Allow the caller to decrypt the aggregates of an ended survey
+    /// @dev Grants ACL access to the aggregates only; individual answers are never stored
+    /// @param surveyId The ID of the survey
+    function requestSurveyResults(uint256 surveyId) external {
+        require(_surveys[surveyId].creator != address(0), "Survey does not exist");
+        require(block.timestamp >= _surveys[surveyId].endTime, "Results are embargoed until the survey has ended");
+
+        Aggregate[] storage aggregates = _aggregates[surveyId];
+        for (uint256 i = 0; i < aggregates.length; i++) {
+            for (uint256 j = 0; j < aggregates[i].counts.length; j++) {
+                FHE.allow(aggregates[i].counts[j], msg.sender);
+            }
+            if (FHE.isInitialized(aggregates[i].sum)) {
+                FHE.allow(aggregates[i].sum, msg.sender);
+                FHE.allow(aggregates[i].count, msg.sender);
+            }
+        }
+
+        emit SurveyResultsAccessGranted(surveyId, msg.sender);
+    }
+
+    /// @notice Get the details of a survey
+    /// @param surveyId The ID of the survey
+    /// @return title Survey title
+    /// @return description Survey description
+    /// @return creator The address that created the survey
+    /// @return startTime Timestamp answering opens at
+    /// @return endTime Timestamp answering closes at
+    /// @return questionCount The number of questions
+    /// @return responseCount The number of responses
+    function getSurvey(
+        uint256 surveyId
+    )
+        external
+        view
+        returns (
+            string memory title,
+            string memory description,
+            address creator,
+            uint256 startTime,
+            uint256 endTime,
+            uint256 questionCount,
+            uint256 responseCount
+        )
+    {
+        Survey storage survey = _surveys[surveyId];
+        require(survey.creator != address(0), "Survey does not exist");
+        return (
+            survey.title,
+            survey.description,
+            survey.creator,
+            survey.startTime,
+            survey.endTime,
+            _questions[surveyId].length,
+            survey.responseCount
+        );
+    }
+
+    /// @notice Get the questions of a survey
+    /// @param surveyId The ID of the survey
+    /// @return The questions, in answering order
+    function getQuestions(uint256 surveyId) external view returns (Question[] memory) {
+        return _questions[surveyId];
+    }
+
+    /// @notice Get the encrypted aggregates of a question
+    /// @param surveyId The ID of the survey
+    /// @param questionIndex The position of the question in the survey
+    /// @return counts Encrypted answers per option, empty for rating questions
+    /// @return sum Encrypted sum of the valid answers, uninitialized for choice questions
+    /// @return count Encrypted number of valid answers, uninitialized for choice questions
+    function getEncryptedAggregate(
+        uint256 surveyId,
+        uint256 questionIndex
+    ) external view returns (euint32[] memory counts, euint32 sum, euint32 count) {
+        Aggregate storage aggregate = _aggregates[surveyId][questionIndex];
+        return (aggregate.counts, aggregate.sum, aggregate.count);
+    }
+
+    /// @notice Check if a user has responded to a survey
+    /// @param surveyId The ID of the survey
+    /// @param user The address to check
+    /// @return Whether the user has responded
+    function hasResponded(uint256 surveyId, address user) external view returns (bool) {
+        return _hasResponded[surveyId][user];
+    }
+
+    /// @notice Get the ID the next survey will be created with
+    /// @return The next survey ID; existing surveys have IDs 1 to this value minus 1
+    function getNextSurveyId() external view returns (uint256) {
+        return _nextSurveyId;
+    }
+
+    /// @notice Validate a question and create its encrypted zero aggregates
+    /// @param surveyId The ID of the survey
+    /// @param question The question to add
+    function _addQuestion(uint256 surveyId, Question calldata question) private {
+        require(bytes(question.prompt).length > 0, "Question prompt cannot be empty");
+
+        Question storage stored = _questions[surveyId].push();
+        stored.prompt = question.prompt;
+        stored.questionType = question.questionType;
+        Aggregate storage aggregate = _aggregates[surveyId].push();
+
+        if (question.questionType == QuestionType.Choice) {
+            require(
+                question.options.length >= 2 && question.options.length <= MAX_OPTIONS,
+                "Choice questions have 2 to 10 options"
+            );
+            for (uint256 i = 0; i < question.options.length; i++) {
+                stored.options.push(question.options[i]);
+                aggregate.counts.push(FHE.asEuint32(0));
+                FHE.allowThis(aggregate.counts[i]);
+            }
+        } else {
+            require(question.options.length == 0, "Rating questions have no options");
+            require(question.minRating < question.maxRating, "Rating bounds must be increasing");
+            stored.minRating = question.minRating;
+            stored.maxRating = question.maxRating;
+            aggregate.sum = FHE.asEuint32(0);
+            aggregate.count = FHE.asEuint32(0);
+            FHE.allowThis(aggregate.sum);
+            FHE.allowThis(aggregate.count);
+        }
+    }
+
+    /// @notice Add an encrypted answer to the aggregates of its question
+    /// @dev Every aggregate is updated with FHE.select, so the answer never leaves the encrypted domain
+    /// @param question The question answered
+    /// @param aggregate The encrypted aggregates of the question
+    /// @param answer The encrypted option index or rating
+    function _recordAnswer(Question storage question, Aggregate storage aggregate, euint8 answer) private {
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+
+        if (question.questionType == QuestionType.Choice) {
+            for (uint256 i = 0; i < aggregate.counts.length; i++) {
+                ebool chosen = FHE.eq(answer, uint8(i));
+                aggregate.counts[i] = FHE.add(aggregate.counts[i], FHE.select(chosen, one, zero));
+                FHE.allowThis(aggregate.counts[i]);
+            }
+        } else {
+            ebool valid = FHE.and(FHE.ge(answer, question.minRating), FHE.le(answer, question.maxRating));
+            aggregate.sum = FHE.add(aggregate.sum, FHE.select(valid, FHE.asEuint32(answer), zero));
+            aggregate.count = FHE.add(aggregate.count, FHE.select(valid, one, zero));
+            FHE.allowThis(aggregate.sum);
+            FHE.allowThis(aggregate.count);
+        }
+    }
+}
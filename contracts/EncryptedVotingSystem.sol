@@ -1,8 +1,15 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {FHE, ebool, euint32, euint64, externalEuint32, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {FheType} from "@fhevm/solidity/lib/FheType.sol";
+import {IFHEVMExecutor, Impl} from "@fhevm/solidity/lib/Impl.sol";
+import {SepoliaConfig, ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {BallotTally} from "./libraries/BallotTally.sol";
+import {RankedBallots} from "./libraries/RankedBallots.sol";
+import {VoteDetails} from "./libraries/VoteDetails.sol";
+import {VoteDelegation} from "./libraries/VoteDelegation.sol";
+import {VoterEligibility} from "./libraries/VoterEligibility.sol";
 
 /// @title Encrypted Voting System Contract
 /// @author crypto-vote
@@ -12,17 +19,101 @@ import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
 /// Supports both local Hardhat network (with mock) and Sepolia testnet.
 /// Enhanced with batch operations and comprehensive analytics.
 contract EncryptedVotingSystem is SepoliaConfig {
+    using BallotTally for BallotTally.Tally;
+    using RankedBallots for RankedBallots.Ballots;
+    using VoteDelegation for VoteDelegation.Delegations;
+    using VoterEligibility for VoterEligibility.Weighting;
+    using VoterEligibility for mapping(address => bool);
+
     // Network detection for different FHEVM configurations
     bool private immutable _isLocalNetwork;
 
-    constructor() {
+    // ERC-2771 forwarder submitting the EIP-712 signed ballots of voters, zero without gasless voting.
+    // Immutable, so every election cloned by VoteFactory trusts the same forwarder.
+    address public immutable ballotForwarder;
+
+    /// @param forwarder The BallotForwarder casting votes for the voters who signed them, zero for none
+    constructor(address forwarder) {
+        ballotForwarder = forwarder;
         _owner = msg.sender;
         _nextVoteId = 1; // Start from 1
         _nextOptionId = 1;
         // Detect if we're on local network (chainId 31337)
         _isLocalNetwork = block.chainid == 31337;
+
+        // Anyone may create votes until an admin revokes the open creator role
+        _setRole(VOTE_CREATOR_ROLE, address(0), true);
+        _setRole(TALLIER_ROLE, msg.sender, true);
+        _setRole(PAUSER_ROLE, msg.sender, true);
+    }
+
+    /// @notice Set up an election instance deployed by VoteFactory
+    /// @dev Minimal proxies share this contract's code but not its storage, so they run this instead of the
+    /// constructor. The deployed implementation starts at vote ID 1 and can never be initialized.
+    /// @param electionOwner The creator of the election, the only account that may create votes in it
+    /// @param admin The account moderating every election of the factory, e.g. to cancel or archive them
+    function initialize(address electionOwner, address admin) external {
+        require(_nextVoteId == 0, "Already initialized");
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+
+        _owner = electionOwner;
+        _nextVoteId = 1;
+        _nextOptionId = 1;
+
+        // The election owner creates, tallies and pauses its votes, the factory admin holds ADMIN_ROLE
+        bytes32[4] memory roles = [VOTE_CREATOR_ROLE, TALLIER_ROLE, PAUSER_ROLE, ADMIN_ROLE];
+        for (uint256 i = 0; i < roles.length; i++) {
+            _setRole(roles[i], roles[i] == ADMIN_ROLE ? admin : electionOwner, true);
+        }
     }
     address private _owner;
+    address private _pendingOwner;
+    bool private _paused; // Blocks vote creation and ballots in an emergency
+
+    // Roles are granted and revoked by admins; the owner is always an admin.
+    // A role granted to the zero address is open to every account.
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant VOTE_CREATOR_ROLE = keccak256("VOTE_CREATOR_ROLE"); // create votes
+    bytes32 public constant TALLIER_ROLE = keccak256("TALLIER_ROLE"); // tally the rankings of any ranked-choice vote
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE"); // pause voting in an emergency
+    mapping(bytes32 => mapping(address => bool)) private _roles; // role => account => granted
+
+    // Who may cast a ballot in a vote
+    enum EligibilityMode {
+        Open, // any address
+        Allowlist, // addresses added by the vote creator
+        Merkle // addresses proving membership of the vote's Merkle root
+    }
+
+    // How voters express their choice
+    enum BallotType {
+        Plurality, // one encrypted option index
+        Ranked, // encrypted preference order, tallied by instant runoff after the end
+        Approval // encrypted bitmask of every approved option
+    }
+
+    // Lifecycle of a vote, derived by getVoteState
+    enum VoteState {
+        Draft, // created but not published by its creator yet
+        Scheduled, // published, voting has not started
+        Open, // accepting ballots
+        Closed, // end time passed, results not published yet
+        Tallied, // results published by the decryption oracle
+        Cancelled // withdrawn by its creator
+    }
+
+    // Optional settings chosen when creating a vote
+    struct VoteSettings {
+        bool liveResults; // Whether results may be decrypted before the vote has ended
+        EligibilityMode eligibility;
+        bytes32 merkleRoot; // Root of the member list, only used in Merkle mode
+        address weightToken; // ERC20Votes / ERC721Votes token weighting ballots, zero for one ballot one vote
+        uint256 weightUnit; // Token amount worth one vote, e.g. 1e18 for an 18-decimals ERC-20 or 1 for an ERC-721
+        BallotType ballotType;
+        bool allowRevote; // Whether voters may replace their ballot until the end time
+        bool draft; // Whether the vote waits for publishVote before it can open
+        BallotTally.Rules rules; // Quorum and threshold deciding whether the vote passes
+    }
 
     // Vote structure
     struct Vote {
@@ -33,116 +124,436 @@ contract EncryptedVotingSystem is SepoliaConfig {
         uint256 endTime;
         bool active;
         address creator;
+        bool liveResults; // Whether results may be decrypted before the vote has ended
+        EligibilityMode eligibility;
+        bytes32 merkleRoot;
+        BallotType ballotType;
+        bool allowRevote; // Whether voters may replace their ballot until the end time
+        bool draft; // Whether the vote waits for publishVote before it can open
+        bool cancelled; // Whether the vote was withdrawn, its ballots never being tallied
     }
 
     // Encrypted vote data using FHEVM
     mapping(uint256 => Vote) public votes; // voteId => Vote struct
-    mapping(uint256 => euint32[]) private _encryptedVoteChoices; // voteId => array of encrypted vote choices
+    mapping(uint256 => BallotTally.Tally) private _tallies; // voteId => encrypted counters
+    mapping(uint256 => VoterEligibility.Weighting) private _weightings; // voteId => token snapshot of weighted votes
+    mapping(uint256 => mapping(address => euint32)) private _ballots; // voteId => voter => encrypted choice
     mapping(uint256 => mapping(address => bool)) private _hasVoted; // voteId => user => has voted
-    mapping(uint256 => uint256) private _voteCount; // voteId => total number of votes cast
+    mapping(uint256 => mapping(address => bool)) private _eligibleVoters; // voteId => voter => allowlisted or proven
+    mapping(uint256 => uint256) private _voteCount; // voteId => number of distinct voters, delegators included
+    mapping(uint256 => uint256) private _ballotCount; // voteId => ballots cast, replaced ballots included
+    mapping(uint256 => address[]) private _voters; // voteId => addresses with a counted ballot, in casting order
+    mapping(uint256 => uint256) private _publicationRequests; // oracle requestId => voteId
+    mapping(uint256 => BallotTally.Results) private _results; // voteId => verified cleartext counters
+    mapping(uint256 => bool) private _resultsPublished; // voteId => results published by the oracle
+    mapping(uint256 => RankedBallots.Ballots) private _rankedBallots; // voteId => rankings and runoff rounds
+    mapping(uint256 => BallotTally.Rules) private _rules; // voteId => quorum and threshold, zero for no rules
+    mapping(uint256 => ebool) private _outcomes; // voteId => encrypted pass/fail, computed when the vote closes
+    mapping(uint256 => bool) private _publishedOutcomes; // voteId => verified cleartext pass/fail
+    mapping(uint256 => bool) private _archived; // voteId => hidden from the listings of active votes
+    mapping(address => bool) private _hasParticipated; // voter => had a ballot counted in any vote
+    VoteDelegation.Delegations private _delegations;
 
     uint256 private _nextVoteId;
     uint256 private _nextOptionId;
+    uint256 private _participantCount; // distinct voters across every vote
 
     function owner() public view returns (address) {
         return _owner;
     }
 
+    function pendingOwner() external view returns (address) {
+        return _pendingOwner;
+    }
+
+    /// @notice Start transferring ownership; it completes once the new owner calls acceptOwnership
+    /// @param newOwner The proposed owner, or the zero address to cancel a pending transfer
     function transferOwnership(address newOwner) external {
         require(msg.sender == _owner, "Only owner can transfer ownership");
-        require(newOwner != address(0), "New owner cannot be zero address");
-        _owner = newOwner;
+        _pendingOwner = newOwner;
+        emit OwnershipTransferStarted(_owner, newOwner);
+    }
+
+    /// @notice Accept a pending ownership transfer, making the caller the owner
+    function acceptOwnership() external {
+        require(msg.sender == _pendingOwner, "Only the pending owner can accept ownership");
+        emit OwnershipTransferred(_owner, msg.sender);
+        _owner = msg.sender;
+        _pendingOwner = address(0);
+    }
+
+    /// @notice Whether voting is paused: no votes can be created and no ballots cast until a pauser unpauses it
+    function paused() external view returns (bool) {
+        return _paused;
+    }
+
+    /// @notice Pause vote creation and ballots, e.g. after finding a bug. View functions, ending, closing and
+    /// cancelling votes keep working. Only pausers can pause.
+    function pause() external {
+        _requireRole(PAUSER_ROLE);
+        require(!_paused, "Voting is paused");
+        _paused = true;
+        emit Paused(msg.sender);
+    }
+
+    /// @notice Resume vote creation and ballots. Only pausers can unpause.
+    function unpause() external {
+        _requireRole(PAUSER_ROLE);
+        require(_paused, "Voting is not paused");
+        _paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    /// @notice Check whether an account holds a role
+    /// @param role The role, e.g. ADMIN_ROLE
+    /// @param account The account, or the zero address to check whether the role is open to everyone
+    /// @return True if the role was granted to the account, or if the account is the owner and the role is ADMIN_ROLE
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return _roles[role][account] || (role == ADMIN_ROLE && account == _owner);
+    }
+
+    /// @notice Grant a role to an account. Only admins can grant roles.
+    /// @param role The role to grant
+    /// @param account The account receiving the role, or the zero address to open the role to everyone
+    function grantRole(bytes32 role, address account) external {
+        _requireRole(ADMIN_ROLE);
+        _setRole(role, account, true);
+    }
+
+    /// @notice Revoke a role from an account. Only admins can revoke roles.
+    /// @param role The role to revoke
+    /// @param account The account losing the role
+    function revokeRole(bytes32 role, address account) external {
+        _requireRole(ADMIN_ROLE);
+        _setRole(role, account, false);
     }
 
     // Events
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event Paused(address account);
+    event Unpaused(address account);
     event VoteCreated(uint256 indexed voteId, address indexed creator, string title);
+    event VotePublished(uint256 indexed voteId, uint256 startTime, uint256 endTime);
     event VoteCast(uint256 indexed voteId, address indexed voter);
+    event VoteChanged(uint256 indexed voteId, address indexed voter);
     event VoteDecrypted(uint256 indexed voteId, address indexed user, uint32 decryptedVote);
     event VotingEnded(uint256 indexed voteId);
+    event VoteCancelled(uint256 indexed voteId, address indexed by, string reason);
+    event VoteClosedEarly(uint256 indexed voteId, address indexed by);
+    event VoteArchived(uint256 indexed voteId, address indexed by);
+    event BallotsWiped(uint256 indexed voteId, address indexed by, uint256 ballotCount);
+    event ResultsPublicationRequested(uint256 indexed voteId, uint256 indexed requestId);
+    event ResultsPublished(uint256 indexed voteId, uint32[] counts, uint32 spoiled, uint64[] weights);
+    event OutcomePublished(uint256 indexed voteId, bool passed);
+    event EligibilityUpdated(uint256 indexed voteId, address indexed voter, bool eligible);
+    event RankedBallotAccessGranted(uint256 indexed voteId, address indexed tallier);
+    event RankedRoundsPublished(uint256 indexed voteId, uint256 roundCount);
+    event DelegateChanged(uint256 indexed voteId, address indexed delegator, address indexed delegate);
+    event DelegatedBallotCast(uint256 indexed voteId, address indexed delegator, address indexed delegate);
 
     /// @notice Create a new vote
     /// @param title Vote title
     /// @param description Vote description
     /// @param options Array of voting options
-    /// @param durationInDays Voting duration in days
+    /// @param startTime Timestamp voting opens at, 0 to open right away
+    /// @param endTime Timestamp voting closes at, 1 minute to 365 days after the start time
+    /// @param settings Result visibility, voter eligibility, ballot weighting, ballot type, revoting, draft status
+    /// and governance rules of the vote
     /// @return voteId The ID of the created vote
     function createVote(
         string calldata title,
         string calldata description,
         string[] calldata options,
-        uint256 durationInDays
+        uint256 startTime,
+        uint256 endTime,
+        VoteSettings calldata settings
     ) external returns (uint256 voteId) {
-        require(bytes(title).length > 0, "Title cannot be empty");
-        require(bytes(description).length > 0, "Description cannot be empty");
-        require(options.length >= 2, "Must have at least 2 options");
-        require(durationInDays > 0 && durationInDays <= 365, "Duration must be between 1-365 days");
-
-        voteId = _nextVoteId++;
-        uint256 startTime = block.timestamp;
-        uint256 endTime = startTime + (durationInDays * 1 days);
+        _requireNotPaused();
+        _requireRole(VOTE_CREATOR_ROLE);
+        require(
+            (settings.eligibility == EligibilityMode.Merkle) == (settings.merkleRoot != bytes32(0)),
+            "Merkle root required for Merkle eligibility only"
+        );
+        require(
+            settings.ballotType == BallotType.Plurality || options.length <= RankedBallots.MAX_OPTIONS,
+            "Ranked votes limited to 15 options"
+        );
+        require(
+            settings.ballotType != BallotType.Approval || options.length <= BallotTally.MAX_APPROVAL_OPTIONS,
+            "Approval votes limited to 32 options"
+        );
+        require(
+            !settings.rules.outcomeOnly ||
+                (settings.rules.threshold != BallotTally.Threshold.None && !settings.liveResults),
+            "Outcome-only votes need a threshold and embargoed results"
+        );
 
-        votes[voteId] = Vote({
-            title: title,
-            description: description,
-            options: options,
-            startTime: startTime,
-            endTime: endTime,
-            active: true,
-            creator: msg.sender
-        });
+        voteId = _initializeVote(title, description, options, startTime, endTime);
+        Vote storage vote = votes[voteId];
+        vote.liveResults = settings.liveResults;
+        vote.eligibility = settings.eligibility;
+        vote.merkleRoot = settings.merkleRoot;
+        vote.ballotType = settings.ballotType;
+        vote.allowRevote = settings.allowRevote;
+        vote.draft = settings.draft;
+        _rules[voteId] = settings.rules;
 
-        // Vote choices will be stored in _encryptedVoteChoices array when votes are cast
+        if (settings.weightToken != address(0)) {
+            _weightings[voteId].initialize(settings.weightToken, settings.weightUnit);
+        }
+        _tallies[voteId].initialize(options.length, settings.weightToken != address(0));
 
-        emit VoteCreated(voteId, msg.sender, title);
         return voteId;
     }
 
+    /// @notice Publish a draft vote so that it opens at its start time
+    /// @dev Drafts let the creator prepare a vote, e.g. fill its allowlist, before anyone can vote.
+    /// A start time that has passed in the meantime opens the vote right away.
+    /// @param voteId The ID of the vote
+    function publishVote(uint256 voteId) external {
+        Vote storage vote = votes[voteId];
+        require(msg.sender == vote.creator, "Only the vote creator can publish the vote");
+        require(getVoteState(voteId) == VoteState.Draft, "Vote is not a draft");
+        require(block.timestamp < vote.endTime, "Vote end time has passed");
+
+        vote.draft = false;
+        emit VotePublished(voteId, vote.startTime, vote.endTime);
+    }
+
     /// @notice Cast an encrypted vote for a specific option
+    /// @dev In approval votes the encrypted value is a bitmask, bit i approving option i.
+    /// The ballot forwarder calls it for the voters who signed a ballot, see _msgSender.
     /// @param voteId The ID of the vote
-    /// @param encryptedOptionId The encrypted option ID the user is voting for
+    /// @param encryptedOptionId The encrypted option ID the user is voting for, or the approval bitmask
     /// @param inputProof The FHE input proof for verification
     function castVote(uint256 voteId, externalEuint32 encryptedOptionId, bytes calldata inputProof) external {
-        require(votes[voteId].active, "Vote does not exist or is not active");
-        require(block.timestamp >= votes[voteId].startTime, "Voting has not started yet");
-        require(block.timestamp <= votes[voteId].endTime, "Voting has ended");
-        require(!_hasVoted[voteId][msg.sender], "Already voted in this vote");
-
-        // Handle FHE operations based on network
-        euint32 optionId;
-        if (_isLocalNetwork) {
-            // On local network, we need to handle the encrypted input differently
-            // Since FHEVM local simulation doesn't actually decrypt, we'll use a workaround
-            // For now, we'll accept that local testing has limitations
-            optionId = FHE.fromExternal(encryptedOptionId, inputProof);
-        } else {
-            // On Sepolia, use real FHE operations
-            optionId = FHE.fromExternal(encryptedOptionId, inputProof);
-        }
-
-        // Mark user as voted
-        _hasVoted[voteId][msg.sender] = true;
-
-        // Store the encrypted vote choice in the array
-        _encryptedVoteChoices[voteId].push(optionId);
-
-        // Increment vote count
-        _voteCount[voteId]++;
+        _castVote(voteId, _msgSender(), encryptedOptionId, inputProof);
+    }
 
-        // Grant decryption permissions (works on both networks)
-        FHE.allowThis(optionId);
-        FHE.allow(optionId, msg.sender);
+    /// @notice Cast an encrypted ranked ballot in a ranked-choice vote
+    /// @dev The ranking packs one option index per 4 bits, first preference in the lowest bits,
+    /// and ends at the first 0xF nibble. The first preference is added to the per-option counters,
+    /// so the oracle-published results are the first round of the runoff.
+    /// @param voteId The ID of the vote
+    /// @param encryptedRanking The encrypted packed ranking
+    /// @param inputProof The FHE input proof for verification
+    function castRankedVote(uint256 voteId, externalEuint64 encryptedRanking, bytes calldata inputProof) external {
+        _requireCanVote(voteId, msg.sender);
+        require(votes[voteId].ballotType == BallotType.Ranked, "Vote is not ranked-choice");
 
-        emit VoteCast(voteId, msg.sender);
+        euint32 firstPreference = _rankedBallots[voteId].record(msg.sender, encryptedRanking, inputProof);
+        _recordBallot(voteId, msg.sender, firstPreference);
     }
 
     /// @notice End a vote (can be called by anyone after end time)
+    /// @dev Also asks the decryption oracle to publicly decrypt the final tallies
     /// @param voteId The ID of the vote to end
     function endVote(uint256 voteId) external {
         require(votes[voteId].active, "Vote is already ended");
-        require(block.timestamp >= votes[voteId].endTime, "Voting end time not reached");
+        require(getVoteState(voteId) == VoteState.Closed, "Voting end time not reached");
+
+        _closeVote(voteId);
+    }
+
+    /// @notice End an open vote before its end time, e.g. once enough voters took part
+    /// @dev Only the vote creator or an admin can close a vote early
+    /// @param voteId The ID of the vote
+    function closeVoteEarly(uint256 voteId) external {
+        _requireCreatorOrAdmin(voteId);
+        require(getVoteState(voteId) == VoteState.Open, "Vote is not open");
+
+        votes[voteId].endTime = block.timestamp;
+        emit VoteClosedEarly(voteId, msg.sender);
+
+        _closeVote(voteId);
+    }
+
+    /// @notice Withdraw a vote that has not ended yet; its ballots are never tallied or published
+    /// @dev Only the vote creator or an admin can cancel a vote, while it is a draft, scheduled or open. Once its end
+    /// time has passed the vote is closed, even before endVote runs, and can no longer be cancelled.
+    /// @param voteId The ID of the vote
+    /// @param reason Why the vote was cancelled, shown to its voters
+    function cancelVote(uint256 voteId, string calldata reason) external {
+        _requireCreatorOrAdmin(voteId);
+        require(getVoteState(voteId) <= VoteState.Open, "Vote is already ended");
+        require(bytes(reason).length > 0, "Cancellation reason required");
 
         votes[voteId].active = false;
-        emit VotingEnded(voteId);
+        votes[voteId].cancelled = true;
+        emit VoteCancelled(voteId, msg.sender, reason);
+    }
+
+    /// @notice End every listed vote whose end time has passed
+    /// @dev Like endVote anyone can call it. IDs of votes that are not past their end time, already ended or
+    /// unknown are skipped, so one stale ID does not revert the batch.
+    /// @param voteIds The IDs of the votes to end
+    /// @return ended The number of votes ended
+    function endExpiredVotes(uint256[] calldata voteIds) external returns (uint256 ended) {
+        for (uint256 i = 0; i < voteIds.length; i++) {
+            uint256 voteId = voteIds[i];
+            if (votes[voteId].active && getVoteState(voteId) == VoteState.Closed) {
+                _closeVote(voteId);
+                ended++;
+            }
+        }
+    }
+
+    /// @notice Move an ended or cancelled vote to the archive, out of the listings of active votes
+    /// @dev Only the vote creator or an admin can archive a vote; its results stay readable
+    /// @param voteId The ID of the vote
+    function archiveVote(uint256 voteId) external {
+        _requireCreatorOrAdmin(voteId);
+        require(votes[voteId].creator != address(0), "Vote does not exist");
+        require(!votes[voteId].active, "Vote has not ended");
+        require(!_archived[voteId], "Vote is already archived");
+
+        _archived[voteId] = true;
+        emit VoteArchived(voteId, msg.sender);
+    }
+
+    /// @notice Drop every ballot cast in a vote that has not ended, e.g. to rerun a test vote
+    /// @dev Only an admin can wipe ballots, and only on the local Hardhat network
+    /// @param voteId The ID of the vote
+    function wipeBallots(uint256 voteId) external {
+        _requireRole(ADMIN_ROLE);
+        require(_isLocalNetwork, "Ballots can only be wiped on local networks");
+        require(votes[voteId].active, "Vote is already ended");
+
+        address[] storage voters = _voters[voteId];
+        uint256 ballotCount = voters.length;
+        for (uint256 i = 0; i < ballotCount; i++) {
+            delete _hasVoted[voteId][voters[i]];
+            delete _delegations.ballotDelegates[voteId][voters[i]];
+            _ballots[voteId][voters[i]] = euint32.wrap(0);
+        }
+        delete _voters[voteId];
+        _voteCount[voteId] = 0;
+        _ballotCount[voteId] = 0;
+        _tallies[voteId].reset();
+        _rankedBallots[voteId].clear();
+
+        emit BallotsWiped(voteId, msg.sender, ballotCount);
+    }
+
+    /// @notice Add voters to the allowlist of a vote
+    /// @param voteId The ID of the vote
+    /// @param voters The addresses allowed to vote
+    function addToAllowlist(uint256 voteId, address[] calldata voters) external {
+        _requireAllowlistCreator(voteId);
+        _eligibleVoters[voteId].updateAllowlist(voteId, voters, true);
+    }
+
+    /// @notice Remove voters from the allowlist of a vote
+    /// @dev Ballots already cast by removed voters stay counted
+    /// @param voteId The ID of the vote
+    /// @param voters The addresses no longer allowed to vote
+    function removeFromAllowlist(uint256 voteId, address[] calldata voters) external {
+        _requireAllowlistCreator(voteId);
+        _eligibleVoters[voteId].updateAllowlist(voteId, voters, false);
+    }
+
+    /// @notice Prove membership of a Merkle-restricted vote's member list
+    /// @dev Leaves are keccak256(abi.encodePacked(voter)) and pairs are hashed in sorted order
+    /// @param voteId The ID of the vote
+    /// @param proof Sibling hashes from the caller's leaf up to the root
+    function proveEligibility(uint256 voteId, bytes32[] calldata proof) external {
+        Vote storage vote = votes[voteId];
+        require(vote.eligibility == EligibilityMode.Merkle, "Vote is not Merkle restricted");
+
+        _eligibleVoters[voteId].prove(voteId, vote.merkleRoot, msg.sender, proof);
+    }
+
+    /// @notice Decryption oracle callback storing the verified cleartext tallies of a vote
+    /// @param requestId The oracle request ID returned by FHE.requestDecryption
+    /// @param cleartexts ABI-encoded cleartext count of every option, the spoiled ballot count and,
+    /// for weighted votes, the weight of every option, followed by the outcome of votes with rules.
+    /// Outcome-only votes publish the outcome alone.
+    /// @param decryptionProof KMS signatures proving the cleartexts match the requested handles
+    function publishResults(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        uint256 voteId = _publicationRequests[requestId];
+        require(voteId != 0, "Unknown decryption request");
+        require(!_resultsPublished[voteId], "Results already published");
+
+        _resultsPublished[voteId] = true;
+        BallotTally.Results storage results = _results[voteId];
+        bool countsHidden = _rules[voteId].outcomeOnly;
+        uint256 outcome = _tallies[voteId].publish(results, requestId, cleartexts, decryptionProof, countsHidden);
+        if (FHE.isInitialized(_outcomes[voteId])) {
+            _publishedOutcomes[voteId] = outcome != 0;
+            emit OutcomePublished(voteId, outcome != 0);
+        }
+        if (!countsHidden) {
+            emit ResultsPublished(voteId, results.counts, results.spoiled, results.weights);
+        }
+    }
+
+    /// @notice Let another address vote for the caller, in one vote or in every vote
+    /// @dev The delegate's ballot is cast for the caller with the caller's own weight; a direct vote by the caller
+    /// replaces it. Delegating a vote whose delegate already voted casts their ballot for the caller right away,
+    /// global delegations apply to the ballots cast after them. A ballot already cast for the caller stays counted
+    /// when the delegation changes, until another one replaces it. Ranked-choice votes cannot be delegated.
+    /// Only cycles of up to 3 delegations are rejected, longer ones being harmless as ballots follow 3 hops at most.
+    /// Reverts when a ballot up the chain would have to be cast for more than 5 delegators.
+    /// @param voteId The ID of the vote, or 0 to delegate every vote
+    /// @param delegatee The address voting for the caller, zero to clear the delegation
+    function delegate(uint256 voteId, address delegatee) external {
+        _requireNotPaused();
+        if (voteId != VoteDelegation.GLOBAL) {
+            require(votes[voteId].active, "Vote is already ended");
+            require(votes[voteId].ballotType != BallotType.Ranked, "Ranked votes cannot be delegated");
+            require(isEligible(voteId, msg.sender), "Not eligible to vote");
+            require(getVoterWeight(voteId, msg.sender) > 0, "No voting weight at snapshot");
+        }
+        _delegations.setDelegate(voteId, msg.sender, delegatee, _hasVoted[voteId]);
+
+        bool delegateVoted = voteId != VoteDelegation.GLOBAL && _hasVoted[voteId][delegatee];
+        if (delegateVoted && getVoteState(voteId) == VoteState.Open) {
+            _castDelegatedBallot(voteId, msg.sender, delegatee, _ballots[voteId][delegatee]);
+        }
+    }
+
+    /// @notice Turn down a voter's delegation to the caller, in one vote or in every vote
+    /// @dev Frees room in the caller's delegation chain, e.g. from delegations made to fill it and lock other
+    /// delegators out. A ballot the caller already cast for the voter stays counted.
+    /// @param voteId The ID of the vote, or 0 for a global delegation
+    /// @param delegator The voter delegating to the caller
+    function removeDelegator(uint256 voteId, address delegator) external {
+        _delegations.removeDelegator(voteId, msg.sender, delegator);
+    }
+
+    /// @notice Allow the creator of an ended ranked-choice vote, or a tallier, to decrypt its rankings for the runoff
+    /// @dev Reveals every voter's individual ranking to the caller, who runs the instant-runoff tally off-chain:
+    /// ranked ballots are private from other voters, not from the creator and talliers
+    /// @param voteId The ID of the vote
+    function grantRankedBallotAccess(uint256 voteId) external {
+        Vote storage vote = votes[voteId];
+        _requireCreatorOrTallier(voteId);
+        require(vote.ballotType == BallotType.Ranked, "Vote is not ranked-choice");
+        require(!vote.active, "Vote has not ended");
+        require(!vote.cancelled, "Vote was cancelled");
+
+        _rankedBallots[voteId].allow(msg.sender);
+        emit RankedBallotAccessGranted(voteId, msg.sender);
+    }
+
+    /// @notice Publish the instant-runoff rounds of an ended ranked-choice vote
+    /// @dev Rounds are computed off-chain from the decrypted rankings. Only the first round is verified, against the
+    /// first preferences published by the oracle, so publishing waits for them and is impossible in outcome-only
+    /// votes. Later rounds are trusted to the caller, see RankedBallots.publishRounds.
+    /// @param voteId The ID of the vote
+    /// @param rounds Count per option of every round, eliminated options counting zero
+    function publishRankedRounds(uint256 voteId, uint32[][] calldata rounds) external {
+        Vote storage vote = votes[voteId];
+        _requireCreatorOrTallier(voteId);
+        require(vote.ballotType == BallotType.Ranked, "Vote is not ranked-choice");
+        require(!vote.active, "Vote has not ended");
+        require(!vote.cancelled, "Vote was cancelled");
+
+        _rankedBallots[voteId].publishRounds(rounds, _results[voteId].counts);
+        emit RankedRoundsPublished(voteId, rounds.length);
     }
 
     /// @notice Get vote information
@@ -154,6 +565,7 @@ contract EncryptedVotingSystem is SepoliaConfig {
     /// @return endTime Voting end time
     /// @return active Whether the vote is active
     /// @return creator Vote creator address
+    /// @return liveResults Whether results may be decrypted before the vote has ended
     function getVote(uint256 voteId) external view returns (
         string memory title,
         string memory description,
@@ -161,7 +573,8 @@ contract EncryptedVotingSystem is SepoliaConfig {
         uint256 startTime,
         uint256 endTime,
         bool active,
-        address creator
+        address creator,
+        bool liveResults
     ) {
         Vote storage vote = votes[voteId];
         return (
@@ -171,24 +584,126 @@ contract EncryptedVotingSystem is SepoliaConfig {
             vote.startTime,
             vote.endTime,
             vote.active,
-            vote.creator
+            vote.creator,
+            vote.liveResults
         );
     }
 
-    /// @notice Get the total number of votes cast for a vote
+    /// @notice Get the lifecycle state of a vote
+    /// @dev Scheduled, Open and Closed follow from the current time, so a vote past its end time is Closed
+    /// even before endVote has run
+    /// @param voteId The ID of the vote
+    /// @return The current state of the vote
+    function getVoteState(uint256 voteId) public view returns (VoteState) {
+        Vote storage vote = votes[voteId];
+        require(vote.creator != address(0), "Vote does not exist");
+
+        if (vote.cancelled) {
+            return VoteState.Cancelled;
+        }
+        if (vote.draft) {
+            return VoteState.Draft;
+        }
+        if (_resultsPublished[voteId]) {
+            return VoteState.Tallied;
+        }
+        if (!vote.active || block.timestamp > vote.endTime) {
+            return VoteState.Closed;
+        }
+        return block.timestamp < vote.startTime ? VoteState.Scheduled : VoteState.Open;
+    }
+
+    /// @notice Check whether the results of a vote may currently be decrypted
+    /// @dev Embargoed votes only unlock once endVote has run; live votes are readable at any time.
+    /// Cancelled votes never unlock.
     /// @param voteId The ID of the vote
-    /// @return The total number of votes cast
+    /// @return True if requestDecryptVoteResults will grant access
+    function areResultsAvailable(uint256 voteId) public view returns (bool) {
+        Vote storage vote = votes[voteId];
+        return vote.creator != address(0) && !vote.cancelled && (!vote.active || vote.liveResults);
+    }
+
+    /// @notice Check whether a vote was moved to the archive
+    /// @param voteId The ID of the vote
+    /// @return True once archiveVote has run
+    function isVoteArchived(uint256 voteId) external view returns (bool) {
+        return _archived[voteId];
+    }
+
+    /// @notice Get the number of voters a ballot is counted for in a vote
+    /// @dev Counts voters who voted directly and delegators whose delegate's ballot was cast for them, each once
+    /// @param voteId The ID of the vote
+    /// @return The number of distinct voters
     function getVoteCount(uint256 voteId) external view returns (uint256) {
         return _voteCount[voteId];
     }
 
-    /// @notice Get all encrypted vote choices for a vote (for decryption)
+    /// @notice Get the encrypted vote counter of every option of a vote
+    /// @dev Handles are public; decrypting them requires ACL access granted by requestDecryptVoteResults
     /// @param voteId The ID of the vote
-    /// @return encryptedVotes Array of all encrypted vote choices
-    function getEncryptedVoteChoices(uint256 voteId) external view returns (euint32[] memory encryptedVotes) {
-        // Allow viewing encrypted votes at any time for development/testing purposes
-        // require(!votes[voteId].active, "Cannot view encrypted votes while voting is active");
-        return _encryptedVoteChoices[voteId];
+    /// @return tallies Encrypted counters, indexed by option
+    function getEncryptedTallies(uint256 voteId) external view returns (euint32[] memory tallies) {
+        return _tallies[voteId].counts;
+    }
+
+    /// @notice Get the eligibility rule of a vote
+    /// @param voteId The ID of the vote
+    /// @return mode Who may vote
+    /// @return merkleRoot Root of the member list, zero unless mode is Merkle
+    function getVoteEligibility(uint256 voteId) external view returns (EligibilityMode mode, bytes32 merkleRoot) {
+        return (votes[voteId].eligibility, votes[voteId].merkleRoot);
+    }
+
+    /// @notice Check whether an address may currently vote in a vote
+    /// @dev Voters of a Merkle-restricted vote become eligible once they have called proveEligibility
+    /// @param voteId The ID of the vote
+    /// @param voter The address to check
+    /// @return True if the address may vote
+    function isEligible(uint256 voteId, address voter) public view returns (bool) {
+        return votes[voteId].eligibility == EligibilityMode.Open || _eligibleVoters[voteId][voter];
+    }
+
+    /// @notice Get the token snapshot weighting the ballots of a vote
+    /// @param voteId The ID of the vote
+    /// @return token The weighting token, zero for one ballot one vote
+    /// @return unit Token amount worth one vote
+    /// @return snapshot Token clock at which balances are read
+    function getVoteWeighting(uint256 voteId) external view returns (address token, uint256 unit, uint48 snapshot) {
+        VoterEligibility.Weighting storage weighting = _weightings[voteId];
+        return (weighting.token, weighting.unit, weighting.snapshot);
+    }
+
+    /// @notice Get the weight a voter's ballot adds to a vote's weighted tallies
+    /// @dev Reverts on weighted votes while the token clock has not passed the snapshot yet
+    /// @param voteId The ID of the vote
+    /// @param voter The address of the voter
+    /// @return weight Snapshot balance divided by the weight unit, 1 for unweighted votes
+    function getVoterWeight(uint256 voteId, address voter) public view returns (uint64 weight) {
+        return _weightings[voteId].weightOf(voter);
+    }
+
+    /// @notice Get the encrypted sum of ballot weights of every option of a weighted vote
+    /// @param voteId The ID of the vote
+    /// @return Encrypted weights indexed by option, empty for unweighted votes
+    function getEncryptedWeightedTallies(uint256 voteId) external view returns (euint64[] memory) {
+        return _tallies[voteId].weights;
+    }
+
+    /// @notice Get the encrypted number of spoiled ballots of a vote
+    /// @dev A ballot is spoiled when its encrypted option index is outside the vote's options
+    /// @param voteId The ID of the vote
+    /// @return The encrypted spoiled ballot count
+    function getEncryptedSpoiledCount(uint256 voteId) external view returns (euint32) {
+        return _tallies[voteId].spoiled;
+    }
+
+    /// @notice Get the encrypted ballot a voter cast in a vote
+    /// @dev Only the voter and this contract are allowed to decrypt it
+    /// @param voteId The ID of the vote
+    /// @param voter The address of the voter
+    /// @return The encrypted option index or approval bitmask, or an uninitialized handle if the voter has not voted
+    function getEncryptedBallot(uint256 voteId, address voter) external view returns (euint32) {
+        return _ballots[voteId][voter];
     }
 
     /// @notice Check if user has voted in a specific vote
@@ -199,6 +714,38 @@ contract EncryptedVotingSystem is SepoliaConfig {
         return _hasVoted[voteId][user];
     }
 
+    /// @notice Get who votes for a voter in a vote
+    /// @param voteId The ID of the vote, or 0 for the voter's global delegate
+    /// @param voter The address of the voter
+    /// @return delegatee The delegate for the vote, else the global delegate, zero for voters who do not delegate
+    /// @return ballotDelegate The delegate whose ballot is counted for the voter, zero if none is
+    function getDelegation(uint256 voteId, address voter)
+        external
+        view
+        returns (address delegatee, address ballotDelegate)
+    {
+        return _delegations.delegation(voteId, voter, _hasVoted[voteId]);
+    }
+
+    /// @notice Get the encrypted rankings of a ranked-choice vote
+    /// @param voteId The ID of the vote
+    /// @return voters The addresses that cast a ranked ballot, in casting order
+    /// @return rankings The encrypted packed ranking of each voter
+    function getRankedBallots(uint256 voteId)
+        external
+        view
+        returns (address[] memory voters, euint64[] memory rankings)
+    {
+        return _rankedBallots[voteId].list();
+    }
+
+    /// @notice Get the published instant-runoff rounds of a ranked-choice vote
+    /// @param voteId The ID of the vote
+    /// @return Count per option of every round, empty until the creator publishes them
+    function getRankedRounds(uint256 voteId) external view returns (uint32[][] memory) {
+        return _rankedBallots[voteId].rounds;
+    }
+
     /// @notice Get the next available vote ID
     /// @return The next vote ID
     function getNextVoteId() external view returns (uint256) {
@@ -206,44 +753,65 @@ contract EncryptedVotingSystem is SepoliaConfig {
     }
 
     /// @notice Request decryption of all vote results for a specific vote
+    /// @dev Grants the caller ACL access to the per-option counters and weights and the spoiled ballot counter,
+    /// never to individual ballots. The second parameter, a caller-chosen request identifier, is unused.
     /// @param voteId The ID of the vote
-    /// @param requestId A unique identifier for this decryption request
     /// @return Array of encrypted vote counts for each option
-    function requestDecryptVoteResults(uint256 voteId, uint256 requestId) external returns (euint32[] memory) {
-        // Allow decryption at any time for development/testing purposes
-        // require(!votes[voteId].active, "Cannot decrypt results while voting is active");
-
-        uint256 voteCount = _encryptedVoteChoices[voteId].length;
-        euint32[] memory encryptedResults = new euint32[](voteCount);
-
-        // Return all encrypted vote choices
-        for (uint256 i = 0; i < voteCount; i++) {
-            encryptedResults[i] = _encryptedVoteChoices[voteId][i];
-            // Grant decryption permissions
-            FHE.allowThis(encryptedResults[i]);
-            FHE.allow(encryptedResults[i], msg.sender);
-        }
+    function requestDecryptVoteResults(uint256 voteId, uint256 /* requestId */) external returns (euint32[] memory) {
+        require(areResultsAvailable(voteId), "Results are embargoed until the vote has ended");
+        require(!_rules[voteId].outcomeOnly, "Vote only reveals its outcome");
+
+        // Grant decryption permissions
+        _tallies[voteId].allow(msg.sender);
 
         emit VoteDecrypted(voteId, msg.sender, 999); // 999 indicates results decryption
-        return encryptedResults;
+        return _tallies[voteId].counts;
+    }
+
+    /// @notice Get the publicly decrypted results of a vote
+    /// @param voteId The ID of the vote
+    /// @return published Whether the oracle has published the results yet
+    /// @return counts Verified cleartext count per option, empty until published
+    /// @return spoiled Verified cleartext number of spoiled ballots
+    /// @return weights Verified cleartext weight per option, empty for unweighted votes
+    function getPublishedResults(uint256 voteId)
+        external
+        view
+        returns (bool published, uint32[] memory counts, uint32 spoiled, uint64[] memory weights)
+    {
+        BallotTally.Results storage results = _results[voteId];
+        return (_resultsPublished[voteId], results.counts, results.spoiled, results.weights);
+    }
+
+    /// @notice Get the governance rules deciding whether a vote passes
+    /// @param voteId The ID of the vote
+    /// @return The quorum, threshold and whether only the outcome is published, all zero for votes without rules
+    function getVoteRules(uint256 voteId) external view returns (BallotTally.Rules memory) {
+        return _rules[voteId];
+    }
+
+    /// @notice Get the publicly decrypted outcome of a vote with rules
+    /// @param voteId The ID of the vote
+    /// @return published Whether the oracle has published the outcome yet
+    /// @return passed Whether the quorum was met and the first option reached the threshold
+    function getPublishedOutcome(uint256 voteId) external view returns (bool published, bool passed) {
+        published = _resultsPublished[voteId] && FHE.isInitialized(_outcomes[voteId]);
+        return (published, _publishedOutcomes[voteId]);
     }
 
     /// @notice Get voting statistics for a specific vote
     /// @param voteId The ID of the vote
-    /// @return totalVotes Total number of votes cast
-    /// @return uniqueVoters Number of unique voters
+    /// @return totalVotes Total number of ballots cast, replaced ballots of revotable votes included
+    /// @return uniqueVoters Number of distinct voters
     /// @return isActive Whether the vote is still active
     function getVoteStatistics(uint256 voteId)
         external
         view
         returns (uint32 totalVotes, uint256 uniqueVoters, bool isActive)
     {
-        Vote memory voteData = votes[voteId];
-        require(voteData.creator != address(0), "Vote does not exist");
-
-        totalVotes = uint32(_voteCount[voteId]);
-        uniqueVoters = totalVotes; // Simplified: assume each vote is from unique voter
-        isActive = voteData.active && block.timestamp < voteData.endTime;
+        totalVotes = uint32(_ballotCount[voteId]);
+        uniqueVoters = _voteCount[voteId];
+        isActive = getVoteState(voteId) == VoteState.Open;
 
         return (totalVotes, uniqueVoters, isActive);
     }
@@ -257,31 +825,14 @@ contract EncryptedVotingSystem is SepoliaConfig {
         externalEuint32[] calldata encryptedChoices,
         bytes[] calldata inputProofs
     ) external {
+        _requireNotPaused();
         require(voteIds.length == encryptedChoices.length, "Array length mismatch");
         require(voteIds.length == inputProofs.length, "Array length mismatch");
         require(voteIds.length > 0, "Cannot cast empty batch");
         require(voteIds.length <= 5, "Batch size limited to 5 votes for gas efficiency");
 
         for (uint256 i = 0; i < voteIds.length; i++) {
-            uint256 voteId = voteIds[i];
-            Vote memory voteData = votes[voteId];
-            require(voteData.creator != address(0), "Vote does not exist");
-            require(voteData.active && block.timestamp >= voteData.startTime && block.timestamp <= voteData.endTime, "Vote not active");
-            require(!_hasVoted[voteId][msg.sender], "Already voted");
-
-            // Convert external input to internal FHE type
-            euint32 encryptedChoice = FHE.fromExternal(encryptedChoices[i], inputProofs[i]);
-
-            // Store the encrypted vote choice
-            _encryptedVoteChoices[voteId].push(encryptedChoice);
-            _hasVoted[voteId][msg.sender] = true;
-            _voteCount[voteId]++;
-
-            // Grant decryption permissions
-            FHE.allowThis(encryptedChoice);
-            FHE.allow(encryptedChoice, msg.sender);
-
-            emit VoteCast(voteId, msg.sender);
+            _castVote(voteIds[i], msg.sender, encryptedChoices[i], inputProofs[i]);
         }
     }
 
@@ -294,7 +845,7 @@ contract EncryptedVotingSystem is SepoliaConfig {
         view
         returns (bool isValid)
     {
-        Vote memory voteData = votes[voteId];
+        Vote storage voteData = votes[voteId];
         if (voteData.creator == address(0)) {
             return false;
         }
@@ -302,6 +853,14 @@ contract EncryptedVotingSystem is SepoliaConfig {
         return optionIndex < voteData.options.length;
     }
 
+    /// @notice Get the number of distinct voters across every vote of this contract
+    /// @dev Counts voters like getVoteCount, delegators included, from the first ballot counted for them in any
+    /// vote. They stay counted if that vote's ballots are wiped.
+    /// @return The number of distinct voters
+    function getParticipantCount() external view returns (uint256) {
+        return _participantCount;
+    }
+
     /// @notice Get voting participation rate for a specific vote
     /// @param voteId The ID of the vote
     /// @param expectedParticipants Expected number of participants
@@ -312,8 +871,7 @@ contract EncryptedVotingSystem is SepoliaConfig {
         view
         returns (uint256 participationRate, uint32 actualVotes)
     {
-        Vote memory voteData = votes[voteId];
-        require(voteData.creator != address(0), "Vote does not exist");
+        getVoteState(voteId); // Reverts for unknown votes
 
         actualVotes = uint32(_voteCount[voteId]);
         if (expectedParticipants == 0) {
@@ -332,8 +890,8 @@ contract EncryptedVotingSystem is SepoliaConfig {
     /// @param titles Array of vote titles
     /// @param descriptions Array of vote descriptions
     /// @param optionsList Array of option arrays for each vote
-    /// @param startTimes Array of start times
-    /// @param endTimes Array of end times
+    /// @param startTimes Array of start times, 0 to open right away
+    /// @param endTimes Array of end times, 1 minute to 365 days after their start time
     function batchInitializeVotes(
         string[] calldata titles,
         string[] calldata descriptions,
@@ -341,6 +899,8 @@ contract EncryptedVotingSystem is SepoliaConfig {
         uint256[] calldata startTimes,
         uint256[] calldata endTimes
     ) external {
+        _requireNotPaused();
+        _requireRole(VOTE_CREATOR_ROLE);
         require(titles.length == descriptions.length, "Array length mismatch");
         require(titles.length == optionsList.length, "Array length mismatch");
         require(titles.length == startTimes.length, "Array length mismatch");
@@ -349,22 +909,238 @@ contract EncryptedVotingSystem is SepoliaConfig {
         require(titles.length <= 10, "Batch size limited to 10 votes for gas efficiency");
 
         for (uint256 i = 0; i < titles.length; i++) {
-            require(optionsList[i].length >= 2, "Each vote must have at least 2 options");
             require(optionsList[i].length <= 10, "Each vote limited to 10 options");
-            require(startTimes[i] < endTimes[i], "Start time must be before end time");
-
-            votes[_nextVoteId] = Vote({
-                title: titles[i],
-                description: descriptions[i],
-                options: optionsList[i],
-                startTime: startTimes[i],
-                endTime: endTimes[i],
-                active: true,
-                creator: msg.sender
-            });
-
-            emit VoteCreated(_nextVoteId, msg.sender, titles[i]);
-            _nextVoteId++;
+
+            // Settings keep their defaults: embargoed results, open eligibility, plurality ballots, published
+            uint256 voteId = _initializeVote(titles[i], descriptions[i], optionsList[i], startTimes[i], endTimes[i]);
+            _tallies[voteId].initialize(optionsList[i].length, false);
+        }
+    }
+
+    /// @notice Validate and store the fields every creation path of a vote shares
+    /// @param title Vote title
+    /// @param description Vote description
+    /// @param options Array of voting options
+    /// @param startTime Timestamp voting opens at, 0 to open right away
+    /// @param endTime Timestamp voting closes at
+    /// @return voteId The ID of the created vote
+    function _initializeVote(
+        string calldata title,
+        string calldata description,
+        string[] calldata options,
+        uint256 startTime,
+        uint256 endTime
+    ) private returns (uint256 voteId) {
+        voteId = _nextVoteId++;
+        Vote storage vote = votes[voteId];
+        vote.startTime = VoteDetails.store(vote.options, title, description, options, startTime, endTime);
+        vote.title = title;
+        vote.description = description;
+        vote.endTime = endTime;
+        vote.active = true;
+        vote.creator = msg.sender;
+
+        emit VoteCreated(voteId, msg.sender, title);
+    }
+
+    /// @notice Check that the caller created a vote restricted to an allowlist
+    /// @param voteId The ID of the vote
+    function _requireAllowlistCreator(uint256 voteId) private view {
+        Vote storage vote = votes[voteId];
+        require(msg.sender == vote.creator, "Only the creator sets allowlists");
+        require(vote.eligibility == EligibilityMode.Allowlist, "Vote does not use an allowlist");
+    }
+
+    /// @notice Check that the caller created a vote or is an admin
+    /// @param voteId The ID of the vote
+    function _requireCreatorOrAdmin(uint256 voteId) private view {
+        require(
+            msg.sender == votes[voteId].creator || hasRole(ADMIN_ROLE, msg.sender),
+            "Not the creator or an admin"
+        );
+    }
+
+    /// @notice Check that the caller created a vote or tallies votes
+    /// @param voteId The ID of the vote
+    function _requireCreatorOrTallier(uint256 voteId) private view {
+        require(
+            msg.sender == votes[voteId].creator || hasRole(TALLIER_ROLE, msg.sender),
+            "Not the creator or a tallier"
+        );
+    }
+
+    /// @notice Check that the caller holds a role, or that the role is open to everyone
+    /// @param role The required role
+    function _requireRole(bytes32 role) private view {
+        require(hasRole(role, msg.sender) || hasRole(role, address(0)), "Caller lacks the required role");
+    }
+
+    /// @notice Grant or revoke a role, emitting an event when it changes
+    /// @param role The role
+    /// @param account The account
+    /// @param granted Whether the account holds the role afterwards
+    function _setRole(bytes32 role, address account, bool granted) private {
+        if (_roles[role][account] == granted) {
+            return;
         }
+        _roles[role][account] = granted;
+        if (granted) {
+            emit RoleGranted(role, account, msg.sender);
+        } else {
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    /// @notice Check that voting is not paused
+    function _requireNotPaused() private view {
+        require(!_paused, "Voting is paused");
+    }
+
+    /// @notice Check that a voter may cast a ballot in a vote now
+    /// @param voteId The ID of the vote
+    /// @param voter The caller, or the voter of a forwarded ballot
+    function _requireCanVote(uint256 voteId, address voter) private view {
+        _requireNotPaused();
+        VoteState state = getVoteState(voteId);
+        require(state != VoteState.Cancelled, "Vote was cancelled");
+        require(state != VoteState.Draft, "Vote has not been published yet");
+        require(state != VoteState.Scheduled, "Voting has not started yet");
+        require(state == VoteState.Open, "Voting has ended");
+        require(!_hasVoted[voteId][voter] || votes[voteId].allowRevote, "Already voted in this vote");
+        require(isEligible(voteId, voter), "Not eligible to vote");
+    }
+
+    /// @notice Get the voter of a castVote call
+    /// @dev ERC-2771: the ballot forwarder appends the voter who signed the ballot to the calldata, after checking
+    /// their EIP-712 signature. Other callers vote for themselves.
+    /// @return The voter
+    function _msgSender() private view returns (address) {
+        if (msg.sender == ballotForwarder) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
+    }
+
+    /// @notice Verify a voter's encrypted option ID or approval bitmask and record it as their ballot
+    /// @dev Verifies the input like FHE.fromExternal, which only accepts inputs encrypted for msg.sender,
+    /// but for the voter, so that forwarded ballots need the voter's own input proof.
+    /// @param voteId The ID of the vote
+    /// @param voter The caller, or the voter of a forwarded ballot
+    /// @param encryptedOptionId The encrypted option ID, or the approval bitmask
+    /// @param inputProof The FHE input proof, for this contract and the voter
+    function _castVote(uint256 voteId, address voter, externalEuint32 encryptedOptionId, bytes calldata inputProof)
+        private
+    {
+        _requireCanVote(voteId, voter);
+        require(votes[voteId].ballotType != BallotType.Ranked, "Vote requires a ranked ballot");
+
+        bytes32 optionId = IFHEVMExecutor(Impl.getCoprocessorConfig().CoprocessorAddress).verifyCiphertext(
+            externalEuint32.unwrap(encryptedOptionId),
+            voter,
+            inputProof,
+            FheType.Uint32
+        );
+        _recordBallot(voteId, voter, euint32.wrap(optionId));
+    }
+
+    /// @notice Add a voter's encrypted ballot to the per-option counters of a vote, and cast it for their delegators
+    /// @dev Weighted votes also add the voter's snapshot weight to the chosen options' weighted tallies.
+    /// A voter's earlier ballot, their own in a revotable vote or one a delegate cast for them, is subtracted from
+    /// the counters first. Ranked ballots are not cast for delegators: the runoff reads the rankings themselves.
+    /// @param voteId The ID of the vote
+    /// @param voter The address casting the ballot
+    /// @param choice The encrypted option index, or the approval bitmask of approval votes
+    function _recordBallot(uint256 voteId, address voter, euint32 choice) private {
+        uint64 weight = getVoterWeight(voteId, voter);
+        require(weight > 0, "No voting weight at snapshot");
+
+        bool revote = _hasVoted[voteId][voter];
+        _hasVoted[voteId][voter] = true;
+        _ballotCount[voteId]++;
+        _countBallot(voteId, voter, choice, weight);
+
+        // The ballot itself stays readable by its voter only
+        FHE.allow(choice, voter);
+
+        if (revote) {
+            emit VoteChanged(voteId, voter);
+        } else {
+            emit VoteCast(voteId, voter);
+        }
+
+        if (votes[voteId].ballotType != BallotType.Ranked) {
+            (address[] memory delegators, uint256 count) = _delegations.represented(voteId, voter, _hasVoted[voteId]);
+            for (uint256 i = 0; i < count; i++) {
+                _castDelegatedBallot(voteId, delegators[i], voter, choice);
+            }
+        }
+    }
+
+    /// @notice Cast a delegate's ballot for a delegator who has not voted directly
+    /// @dev The ballot counts with the delegator's own weight; delegators without weight or not eligible for the
+    /// vote are skipped. The delegator cannot decrypt the ballot.
+    /// @param voteId The ID of the vote
+    /// @param delegator The address the ballot is cast for
+    /// @param delegatee The address whose ballot it is
+    /// @param choice The delegate's encrypted option index or approval bitmask
+    function _castDelegatedBallot(uint256 voteId, address delegator, address delegatee, euint32 choice) private {
+        uint64 weight = getVoterWeight(voteId, delegator);
+        if (weight == 0 || !isEligible(voteId, delegator)) {
+            return;
+        }
+        _countBallot(voteId, delegator, choice, weight);
+        _delegations.ballotDelegates[voteId][delegator] = delegatee;
+
+        emit DelegatedBallotCast(voteId, delegator, delegatee);
+    }
+
+    /// @notice Add a ballot to the per-option counters of a vote, taking back the ballot it replaces
+    /// @param voteId The ID of the vote
+    /// @param voter The address the ballot counts for
+    /// @param choice The encrypted option index, or the approval bitmask of approval votes
+    /// @param weight The voter's snapshot weight
+    function _countBallot(uint256 voteId, address voter, euint32 choice, uint64 weight) private {
+        euint32 previous = _ballots[voteId][voter];
+        if (!FHE.isInitialized(previous)) {
+            _voteCount[voteId]++;
+            _voters[voteId].push(voter);
+            if (!_hasParticipated[voter]) {
+                _hasParticipated[voter] = true;
+                _participantCount++;
+            }
+        }
+
+        // The snapshot weight is fixed, so a replaced ballot is taken back with the weight it was added with
+        bool approval = votes[voteId].ballotType == BallotType.Approval;
+        _tallies[voteId].record(previous, choice, weight, approval);
+
+        _ballots[voteId][voter] = choice;
+        FHE.allowThis(choice);
+    }
+
+    /// @notice Stop a vote accepting ballots and request the publication of its results
+    /// @param voteId The ID of the vote
+    function _closeVote(uint256 voteId) private {
+        votes[voteId].active = false;
+        emit VotingEnded(voteId);
+
+        BallotTally.Rules memory rules = _rules[voteId];
+        if (rules.quorum > 0 || rules.threshold != BallotTally.Threshold.None) {
+            _outcomes[voteId] = _tallies[voteId].evaluate(_voteCount[voteId], rules);
+        }
+        _requestResultsPublication(voteId);
+    }
+
+    /// @notice Ask the decryption oracle to publicly decrypt the tallies, spoiled ballot count and weights of a vote
+    /// @param voteId The ID of the vote
+    function _requestResultsPublication(uint256 voteId) private {
+        uint256 requestId = _tallies[voteId].requestPublication(
+            _outcomes[voteId],
+            _rules[voteId].outcomeOnly,
+            this.publishResults.selector
+        );
+        _publicationRequests[requestId] = voteId;
+
+        emit ResultsPublicationRequested(voteId, requestId);
     }
 }
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Functions VoteFactory calls on the EncryptedVotingSystem instances it deploys
+interface IElection {
+    function initialize(address electionOwner, address admin) external;
+    function endExpiredVotes(uint256[] calldata voteIds) external returns (uint256 ended);
+}
+
+/// @title Vote Factory
+/// @author crypto-vote
+/// @notice Deploys one EncryptedVotingSystem instance per election, as an EIP-1167 minimal proxy of a deployed
+/// implementation. Every election keeps its ballots, tallies and ACL grants in its own storage, so a bug or an
+/// FHE.allow mistake in one election cannot reach the others.
+/// The creator owns the instance and creates the election's vote in it, which always has ID 1. The factory owner
+/// holds ADMIN_ROLE in every instance created while they own the factory, to cancel, close or archive elections.
+contract VoteFactory {
+    // ID of the vote holding an election in its instance
+    uint256 public constant ELECTION_VOTE_ID = 1;
+
+    address public immutable implementation; // EncryptedVotingSystem every election delegates to
+
+    address private _owner;
+    address[] private _elections; // Instances in creation order, election ID = position + 1
+    mapping(address => uint256) private _electionIds; // instance => election ID, zero if unknown
+    mapping(address => address[]) private _electionsByCreator; // creator => instances, in creation order
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event ElectionCreated(uint256 indexed electionId, address indexed creator, address election);
+
+    /// @param implementation_ A deployed EncryptedVotingSystem; its own votes are independent of the elections
+    constructor(address implementation_) {
+        require(implementation_.code.length > 0, "Invalid implementation address");
+        implementation = implementation_;
+        _owner = msg.sender;
+    }
+
+    function owner() external view returns (address) {
+        return _owner;
+    }
+
+    /// @notice Hand the factory over to another account
+    /// @dev Only elections created afterwards make the new owner an admin; earlier instances keep their admins
+    /// @param newOwner The new owner
+    function transferOwnership(address newOwner) external {
+        require(msg.sender == _owner, "Only owner can transfer ownership");
+        require(newOwner != address(0), "Invalid owner address");
+        emit OwnershipTransferred(_owner, newOwner);
+        _owner = newOwner;
+    }
+
+    /// @notice Deploy the instance of a new election, owned by the caller
+    /// @dev The caller then creates the election's vote with createVote on the instance
+    /// @return electionId The ID of the election, starting at 1
+    /// @return election The address of its EncryptedVotingSystem instance
+    function createElection() external returns (uint256 electionId, address election) {
+        election = _clone(implementation);
+        IElection(election).initialize(msg.sender, _owner);
+
+        _elections.push(election);
+        electionId = _elections.length;
+        _electionIds[election] = electionId;
+        _electionsByCreator[msg.sender].push(election);
+        emit ElectionCreated(electionId, msg.sender, election);
+    }
+
+    /// @notice End every listed election whose end time has passed
+    /// @dev Anyone can call it, like endExpiredVotes on each instance, which skips elections that have not expired
+    /// @param electionIds The IDs of the elections to end
+    /// @return ended The number of elections ended
+    function endExpiredElections(uint256[] calldata electionIds) external returns (uint256 ended) {
+        uint256[] memory voteIds = new uint256[](1);
+        voteIds[0] = ELECTION_VOTE_ID;
+        for (uint256 i = 0; i < electionIds.length; i++) {
+            ended += IElection(getElection(electionIds[i])).endExpiredVotes(voteIds);
+        }
+    }
+
+    /// @notice Get the instance of an election
+    /// @param electionId The ID of the election
+    /// @return The address of its EncryptedVotingSystem instance
+    function getElection(uint256 electionId) public view returns (address) {
+        require(electionId > 0 && electionId <= _elections.length, "Election does not exist");
+        return _elections[electionId - 1];
+    }
+
+    /// @notice Get the instances of every election, election ID = position + 1
+    /// @return The instances in creation order
+    function getElections() external view returns (address[] memory) {
+        return _elections;
+    }
+
+    /// @notice Get the instances of the elections created by an account
+    /// @param creator The creator
+    /// @return The instances in creation order
+    function getElectionsByCreator(address creator) external view returns (address[] memory) {
+        return _electionsByCreator[creator];
+    }
+
+    /// @notice Get the ID of an election from its instance
+    /// @param election The address of the instance
+    /// @return The ID of the election, zero for addresses the factory did not deploy
+    function electionIdOf(address election) external view returns (uint256) {
+        return _electionIds[election];
+    }
+
+    /// @notice Deploy an EIP-1167 minimal proxy delegating every call to an implementation
+    /// @param target The implementation
+    /// @return instance The address of the proxy
+    function _clone(address target) private returns (address instance) {
+        // Same creation code as OpenZeppelin's Clones.clone
+        assembly ("memory-safe") {
+            mstore(0x00, or(shr(0xe8, shl(0x60, target)), 0x3d602d80600a3d3981f3363d3d373d3d3d363d73000000))
+            mstore(0x20, or(shl(0x78, target), 0x5af43d82803e903d91602b57fd5bf3))
+            instance := create(0, 0x09, 0x37)
+        }
+        require(instance != address(0), "Election deployment failed");
+    }
+}
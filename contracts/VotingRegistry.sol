@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Voting Deployment Registry
+/// @author crypto-vote
+/// @notice Versioned list of the EncryptedVotingSystem deployments of a network, oldest first.
+/// Encrypted ballots stay bound to the contract holding their ACL grants, so a redeployed voting contract starts
+/// empty. The registry keeps the older deployments discoverable, so their votes stay readable, and maps each
+/// vote copied to a newer deployment by task:vote-migrate to its copy.
+contract VotingRegistry {
+    // A registered EncryptedVotingSystem deployment
+    struct Deployment {
+        address votingSystem;
+        string version; // Release label, e.g. the package version it was deployed from
+        uint256 registeredAt; // Block timestamp of the registration
+    }
+
+    // Where a vote of an older deployment was copied to
+    struct Migration {
+        address votingSystem; // Zero address for votes that were not migrated
+        uint256 voteId;
+    }
+
+    address private _owner;
+    Deployment[] private _deployments;
+    mapping(address => uint256) private _versions; // votingSystem => position in _deployments + 1, zero if unknown
+    mapping(address => mapping(uint256 => Migration)) private _migrations; // votingSystem => voteId => copy
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event DeploymentRegistered(uint256 indexed version, address indexed votingSystem, string label);
+    event VoteMigrated(address indexed from, uint256 indexed fromVoteId, address indexed to, uint256 toVoteId);
+
+    constructor() {
+        _owner = msg.sender;
+    }
+
+    function owner() external view returns (address) {
+        return _owner;
+    }
+
+    /// @notice Hand the registry over to another account
+    /// @param newOwner The new owner
+    function transferOwnership(address newOwner) external {
+        _requireOwner();
+        require(newOwner != address(0), "Invalid owner address");
+        emit OwnershipTransferred(_owner, newOwner);
+        _owner = newOwner;
+    }
+
+    /// @notice Register a new deployment as the latest version
+    /// @dev Only the owner can register deployments, each one once
+    /// @param votingSystem The address of the EncryptedVotingSystem deployment
+    /// @param label The release label of the deployment
+    function register(address votingSystem, string calldata label) external {
+        _requireOwner();
+        require(votingSystem != address(0), "Invalid deployment address");
+        require(_versions[votingSystem] == 0, "Deployment already registered");
+
+        _deployments.push(Deployment(votingSystem, label, block.timestamp));
+        _versions[votingSystem] = _deployments.length;
+        emit DeploymentRegistered(_deployments.length, votingSystem, label);
+    }
+
+    /// @notice Record that votes of a deployment were copied to a newer one
+    /// @dev Only the owner can record migrations. Both deployments must be registered, the target after the source.
+    /// @param from The deployment the votes were copied from
+    /// @param to The deployment the votes were copied to
+    /// @param fromVoteIds The IDs of the votes in `from`
+    /// @param toVoteIds The IDs of their copies in `to`
+    function recordMigrations(
+        address from,
+        address to,
+        uint256[] calldata fromVoteIds,
+        uint256[] calldata toVoteIds
+    ) external {
+        _requireOwner();
+        require(_versions[from] != 0 && _versions[to] > _versions[from], "Votes must move to a newer deployment");
+        require(fromVoteIds.length == toVoteIds.length, "Array length mismatch");
+
+        for (uint256 i = 0; i < fromVoteIds.length; i++) {
+            _migrations[from][fromVoteIds[i]] = Migration(to, toVoteIds[i]);
+            emit VoteMigrated(from, fromVoteIds[i], to, toVoteIds[i]);
+        }
+    }
+
+    /// @notice Get every registered deployment
+    /// @return The deployments, oldest first; the last one is the current version
+    function getDeployments() external view returns (Deployment[] memory) {
+        return _deployments;
+    }
+
+    /// @notice Get the current version
+    /// @return The address of the latest registered deployment, zero while none is registered
+    function latest() external view returns (address) {
+        return _deployments.length == 0 ? address(0) : _deployments[_deployments.length - 1].votingSystem;
+    }
+
+    /// @notice Get the version number of a deployment
+    /// @param votingSystem The address of the deployment
+    /// @return The version, starting at 1, or zero for unregistered addresses
+    function versionOf(address votingSystem) external view returns (uint256) {
+        return _versions[votingSystem];
+    }
+
+    /// @notice Get where a vote was copied to
+    /// @param votingSystem The deployment holding the vote
+    /// @param voteId The ID of the vote
+    /// @return The deployment and vote ID of the copy, zero when the vote was not migrated
+    function getMigration(address votingSystem, uint256 voteId) external view returns (Migration memory) {
+        return _migrations[votingSystem][voteId];
+    }
+
+    function _requireOwner() private view {
+        require(msg.sender == _owner, "Only owner can manage the registry");
+    }
+}
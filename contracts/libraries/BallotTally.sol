@@ -0,0 +1,294 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint32, euint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title Ballot Tally Library
+/// @author crypto-vote
+/// @notice Homomorphic per-option counters of a vote, fed by single-choice or approval ballots.
+/// Deployed as a linked library so the voting contract stays below the contract size limit;
+/// its functions run through DELEGATECALL, so ACL grants and FHE configuration are the caller's.
+library BallotTally {
+    // Approval ballots are one bit per option of an euint32
+    uint256 internal constant MAX_APPROVAL_OPTIONS = 32;
+
+    // Share of the counted ballots, or of their weight in weighted votes, the first option of a vote, its motion, needs
+    // to pass
+    enum Threshold {
+        None, // no threshold, only the quorum applies
+        Majority, // more than half
+        Supermajority, // at least two thirds
+        Count // at least a fixed number of ballots, or of weight in weighted votes
+    }
+
+    // Governance rules deciding whether a vote passes
+    struct Rules {
+        uint32 quorum; // Ballots that must be cast, spoiled ones included
+        Threshold threshold;
+        uint32 thresholdCount; // Ballots, or weight in weighted votes, the first option needs with the Count threshold
+        bool outcomeOnly; // Whether only the pass/fail outcome is published, the counters staying encrypted
+    }
+
+    // Encrypted counters of a vote
+    struct Tally {
+        euint32[] counts; // Ballot count per option
+        euint64[] weights; // Sum of ballot weights per option, empty for unweighted votes
+        euint32 spoiled; // Ballots matching no option
+        euint64 countedWeight; // Sum of the weights of the ballots matching an option, weighted votes only
+    }
+
+    // Verified cleartext counters of a vote, published by the decryption oracle
+    struct Results {
+        uint32[] counts; // Count per option
+        uint64[] weights; // Weight per option, empty for unweighted votes
+        uint32 spoiled; // Ballots matching no option
+    }
+
+    /// @notice Create encrypted zero counters for every option
+    /// @param tally The counters of the vote
+    /// @param optionCount The number of options of the vote
+    /// @param weighted Whether ballots of the vote carry a token weight
+    function initialize(Tally storage tally, uint256 optionCount, bool weighted) public {
+        for (uint256 i = 0; i < optionCount; i++) {
+            tally.counts.push(FHE.asEuint32(0));
+            FHE.allowThis(tally.counts[i]);
+
+            if (weighted) {
+                tally.weights.push(FHE.asEuint64(0));
+                FHE.allowThis(tally.weights[i]);
+            }
+        }
+
+        tally.spoiled = FHE.asEuint32(0);
+        FHE.allowThis(tally.spoiled);
+        if (weighted) {
+            tally.countedWeight = FHE.asEuint64(0);
+            FHE.allowThis(tally.countedWeight);
+        }
+    }
+
+    /// @notice Replace every counter with an encrypted zero, dropping the ballots added so far
+    /// @param tally The counters of the vote
+    function reset(Tally storage tally) public {
+        uint256 optionCount = tally.counts.length;
+        bool weighted = tally.weights.length > 0;
+        delete tally.counts;
+        delete tally.weights;
+        initialize(tally, optionCount, weighted);
+    }
+
+    /// @notice Add an encrypted ballot to the counters, taking back the ballot of the same voter it replaces
+    /// @dev Every counter is updated with FHE.select, so the ballot never leaves the encrypted domain.
+    /// A choice outside the options, or an approval bitmask with a bit set beyond them, counts for no option
+    /// and is added to the spoiled ballot counter instead. Bit i of an approval bitmask approves option i.
+    /// @param tally The counters of the vote
+    /// @param previous The voter's earlier ballot, uninitialized for a first ballot
+    /// @param ballot The encrypted option index, or the approval bitmask of approval votes
+    /// @param weight The ballot weight, also the one the earlier ballot was added with
+    /// @param approval Whether the ballots are approval bitmasks
+    function record(Tally storage tally, euint32 previous, euint32 ballot, uint64 weight, bool approval) public {
+        if (approval) {
+            if (FHE.isInitialized(previous)) {
+                _countApprovals(tally, previous, weight, true);
+            }
+            _countApprovals(tally, ballot, weight, false);
+        } else {
+            if (FHE.isInitialized(previous)) {
+                _countChoice(tally, previous, weight, true);
+            }
+            _countChoice(tally, ballot, weight, false);
+        }
+    }
+
+    /// @notice Allow an address to decrypt every counter
+    /// @param tally The counters of the vote
+    /// @param account The address granted ACL access
+    function allow(Tally storage tally, address account) public {
+        for (uint256 i = 0; i < tally.counts.length; i++) {
+            FHE.allow(tally.counts[i], account);
+        }
+        for (uint256 i = 0; i < tally.weights.length; i++) {
+            FHE.allow(tally.weights[i], account);
+        }
+        FHE.allow(tally.spoiled, account);
+    }
+
+    /// @notice Compute the encrypted outcome of a vote under its rules
+    /// @dev Turnout is public, so a missed quorum fails the vote without reading the counters. The quorum counts
+    /// ballots; thresholds compare ballot counts, or ballot weights in weighted votes. Spoiled ballots are not counted.
+    /// @param tally The counters of the vote
+    /// @param turnout The number of ballots cast
+    /// @param rules The quorum and threshold of the vote
+    /// @return passed Whether the quorum was met and the first option reached the threshold
+    function evaluate(Tally storage tally, uint256 turnout, Rules memory rules) public returns (ebool passed) {
+        if (turnout < rules.quorum) {
+            passed = FHE.asEbool(false);
+        } else if (rules.threshold == Threshold.None) {
+            passed = FHE.asEbool(true);
+        } else {
+            euint64 motion;
+            euint64 counted;
+            if (tally.weights.length > 0) {
+                motion = tally.weights[0];
+                counted = tally.countedWeight;
+            } else {
+                motion = FHE.asEuint64(tally.counts[0]);
+                counted = FHE.asEuint64(FHE.sub(FHE.asEuint32(uint32(turnout)), tally.spoiled));
+            }
+            if (rules.threshold == Threshold.Majority) {
+                passed = FHE.gt(FHE.mul(motion, uint64(2)), counted);
+            } else if (rules.threshold == Threshold.Supermajority) {
+                passed = FHE.ge(FHE.mul(motion, uint64(3)), FHE.mul(counted, uint64(2)));
+            } else {
+                passed = FHE.ge(motion, uint64(rules.thresholdCount));
+            }
+        }
+        FHE.allowThis(passed);
+    }
+
+    /// @notice Add a choice to, or subtract it from, the counters
+    /// @param remove Whether the choice is taken back
+    function _countChoice(Tally storage tally, euint32 choice, uint64 weight, bool remove) private {
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        for (uint256 i = 0; i < tally.counts.length; i++) {
+            ebool isChoice = FHE.eq(choice, uint32(i));
+            tally.counts[i] = _apply(tally.counts[i], FHE.select(isChoice, one, zero), remove);
+            FHE.allowThis(tally.counts[i]);
+
+            if (tally.weights.length > 0) {
+                euint64 weightIncrement = FHE.select(isChoice, FHE.asEuint64(weight), FHE.asEuint64(0));
+                tally.weights[i] = _apply(tally.weights[i], weightIncrement, remove);
+                FHE.allowThis(tally.weights[i]);
+            }
+        }
+
+        ebool inRange = FHE.lt(choice, uint32(tally.counts.length));
+        tally.spoiled = _apply(tally.spoiled, FHE.select(inRange, zero, one), remove);
+        FHE.allowThis(tally.spoiled);
+        _countWeight(tally, inRange, weight, remove);
+    }
+
+    /// @notice Add an approval bitmask to, or subtract it from, the counters
+    /// @param remove Whether the approvals are taken back
+    function _countApprovals(Tally storage tally, euint32 approvals, uint64 weight, bool remove) private {
+        uint256 optionCount = tally.counts.length;
+        ebool inRange = FHE.le(approvals, uint32((1 << optionCount) - 1));
+        euint32 counted = FHE.select(inRange, approvals, FHE.asEuint32(0));
+
+        for (uint256 i = 0; i < optionCount; i++) {
+            euint32 approved = FHE.and(FHE.shr(counted, uint8(i)), uint32(1));
+            tally.counts[i] = _apply(tally.counts[i], approved, remove);
+            FHE.allowThis(tally.counts[i]);
+
+            if (tally.weights.length > 0) {
+                tally.weights[i] = _apply(tally.weights[i], FHE.mul(FHE.asEuint64(approved), weight), remove);
+                FHE.allowThis(tally.weights[i]);
+            }
+        }
+
+        tally.spoiled = _apply(tally.spoiled, FHE.select(inRange, FHE.asEuint32(0), FHE.asEuint32(1)), remove);
+        FHE.allowThis(tally.spoiled);
+        _countWeight(tally, inRange, weight, remove);
+    }
+
+    /// @notice Add the weight of a ballot matching an option to, or subtract it from, the counted weight
+    /// @param remove Whether the ballot is taken back
+    function _countWeight(Tally storage tally, ebool counted, uint64 weight, bool remove) private {
+        if (tally.weights.length > 0) {
+            euint64 weightIncrement = FHE.select(counted, FHE.asEuint64(weight), FHE.asEuint64(0));
+            tally.countedWeight = _apply(tally.countedWeight, weightIncrement, remove);
+            FHE.allowThis(tally.countedWeight);
+        }
+    }
+
+    /// @notice Add a delta to a counter, or subtract it when a ballot is taken back
+    function _apply(euint32 counter, euint32 delta, bool remove) private returns (euint32) {
+        return remove ? FHE.sub(counter, delta) : FHE.add(counter, delta);
+    }
+
+    function _apply(euint64 counter, euint64 delta, bool remove) private returns (euint64) {
+        return remove ? FHE.sub(counter, delta) : FHE.add(counter, delta);
+    }
+
+    /// @notice Handles to publish, in the order the decryption oracle returns their cleartexts
+    /// @param tally The counters of the vote
+    /// @param outcome The encrypted outcome of evaluate, uninitialized for votes without rules
+    /// @param countsHidden Whether only the outcome is published
+    /// @return handles The counts, then the spoiled ballot count, then the weights, then the outcome if any
+    function decryptionHandles(
+        Tally storage tally,
+        ebool outcome,
+        bool countsHidden
+    ) public view returns (bytes32[] memory handles) {
+        uint256 optionCount = countsHidden ? 0 : tally.counts.length;
+        uint256 counterCount = countsHidden ? 0 : optionCount + 1 + tally.weights.length;
+        handles = new bytes32[](counterCount + (FHE.isInitialized(outcome) ? 1 : 0));
+        if (!countsHidden) {
+            for (uint256 i = 0; i < optionCount; i++) {
+                handles[i] = FHE.toBytes32(tally.counts[i]);
+            }
+            handles[optionCount] = FHE.toBytes32(tally.spoiled);
+            for (uint256 i = 0; i < tally.weights.length; i++) {
+                handles[optionCount + 1 + i] = FHE.toBytes32(tally.weights[i]);
+            }
+        }
+        if (FHE.isInitialized(outcome)) {
+            handles[counterCount] = FHE.toBytes32(outcome);
+        }
+    }
+
+    /// @notice Ask the decryption oracle to publicly decrypt the handles returned by decryptionHandles
+    /// @param tally The counters of the vote
+    /// @param outcome The encrypted outcome of evaluate, uninitialized for votes without rules
+    /// @param countsHidden Whether only the outcome is published
+    /// @param callback Selector of the function the oracle calls back with the cleartexts
+    /// @return requestId The oracle request ID, passed back to the callback
+    function requestPublication(
+        Tally storage tally,
+        ebool outcome,
+        bool countsHidden,
+        bytes4 callback
+    ) public returns (uint256 requestId) {
+        return FHE.requestDecryption(decryptionHandles(tally, outcome, countsHidden), callback);
+    }
+
+    /// @notice Verify the cleartexts of a requestPublication request and store them
+    /// @dev Must run in the oracle callback. The cleartexts are one static word per handle: they are prefixed with
+    /// an array header to decode them as a list
+    /// @param tally The counters of the vote
+    /// @param results The cleartext counters of the vote, left empty when countsHidden
+    /// @param requestId The oracle request ID returned by requestPublication
+    /// @param cleartexts The cleartexts of the requested handles
+    /// @param decryptionProof KMS signatures proving the cleartexts match the requested handles
+    /// @param countsHidden Whether only the outcome was published
+    /// @return outcome The last cleartext, the outcome of votes with rules
+    function publish(
+        Tally storage tally,
+        Results storage results,
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof,
+        bool countsHidden
+    ) public returns (uint256 outcome) {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint256[] memory values = abi.decode(
+            bytes.concat(abi.encode(32, cleartexts.length / 32), cleartexts),
+            (uint256[])
+        );
+        outcome = values[values.length - 1];
+        if (countsHidden) {
+            return outcome;
+        }
+
+        uint256 optionCount = tally.counts.length;
+        for (uint256 i = 0; i < optionCount; i++) {
+            results.counts.push(uint32(values[i]));
+        }
+        results.spoiled = uint32(values[optionCount]);
+        for (uint256 i = 0; i < tally.weights.length; i++) {
+            results.weights.push(uint64(values[optionCount + 1 + i]));
+        }
+    }
+}
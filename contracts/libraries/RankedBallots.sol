@@ -0,0 +1,113 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title Ranked Ballots Library
+/// @author crypto-vote
+/// @notice Encrypted rankings of a ranked-choice vote and their published instant-runoff rounds.
+/// A ranking packs one 4-bit option index per preference, first preference in the lowest bits,
+/// and ends at the first 0xF nibble, so a ranking lists at most 15 options.
+/// Trust model: the runoff is computed off-chain by the vote creator or a tallier, who can decrypt every ranking
+/// and so learns how each voter ranked the options. Only the first round is verified against the oracle-published
+/// first preferences; later rounds are only checked to be a possible runoff, so they are as trustworthy as the
+/// account that published them.
+/// Linked like BallotTally: its functions run through DELEGATECALL, so ACL grants are the caller's.
+library RankedBallots {
+    uint64 private constant RANK_MASK = 0xF;
+    uint256 internal constant MAX_OPTIONS = 15;
+
+    // Rankings and runoff rounds of a vote
+    struct Ballots {
+        address[] voters; // Voters in casting order
+        mapping(address => euint64) rankings; // voter => encrypted packed ranking
+        uint32[][] rounds; // Count per option of every runoff round
+    }
+
+    /// @notice Verify a voter's encrypted ranking and store it, replacing any ranking they cast before
+    /// @dev The ranking stays readable by its voter only until the vote creator tallies it. The input must be
+    /// encrypted for the voting contract and the caller, who is the voter.
+    /// @param ballots The rankings of the vote
+    /// @param voter The address casting the ballot
+    /// @param encryptedRanking The encrypted packed ranking
+    /// @param inputProof The FHE input proof for verification
+    /// @return firstPreference The encrypted option index ranked first, 0xF for an empty ranking
+    function record(
+        Ballots storage ballots,
+        address voter,
+        externalEuint64 encryptedRanking,
+        bytes calldata inputProof
+    ) public returns (euint32 firstPreference) {
+        euint64 ranking = FHE.fromExternal(encryptedRanking, inputProof);
+        if (!FHE.isInitialized(ballots.rankings[voter])) {
+            ballots.voters.push(voter);
+        }
+        ballots.rankings[voter] = ranking;
+        FHE.allowThis(ranking);
+        FHE.allow(ranking, voter);
+
+        return FHE.asEuint32(FHE.and(ranking, RANK_MASK));
+    }
+
+    /// @notice Allow an address to decrypt every ranking
+    /// @dev Rankings are decrypted one by one, so the address sees every voter's individual ranking
+    /// @param ballots The rankings of the vote
+    /// @param tallier The address granted ACL access
+    function allow(Ballots storage ballots, address tallier) public {
+        for (uint256 i = 0; i < ballots.voters.length; i++) {
+            FHE.allow(ballots.rankings[ballots.voters[i]], tallier);
+        }
+    }
+
+    /// @notice Store the instant-runoff rounds computed off-chain
+    /// @dev The first round must equal the first-preference counts published by the decryption oracle. Later rounds
+    /// cannot be recounted on-chain, they are only checked to follow a runoff: a continuing option never loses
+    /// ballots, an eliminated one counts zero, and exhausted ballots only ever lower the total.
+    /// @param ballots The rankings of the vote
+    /// @param rounds Count per option of every round
+    /// @param firstRound The verified first-preference count per option, empty until the oracle publishes it
+    function publishRounds(Ballots storage ballots, uint32[][] calldata rounds, uint32[] storage firstRound) public {
+        require(ballots.rounds.length == 0, "Rounds already published");
+        require(firstRound.length > 0, "First round not published");
+        require(rounds.length > 0, "No rounds to publish");
+
+        uint256 previousTotal;
+        for (uint256 i = 0; i < rounds.length; i++) {
+            require(rounds[i].length == firstRound.length, "Round must count every option");
+            uint256 total;
+            for (uint256 option = 0; option < firstRound.length; option++) {
+                uint32 count = rounds[i][option];
+                if (i == 0) {
+                    require(count == firstRound[option], "First round differs from results");
+                } else {
+                    require(count == 0 || count >= rounds[i - 1][option], "Round is not a runoff");
+                }
+                total += count;
+            }
+            require(i == 0 || total <= previousTotal, "Round is not a runoff");
+            previousTotal = total;
+            ballots.rounds.push(rounds[i]);
+        }
+    }
+
+    /// @notice Drop every ranking cast so far
+    /// @param ballots The rankings of the vote
+    function clear(Ballots storage ballots) public {
+        for (uint256 i = 0; i < ballots.voters.length; i++) {
+            ballots.rankings[ballots.voters[i]] = euint64.wrap(0);
+        }
+        delete ballots.voters;
+    }
+
+    /// @notice Get the voters and their encrypted rankings
+    /// @param ballots The rankings of the vote
+    /// @return voters The addresses that cast a ranked ballot, in casting order
+    /// @return rankings The encrypted packed ranking of each voter
+    function list(Ballots storage ballots) public view returns (address[] memory voters, euint64[] memory rankings) {
+        voters = ballots.voters;
+        rankings = new euint64[](voters.length);
+        for (uint256 i = 0; i < voters.length; i++) {
+            rankings[i] = ballots.rankings[voters[i]];
+        }
+    }
+}
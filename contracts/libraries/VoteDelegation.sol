@@ -0,0 +1,210 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Vote Delegation Library
+/// @author crypto-vote
+/// @notice Delegations of voters to other addresses, for a single vote or for every vote, and the delegators a
+/// ballot is cast for. A voter's delegation for a vote takes precedence over their global delegation.
+/// A linked library: the chain walks would not fit in EncryptedVotingSystem's bytecode.
+library VoteDelegation {
+    // Vote ID under which global delegations are stored; vote IDs start at 1
+    uint256 internal constant GLOBAL = 0;
+
+    // Delegators listed per delegate and vote, global delegators being listed apart. Bounds the storage a ballot
+    // reads, delegators who voted directly staying listed.
+    uint256 internal constant MAX_DELEGATORS = 16;
+    // Delegation hops followed from a ballot, e.g. 3 for A -> B -> C -> D
+    uint256 internal constant MAX_DEPTH = 3;
+    // Delegated ballots one ballot is cast for, keeping a ballot within the FHE compute limit of a transaction.
+    // Counts the whole chain behind a voter: their delegators, and the delegators of those up to MAX_DEPTH hops.
+    uint256 internal constant MAX_REPRESENTED = 5;
+
+    event DelegateChanged(uint256 indexed voteId, address indexed delegator, address indexed delegate);
+
+    struct Delegations {
+        mapping(uint256 => mapping(address => address)) delegates; // voteId or GLOBAL => delegator => delegate
+        // voteId or GLOBAL => delegate => delegators, in delegation order
+        mapping(uint256 => mapping(address => address[])) delegators;
+        mapping(uint256 => mapping(address => address)) ballotDelegates; // voteId => delegator => whose ballot counts
+    }
+
+    /// @notice Set or clear the delegate of a voter for a vote or for every vote
+    /// @dev Reverts when the delegation would close a cycle within MAX_DEPTH hops, e.g. A -> B -> A. Longer cycles
+    /// are accepted: they are harmless since ballots only follow MAX_DEPTH hops and never pass a voter who voted
+    /// directly. Also reverts when a ballot could not be cast for every delegator it would represent: the delegate,
+    /// and each address up to MAX_DEPTH hops above them, must represent at most MAX_REPRESENTED delegators, the
+    /// delegator and their own delegators included. Delegations for a vote are counted with the global delegations
+    /// applying in it; global delegations are counted against other global delegations only, so in a vote where
+    /// delegations for that vote fill the chain, the global delegators joining it later are not represented.
+    /// @param delegations The delegations of the voting contract
+    /// @param voteId The ID of the vote, or GLOBAL for every vote
+    /// @param delegator The voter delegating
+    /// @param delegate The address voting for them, zero to clear the delegation
+    /// @param hasVoted Whether each address of the vote voted directly, unused for GLOBAL
+    function setDelegate(
+        Delegations storage delegations,
+        uint256 voteId,
+        address delegator,
+        address delegate,
+        mapping(address => bool) storage hasVoted
+    ) public {
+        require(voteId == GLOBAL || !hasVoted[delegator], "Already voted in this vote");
+        require(delegate != delegator, "Cannot delegate to yourself");
+        address next = delegate;
+        for (uint256 i = 0; i < MAX_DEPTH && next != address(0); i++) {
+            require(next != delegator, "Delegation would create a cycle");
+            next = _next(delegations, voteId, next);
+        }
+
+        address previous = delegations.delegates[voteId][delegator];
+        if (previous != address(0)) {
+            _unlist(delegations, voteId, previous, delegator);
+        }
+
+        delegations.delegates[voteId][delegator] = delegate;
+        if (delegate != address(0)) {
+            address[] storage listed = delegations.delegators[voteId][delegate];
+            require(listed.length < MAX_DELEGATORS, "Delegate has too many delegators");
+            listed.push(delegator);
+        }
+        emit DelegateChanged(voteId, delegator, delegate);
+
+        // Every address the delegator's ballot now climbs to must still be able to cast its ballot for its chain
+        next = delegate;
+        for (uint256 i = 0; i < MAX_DEPTH && next != address(0); i++) {
+            (, uint256 count) = _represented(delegations, voteId, next, hasVoted, MAX_REPRESENTED + 1);
+            require(count <= MAX_REPRESENTED, "Delegate represents too many");
+            next = _next(delegations, voteId, next);
+        }
+    }
+
+    /// @notice Clear the delegation of a voter to the caller, for a vote or for every vote
+    /// @dev Lets a delegate turn down delegations they did not ask for, e.g. ones filling their chain to lock other
+    /// delegators out. A ballot already cast for the delegator stays counted.
+    /// @param delegations The delegations of the voting contract
+    /// @param voteId The ID of the vote, or GLOBAL for every vote
+    /// @param delegate The delegate removing the delegator
+    /// @param delegator The voter delegating to them
+    function removeDelegator(
+        Delegations storage delegations,
+        uint256 voteId,
+        address delegate,
+        address delegator
+    ) public {
+        require(delegations.delegates[voteId][delegator] == delegate, "Not delegating to the caller");
+        delete delegations.delegates[voteId][delegator];
+        _unlist(delegations, voteId, delegate, delegator);
+        emit DelegateChanged(voteId, delegator, address(0));
+    }
+
+    /// @notice Get the address a voter delegates a vote to
+    /// @param delegations The delegations of the voting contract
+    /// @param voteId The ID of the vote
+    /// @param voter The voter
+    /// @return The delegate for the vote, else the global delegate, zero for voters who do not delegate
+    function delegateOf(Delegations storage delegations, uint256 voteId, address voter) public view returns (address) {
+        address delegate = delegations.delegates[voteId][voter];
+        return delegate != address(0) ? delegate : delegations.delegates[GLOBAL][voter];
+    }
+
+    /// @notice Get who votes for a voter in a vote
+    /// @param delegations The delegations of the voting contract
+    /// @param voteId The ID of the vote, or GLOBAL
+    /// @param voter The voter
+    /// @param hasVoted Whether each address of the vote voted directly
+    /// @return delegate The delegate for the vote, else the global delegate, zero for voters who do not delegate
+    /// @return ballotDelegate The delegate whose ballot counts for the voter, zero once the voter voted directly
+    function delegation(
+        Delegations storage delegations,
+        uint256 voteId,
+        address voter,
+        mapping(address => bool) storage hasVoted
+    ) public view returns (address delegate, address ballotDelegate) {
+        delegate = delegateOf(delegations, voteId, voter);
+        if (!hasVoted[voter]) {
+            ballotDelegate = delegations.ballotDelegates[voteId][voter];
+        }
+    }
+
+    /// @notice Get the delegators a ballot is cast for, directly or through a chain of delegations
+    /// @dev Breadth-first from the voter, so direct delegators come first. A delegator who voted directly is
+    /// skipped along with the delegators behind them: their own ballot is cast for those.
+    /// @param delegations The delegations of the voting contract
+    /// @param voteId The ID of the vote
+    /// @param voter The voter casting the ballot
+    /// @param hasVoted Whether each address of the vote voted directly
+    /// @return delegators Up to MAX_REPRESENTED delegators, closest first, followed by zero addresses
+    /// @return count The number of delegators
+    function represented(
+        Delegations storage delegations,
+        uint256 voteId,
+        address voter,
+        mapping(address => bool) storage hasVoted
+    ) public view returns (address[] memory delegators, uint256 count) {
+        return _represented(delegations, voteId, voter, hasVoted, MAX_REPRESENTED);
+    }
+
+    /// @notice Collect up to a number of delegators a ballot is cast for, like represented
+    /// @param limit The most delegators collected
+    function _represented(
+        Delegations storage delegations,
+        uint256 voteId,
+        address voter,
+        mapping(address => bool) storage hasVoted,
+        uint256 limit
+    ) private view returns (address[] memory delegators, uint256 count) {
+        delegators = new address[](limit);
+        count = _collect(delegations, voteId, voter, hasVoted, delegators, 0);
+
+        uint256 levelStart = 0;
+        for (uint256 depth = 1; depth < MAX_DEPTH; depth++) {
+            uint256 levelEnd = count;
+            for (uint256 i = levelStart; i < levelEnd; i++) {
+                count = _collect(delegations, voteId, delegators[i], hasVoted, delegators, count);
+            }
+            levelStart = levelEnd;
+        }
+    }
+
+    /// @notice Append the direct delegators of an address that did not vote directly, per-vote ones first
+    /// @return The number of delegators collected so far
+    function _collect(
+        Delegations storage delegations,
+        uint256 voteId,
+        address delegate,
+        mapping(address => bool) storage hasVoted,
+        address[] memory collected,
+        uint256 count
+    ) private view returns (uint256) {
+        for (uint256 scope = 0; scope < 2; scope++) {
+            address[] storage listed = delegations.delegators[scope == 0 ? voteId : GLOBAL][delegate];
+            for (uint256 i = 0; i < listed.length && count < collected.length; i++) {
+                address delegator = listed[i];
+                // A delegation for the vote overrides the global one, and is listed under the vote
+                bool delegates = scope == 0 || delegations.delegates[voteId][delegator] == address(0);
+                if (delegates && !hasVoted[delegator]) {
+                    collected[count++] = delegator;
+                }
+            }
+        }
+        return count;
+    }
+
+    /// @notice Get the next address up a delegation chain
+    /// @return The delegate of the address in the vote, or its global delegate for GLOBAL
+    function _next(Delegations storage delegations, uint256 voteId, address voter) private view returns (address) {
+        return voteId == GLOBAL ? delegations.delegates[GLOBAL][voter] : delegateOf(delegations, voteId, voter);
+    }
+
+    /// @notice Remove a delegator from the list of their delegate
+    function _unlist(Delegations storage delegations, uint256 voteId, address delegate, address delegator) private {
+        address[] storage listed = delegations.delegators[voteId][delegate];
+        for (uint256 i = 0; i < listed.length; i++) {
+            if (listed[i] == delegator) {
+                listed[i] = listed[listed.length - 1];
+                listed.pop();
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Vote Details Library
+/// @author crypto-vote
+/// @notice Validation of the text and voting period of a new vote, and storage of its options, shared by every way
+/// of creating a vote. Linked like BallotTally, which keeps the option copying out of EncryptedVotingSystem's bytecode.
+library VoteDetails {
+    // Shortest and longest voting period between the start and end time of a vote
+    uint256 private constant MIN_DURATION = 1 minutes;
+    uint256 private constant MAX_DURATION = 365 days;
+
+    /// @notice Validate the details of a new vote and store its options
+    /// @dev Titles and descriptions are stored by the caller: a string storage parameter cannot be assigned to
+    /// @param options Storage of the vote options, empty
+    /// @param title Vote title
+    /// @param description Vote description
+    /// @param newOptions Array of voting options
+    /// @param startTime Timestamp voting opens at, 0 to open right away
+    /// @param endTime Timestamp voting closes at, 1 minute to 365 days after the start time
+    /// @return opensAt The start time, the current time for votes opening right away
+    function store(
+        string[] storage options,
+        string calldata title,
+        string calldata description,
+        string[] calldata newOptions,
+        uint256 startTime,
+        uint256 endTime
+    ) public returns (uint256 opensAt) {
+        require(bytes(title).length > 0, "Title cannot be empty");
+        require(bytes(description).length > 0, "Description cannot be empty");
+        require(newOptions.length >= 2, "Must have at least 2 options");
+        opensAt = startTime == 0 ? block.timestamp : startTime;
+        require(opensAt >= block.timestamp, "Start time cannot be in the past");
+        require(
+            endTime >= opensAt + MIN_DURATION && endTime <= opensAt + MAX_DURATION,
+            "Duration must be between 1 minute and 365 days"
+        );
+
+        for (uint256 i = 0; i < newOptions.length; i++) {
+            options.push(newOptions[i]);
+        }
+    }
+}
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @notice Snapshot interface of ERC20Votes / ERC721Votes tokens (ERC-5805)
+interface IVotesToken {
+    function clock() external view returns (uint48);
+    function getPastVotes(address account, uint256 timepoint) external view returns (uint256);
+}
+
+/// @title Voter Eligibility Library
+/// @author crypto-vote
+/// @notice Who may vote in a restricted vote, from its allowlist or from Merkle membership proofs, and the token
+/// snapshot weighting the ballots of a weighted vote.
+/// Linked like VoteDelegation, keeping the proof checks and token reads out of EncryptedVotingSystem's bytecode.
+library VoterEligibility {
+    event EligibilityUpdated(uint256 indexed voteId, address indexed voter, bool eligible);
+
+    // Token snapshot weighting the ballots of a vote
+    struct Weighting {
+        address token;
+        uint256 unit; // Token amount worth one vote
+        uint48 snapshot; // Token clock at vote creation
+    }
+
+    /// @notice Add or remove allowlisted voters of a vote
+    /// @param eligibleVoters Whether each address may vote in the vote
+    /// @param voteId The ID of the vote
+    /// @param voters The addresses to update
+    /// @param eligible Whether the addresses may vote
+    function updateAllowlist(
+        mapping(address => bool) storage eligibleVoters,
+        uint256 voteId,
+        address[] calldata voters,
+        bool eligible
+    ) public {
+        for (uint256 i = 0; i < voters.length; i++) {
+            eligibleVoters[voters[i]] = eligible;
+            emit EligibilityUpdated(voteId, voters[i], eligible);
+        }
+    }
+
+    /// @notice Make a voter eligible once they prove membership of a vote's member list
+    /// @dev Leaves are keccak256(abi.encodePacked(voter)) and pairs are hashed in sorted order
+    /// @param eligibleVoters Whether each address may vote in the vote
+    /// @param voteId The ID of the vote
+    /// @param merkleRoot Root of the member list
+    /// @param voter The member proving their eligibility
+    /// @param proof Sibling hashes from the voter's leaf up to the root
+    function prove(
+        mapping(address => bool) storage eligibleVoters,
+        uint256 voteId,
+        bytes32 merkleRoot,
+        address voter,
+        bytes32[] calldata proof
+    ) public {
+        bytes32 node = keccak256(abi.encodePacked(voter));
+        for (uint256 i = 0; i < proof.length; i++) {
+            bytes32 sibling = proof[i];
+            node = node < sibling
+                ? keccak256(abi.encodePacked(node, sibling))
+                : keccak256(abi.encodePacked(sibling, node));
+        }
+        require(node == merkleRoot, "Invalid Merkle proof");
+
+        eligibleVoters[voter] = true;
+        emit EligibilityUpdated(voteId, voter, true);
+    }
+
+    /// @notice Snapshot the weighting token of a vote at the current token clock
+    /// @param weighting The weighting of the vote
+    /// @param token The ERC20Votes / ERC721Votes token weighting ballots
+    /// @param unit Token amount worth one vote
+    function initialize(Weighting storage weighting, address token, uint256 unit) public {
+        require(unit > 0, "Weight unit must be positive");
+
+        weighting.token = token;
+        weighting.unit = unit;
+        weighting.snapshot = IVotesToken(token).clock();
+    }
+
+    /// @notice Get the weight a voter's ballot carries
+    /// @dev Reverts on weighted votes while the token clock has not passed the snapshot yet
+    /// @param weighting The weighting of the vote
+    /// @param voter The address of the voter
+    /// @return Snapshot balance divided by the weight unit, 1 for unweighted votes
+    function weightOf(Weighting storage weighting, address voter) public view returns (uint64) {
+        if (weighting.token == address(0)) {
+            return 1;
+        }
+
+        uint256 votingPower = IVotesToken(weighting.token).getPastVotes(voter, weighting.snapshot) / weighting.unit;
+        require(votingPower <= type(uint64).max, "Voting weight too large");
+        return uint64(votingPower);
+    }
+}
@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Mock Votes Token
+/// @author crypto-vote
+/// @notice Minimal ERC-5805 style token with block-number checkpoints, used to test weighted votes.
+contract MockVotesToken {
+    struct Checkpoint {
+        uint48 timepoint;
+        uint256 votes;
+    }
+
+    mapping(address => Checkpoint[]) private _checkpoints;
+
+    /// @notice Add voting power to an account from the current block on
+    /// @param account The account receiving the voting power
+    /// @param amount The amount of voting power to add
+    function mint(address account, uint256 amount) external {
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        uint256 votes = checkpoints.length == 0 ? 0 : checkpoints[checkpoints.length - 1].votes;
+        checkpoints.push(Checkpoint({timepoint: clock(), votes: votes + amount}));
+    }
+
+    /// @notice Current timepoint of the token clock
+    /// @return The current block number
+    function clock() public view returns (uint48) {
+        return uint48(block.number);
+    }
+
+    /// @notice Voting power of an account at a past timepoint
+    /// @param account The account to query
+    /// @param timepoint A timepoint strictly before the current one
+    /// @return The voting power at the end of the timepoint
+    function getPastVotes(address account, uint256 timepoint) external view returns (uint256) {
+        require(timepoint < clock(), "Future lookup");
+
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        for (uint256 i = checkpoints.length; i > 0; i--) {
+            if (checkpoints[i - 1].timepoint <= timepoint) {
+                return checkpoints[i - 1].votes;
+            }
+        }
+        return 0;
+    }
+}
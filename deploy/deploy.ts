@@ -1,17 +1,73 @@
+import * as fs from "fs";
+import * as path from "path";
 import type { HardhatRuntimeEnvironment } from "hardhat/types.js";
 
 const func = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute, get, read } = hre.deployments;
 
-  // Deploy EncryptedVotingSystem
+  // Deploy the libraries linked into EncryptedVotingSystem
+  const ballotTally = await deploy("BallotTally", {
+    from: deployer,
+    log: true,
+  });
+  const rankedBallots = await deploy("RankedBallots", {
+    from: deployer,
+    log: true,
+  });
+  const voteDetails = await deploy("VoteDetails", {
+    from: deployer,
+    log: true,
+  });
+  const voteDelegation = await deploy("VoteDelegation", {
+    from: deployer,
+    log: true,
+  });
+  const voterEligibility = await deploy("VoterEligibility", {
+    from: deployer,
+    log: true,
+  });
+
+  // Voters who sign their ballots have them cast through the forwarder, by a relayer paying the gas
+  const deployedBallotForwarder = await deploy("BallotForwarder", {
+    from: deployer,
+    log: true,
+  });
+  console.log(`BallotForwarder contract: `, deployedBallotForwarder.address);
+
+  // Deploy EncryptedVotingSystem, trusting the forwarder in every election VoteFactory clones from it
   const deployedVotingSystem = await deploy("EncryptedVotingSystem", {
     from: deployer,
     log: true,
+    args: [deployedBallotForwarder.address],
+    libraries: {
+      BallotTally: ballotTally.address,
+      RankedBallots: rankedBallots.address,
+      VoteDetails: voteDetails.address,
+      VoteDelegation: voteDelegation.address,
+      VoterEligibility: voterEligibility.address,
+    },
   });
   console.log(`EncryptedVotingSystem contract: `, deployedVotingSystem.address);
+
+  // Elections are minimal proxies of the EncryptedVotingSystem deployment, so a new version gets a new factory
+  const deployedVoteFactory = await deploy("VoteFactory", {
+    from: deployer,
+    log: true,
+    args: [deployedVotingSystem.address],
+  });
+  console.log(`VoteFactory contract: `, deployedVoteFactory.address);
+
+  // Unchanged contracts are reused on redeploy; a changed EncryptedVotingSystem becomes the registry's next version
+  if (Number(await read("VotingRegistry", "versionOf", deployedVotingSystem.address)) === 0) {
+    const { version } = JSON.parse(fs.readFileSync(path.join(hre.config.paths.root, "package.json"), "utf-8"));
+    await execute("VotingRegistry", { from: deployer, log: true }, "register", deployedVotingSystem.address, version);
+  }
+  const versionNumber = await read("VotingRegistry", "versionOf", deployedVotingSystem.address);
+  const registry = await get("VotingRegistry");
+  console.log(`VotingRegistry contract: `, registry.address, `(EncryptedVotingSystem version ${versionNumber})`);
 };
-func.id = "deploy_contracts"; // id required to prevent reexecution
 func.tags = ["EncryptedVotingSystem"];
+func.dependencies = ["VotingRegistry"];
 
 export default func;
@@ -0,0 +1,17 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types.js";
+
+const func = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  // The registry outlives voting contract upgrades: it is only deployed once per network. Deployed on its own,
+  // deployments made before it are registered with task:registry-register before the next version.
+  const registry = await deploy("VotingRegistry", {
+    from: deployer,
+    log: true,
+  });
+  console.log(`VotingRegistry contract: `, registry.address);
+};
+func.tags = ["VotingRegistry"];
+
+export default func;
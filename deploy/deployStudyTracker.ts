@@ -0,0 +1,16 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types.js";
+
+const func = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  // Independent of the voting contracts: it has no owner and links no library
+  const deployedStudyTracker = await deploy("EncryptedStudyTracker", {
+    from: deployer,
+    log: true,
+  });
+  console.log(`EncryptedStudyTracker contract: `, deployedStudyTracker.address);
+};
+func.tags = ["EncryptedStudyTracker"];
+
+export default func;
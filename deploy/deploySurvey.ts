@@ -0,0 +1,16 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types.js";
+
+const func = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  // Surveys have no owner; anyone may create one
+  const deployedSurvey = await deploy("EncryptedSurvey", {
+    from: deployer,
+    log: true,
+  });
+  console.log(`EncryptedSurvey contract: `, deployedSurvey.address);
+};
+func.tags = ["EncryptedSurvey"];
+
+export default func;
@@ -0,0 +1,9 @@
+
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+*/
+export const BallotForwarderAddresses = {
+  "11155111": { address: "0x0000000000000000000000000000000000000000", chainId: 11155111, chainName: "sepolia", blockNumber: 0 },
+  "31337": { address: "0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9", chainId: 31337, chainName: "hardhat", blockNumber: 7 },
+};
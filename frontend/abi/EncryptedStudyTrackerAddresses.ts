@@ -0,0 +1,9 @@
+
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+*/
+export const EncryptedStudyTrackerAddresses = {
+  "11155111": { address: "0x0000000000000000000000000000000000000000", chainId: 11155111, chainName: "sepolia", blockNumber: 0 },
+  "31337": { address: "0x8A791620dd6260079BF849Dc5567aDC3F2FdC318", chainId: 31337, chainName: "hardhat", blockNumber: 12 },
+};
@@ -0,0 +1,9 @@
+
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+*/
+export const EncryptedSurveyAddresses = {
+  "11155111": { address: "0x0000000000000000000000000000000000000000", chainId: 11155111, chainName: "sepolia", blockNumber: 0 },
+  "31337": { address: "0x610178dA211FEF7D417bC0e6FeD39F05609AD788", chainId: 31337, chainName: "hardhat", blockNumber: 13 },
+};
@@ -4,6 +4,6 @@
   Command: 'npm run genabi'
 */
 export const EncryptedVotingSystemAddresses = {
-  "11155111": { address: "0x98D6225AAfEa695d236B17F17cea4c401B03951D", chainId: 11155111, chainName: "sepolia" },
-  "31337": { address: "0x5FbDB2315678afecb367f032d93F642f64180aa3", chainId: 31337, chainName: "hardhat" },
+  "11155111": { address: "0x98D6225AAfEa695d236B17F17cea4c401B03951D", chainId: 11155111, chainName: "sepolia", blockNumber: 0 },
+  "31337": { address: "0x5FC8d32690cc91D4c39d9d3abcBD16989F875707", chainId: 31337, chainName: "hardhat", blockNumber: 8 },
 };
@@ -0,0 +1,9 @@
+
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+*/
+export const VoteFactoryAddresses = {
+  "11155111": { address: "0x0000000000000000000000000000000000000000", chainId: 11155111, chainName: "sepolia", blockNumber: 0 },
+  "31337": { address: "0x0165878A594ca255338adfa4d48449f69242Eb8F", chainId: 31337, chainName: "hardhat", blockNumber: 9 },
+};
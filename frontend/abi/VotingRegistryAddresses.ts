@@ -0,0 +1,9 @@
+
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+*/
+export const VotingRegistryAddresses = {
+  "11155111": { address: "0x0000000000000000000000000000000000000000", chainId: 11155111, chainName: "sepolia", blockNumber: 0 },
+  "31337": { address: "0xa513E6E4b8f2a923D98304ec87F64353C4D5C853", chainId: 31337, chainName: "hardhat", blockNumber: 10 },
+};
@@ -0,0 +1,5 @@
+import { StudyTracker } from "../../components/study-tracker";
+
+export default function StudyPage() {
+  return <StudyTracker />;
+}
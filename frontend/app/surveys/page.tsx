@@ -0,0 +1,5 @@
+import { Surveys } from "../../components/surveys";
+
+export default function SurveysPage() {
+  return <Surveys />;
+}
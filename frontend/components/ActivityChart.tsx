@@ -0,0 +1,82 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import { ActivityPoint, ActivityRange } from "../lib/activity";
+
+interface ActivityChartProps {
+  title: string;
+  icon: string;
+  unit: string; // what the bars count, e.g. "ballots"
+  ranges: ActivityRange[];
+  series: (range: ActivityRange) => ActivityPoint[];
+  total?: (points: ActivityPoint[]) => number; // defaults to the sum of the bars
+  delay?: number;
+}
+
+// Bar chart of an activity series, with buttons switching between its ranges
+export function ActivityChart({ title, icon, unit, ranges, series, total, delay = 0 }: ActivityChartProps) {
+  const [range, setRange] = useState(ranges[0]);
+  const points = useMemo(() => series(range), [series, range]);
+  const max = Math.max(1, ...points.map((point) => point.value));
+  const shown = total ? total(points) : points.reduce((sum, point) => sum + point.value, 0);
+  // Label about six bars so that long ranges stay readable
+  const labelEvery = Math.ceil(points.length / 6);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+      className="bg-black/40 backdrop-blur-sm border-2 border-orange-500/20 rounded-2xl p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-black text-white flex items-center gap-2">
+          <span className="text-2xl">{icon}</span>
+          {title}
+        </h3>
+        <div className="flex gap-1">
+          {ranges.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setRange(option)}
+              className={`px-2 py-1 rounded-lg text-xs font-semibold transition-all duration-300 ${
+                option === range
+                  ? "bg-orange-500 text-white"
+                  : "bg-black/30 text-gray-300 border border-orange-500/20 hover:border-orange-500/40"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-gray-300 text-sm mb-4 drop-shadow-sm">
+        <span className="text-orange-400 font-bold text-lg">{shown}</span> {unit} in the last {range.label}
+      </p>
+
+      <div className="flex items-end gap-px h-32">
+        {points.map((point) => (
+          <div
+            key={point.start}
+            title={`${point.label}: ${point.value} ${unit}`}
+            className="flex-1 h-full flex items-end"
+          >
+            <div
+              className="w-full bg-gradient-to-t from-orange-500 to-red-500 rounded-t-sm hover:from-orange-400 hover:to-red-400 transition-all duration-300"
+              style={{ height: `${(point.value / max) * 100}%`, minHeight: point.value > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-2">
+        {points.map((point, index) => (
+          <div key={point.start} className="flex-1 text-[10px] text-gray-400 whitespace-nowrap overflow-visible">
+            {index % labelEvery === 0 ? point.label : ""}
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
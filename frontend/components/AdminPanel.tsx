@@ -1,17 +1,80 @@
 "use client";
 
 import { useState } from "react";
-import { useEncryptedVotingSystem } from "../hooks/useEncryptedVotingSystem";
+import { createPortal } from "react-dom";
+import { ethers } from "ethers";
+import { useChainId } from "wagmi";
+import {
+  RoleName,
+  TransactionResult,
+  UseEncryptedVotingSystemState,
+  VoteState,
+} from "../hooks/useEncryptedVotingSystem";
 
-export const AdminPanel = () => {
+const ROLE_LABELS: Record<RoleName, string> = {
+  admin: "Admin",
+  voteCreator: "Vote creator",
+  tallier: "Tallier",
+  pauser: "Pauser",
+};
+
+type MaintenanceAction = "endExpired" | "archive" | "wipe";
+
+// Revert reason of a failed transaction, falling back to the error message
+const failureReason = (error: unknown) => {
+  const { reason, shortMessage, message } = (error ?? {}) as { reason?: string; shortMessage?: string; message?: string };
+  return reason || shortMessage || message || "Unknown error";
+};
+
+interface AdminPanelProps {
+  voting: UseEncryptedVotingSystemState; // shared with the page, so the panel acts on the same contract and account
+}
+
+// Only rendered for admins; the contract rejects every action of other accounts anyway
+export const AdminPanel = ({ voting }: AdminPanelProps) => {
   const [newOption, setNewOption] = useState<string>("");
   const [candidateOptions, setCandidateOptions] = useState<string[]>([]);
   const [isInitializing, setIsInitializing] = useState<boolean>(false);
-  const [isResetting, setIsResetting] = useState<boolean>(false);
+  const [confirming, setConfirming] = useState<MaintenanceAction | null>(null); // action waiting for confirmation
+  const [archiveVoteId, setArchiveVoteId] = useState<string>("");
+  const [wipeVoteId, setWipeVoteId] = useState<string>("");
   const [message, setMessage] = useState<string>("");
 
-  const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "0x98D6225AAfEa695d236B17F17cea4c401B03951D";
-  const { createVote } = useEncryptedVotingSystem(contractAddress);
+  const [role, setRole] = useState<RoleName>("voteCreator");
+  const [roleAccount, setRoleAccount] = useState<string>("");
+  const [newOwner, setNewOwner] = useState<string>("");
+
+  const {
+    contractAddress,
+    factoryAddress,
+    contractOwner,
+    pendingOwner,
+    votes,
+    createVote,
+    grantRole,
+    revokeRole,
+    transferOwnership,
+    endExpiredVotes,
+    archiveVote,
+    wipeBallots,
+  } = voting;
+
+  // Ballots can only be wiped on the local Hardhat network
+  const isLocalNetwork = useChainId() === 31337;
+  const now = Math.floor(Date.now() / 1000);
+  const expiredVotes = votes.filter(vote => vote.active && vote.state !== VoteState.Draft && vote.endTime < now);
+  const archivableVotes = votes.filter(vote => !vote.active && !vote.archived);
+  const wipeableVotes = votes.filter(vote => vote.active);
+
+  // Role and ownership changes report their progress through the hook's message
+  const handleAccessChange = async (change: () => Promise<void>) => {
+    setMessage("");
+    try {
+      await change();
+    } catch (error: unknown) {
+      console.error("Failed to update access:", error);
+    }
+  };
 
   const handleInitializeVoting = async () => {
     if (candidateOptions.length < 2) {
@@ -24,9 +87,9 @@ export const AdminPanel = () => {
     try {
       const title = `Admin Vote ${new Date().toLocaleDateString()}`;
       const description = "Vote created by administrator";
-      const durationDays = 7; // Default 7 days
+      const endTime = Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60; // Default 7 days from now
 
-      await createVote(title, description, candidateOptions, durationDays);
+      await createVote(title, description, candidateOptions, 0, endTime, false);
       setMessage("Vote created successfully!");
       setCandidateOptions([]);
     } catch (error: unknown) {
@@ -37,20 +100,39 @@ export const AdminPanel = () => {
     }
   };
 
-  const handleResetVoting = async () => {
-    // For now, just show a message since reset functionality is not implemented
-    setMessage("Reset functionality is not yet implemented");
+  const confirmations: Record<MaintenanceAction, { title: string; body: string }> = {
+    endExpired: {
+      title: "End expired votes",
+      body: `End ${expiredVotes.length} vote(s) past their end time and request the publication of their results. Ended votes cannot be reopened.`,
+    },
+    archive: {
+      title: `Archive vote #${archiveVoteId}`,
+      body: "The vote leaves everyone's vote list. Its results stay readable on-chain, and archiving cannot be undone.",
+    },
+    wipe: {
+      title: `Wipe the ballots of vote #${wipeVoteId}`,
+      body: "Every ballot cast so far is dropped and the tallies restart from zero; voters may vote again. This cannot be undone.",
+    },
+  };
 
-    setIsResetting(true);
+  // Report the confirmed transaction, or why it failed, rather than assuming it went through
+  const handleMaintenance = async (action: MaintenanceAction) => {
+    setConfirming(null);
+    setMessage("");
     try {
-      // TODO: Implement resetVoting function call
-      // await resetVoting();
-      setMessage("Voting reset successfully!");
+      let result: TransactionResult;
+      if (action === "endExpired") {
+        result = await endExpiredVotes();
+      } else if (action === "archive") {
+        result = await archiveVote(Number(archiveVoteId));
+        setArchiveVoteId("");
+      } else {
+        result = await wipeBallots(Number(wipeVoteId));
+      }
+      setMessage(`${result.summary}. Transaction ${result.hash.slice(0, 10)}... confirmed successfully in block ${result.blockNumber}`);
     } catch (error: unknown) {
-      console.error("Failed to reset voting:", error);
-      setMessage(`Failed to reset voting: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    } finally {
-      setIsResetting(false);
+      console.error(`Failed to run ${action}:`, error);
+      setMessage(`Failed: ${failureReason(error)}`);
     }
   };
 
@@ -65,6 +147,9 @@ export const AdminPanel = () => {
     setCandidateOptions(candidateOptions.filter((_, i) => i !== index));
   };
 
+  // "everyone" opens a role to every account through the zero address
+  const roleTarget = roleAccount.trim().toLowerCase() === "everyone" ? ethers.ZeroAddress : roleAccount.trim();
+
   return (
     <div className="bg-black/40 backdrop-blur-sm border-2 border-orange-500/30 rounded-2xl md:rounded-3xl p-4 md:p-6 lg:p-8 shadow-2xl transform hover:scale-102 transition-all duration-500 relative overflow-hidden group mb-6">
       <div className="absolute inset-0 bg-gradient-to-r from-orange-500/5 to-red-500/5 opacity-0 group-hover:opacity-100 transition-opacity duration-500"></div>
@@ -85,6 +170,18 @@ export const AdminPanel = () => {
           <p className="text-orange-300 font-mono text-sm">
             {contractAddress ? `${contractAddress.slice(0, 10)}...${contractAddress.slice(-8)}` : "Not Deployed"}
           </p>
+          {contractOwner && (
+            <p className="text-gray-400 font-mono text-xs mt-2">Owner: {contractOwner}</p>
+          )}
+          {pendingOwner && pendingOwner !== ethers.ZeroAddress && (
+            <p className="text-yellow-400 font-mono text-xs mt-1">Pending owner: {pendingOwner}</p>
+          )}
+          {factoryAddress && (
+            <p className="text-gray-400 text-xs mt-2">
+              Votes are elections of the factory at <span className="font-mono">{factoryAddress}</span>. Each election
+              is owned by its creator and moderated by the factory owner; the roles below only apply to this contract.
+            </p>
+          )}
         </div>
 
         {message && (
@@ -172,6 +269,145 @@ export const AdminPanel = () => {
             </div>
           )}
 
+          {/* Roles */}
+          <div className="space-y-3">
+            <label className="text-orange-400 font-bold text-sm uppercase tracking-wider flex items-center gap-2">
+              <span className="text-lg">🛡️</span>
+              Roles
+            </label>
+            <p className="text-gray-400 text-xs">
+              Enter &quot;everyone&quot; as the account to open a role to every address, e.g. to let anyone create votes.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as RoleName)}
+                className="px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 text-white font-semibold transition-all duration-300"
+              >
+                {(Object.keys(ROLE_LABELS) as RoleName[]).map(name => (
+                  <option key={name} value={name}>{ROLE_LABELS[name]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={roleAccount}
+                onChange={(e) => setRoleAccount(e.target.value)}
+                placeholder="0x... or everyone"
+                className="flex-1 px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white placeholder-gray-500 font-mono text-sm transition-all duration-300"
+              />
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => handleAccessChange(() => grantRole(role, roleTarget))}
+                disabled={!roleTarget || voting.isLoading}
+                className="flex-1 px-6 py-3 bg-gradient-to-r from-green-600 to-emerald-600 text-white rounded-xl font-bold hover:shadow-lg hover:shadow-green-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                GRANT
+              </button>
+              <button
+                onClick={() => handleAccessChange(() => revokeRole(role, roleTarget))}
+                disabled={!roleTarget || voting.isLoading}
+                className="flex-1 px-6 py-3 bg-gradient-to-r from-red-600 to-pink-600 text-white rounded-xl font-bold hover:shadow-lg hover:shadow-red-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                REVOKE
+              </button>
+            </div>
+          </div>
+
+          {/* Ownership */}
+          <div className="space-y-3">
+            <label className="text-orange-400 font-bold text-sm uppercase tracking-wider flex items-center gap-2">
+              <span className="text-lg">👑</span>
+              Transfer Ownership
+            </label>
+            <p className="text-gray-400 text-xs">
+              Owner only. The new owner takes over once they accept the transfer from their own wallet.
+            </p>
+            <div className="flex gap-3">
+              <input
+                type="text"
+                value={newOwner}
+                onChange={(e) => setNewOwner(e.target.value)}
+                placeholder="0x..."
+                className="flex-1 px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white placeholder-gray-500 font-mono text-sm transition-all duration-300"
+              />
+              <button
+                onClick={() => handleAccessChange(() => transferOwnership(newOwner.trim()))}
+                disabled={!newOwner.trim() || voting.isLoading}
+                className="px-6 py-3 bg-gradient-to-r from-orange-500 to-red-600 text-white rounded-xl font-bold hover:shadow-lg hover:shadow-orange-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                PROPOSE
+              </button>
+            </div>
+          </div>
+
+          {/* Maintenance */}
+          <div className="space-y-3">
+            <label className="text-orange-400 font-bold text-sm uppercase tracking-wider flex items-center gap-2">
+              <span className="text-lg">🧹</span>
+              Maintenance
+            </label>
+
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-gray-400 text-xs">
+                {expiredVotes.length > 0
+                  ? `${expiredVotes.length} vote(s) past their end time are waiting to be ended.`
+                  : "No vote is waiting to be ended."}
+              </p>
+              <button
+                onClick={() => setConfirming("endExpired")}
+                disabled={expiredVotes.length === 0 || voting.isLoading}
+                className="px-6 py-3 bg-gradient-to-r from-orange-500 to-red-600 text-white rounded-xl font-bold hover:shadow-lg hover:shadow-orange-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                END EXPIRED
+              </button>
+            </div>
+
+            <div className="flex gap-3">
+              <select
+                value={archiveVoteId}
+                onChange={(e) => setArchiveVoteId(e.target.value)}
+                className="flex-1 px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 text-white font-semibold transition-all duration-300"
+              >
+                <option value="">Ended vote to archive...</option>
+                {archivableVotes.map(vote => (
+                  <option key={vote.id} value={vote.id}>#{vote.id} {vote.title}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setConfirming("archive")}
+                disabled={!archiveVoteId || voting.isLoading}
+                className="px-6 py-3 bg-gradient-to-r from-gray-600 to-gray-800 text-white rounded-xl font-bold hover:shadow-lg hover:shadow-gray-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+              >
+                ARCHIVE
+              </button>
+            </div>
+
+            {isLocalNetwork ? (
+              <div className="flex gap-3">
+                <select
+                  value={wipeVoteId}
+                  onChange={(e) => setWipeVoteId(e.target.value)}
+                  className="flex-1 px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 text-white font-semibold transition-all duration-300"
+                >
+                  <option value="">Test vote to wipe...</option>
+                  {wipeableVotes.map(vote => (
+                    <option key={vote.id} value={vote.id}>#{vote.id} {vote.title}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setConfirming("wipe")}
+                  disabled={!wipeVoteId || voting.isLoading}
+                  className="px-6 py-3 bg-gradient-to-r from-red-600 to-pink-600 text-white rounded-xl font-bold hover:shadow-lg hover:shadow-red-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                >
+                  WIPE BALLOTS
+                </button>
+              </div>
+            ) : (
+              <p className="text-gray-500 text-xs">Wiping the ballots of a test vote is only possible on a local network.</p>
+            )}
+          </div>
+
           {/* Action buttons */}
           <div className="flex flex-col sm:flex-row gap-4 pt-6 border-t border-orange-500/20">
             <button
@@ -195,31 +431,40 @@ export const AdminPanel = () => {
                 )}
               </span>
             </button>
-
-            <button
-              onClick={handleResetVoting}
-              disabled={isResetting}
-              className="flex-1 bg-gradient-to-r from-red-600 via-pink-600 to-rose-600 text-white px-8 py-4 rounded-2xl font-black text-lg hover:shadow-2xl hover:shadow-red-500/50 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 transition-all duration-300 relative overflow-hidden group"
-            >
-              <div className="absolute inset-0 bg-gradient-to-r from-pink-500 to-red-500 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
-              <span className="relative flex items-center justify-center gap-3">
-                {isResetting ? (
-                  <>
-                    <span className="text-2xl animate-spin">🔄</span>
-                    RESETTING...
-                  </>
-                ) : (
-                  <>
-                    <span className="text-2xl">💥</span>
-                    RESET SYSTEM
-                    <span className="text-2xl">⚠️</span>
-                  </>
-                )}
-              </span>
-            </button>
           </div>
         </div>
       </div>
+
+      {/* Portaled out of the panel, whose transform and overflow would clip a fixed overlay */}
+      {confirming && createPortal(
+        <div
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={(e) => e.target === e.currentTarget && setConfirming(null)}
+        >
+          <div role="dialog" aria-modal="true" className="w-full max-w-md bg-black/90 border-2 border-red-500/40 rounded-2xl p-6 space-y-4">
+            <h3 className="text-xl font-black text-white flex items-center gap-2">
+              <span className="text-2xl">⚠️</span>
+              {confirmations[confirming].title}
+            </h3>
+            <p className="text-gray-300 text-sm">{confirmations[confirming].body}</p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => handleMaintenance(confirming)}
+                className="flex-1 px-6 py-3 bg-gradient-to-r from-red-600 to-pink-600 text-white rounded-xl font-bold hover:shadow-lg hover:shadow-red-500/50 transition-all duration-300"
+              >
+                CONFIRM
+              </button>
+              <button
+                onClick={() => setConfirming(null)}
+                className="flex-1 px-6 py-3 bg-black/50 border-2 border-gray-600 text-gray-300 rounded-xl font-bold hover:border-gray-400 transition-all duration-300"
+              >
+                CANCEL
+              </button>
+            </div>
+          </div>
+        </div>,
+        document.body
+      )}
     </div>
   );
 };
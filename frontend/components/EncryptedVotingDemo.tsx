@@ -1,61 +1,201 @@
 "use client";
 
-import { useState, useMemo } from "react";
-import { useEncryptedVotingSystem } from "../hooks/useEncryptedVotingSystem";
+import { useState } from "react";
+import {
+  approvalBitmask,
+  BallotType,
+  EligibilityMode,
+  hasRules,
+  isWeightedVote,
+  MAX_APPROVAL_OPTIONS,
+  MAX_RANKED_OPTIONS,
+  NO_RULES,
+  Threshold,
+  useEncryptedVotingSystem,
+  Vote,
+  VoteRules,
+  VoteState,
+} from "../hooks/useEncryptedVotingSystem";
+import { parseAddressList } from "../lib/merkle";
+import { RankedBallot, RunoffRounds } from "./RankedBallot";
 import { useAccount, useChainId } from "wagmi";
-import { EncryptedVotingSystemAddresses } from "../abi/EncryptedVotingSystemAddresses";
+import { ethers } from "ethers";
+import { useContractAddress } from "../hooks/useContractAddress";
 import { ThemeToggle } from "./theme-toggle";
 import { EnglishConnectButton } from "./EnglishConnectButton";
+import { AdminPanel } from "./AdminPanel";
+import { SurveyCreateForm } from "./surveys";
+import { EncryptedSurveyAddresses } from "../abi/EncryptedSurveyAddresses";
+import { PreviousDeployments } from "./PreviousDeployments";
+
+// Embargoed votes only unlock their results once endVote has run, cancelled and outcome-only votes never do
+const areResultsUnlocked = (vote: Vote) =>
+  vote.state !== VoteState.Cancelled && !vote.rules.outcomeOnly && (!vote.active || vote.liveResults);
+
+const THRESHOLD_LABELS: Record<Threshold, string> = {
+  [Threshold.None]: "No threshold",
+  [Threshold.Majority]: "Simple majority",
+  [Threshold.Supermajority]: "Two-thirds majority",
+  [Threshold.Count]: "Minimum ballot count",
+};
+
+// What the first option needs to pass, e.g. "Passes with a two-thirds majority · quorum 10".
+// Thresholds of weighted votes compare ballot weights, the quorum always counts ballots.
+const describeRules = (rules: VoteRules, motion: string, weighted: boolean) => {
+  const parts = [];
+  const counted = weighted ? "the ballot weight" : "the ballots";
+  if (rules.threshold === Threshold.Majority) parts.push(`${motion} needs more than half of ${counted}`);
+  if (rules.threshold === Threshold.Supermajority) parts.push(`${motion} needs two thirds of ${counted}`);
+  if (rules.threshold === Threshold.Count) {
+    parts.push(`${motion} needs ${rules.thresholdCount} ${weighted ? "weight" : "ballots"}`);
+  }
+  if (rules.quorum > 0) parts.push(`quorum of ${rules.quorum} ballots`);
+  return parts.join(" · ");
+};
+
+const VOTE_STATE_BADGES: Record<VoteState, { label: string; style: string }> = {
+  [VoteState.Draft]: { label: "DRAFT", style: "bg-gray-900/50 border-gray-500/30 text-gray-300" },
+  [VoteState.Scheduled]: { label: "SCHEDULED", style: "bg-blue-900/50 border-blue-500/30 text-blue-300" },
+  [VoteState.Open]: { label: "OPEN", style: "bg-green-900/50 border-green-500/30 text-green-400" },
+  [VoteState.Closed]: { label: "CLOSED", style: "bg-yellow-900/50 border-yellow-500/30 text-yellow-300" },
+  [VoteState.Tallied]: { label: "TALLIED", style: "bg-gray-900/50 border-gray-500/30 text-gray-300" },
+  [VoteState.Cancelled]: { label: "CANCELLED", style: "bg-red-900/50 border-red-500/30 text-red-400" },
+};
+
+// Start or end of a vote shown under its state badge
+const scheduleLabel = (vote: Vote) => {
+  if (vote.state === VoteState.Draft || vote.state === VoteState.Scheduled) {
+    return `Opens: ${new Date(vote.startTime * 1000).toLocaleString()}`;
+  }
+  return `${vote.state === VoteState.Open ? "Ends" : "Ended"}: ${new Date(vote.endTime * 1000).toLocaleString()}`;
+};
+
+// datetime-local inputs hold minute-granular local times, e.g. "2026-11-02T09:00"
+const toDateTimeInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+
+const fromDateTimeInput = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+const inOneWeek = () => toDateTimeInput(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
+
+const ELIGIBILITY_LABELS: Record<EligibilityMode, string> = {
+  [EligibilityMode.Open]: "🌐 Open to everyone",
+  [EligibilityMode.Allowlist]: "📋 Allowlist only",
+  [EligibilityMode.Merkle]: "🌳 Members only",
+};
 
 export const EncryptedVotingDemo = () => {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
-  
-  // Get contract address based on current chain
-  // Priority: chain-specific address > environment variable > default localhost
-  // Use useMemo to recalculate when chainId changes
-  const contractAddress = useMemo(() => {
-    // First, try to get address from addresses file based on current chain
-    const chainIdStr = chainId.toString();
-    const chainAddress = EncryptedVotingSystemAddresses[chainIdStr as keyof typeof EncryptedVotingSystemAddresses];
-    
-    if (chainAddress) {
-      return chainAddress.address;
-    }
-    
-    // If no chain-specific address found, use environment variable if set
-    if (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS) {
-      return process.env.NEXT_PUBLIC_CONTRACT_ADDRESS;
-    }
-    
-    // Fallback to localhost address
-    return "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
-  }, [chainId]);
+  const contractAddress = useContractAddress();
+  const voting = useEncryptedVotingSystem(contractAddress);
   const {
     votes,
     userVotes,
     decryptedResults,
+    publishedResults,
+    publishedSpoiled,
+    rankedRounds,
+    publishedOutcomes,
+    pendingOwner,
+    accountRoles,
     isLoading,
     message,
     createVote,
+    publishVote,
+    cancelVote,
+    closeVoteEarly,
+    acceptOwnership,
     castVote,
+    castRankedVote,
+    proveEligibility,
+    endVote,
     decryptUserVote,
     loadVotes,
     refreshVote,
-  } = useEncryptedVotingSystem(contractAddress);
+  } = voting;
 
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [createKind, setCreateKind] = useState<"vote" | "survey">("vote");
   const [newVote, setNewVote] = useState({
     title: "",
     description: "",
     options: ["", ""],
-    durationDays: 7,
+    startsAt: "", // empty to open right away
+    endsAt: inOneWeek(),
+    liveResults: false,
+    eligibility: EligibilityMode.Open,
+    members: [] as string[],
+    weightToken: "",
+    weightDecimals: 18,
+    ballotType: BallotType.Plurality,
+    allowRevote: false,
+    draft: false,
+    rules: NO_RULES,
   });
   const [selectedVoteId, setSelectedVoteId] = useState<number | null>(null);
   const [selectedOption, setSelectedOption] = useState<number>(0);
+  const [approvals, setApprovals] = useState<number[]>([]); // options ticked on the selected approval vote
+  const [changingVoteId, setChangingVoteId] = useState<number | null>(null); // vote whose ballot is being replaced
+  const [cancellingVoteId, setCancellingVoteId] = useState<number | null>(null); // vote whose cancel reason is asked
+  const [cancelReason, setCancelReason] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Archived votes leave the list unless asked for; their results stay readable
+  const listedVotes = votes.filter(vote => showArchived || !vote.archived);
+  const archivedCount = votes.filter(vote => vote.archived).length;
+
+  // The vote creator and admins can cancel a vote or close it early
+  const canManageVote = (vote: Vote) =>
+    accountRoles.admin || (!!address && vote.creator.toLowerCase() === address.toLowerCase());
+
+  const isPendingOwner = !!address && pendingOwner?.toLowerCase() === address.toLowerCase();
+
+  // Whether the connected account can fill in a ballot: a first one, or a replacement it asked for
+  const canFillBallot = (vote: Vote) =>
+    vote.state === VoteState.Open && vote.isEligible && (!userVotes[vote.id] || changingVoteId === vote.id);
+
+  const startChangingVote = (vote: Vote) => {
+    setChangingVoteId(vote.id);
+    setSelectedVoteId(null);
+    setApprovals([]);
+  };
+
+  const isApprovalVote = (vote: Vote) => vote.ballotType === BallotType.Approval;
+
+  const isPicked = (vote: Vote, index: number) =>
+    selectedVoteId === vote.id && (isApprovalVote(vote) ? approvals.includes(index) : selectedOption === index);
+
+  const pickOption = (vote: Vote, index: number) => {
+    if (isApprovalVote(vote)) {
+      const current = selectedVoteId === vote.id ? approvals : [];
+      setApprovals(current.includes(index) ? current.filter(option => option !== index) : [...current, index]);
+    } else {
+      setSelectedOption(index);
+    }
+    setSelectedVoteId(vote.id);
+  };
+
+  // Surveys need no role, so the create form offers them to every account once EncryptedSurvey is deployed
+  const surveyEntry = EncryptedSurveyAddresses[chainId.toString() as keyof typeof EncryptedSurveyAddresses];
+  const surveysDeployed = !!surveyEntry && surveyEntry.address !== ethers.ZeroAddress;
+  const formKind = !accountRoles.voteCreator ? "survey" : !surveysDeployed ? "vote" : createKind;
+  const kindSelect = accountRoles.voteCreator && surveysDeployed && (
+    <div className="space-y-2">
+      <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">CREATE A</label>
+      <select
+        value={createKind}
+        onChange={(e) => setCreateKind(e.target.value as "vote" | "survey")}
+        className="w-full px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white font-semibold transition-all duration-300"
+      >
+        <option value="vote">Vote (one question with options)</option>
+        <option value="survey">Survey (several choice and rating questions)</option>
+      </select>
+    </div>
+  );
 
   const handleCreateVote = async () => {
-    if (!newVote.title || !newVote.description || newVote.options.some(opt => !opt.trim())) {
+    if (!newVote.title || !newVote.description || !newVote.endsAt || newVote.options.some(opt => !opt.trim())) {
       // Validation will be handled by the UI feedback
       return;
     }
@@ -65,14 +205,34 @@ export const EncryptedVotingDemo = () => {
         newVote.title,
         newVote.description,
         newVote.options.filter(opt => opt.trim()),
-        newVote.durationDays
+        newVote.startsAt ? fromDateTimeInput(newVote.startsAt) : 0,
+        fromDateTimeInput(newVote.endsAt),
+        newVote.liveResults,
+        { mode: newVote.eligibility, members: newVote.members },
+        newVote.weightToken
+          ? { token: newVote.weightToken, unit: ethers.parseUnits("1", newVote.weightDecimals) }
+          : undefined,
+        newVote.ballotType,
+        newVote.allowRevote,
+        newVote.draft,
+        newVote.rules
       );
 
       setNewVote({
         title: "",
         description: "",
         options: ["", ""],
-        durationDays: 7,
+        startsAt: "",
+        endsAt: inOneWeek(),
+        liveResults: false,
+        eligibility: EligibilityMode.Open,
+        members: [],
+        weightToken: "",
+        weightDecimals: 18,
+        ballotType: BallotType.Plurality,
+        allowRevote: false,
+        draft: false,
+        rules: NO_RULES,
       });
       setShowCreateForm(false);
       // Success message is already shown via hook's message system
@@ -85,7 +245,10 @@ export const EncryptedVotingDemo = () => {
     if (selectedVoteId === null) return;
 
     try {
-      await castVote(selectedVoteId, selectedOption);
+      const vote = votes.find(v => v.id === selectedVoteId);
+      // Approval votes take the bitmask of every ticked option in place of a single option index
+      await castVote(selectedVoteId, vote && isApprovalVote(vote) ? approvalBitmask(approvals) : selectedOption);
+      setChangingVoteId(null);
       // Refresh the vote and reload all votes to update dashboard
       await refreshVote(selectedVoteId);
       await loadVotes(); // Reload all votes to update dashboard data
@@ -94,6 +257,62 @@ export const EncryptedVotingDemo = () => {
     }
   };
 
+  const handleCastRankedVote = async (voteId: number, ranking: number[]) => {
+    try {
+      await castRankedVote(voteId, ranking);
+      setChangingVoteId(null);
+      await loadVotes();
+    } catch (error) {
+      console.error("Failed to cast ranked vote:", error);
+    }
+  };
+
+  // Read an uploaded address list or CSV into its member addresses
+  const readMemberFile = async (file: File | undefined) => (file ? parseAddressList(await file.text()) : []);
+
+  const handleProveEligibility = async (voteId: number, file: File | undefined) => {
+    try {
+      await proveEligibility(voteId, await readMemberFile(file));
+    } catch (error) {
+      console.error("Failed to prove membership:", error);
+    }
+  };
+
+  const handlePublishVote = async (voteId: number) => {
+    try {
+      await publishVote(voteId);
+    } catch (error) {
+      console.error("Failed to publish vote:", error);
+    }
+  };
+
+  const handleCancelVote = async (voteId: number) => {
+    try {
+      await cancelVote(voteId, cancelReason);
+      setCancellingVoteId(null);
+      setCancelReason("");
+    } catch (error) {
+      console.error("Failed to cancel vote:", error);
+    }
+  };
+
+  const handleCloseVoteEarly = async (voteId: number) => {
+    try {
+      await closeVoteEarly(voteId);
+    } catch (error) {
+      console.error("Failed to close vote:", error);
+    }
+  };
+
+  const handleEndVote = async (voteId: number) => {
+    try {
+      await endVote(voteId);
+      await loadVotes();
+    } catch (error) {
+      console.error("Failed to end vote:", error);
+    }
+  };
+
   const addOption = () => {
     setNewVote(prev => ({
       ...prev,
@@ -280,7 +499,11 @@ export const EncryptedVotingDemo = () => {
                 </div>
               </div>
 
-              {!showCreateForm ? (
+              {!accountRoles.voteCreator && !surveysDeployed ? (
+                <p className="text-center text-gray-400 text-sm p-4 bg-black/30 border border-orange-500/20 rounded-xl">
+                  🔒 Vote creation is restricted. Ask an admin for the vote creator role.
+                </p>
+              ) : !showCreateForm ? (
                 <button
                   onClick={() => setShowCreateForm(true)}
                   className="w-full bg-gradient-to-r from-orange-500 via-red-600 to-pink-600 text-white px-8 py-4 rounded-2xl font-black text-lg hover:shadow-2xl hover:shadow-orange-500/50 transform hover:scale-105 transition-all duration-300 relative overflow-hidden group active:scale-95"
@@ -289,12 +512,18 @@ export const EncryptedVotingDemo = () => {
                   <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-700"></div>
                   <span className="relative flex items-center justify-center gap-3">
                     <span className="text-2xl animate-bounce group-hover:animate-pulse">🚀</span>
-                    LAUNCH NEW VOTE
+                    {formKind === "survey" ? "LAUNCH NEW SURVEY" : "LAUNCH NEW VOTE"}
                     <span className="text-2xl animate-bounce group-hover:animate-pulse delay-75">🔥</span>
                   </span>
                 </button>
+              ) : formKind === "survey" ? (
+                <div className="space-y-4 md:space-y-5">
+                  {kindSelect}
+                  <SurveyCreateForm onClose={() => setShowCreateForm(false)} />
+                </div>
               ) : (
                 <div className="space-y-4 md:space-y-5">
+                  {kindSelect}
                   <div className="space-y-2">
                     <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">VOTE TITLE</label>
                     <input
@@ -346,16 +575,217 @@ export const EncryptedVotingDemo = () => {
                     </button>
                   </div>
 
-                  <div className="space-y-2">
-                    <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">DURATION (DAYS)</label>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">STARTS</label>
+                      <input
+                        type="datetime-local"
+                        value={newVote.startsAt}
+                        onChange={(e) => setNewVote(prev => ({ ...prev, startsAt: e.target.value }))}
+                        className="w-full px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white font-semibold transition-all duration-300"
+                      />
+                      <p className="text-gray-500 text-xs">Leave empty to open voting right away</p>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">ENDS</label>
+                      <input
+                        type="datetime-local"
+                        value={newVote.endsAt}
+                        onChange={(e) => setNewVote(prev => ({ ...prev, endsAt: e.target.value }))}
+                        className="w-full px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white font-semibold transition-all duration-300"
+                      />
+                      <p className="text-gray-500 text-xs">1 minute to 365 days after the start</p>
+                    </div>
+                  </div>
+
+                  <label className="flex items-start gap-3 p-4 bg-black/30 border-2 border-orange-500/20 rounded-xl cursor-pointer">
                     <input
-                      type="number"
-                      min="1"
-                      max="365"
-                      value={newVote.durationDays}
-                      onChange={(e) => setNewVote(prev => ({ ...prev, durationDays: parseInt(e.target.value) || 7 }))}
-                      className="w-full px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white font-semibold transition-all duration-300"
+                      type="checkbox"
+                      checked={newVote.draft}
+                      onChange={(e) => setNewVote(prev => ({ ...prev, draft: e.target.checked }))}
+                      className="mt-1 w-4 h-4 accent-orange-500"
+                    />
+                    <span>
+                      <span className="block text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">SAVE AS DRAFT</span>
+                      <span className="block text-gray-400 text-xs">
+                        Nobody can vote until you publish the vote, e.g. once its allowlist is complete.
+                      </span>
+                    </span>
+                  </label>
+
+                  <label className="flex items-start gap-3 p-4 bg-black/30 border-2 border-orange-500/20 rounded-xl cursor-pointer">
+                    <input
+                      type="checkbox"
+                      disabled={newVote.rules.outcomeOnly}
+                      checked={newVote.liveResults}
+                      onChange={(e) => setNewVote(prev => ({ ...prev, liveResults: e.target.checked }))}
+                      className="mt-1 w-4 h-4 accent-orange-500"
+                    />
+                    <span>
+                      <span className="block text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">LIVE RESULTS</span>
+                      <span className="block text-gray-400 text-xs">
+                        Allow tallies to be decrypted while voting is open. Leave unchecked to embargo results until the vote has ended.
+                      </span>
+                    </span>
+                  </label>
+
+                  <label className="flex items-start gap-3 p-4 bg-black/30 border-2 border-orange-500/20 rounded-xl cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={newVote.allowRevote}
+                      onChange={(e) => setNewVote(prev => ({ ...prev, allowRevote: e.target.checked }))}
+                      className="mt-1 w-4 h-4 accent-orange-500"
                     />
+                    <span>
+                      <span className="block text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">ALLOW VOTE CHANGES</span>
+                      <span className="block text-gray-400 text-xs">
+                        Let voters replace their encrypted ballot until the vote ends. Only the last ballot counts, which protects voters pressured into a choice.
+                      </span>
+                    </span>
+                  </label>
+
+                  <div className="space-y-2">
+                    <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">BALLOT TYPE</label>
+                    <select
+                      value={newVote.ballotType}
+                      onChange={(e) => setNewVote(prev => ({ ...prev, ballotType: Number(e.target.value) as BallotType }))}
+                      className="w-full px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white font-semibold transition-all duration-300"
+                    >
+                      <option value={BallotType.Plurality}>Single choice</option>
+                      <option value={BallotType.Ranked}>Ranked choice (instant runoff)</option>
+                      <option value={BallotType.Approval}>Approval (pick all that apply)</option>
+                    </select>
+                    {newVote.ballotType === BallotType.Ranked && (
+                      <p className="text-gray-400 text-xs">
+                        Voters rank up to {MAX_RANKED_OPTIONS} options. Once the vote ends, run{" "}
+                        <code className="bg-black/50 px-1 rounded">task:vote-tally-ranked</code> from the creator account to publish each elimination round.
+                        Only the first round is verified on-chain: you decrypt every voter&apos;s ranking and the later rounds are trusted to you.
+                      </p>
+                    )}
+                    {newVote.ballotType === BallotType.Approval && (
+                      <p className="text-gray-400 text-xs">
+                        Voters tick every option they approve of, up to {MAX_APPROVAL_OPTIONS} options. Each option counts its approvals.
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">PASS RULES (OPTIONAL)</label>
+                    <p className="text-gray-400 text-xs">
+                      The first option is the motion. Whether it passes is computed on the encrypted tally when the vote closes.
+                    </p>
+                    <div className="flex gap-3">
+                      <select
+                        value={newVote.rules.threshold}
+                        onChange={(e) => {
+                          const threshold = Number(e.target.value) as Threshold;
+                          setNewVote(prev => ({
+                            ...prev,
+                            rules: { ...prev.rules, threshold, outcomeOnly: threshold !== Threshold.None && prev.rules.outcomeOnly },
+                          }));
+                        }}
+                        className="flex-1 px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white font-semibold transition-all duration-300"
+                      >
+                        {Object.entries(THRESHOLD_LABELS).map(([threshold, label]) => (
+                          <option key={threshold} value={threshold}>{label}</option>
+                        ))}
+                      </select>
+                      {newVote.rules.threshold === Threshold.Count && (
+                        <input
+                          type="number"
+                          min={1}
+                          value={newVote.rules.thresholdCount || ""}
+                          onChange={(e) => setNewVote(prev => ({ ...prev, rules: { ...prev.rules, thresholdCount: Number(e.target.value) } }))}
+                          placeholder="Ballots"
+                          className="w-28 px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white placeholder-gray-400 transition-all duration-300"
+                        />
+                      )}
+                      <input
+                        type="number"
+                        min={0}
+                        value={newVote.rules.quorum || ""}
+                        onChange={(e) => setNewVote(prev => ({ ...prev, rules: { ...prev.rules, quorum: Number(e.target.value) } }))}
+                        placeholder="Quorum"
+                        className="w-28 px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white placeholder-gray-400 transition-all duration-300"
+                      />
+                    </div>
+                    {newVote.rules.threshold !== Threshold.None && (
+                      <label className="flex items-start gap-3 p-4 bg-black/30 border-2 border-orange-500/20 rounded-xl cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={newVote.rules.outcomeOnly}
+                          disabled={newVote.liveResults}
+                          onChange={(e) => setNewVote(prev => ({ ...prev, rules: { ...prev.rules, outcomeOnly: e.target.checked } }))}
+                          className="mt-1 w-4 h-4 accent-orange-500"
+                        />
+                        <span>
+                          <span className="block text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">OUTCOME ONLY</span>
+                          <span className="block text-gray-400 text-xs">
+                            Only publish whether the vote passed. The counts are never revealed, so live results must stay off.
+                          </span>
+                        </span>
+                      </label>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">WEIGHT BY TOKEN (OPTIONAL)</label>
+                    <div className="flex gap-3">
+                      <input
+                        type="text"
+                        value={newVote.weightToken}
+                        onChange={(e) => setNewVote(prev => ({ ...prev, weightToken: e.target.value.trim() }))}
+                        className="flex-1 px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white font-semibold transition-all duration-300"
+                        placeholder="ERC20Votes / ERC721Votes token address"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        max="18"
+                        value={newVote.weightDecimals}
+                        onChange={(e) => setNewVote(prev => ({ ...prev, weightDecimals: parseInt(e.target.value) || 0 }))}
+                        className="w-24 px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white font-semibold transition-all duration-300"
+                        title="Token decimals: one whole token is worth one vote"
+                      />
+                    </div>
+                    <p className="text-gray-400 text-xs">
+                      Each ballot counts with the voter&apos;s token balance at creation time. Use 0 decimals for NFTs. Leave empty for one ballot, one vote.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">WHO CAN VOTE</label>
+                    <select
+                      value={newVote.eligibility}
+                      onChange={(e) => setNewVote(prev => ({ ...prev, eligibility: Number(e.target.value) as EligibilityMode }))}
+                      className="w-full px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white font-semibold transition-all duration-300"
+                    >
+                      <option value={EligibilityMode.Open}>Everyone</option>
+                      <option value={EligibilityMode.Allowlist}>Allowlist managed by me</option>
+                      <option value={EligibilityMode.Merkle}>Members proving a Merkle root</option>
+                    </select>
+                    {newVote.eligibility !== EligibilityMode.Open && (
+                      <div className="space-y-2">
+                        <input
+                          type="file"
+                          accept=".csv,.txt"
+                          onChange={async (e) => {
+                            const members = await readMemberFile(e.target.files?.[0]);
+                            setNewVote(prev => ({ ...prev, members }));
+                          }}
+                          className="w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:bg-orange-500/20 file:text-orange-300 file:font-bold"
+                        />
+                        <p className="text-gray-400 text-xs">
+                          Upload a list or CSV of member addresses.{" "}
+                          {newVote.eligibility === EligibilityMode.Merkle
+                            ? "Only its Merkle root is stored on-chain; share the same file with members so they can prove membership."
+                            : "The addresses are added to the vote's allowlist after it is created."}
+                        </p>
+                        {newVote.members.length > 0 && (
+                          <p className="text-green-400 text-xs font-semibold">{newVote.members.length} member addresses loaded</p>
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex gap-3 pt-4">
@@ -379,6 +809,21 @@ export const EncryptedVotingDemo = () => {
                 </div>
               )}
             </div>
+
+            {isPendingOwner && (
+              <div className="bg-yellow-900/30 border-2 border-yellow-500/40 rounded-2xl p-4 md:p-6 text-center space-y-3">
+                <p className="text-yellow-300 font-bold">👑 You have been proposed as the new contract owner</p>
+                <button
+                  onClick={() => acceptOwnership().catch(() => undefined)}
+                  disabled={isLoading}
+                  className="bg-gradient-to-r from-yellow-500 to-orange-600 text-white px-6 py-3 rounded-2xl font-bold hover:shadow-xl hover:shadow-yellow-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                >
+                  ACCEPT OWNERSHIP
+                </button>
+              </div>
+            )}
+
+            {accountRoles.admin && <AdminPanel voting={voting} />}
           </div>
 
           <div className="lg:col-span-8 space-y-4 md:space-y-6">
@@ -393,18 +838,28 @@ export const EncryptedVotingDemo = () => {
                     <p className="text-red-400 text-sm">Cast your encrypted ballot</p>
                   </div>
                 </div>
-                <button
-                  onClick={loadVotes}
-                  disabled={isLoading}
-                  className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-3 rounded-2xl font-bold hover:shadow-xl hover:shadow-blue-500/50 transform hover:scale-110 transition-all duration-300"
-                >
-                  <span className="flex items-center gap-2">
-                    🔄 {isLoading ? "LOADING..." : "REFRESH"}
-                  </span>
-                </button>
+                <div className="flex items-center gap-3">
+                  {archivedCount > 0 && (
+                    <button
+                      onClick={() => setShowArchived(!showArchived)}
+                      className="bg-black/50 border-2 border-gray-600 text-gray-300 px-4 py-3 rounded-2xl font-bold hover:border-gray-400 transition-all duration-300"
+                    >
+                      🗄️ {showArchived ? "HIDE ARCHIVED" : `SHOW ARCHIVED (${archivedCount})`}
+                    </button>
+                  )}
+                  <button
+                    onClick={loadVotes}
+                    disabled={isLoading}
+                    className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-3 rounded-2xl font-bold hover:shadow-xl hover:shadow-blue-500/50 transform hover:scale-110 transition-all duration-300"
+                  >
+                    <span className="flex items-center gap-2">
+                      🔄 {isLoading ? "LOADING..." : "REFRESH"}
+                    </span>
+                  </button>
+                </div>
               </div>
 
-              {votes.length === 0 ? (
+              {listedVotes.length === 0 ? (
                 <div className="text-center py-8 md:py-12 lg:py-16">
                   <div className="text-6xl md:text-8xl mb-4 md:mb-6 animate-bounce">🎭</div>
                   <h3 className="text-xl md:text-2xl font-bold text-gray-300 mb-2 md:mb-4">No Active Votes Yet</h3>
@@ -417,7 +872,7 @@ export const EncryptedVotingDemo = () => {
                 </div>
               ) : (
                 <div className="space-y-4 md:space-y-6">
-                  {votes.filter(vote => vote.active).map((vote) => (
+                  {listedVotes.map((vote) => (
                     <div key={vote.id} className="bg-gradient-to-r from-black/60 to-gray-900/60 backdrop-blur-sm border-2 border-orange-500/20 rounded-2xl md:rounded-3xl p-4 md:p-6 lg:p-8 shadow-2xl transform hover:scale-102 transition-all duration-500 relative overflow-hidden group">
                       <div className="absolute inset-0 bg-gradient-to-r from-orange-500/5 to-red-500/5 opacity-0 group-hover:opacity-100 transition-opacity duration-500"></div>
 
@@ -426,9 +881,14 @@ export const EncryptedVotingDemo = () => {
                           <div className="flex-1">
                             <div className="flex items-center gap-3 mb-3">
                               <div className="w-8 h-8 rounded-full bg-gradient-to-r from-orange-500 to-red-600 flex items-center justify-center text-white font-bold text-sm">
-                                {votes.indexOf(vote) + 1}
+                                {listedVotes.indexOf(vote) + 1}
                               </div>
                               <h3 className="font-black text-2xl text-white">{vote.title}</h3>
+                              {vote.archived && (
+                                <span className="px-2 py-1 rounded-lg bg-gray-800 border border-gray-600 text-gray-400 text-xs font-bold uppercase tracking-wider">
+                                  Archived
+                                </span>
+                              )}
                             </div>
                             <p className="text-gray-300 text-lg mb-4 leading-relaxed">{vote.description}</p>
                             <div className="flex items-center gap-4 text-sm">
@@ -439,49 +899,164 @@ export const EncryptedVotingDemo = () => {
                             </div>
                           </div>
                           <div className="text-right">
-                            <div className="bg-green-900/50 border border-green-500/30 px-4 py-2 rounded-xl mb-3">
-                              <div className="text-green-400 font-bold text-sm uppercase tracking-wider">ACTIVE</div>
-                              <div className="text-gray-300 text-xs drop-shadow-sm">
-                                Ends: {new Date(vote.endTime * 1000).toLocaleDateString()}
+                            <div className={`border px-4 py-2 rounded-xl mb-3 ${VOTE_STATE_BADGES[vote.state].style}`}>
+                              <div className="font-bold text-sm uppercase tracking-wider">{VOTE_STATE_BADGES[vote.state].label}</div>
+                              <div className="text-gray-300 text-xs drop-shadow-sm">{scheduleLabel(vote)}</div>
+                            </div>
+                            <div className={`text-xs font-semibold uppercase tracking-wider ${
+                              areResultsUnlocked(vote) ? "text-green-400" : "text-yellow-400"
+                            }`}>
+                              {areResultsUnlocked(vote)
+                                ? "🔓 Results available"
+                                : vote.rules.outcomeOnly ? "🙈 Outcome only" : "⏳ Results embargoed"}
+                            </div>
+                            {hasRules(vote.rules) && (
+                              <div className="text-xs font-semibold uppercase tracking-wider text-amber-300 mt-1">
+                                ⚖️ {describeRules(vote.rules, vote.options[0], isWeightedVote(vote))}
                               </div>
+                            )}
+                            <div className="text-xs font-semibold uppercase tracking-wider text-gray-400 mt-1">
+                              {ELIGIBILITY_LABELS[vote.eligibility]}
                             </div>
+                            {isWeightedVote(vote) && (
+                              <div className="text-xs font-semibold uppercase tracking-wider text-purple-300 mt-1">⚖️ Token-weighted</div>
+                            )}
+                            {vote.ballotType === BallotType.Ranked && (
+                              <div className="text-xs font-semibold uppercase tracking-wider text-sky-300 mt-1">🔢 Ranked choice</div>
+                            )}
+                            {isApprovalVote(vote) && (
+                              <div className="text-xs font-semibold uppercase tracking-wider text-sky-300 mt-1">☑️ Approval</div>
+                            )}
+                            {vote.allowRevote && (
+                              <div className="text-xs font-semibold uppercase tracking-wider text-gray-400 mt-1">🔄 Votes can be changed</div>
+                            )}
+                            {vote.state === VoteState.Draft && vote.creator.toLowerCase() === address?.toLowerCase() && (
+                              <button
+                                onClick={() => handlePublishVote(vote.id)}
+                                disabled={isLoading}
+                                className="mt-3 bg-gradient-to-r from-orange-500 to-red-600 text-white px-4 py-2 rounded-xl text-xs font-bold hover:shadow-lg hover:shadow-orange-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                              >
+                                PUBLISH VOTE
+                              </button>
+                            )}
+                            {vote.active && vote.state === VoteState.Closed && (
+                              <button
+                                onClick={() => handleEndVote(vote.id)}
+                                disabled={isLoading}
+                                className="mt-3 bg-gradient-to-r from-gray-700 to-gray-900 border border-orange-500/40 text-orange-300 px-4 py-2 rounded-xl text-xs font-bold hover:border-orange-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                              >
+                                END VOTE
+                              </button>
+                            )}
+                            {canManageVote(vote) && vote.state === VoteState.Open && (
+                              <button
+                                onClick={() => handleCloseVoteEarly(vote.id)}
+                                disabled={isLoading}
+                                className="mt-3 block ml-auto bg-gradient-to-r from-gray-700 to-gray-900 border border-orange-500/40 text-orange-300 px-4 py-2 rounded-xl text-xs font-bold hover:border-orange-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                              >
+                                CLOSE EARLY
+                              </button>
+                            )}
+                            {canManageVote(vote) && vote.state <= VoteState.Open && cancellingVoteId !== vote.id && (
+                              <button
+                                onClick={() => {
+                                  setCancellingVoteId(vote.id);
+                                  setCancelReason("");
+                                }}
+                                disabled={isLoading}
+                                className="mt-3 block ml-auto bg-gradient-to-r from-gray-700 to-gray-900 border border-red-500/40 text-red-300 px-4 py-2 rounded-xl text-xs font-bold hover:border-red-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                              >
+                                CANCEL VOTE
+                              </button>
+                            )}
                           </div>
                         </div>
 
+                        {cancellingVoteId === vote.id && (
+                          <div className="mb-4 md:mb-6 p-4 bg-red-950/40 border-2 border-red-500/30 rounded-2xl space-y-3">
+                            <label className="block text-red-300 font-bold text-sm uppercase tracking-wider">Why are you cancelling this vote?</label>
+                            <input
+                              type="text"
+                              value={cancelReason}
+                              onChange={(e) => setCancelReason(e.target.value)}
+                              placeholder="e.g. Duplicate of another vote"
+                              className="w-full px-4 py-3 bg-black/50 border-2 border-red-500/30 rounded-xl focus:border-red-400 text-white placeholder-gray-500 font-semibold"
+                            />
+                            <p className="text-gray-400 text-xs">The reason is public. Ballots already cast will never be tallied.</p>
+                            <div className="flex gap-3">
+                              <button
+                                onClick={() => handleCancelVote(vote.id)}
+                                disabled={isLoading || !cancelReason.trim()}
+                                className="bg-gradient-to-r from-red-600 to-pink-600 text-white px-6 py-2 rounded-xl font-bold disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                              >
+                                {isLoading ? "⏳ CANCELLING..." : "CANCEL VOTE"}
+                              </button>
+                              <button
+                                onClick={() => setCancellingVoteId(null)}
+                                disabled={isLoading}
+                                className="px-6 py-2 border-2 border-gray-600 rounded-xl font-bold hover:border-gray-400 text-gray-300 hover:text-white transition-all duration-300"
+                              >
+                                KEEP VOTE
+                              </button>
+                            </div>
+                          </div>
+                        )}
+
+                        {vote.state === VoteState.Cancelled && (
+                          <div className="mb-4 md:mb-6 p-4 bg-red-950/40 border-2 border-red-500/30 rounded-2xl text-center">
+                            <p className="text-red-400 font-black uppercase tracking-wider">🚫 This vote was cancelled</p>
+                            {vote.cancelReason && <p className="text-gray-300 text-sm mt-1">Reason: {vote.cancelReason}</p>}
+                          </div>
+                        )}
+
+                        {vote.ballotType === BallotType.Ranked ? (
+                          canFillBallot(vote) && (
+                            <div className="mb-4 md:mb-6">
+                              <RankedBallot
+                                options={vote.options}
+                                disabled={isLoading}
+                                onSubmit={(ranking) => handleCastRankedVote(vote.id, ranking)}
+                              />
+                            </div>
+                          )
+                        ) : (
                         <div className="mb-4 md:mb-6">
-                          <h4 className="font-bold text-orange-400 mb-3 md:mb-4 text-base md:text-lg uppercase tracking-wider">Choose Your Path:</h4>
+                          <h4 className="font-bold text-orange-400 mb-3 md:mb-4 text-base md:text-lg uppercase tracking-wider">
+                            {isApprovalVote(vote) ? "Pick All That Apply:" : "Choose Your Path:"}
+                          </h4>
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                             {vote.options.map((option, index) => (
                               <label key={index} className="group cursor-pointer">
                                 <div className={`p-4 rounded-2xl border-2 transition-all duration-300 transform hover:scale-102 active:scale-98 ${
-                                  selectedVoteId === vote.id && selectedOption === index
+                                  isPicked(vote, index)
                                     ? "border-orange-400 bg-orange-500/20 shadow-lg shadow-orange-500/30 ring-2 ring-orange-500/50"
                                     : "border-gray-600 hover:border-orange-400 bg-black/30 hover:bg-orange-500/10 hover:shadow-lg hover:shadow-orange-500/20"
                                 }`}>
                                   <div className="absolute inset-0 bg-gradient-to-r from-orange-500/5 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-2xl"></div>
                                   <div className="relative z-10 flex items-center gap-3">
-                                    <div className={`w-5 h-5 rounded-full border-2 transition-all duration-300 flex items-center justify-center ${
-                                      selectedVoteId === vote.id && selectedOption === index
+                                    <div className={`w-5 h-5 border-2 transition-all duration-300 flex items-center justify-center ${
+                                      isApprovalVote(vote) ? "rounded-md" : "rounded-full"
+                                    } ${
+                                      isPicked(vote, index)
                                         ? "border-orange-400 bg-orange-500 shadow-lg"
                                         : "border-orange-500/60 group-hover:border-orange-400 group-hover:shadow-md"
                                     }`}>
                                       <input
-                                        type="radio"
+                                        type={isApprovalVote(vote) ? "checkbox" : "radio"}
                                         name={`vote-${vote.id}`}
                                         value={index}
-                                        checked={selectedVoteId === vote.id && selectedOption === index}
-                                        onChange={() => {
-                                          setSelectedVoteId(vote.id);
-                                          setSelectedOption(index);
-                                        }}
+                                        checked={isPicked(vote, index)}
+                                        onChange={() => pickOption(vote, index)}
                                         className="w-3 h-3 text-orange-600 bg-transparent border-0 focus:ring-0 opacity-0 absolute"
                                       />
-                                      {selectedVoteId === vote.id && selectedOption === index && (
-                                        <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
+                                      {isPicked(vote, index) && (
+                                        isApprovalVote(vote)
+                                          ? <span className="text-white text-xs font-black">✓</span>
+                                          : <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
                                       )}
                                     </div>
                                     <span className={`font-semibold transition-all duration-300 ${
-                                      selectedVoteId === vote.id && selectedOption === index
+                                      isPicked(vote, index)
                                         ? "text-orange-300 transform scale-105"
                                         : "text-gray-300 group-hover:text-orange-200 group-hover:transform group-hover:scale-102"
                                     }`}>
@@ -493,9 +1068,30 @@ export const EncryptedVotingDemo = () => {
                             ))}
                           </div>
                         </div>
+                        )}
 
                         <div className="flex gap-4">
-                          {selectedVoteId === vote.id && !userVotes[vote.id] && (
+                          {vote.state === VoteState.Open && !vote.isEligible && !userVotes[vote.id] && (
+                            vote.eligibility === EligibilityMode.Merkle ? (
+                              <label className="flex-1 bg-black/30 border-2 border-orange-500/30 px-6 py-4 rounded-2xl cursor-pointer">
+                                <span className="block text-orange-300 font-bold text-sm uppercase tracking-wider">🌳 PROVE MEMBERSHIP TO VOTE</span>
+                                <span className="block text-gray-400 text-xs mb-2">Upload the member list shared by the vote creator</span>
+                                <input
+                                  type="file"
+                                  accept=".csv,.txt"
+                                  disabled={isLoading}
+                                  onChange={(e) => handleProveEligibility(vote.id, e.target.files?.[0])}
+                                  className="w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:bg-orange-500/20 file:text-orange-300 file:font-bold"
+                                />
+                              </label>
+                            ) : (
+                              <div className="flex-1 text-center bg-black/30 border-2 border-gray-600 px-6 py-4 rounded-2xl text-gray-400 font-bold">
+                                🚫 YOU ARE NOT ON THIS VOTE&apos;S ALLOWLIST
+                              </div>
+                            )
+                          )}
+
+                          {canFillBallot(vote) && vote.ballotType !== BallotType.Ranked && selectedVoteId === vote.id && (
                             <button
                               onClick={handleCastVote}
                               disabled={isLoading}
@@ -503,30 +1099,70 @@ export const EncryptedVotingDemo = () => {
                             >
                               <div className="absolute inset-0 bg-gradient-to-r from-yellow-500 to-orange-500 opacity-0 group-hover:opacity-20 transition-opacity duration-300"></div>
                               <span className="relative flex items-center justify-center gap-3">
-                                {isLoading ? "⏳" : "🗳️"} {isLoading ? "CASTING..." : "CAST ENCRYPTED VOTE"}
+                                {isLoading ? "⏳" : "🗳️"} {isLoading ? "CASTING..." : changingVoteId === vote.id ? "REPLACE MY VOTE" : "CAST ENCRYPTED VOTE"}
                               </span>
                             </button>
                           )}
 
-                          {userVotes[vote.id] && (
+                          {changingVoteId === vote.id && (
+                            <button
+                              onClick={() => setChangingVoteId(null)}
+                              disabled={isLoading}
+                              className="px-6 py-4 border-2 border-gray-600 rounded-2xl font-bold hover:border-gray-400 text-gray-300 hover:text-white transition-all duration-300"
+                            >
+                              KEEP MY VOTE
+                            </button>
+                          )}
+
+                          {userVotes[vote.id] && changingVoteId !== vote.id && (
                             <div className="w-full space-y-4 md:space-y-5">
                               <div className="flex items-center justify-center gap-3 bg-green-900/50 border-2 border-green-500/50 px-6 py-4 rounded-2xl">
                                 <div className="text-3xl animate-bounce">✅</div>
                                 <span className="text-green-400 font-black text-lg">VOTE CAST SUCCESSFULLY</span>
                               </div>
 
-                              {!decryptedResults[vote.id] ? (
+                              {vote.state === VoteState.Open && vote.allowRevote ? (
+                                <div className="bg-gradient-to-r from-gray-800 to-black border-2 border-orange-500/40 rounded-2xl p-4 md:p-6 lg:p-8 text-center">
+                                  <div className="text-6xl mb-4">🔄</div>
+                                  <h4 className="text-xl font-bold text-gray-300 mb-3">CHANGED YOUR MIND?</h4>
+                                  <p className="text-gray-500 mb-6">
+                                    You can replace your encrypted ballot until {new Date(vote.endTime * 1000).toLocaleString()}. Only your last ballot is counted.
+                                  </p>
+                                  <div className="flex flex-wrap justify-center gap-3">
+                                    <button
+                                      onClick={() => startChangingVote(vote)}
+                                      disabled={isLoading}
+                                      className="bg-gradient-to-r from-orange-500 to-red-600 text-white px-8 py-3 rounded-2xl font-bold hover:shadow-xl hover:shadow-orange-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                                    >
+                                      ✏️ CHANGE MY VOTE
+                                    </button>
+                                    {areResultsUnlocked(vote) && (
+                                      <button
+                                        onClick={() => decryptUserVote(vote.id)}
+                                        disabled={isLoading}
+                                        className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-2xl font-bold hover:shadow-xl hover:shadow-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
+                                      >
+                                        {isLoading ? "⏳ DECRYPTING..." : "🔓 REVEAL RESULTS"}
+                                      </button>
+                                    )}
+                                  </div>
+                                </div>
+                              ) : !decryptedResults[vote.id] ? (
                                 <div className="bg-gradient-to-r from-gray-800 to-black border-2 border-gray-600 rounded-2xl p-4 md:p-6 lg:p-8 text-center transform hover:scale-102 transition-all duration-300">
                                   <div className="text-6xl mb-4 animate-pulse">🔒</div>
                                   <h4 className="text-xl font-bold text-gray-300 mb-3">YOUR VOTE IS ENCRYPTED</h4>
                                   <p className="text-gray-500 mb-6">Military-grade privacy protection active</p>
                                   <button
                                     onClick={() => decryptUserVote(vote.id)}
-                                    disabled={isLoading}
-                                    className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-2xl font-bold hover:shadow-xl hover:shadow-blue-500/50 transform hover:scale-110 transition-all duration-300"
+                                    disabled={isLoading || !areResultsUnlocked(vote)}
+                                    className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-8 py-3 rounded-2xl font-bold hover:shadow-xl hover:shadow-blue-500/50 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-110 transition-all duration-300"
                                   >
                                     <span className="flex items-center gap-2">
-                                      {isLoading ? "⏳" : "🔓"} {isLoading ? "DECRYPTING..." : "REVEAL RESULTS"}
+                                      {vote.rules.outcomeOnly
+                                        ? "🙈 ONLY THE OUTCOME IS PUBLISHED"
+                                        : !areResultsUnlocked(vote)
+                                        ? "⏳ RESULTS EMBARGOED UNTIL THE VOTE ENDS"
+                                        : <>{isLoading ? "⏳" : "🔓"} {isLoading ? "DECRYPTING..." : "REVEAL RESULTS"}</>}
                                     </span>
                                   </button>
                                 </div>
@@ -546,7 +1182,9 @@ export const EncryptedVotingDemo = () => {
                                             <span className="text-gray-300 font-semibold">{vote.options[result.optionId]}</span>
                                             <div className="bg-gradient-to-r from-orange-600 to-red-600 px-4 py-2 rounded-xl">
                                               <span className="text-white font-black">
-                                                {result.count} VOTE{result.count !== 1 ? 'S' : ''}
+                                                {result.count} {isApprovalVote(vote) ? "APPROVAL" : "VOTE"}{result.count !== 1 ? 'S' : ''}
+                                                {isWeightedVote(vote) && ` · ${result.weight ?? result.count} WEIGHT`}
+                                                {result.share !== undefined && ` · ${Math.round(result.share * 100)}%`}
                                               </span>
                                             </div>
                                           </div>
@@ -564,12 +1202,70 @@ export const EncryptedVotingDemo = () => {
                             </div>
                           )}
                         </div>
+
+                        {publishedResults[vote.id] ? (
+                          <div className="mt-6 bg-gradient-to-r from-emerald-900/50 to-teal-900/50 border-2 border-emerald-500/50 rounded-2xl p-4 md:p-6">
+                            <div className="flex items-center justify-center gap-3 mb-4">
+                              <div className="text-3xl">🛡️</div>
+                              <h4 className="text-xl font-bold text-emerald-400">VERIFIED RESULTS</h4>
+                            </div>
+                            <p className="text-center text-gray-400 text-sm mb-4">
+                              Decrypted by the FHEVM oracle and published on-chain
+                              {vote.ballotType === BallotType.Ranked && " · first preferences"}
+                              {isApprovalVote(vote) && " · a ballot can approve several options"}
+                            </p>
+                            {publishedOutcomes[vote.id] !== undefined && (
+                              <div className={`mb-4 p-4 rounded-xl border-2 text-center ${
+                                publishedOutcomes[vote.id] ? "border-green-500/50 bg-green-900/30" : "border-red-500/50 bg-red-900/30"
+                              }`}>
+                                <div className={`text-2xl font-black ${publishedOutcomes[vote.id] ? "text-green-400" : "text-red-400"}`}>
+                                  {publishedOutcomes[vote.id] ? "✅ PASSED" : "❌ FAILED"}
+                                </div>
+                                <p className="text-gray-400 text-xs mt-1">
+                                  {describeRules(vote.rules, vote.options[0], isWeightedVote(vote))}
+                                  {vote.rules.outcomeOnly && " · counts kept private"}
+                                </p>
+                              </div>
+                            )}
+                            <div className="grid gap-3">
+                              {publishedResults[vote.id].map((result) => (
+                                <div key={result.optionId} className="flex justify-between items-center bg-black/50 p-4 rounded-xl border border-gray-600">
+                                  <span className="text-gray-300 font-semibold">{vote.options[result.optionId]}</span>
+                                  <span className="text-white font-black">
+                                    {result.count} {isApprovalVote(vote) ? "APPROVAL" : "VOTE"}{result.count !== 1 ? 'S' : ''}
+                                    {isWeightedVote(vote) && ` · ${result.weight} WEIGHT`}
+                                    {` · ${Math.round(result.share * 100)}%`}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                            {publishedSpoiled[vote.id] > 0 && (
+                              <p className="text-center text-yellow-400 text-sm mt-4">
+                                ⚠️ {publishedSpoiled[vote.id]} spoiled ballot{publishedSpoiled[vote.id] !== 1 ? 's' : ''} (invalid option, not counted)
+                              </p>
+                            )}
+                            {vote.ballotType === BallotType.Ranked && (
+                              <div className="mt-6">
+                                <h4 className="text-lg font-bold text-emerald-400 text-center mb-4">INSTANT-RUNOFF ROUNDS</h4>
+                                {rankedRounds[vote.id]?.length ? (
+                                  <RunoffRounds options={vote.options} rounds={rankedRounds[vote.id]} />
+                                ) : (
+                                  <p className="text-center text-sm text-gray-500">⏳ Waiting for the vote creator to publish the runoff rounds</p>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        ) : vote.state === VoteState.Closed && !vote.active && (
+                          <p className="mt-6 text-center text-sm text-gray-500">⏳ Waiting for the decryption oracle to publish verified results</p>
+                        )}
                       </div>
                     </div>
                   ))}
                 </div>
               )}
             </div>
+
+            <PreviousDeployments contractAddress={contractAddress} />
           </div>
         </div>
       </div>
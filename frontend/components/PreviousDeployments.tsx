@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { VoteState } from "../hooks/useEncryptedVotingSystem";
+import { useVotingRegistry } from "../hooks/useVotingRegistry";
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const STATE_LABELS: Record<VoteState, string> = {
+  [VoteState.Draft]: "DRAFT",
+  [VoteState.Scheduled]: "SCHEDULED",
+  [VoteState.Open]: "OPEN",
+  [VoteState.Closed]: "CLOSED",
+  [VoteState.Tallied]: "TALLIED",
+  [VoteState.Cancelled]: "CANCELLED",
+};
+
+interface PreviousDeploymentsProps {
+  contractAddress: string | undefined;
+}
+
+// Votes of the voting contracts deployed before the current one, read from the VotingRegistry.
+// Renders nothing on chains without a registry or with a single deployment.
+export const PreviousDeployments = ({ contractAddress }: PreviousDeploymentsProps) => {
+  const { previousDeployments, isLoading, loadPreviousDeployments } = useVotingRegistry(contractAddress);
+  const [expanded, setExpanded] = useState(false);
+
+  if (previousDeployments.length === 0) {
+    return null;
+  }
+
+  const voteTotal = previousDeployments.reduce((total, deployment) => total + deployment.votes.length, 0);
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm border-2 border-gray-600/30 rounded-2xl md:rounded-3xl p-4 md:p-6 lg:p-8 shadow-2xl">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-black text-white">🗂️ PREVIOUS DEPLOYMENTS</h2>
+          <p className="text-gray-400 text-sm">
+            {voteTotal} vote{voteTotal !== 1 ? "s" : ""} from older versions of the voting contract, read-only
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={loadPreviousDeployments}
+            disabled={isLoading}
+            className="bg-black/50 border-2 border-gray-600 text-gray-300 px-4 py-3 rounded-2xl font-bold hover:border-gray-400 transition-all duration-300"
+          >
+            🔄 {isLoading ? "LOADING..." : "REFRESH"}
+          </button>
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="bg-black/50 border-2 border-gray-600 text-gray-300 px-4 py-3 rounded-2xl font-bold hover:border-gray-400 transition-all duration-300"
+          >
+            {expanded ? "HIDE" : "SHOW"}
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-6 space-y-6">
+          {previousDeployments.map((deployment) => (
+            <div key={deployment.votingSystem}>
+              <h3 className="text-sm font-bold text-gray-300 mb-3">
+                v{deployment.version} · {deployment.label} · {shortAddress(deployment.votingSystem)}
+                <span className="text-gray-500 font-normal">
+                  {" "}· registered {new Date(deployment.registeredAt * 1000).toLocaleDateString()}
+                </span>
+              </h3>
+              {deployment.votes.length === 0 ? (
+                <p className="text-gray-500 text-sm">No votes</p>
+              ) : (
+                <div className="space-y-3">
+                  {deployment.votes.map((vote) => (
+                    <div key={vote.id} className="bg-black/50 p-4 rounded-xl border border-gray-700">
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="text-white font-semibold">#{vote.id} {vote.title}</span>
+                        <span className="text-xs font-bold text-gray-400">{STATE_LABELS[vote.state]}</span>
+                      </div>
+                      {vote.migratedTo && (
+                        <p className="text-blue-300 text-xs mt-2">
+                          ➡️ Moved to vote #{vote.migratedTo.voteId} of {shortAddress(vote.migratedTo.votingSystem)}
+                        </p>
+                      )}
+                      {vote.counts && (
+                        <div className="grid gap-1 mt-3">
+                          {vote.counts.map((count, optionId) => (
+                            <div key={optionId} className="flex justify-between text-sm">
+                              <span className="text-gray-300">{vote.options[optionId]}</span>
+                              <span className="text-white font-bold">{count}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import { runoffWinner } from "../lib/ranking";
+
+interface RankedBallotProps {
+  options: string[];
+  disabled: boolean;
+  onSubmit: (ranking: number[]) => void;
+}
+
+// Drag-to-rank ballot: voters order the options they support, most preferred first.
+// Options left unranked are never counted, even once every ranked option is eliminated.
+export const RankedBallot = ({ options, disabled, onSubmit }: RankedBallotProps) => {
+  const [ranking, setRanking] = useState<number[]>([]);
+  const [dragged, setDragged] = useState<number | null>(null);
+
+  const unranked = options.map((_, index) => index).filter(index => !ranking.includes(index));
+
+  const moveTo = (option: number, position: number) => {
+    setRanking(prev => {
+      const next = prev.filter(index => index !== option);
+      next.splice(Math.min(position, next.length), 0, option);
+      return next;
+    });
+  };
+
+  const unrank = (option: number) => setRanking(prev => prev.filter(index => index !== option));
+
+  return (
+    <div className="space-y-4">
+      <h4 className="font-bold text-orange-400 text-base md:text-lg uppercase tracking-wider">Rank Your Choices:</h4>
+      <p className="text-gray-400 text-xs">Drag options into your preferred order. Your ballot moves to your next choice if your first is eliminated.</p>
+      <p className="text-yellow-400 text-xs">⚠️ Your ranking stays hidden from other voters, but the vote creator and talliers decrypt every ranking to run the runoff.</p>
+
+      <ol
+        className="space-y-2 min-h-16 p-3 rounded-2xl border-2 border-dashed border-orange-500/40 bg-black/30"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={() => dragged !== null && moveTo(dragged, ranking.length)}
+      >
+        {ranking.length === 0 && (
+          <li className="text-center text-gray-500 text-sm py-3">Drop options here, or click them below</li>
+        )}
+        {ranking.map((option, position) => (
+          <li
+            key={option}
+            draggable={!disabled}
+            onDragStart={() => setDragged(option)}
+            onDragEnd={() => setDragged(null)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.stopPropagation();
+              if (dragged !== null) moveTo(dragged, position);
+            }}
+            className={`flex items-center gap-3 p-3 rounded-xl border-2 cursor-grab active:cursor-grabbing transition-all duration-300 ${
+              dragged === option ? "border-orange-400 bg-orange-500/30 opacity-60" : "border-orange-500/40 bg-orange-500/10"
+            }`}
+          >
+            <span className="w-8 h-8 rounded-full bg-gradient-to-br from-orange-500 to-red-600 flex items-center justify-center text-white font-black text-sm">
+              {position + 1}
+            </span>
+            <span className="flex-1 text-orange-200 font-semibold">{options[option]}</span>
+            <button
+              onClick={() => moveTo(option, position - 1)}
+              disabled={disabled || position === 0}
+              className="px-2 text-gray-400 hover:text-orange-300 disabled:opacity-30"
+              aria-label={`Move ${options[option]} up`}
+            >
+              ▲
+            </button>
+            <button
+              onClick={() => moveTo(option, position + 1)}
+              disabled={disabled || position === ranking.length - 1}
+              className="px-2 text-gray-400 hover:text-orange-300 disabled:opacity-30"
+              aria-label={`Move ${options[option]} down`}
+            >
+              ▼
+            </button>
+            <button
+              onClick={() => unrank(option)}
+              disabled={disabled}
+              className="px-2 text-gray-400 hover:text-red-400 disabled:opacity-30"
+              aria-label={`Remove ${options[option]} from your ranking`}
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {unranked.length > 0 && (
+        <div
+          className="flex flex-wrap gap-2"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={() => dragged !== null && unrank(dragged)}
+        >
+          {unranked.map(option => (
+            <button
+              key={option}
+              draggable={!disabled}
+              onDragStart={() => setDragged(option)}
+              onDragEnd={() => setDragged(null)}
+              onClick={() => moveTo(option, ranking.length)}
+              disabled={disabled}
+              className="px-4 py-2 rounded-xl border-2 border-gray-600 bg-black/30 text-gray-300 font-semibold hover:border-orange-400 hover:text-orange-200 disabled:opacity-50 transition-all duration-300"
+            >
+              + {options[option]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => onSubmit(ranking)}
+        disabled={disabled || ranking.length === 0}
+        className="w-full bg-gradient-to-r from-orange-500 via-red-600 to-pink-600 text-white px-8 py-4 rounded-2xl font-black text-lg hover:shadow-2xl hover:shadow-orange-500/50 disabled:opacity-50 disabled:cursor-not-allowed transform hover:scale-105 transition-all duration-300"
+      >
+        {disabled ? "⏳ CASTING..." : "🗳️ CAST ENCRYPTED RANKING"}
+      </button>
+    </div>
+  );
+};
+
+interface RunoffRoundsProps {
+  options: string[];
+  rounds: number[][];
+}
+
+// Count per option of every instant-runoff round; options at zero after the first round were eliminated
+export const RunoffRounds = ({ options, rounds }: RunoffRoundsProps) => {
+  const winner = runoffWinner(rounds);
+
+  return (
+    <div className="space-y-4">
+      {rounds.map((counts, round) => {
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        const eliminated = round + 1 < rounds.length
+          ? counts.findIndex((count, option) => count > 0 && rounds[round + 1][option] === 0)
+          : -1;
+
+        return (
+          <div key={round} className="bg-black/40 border border-gray-600 rounded-xl p-4">
+            <h5 className="text-sm font-bold uppercase tracking-wider text-emerald-300 mb-3">Round {round + 1}</h5>
+            <div className="space-y-2">
+              {counts.map((count, option) => (round === 0 || rounds[round - 1][option] > 0 || count > 0) && (
+                <div key={option} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className={option === eliminated ? "text-red-400 line-through" : "text-gray-300"}>
+                      {options[option]}
+                    </span>
+                    <span className="text-white font-bold">{count}</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-gray-800 overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-emerald-500 to-teal-500"
+                      style={{ width: total > 0 ? `${(count / total) * 100}%` : "0%" }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            {eliminated !== -1 && (
+              <p className="text-xs text-red-400 mt-3">❌ {options[eliminated]} eliminated, its ballots move to their next choice</p>
+            )}
+            {round === 0 && (
+              <p className="text-xs text-gray-500 mt-3">✓ Matches the first preferences published by the decryption oracle</p>
+            )}
+          </div>
+        );
+      })}
+      {winner !== undefined && (
+        <p className="text-center text-emerald-400 font-black text-lg">🏆 {options[winner]} wins the runoff</p>
+      )}
+      {rounds.length > 1 && (
+        <p className="text-center text-xs text-yellow-400">
+          ⚠️ Later rounds are computed off-chain by the vote creator or a tallier and cannot be recounted on-chain
+        </p>
+      )}
+    </div>
+  );
+};
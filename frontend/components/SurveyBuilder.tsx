@@ -0,0 +1,137 @@
+"use client";
+
+import React from "react";
+import { MAX_SURVEY_OPTIONS, MAX_SURVEY_QUESTIONS, QuestionType, SurveyQuestion } from "../hooks/useEncryptedSurvey";
+
+export const newQuestion = (questionType: QuestionType): SurveyQuestion =>
+  questionType === QuestionType.Choice
+    ? { prompt: "", questionType, options: ["", ""], minRating: 0, maxRating: 0 }
+    : { prompt: "", questionType, options: [], minRating: 1, maxRating: 10 };
+
+// Whether every question of the builder can be submitted as is
+export const isSurveyValid = (questions: SurveyQuestion[]) =>
+  questions.length > 0 &&
+  questions.every((question) =>
+    question.questionType === QuestionType.Choice
+      ? !!question.prompt.trim() && question.options.every((option) => !!option.trim())
+      : !!question.prompt.trim() && question.minRating < question.maxRating
+  );
+
+interface SurveyBuilderProps {
+  questions: SurveyQuestion[];
+  onChange: (questions: SurveyQuestion[]) => void;
+}
+
+const inputClass =
+  "w-full px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white placeholder-gray-500 font-semibold transition-all duration-300";
+
+// Question builder of the survey create form: choice questions with options and rating questions with bounds
+export function SurveyBuilder({ questions, onChange }: SurveyBuilderProps) {
+  const update = (index: number, changes: Partial<SurveyQuestion>) =>
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+
+  const updateOption = (index: number, optionIndex: number, value: string) =>
+    update(index, {
+      options: questions[index].options.map((option, i) => (i === optionIndex ? value : option)),
+    });
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question, index) => (
+        <div key={index} className="p-4 bg-black/30 border-2 border-orange-500/20 rounded-xl space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">
+              Question {index + 1} · {question.questionType === QuestionType.Choice ? "Choice" : "Rating"}
+            </span>
+            {questions.length > 1 && (
+              <button
+                onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                className="text-sm text-red-400 hover:text-red-300 font-bold"
+              >
+                🗑️ Remove
+              </button>
+            )}
+          </div>
+          <input
+            type="text"
+            placeholder="What do you want to ask?"
+            value={question.prompt}
+            onChange={(e) => update(index, { prompt: e.target.value })}
+            className={inputClass}
+          />
+
+          {question.questionType === QuestionType.Choice ? (
+            <div className="space-y-2">
+              {question.options.map((option, optionIndex) => (
+                <div key={optionIndex} className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder={`Option ${optionIndex + 1}`}
+                    value={option}
+                    onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                    className={inputClass}
+                  />
+                  {question.options.length > 2 && (
+                    <button
+                      onClick={() => update(index, { options: question.options.filter((_, i) => i !== optionIndex) })}
+                      className="px-3 text-red-400 hover:text-red-300"
+                    >
+                      ✕
+                    </button>
+                  )}
+                </div>
+              ))}
+              {question.options.length < MAX_SURVEY_OPTIONS && (
+                <button
+                  onClick={() => update(index, { options: [...question.options, ""] })}
+                  className="w-full py-2 border-2 border-dashed border-orange-500/50 rounded-xl text-orange-400 hover:border-orange-400 hover:bg-orange-500/10 transition-all duration-300 font-bold text-sm"
+                >
+                  + ADD OPTION
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                min={0}
+                max={254}
+                value={question.minRating}
+                onChange={(e) => update(index, { minRating: Math.min(254, Math.max(0, Number(e.target.value))) })}
+                className={inputClass}
+                title="Lowest rating"
+              />
+              <span className="text-gray-400 font-bold">to</span>
+              <input
+                type="number"
+                min={1}
+                max={255}
+                value={question.maxRating}
+                onChange={(e) => update(index, { maxRating: Math.min(255, Math.max(1, Number(e.target.value))) })}
+                className={inputClass}
+                title="Highest rating"
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {questions.length < MAX_SURVEY_QUESTIONS && (
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => onChange([...questions, newQuestion(QuestionType.Choice)])}
+            className="py-3 border-2 border-dashed border-orange-500/50 rounded-xl text-orange-400 hover:border-orange-400 hover:bg-orange-500/10 transition-all duration-300 font-bold text-sm"
+          >
+            + CHOICE QUESTION
+          </button>
+          <button
+            onClick={() => onChange([...questions, newQuestion(QuestionType.Rating)])}
+            className="py-3 border-2 border-dashed border-orange-500/50 rounded-xl text-orange-400 hover:border-orange-400 hover:bg-orange-500/10 transition-all duration-300 font-bold text-sm"
+          >
+            + RATING QUESTION
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,26 @@
 "use client";
 
-import React, { useEffect, useState, useMemo } from "react";
-import { useAccount, usePublicClient } from "wagmi";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useAccount } from "wagmi";
 import { motion, AnimatePresence } from "framer-motion";
-import { useEncryptedVotingSystem, Vote } from "../hooks/useEncryptedVotingSystem";
+import { isWeightedVote, useEncryptedVotingSystem, Vote, VoteResult, VoteState } from "../hooks/useEncryptedVotingSystem";
 import { AnimatedStat } from "./animated-counter";
+import { ActivityChart } from "./ActivityChart";
+import {
+  ActivityPoint,
+  ActivityRange,
+  BALLOT_RANGES,
+  bucketStart,
+  countPerBucket,
+  distinctPerBucket,
+  POLL_RANGES,
+  VOTER_RANGES,
+} from "../lib/activity";
 import { EnglishConnectButton } from "./EnglishConnectButton";
 import Link from "next/link";
-import { ethers } from "ethers";
-import { EncryptedVotingSystemABI } from "../abi/EncryptedVotingSystemABI";
+
+// How often the charts move on to the current bucket, well within their hourly buckets
+const CLOCK_INTERVAL = 60 * 1000;
 
 // Interface for vote statistics
 interface VoteStats {
@@ -44,14 +56,22 @@ function generateTrendingTopics(votes: Vote[]) {
 }
 
 // Helper function to format recent votes from real data
-function formatRecentVotes(votes: Vote[], voteStats: Record<number, VoteStats>) {
+function formatRecentVotes(
+  votes: Vote[],
+  voteStats: Record<number, VoteStats>,
+  publishedResults: Record<number, VoteResult[]>
+) {
   return votes.slice(0, 3).map(vote => ({
     id: vote.id,
     title: vote.title,
     creator: vote.creator ? `${vote.creator.slice(0, 6)}...${vote.creator.slice(-4)}` : "Unknown",
     participants: voteStats[vote.id]?.participantCount || 0,
+    // Weighted totals are only known once the oracle has published the results
+    weightedTotal: isWeightedVote(vote) && publishedResults[vote.id]
+      ? publishedResults[vote.id].reduce((sum, result) => sum + result.weight, 0)
+      : undefined,
     endTime: vote.endTime,
-    status: vote.active ? "active" : "ended"
+    state: vote.state
   }));
 }
 
@@ -61,13 +81,14 @@ interface VoteCardProps {
   title: string;
   creator: string;
   participants: number;
+  weightedTotal?: number;
   endTime: number;
-  status: string;
+  state: VoteState;
 }
 
 function VoteCard({ vote }: { vote: VoteCardProps }) {
-  const timeLeft = vote.endTime - Date.now();
-  const isActive = timeLeft > 0;
+  const timeLeft = vote.endTime * 1000 - Date.now();
+  const isActive = vote.state === VoteState.Open;
 
   return (
     <motion.div
@@ -87,15 +108,18 @@ function VoteCard({ vote }: { vote: VoteCardProps }) {
         <div className={`px-3 py-1 rounded-full text-xs font-semibold ${
           isActive
             ? "bg-green-900/50 text-green-300 border border-green-500/30"
+            : vote.state === VoteState.Cancelled
+            ? "bg-red-900/50 text-red-300 border border-red-500/30"
             : "bg-gray-900/50 text-gray-300 border border-gray-500/30"
         }`}>
-          {isActive ? "Active" : "Ended"}
+          {VoteState[vote.state]}
         </div>
       </div>
 
       <div className="flex items-center justify-between text-sm">
         <span className="text-gray-300 drop-shadow-sm">
           👥 {vote.participants} participants
+          {vote.weightedTotal !== undefined && ` · ⚖️ ${vote.weightedTotal} weighted votes`}
         </span>
         {isActive && (
           <span className="text-orange-400 drop-shadow-sm font-medium">
@@ -109,95 +133,39 @@ function VoteCard({ vote }: { vote: VoteCardProps }) {
 
 export function Dashboard() {
   const { address, isConnected } = useAccount();
-  const publicClient = usePublicClient();
   const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "0x5FbDB2315678afecb367f032d93F642f64180aa3";
-  const { votes, loadVotes } = useEncryptedVotingSystem(contractAddress);
-  const [voteStats, setVoteStats] = useState<Record<number, VoteStats>>({});
-
-  // Auto-refresh data every 10 seconds when connected
-  useEffect(() => {
-    if (isConnected && loadVotes) {
-      // Initial load
-      loadVotes();
-      
-      // Set up periodic refresh
-      const interval = setInterval(() => {
-        loadVotes();
-      }, 10000); // Refresh every 10 seconds
-
-      return () => clearInterval(interval);
-    }
-  }, [isConnected, loadVotes]);
-
-  // Load vote statistics from contract
+  const { votes, publishedResults, ballotCounts, activity } = useEncryptedVotingSystem(contractAddress);
+  // Charts end at the current bucket, even while no new ballots are indexed
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
   useEffect(() => {
-    const loadVoteStats = async () => {
-      if (!contractAddress || !publicClient || votes.length === 0) return;
-
-      try {
-        // Create provider - use localhost for Hardhat, or get RPC URL from publicClient
-        let rpcUrl = "http://localhost:8545";
-        if (publicClient) {
-          const client = publicClient as { transport?: { url?: string } };
-          if (client.transport?.url) {
-            rpcUrl = client.transport.url;
-          }
-        }
-        
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-        const contract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, provider);
-
-        const statsMap: Record<number, VoteStats> = {};
-        
-        for (const vote of votes) {
-          try {
-            // Get vote count
-            const voteCount = await contract.getVoteCount(vote.id);
-            const count = Number(voteCount);
-
-            // Get encrypted vote choices to count participants
-            const encryptedVotes = await contract.getEncryptedVoteChoices(vote.id);
-            const participantCount = Array.isArray(encryptedVotes) ? encryptedVotes.length : 0;
-
-            statsMap[vote.id] = {
-              voteId: vote.id,
-              voteCount: count,
-              participantCount
-            };
-          } catch (error) {
-            console.warn(`Failed to load stats for vote ${vote.id}:`, error);
-            statsMap[vote.id] = {
-              voteId: vote.id,
-              voteCount: 0,
-              participantCount: 0
-            };
-          }
-        }
-
-        setVoteStats(statsMap);
-      } catch (error) {
-        console.error("Error loading vote statistics:", error);
-      }
-    };
-
-    if (isConnected && votes.length > 0) {
-      loadVoteStats();
-    }
-  }, [contractAddress, publicClient, votes, isConnected]);
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Ballot counts come from the vote event index, which follows new blocks, so nothing is polled here.
+  // Like getVoteCount, the index counts each voter once per vote, delegators whose delegate voted for them included.
+  const voteStats = useMemo(
+    () => Object.fromEntries(votes.map((vote): [number, VoteStats] => [vote.id, {
+      voteId: vote.id,
+      voteCount: ballotCounts[vote.id] ?? 0,
+      participantCount: ballotCounts[vote.id] ?? 0
+    }])),
+    [votes, ballotCounts]
+  );
 
   // Calculate real statistics from votes data
   const stats = useMemo(() => {
-    const activeVotes = votes.filter(vote => vote.active).length;
+    const activeVotes = votes.filter(vote => vote.state === VoteState.Open).length;
     
     // Calculate total votes cast across all votes
     const totalVotes = Object.values(voteStats).reduce((sum, stat) => sum + stat.voteCount, 0);
     
-    // Calculate total unique participants (sum of all participants)
-    const totalParticipants = Object.values(voteStats).reduce((sum, stat) => sum + stat.participantCount, 0);
+    // Distinct voters across every vote, like getParticipantCount: someone voting in several votes is counted once
+    const totalParticipants = new Set(activity.ballots.map(ballot => ballot.voter)).size;
     
-    // Calculate today's votes (estimate based on total votes)
-    // In a real implementation, we'd track vote timestamps from contract events
-    const todayVotes = Math.floor(totalVotes * 0.1); // Estimate 10% are from today
+    // Ballots cast since local midnight, from the block timestamps of their VoteCast and DelegatedBallotCast events
+    const today = bucketStart(now, "day");
+    const todayVotes = activity.ballots.filter(ballot => ballot.timestamp >= today).length;
 
     return {
       activeVotes,
@@ -205,10 +173,34 @@ export function Dashboard() {
       todayVotes,
       totalVotes
     };
-  }, [votes, voteStats]);
+  }, [votes, voteStats, activity, now]);
+
+  const ballotSeries = useCallback(
+    (range: ActivityRange) => countPerBucket(activity.ballots.map(ballot => ballot.timestamp), range, now),
+    [activity, now]
+  );
+  const pollSeries = useCallback(
+    (range: ActivityRange) => countPerBucket(activity.votes.map(vote => vote.createdAt), range, now),
+    [activity, now]
+  );
+  const voterSeries = useCallback(
+    (range: ActivityRange) => distinctPerBucket(
+      activity.ballots.map(ballot => ({ key: ballot.voter, timestamp: ballot.timestamp })),
+      range,
+      now
+    ),
+    [activity, now]
+  );
+  // A voter active in several weeks of the range is counted once
+  const distinctVoters = useCallback(
+    (points: ActivityPoint[]) => new Set(
+      activity.ballots.filter(ballot => ballot.timestamp >= points[0].start).map(ballot => ballot.voter)
+    ).size,
+    [activity]
+  );
 
   const trendingTopics = generateTrendingTopics(votes);
-  const recentVotes = formatRecentVotes(votes, voteStats);
+  const recentVotes = formatRecentVotes(votes, voteStats, publishedResults);
 
   if (!isConnected) {
     return (
@@ -295,7 +287,7 @@ export function Dashboard() {
           />
           <AnimatedStat
             value={stats.totalParticipants}
-            label="Total Participants"
+            label="Unique Participants"
             icon="👥"
             color="blue"
             delay={0.2}
@@ -316,6 +308,21 @@ export function Dashboard() {
           />
         </div>
 
+        {/* Activity Charts */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <ActivityChart title="Ballots Cast" icon="🗳️" unit="ballots" ranges={BALLOT_RANGES} series={ballotSeries} delay={0.1} />
+          <ActivityChart title="New Polls" icon="🆕" unit="polls" ranges={POLL_RANGES} series={pollSeries} delay={0.2} />
+          <ActivityChart
+            title="Active Voters"
+            icon="👥"
+            unit="voters"
+            ranges={VOTER_RANGES}
+            series={voterSeries}
+            total={distinctVoters}
+            delay={0.3}
+          />
+        </div>
+
         {/* Main Content Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left Column - Recent Votes */}
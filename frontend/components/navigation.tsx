@@ -6,6 +6,9 @@ import { usePathname } from "next/navigation";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { ThemeToggle } from "./theme-toggle";
 import { motion, AnimatePresence } from "framer-motion";
+import { useReadContract } from "wagmi";
+import { EncryptedVotingSystemABI } from "../abi/EncryptedVotingSystemABI";
+import { useContractAddress } from "../hooks/useContractAddress";
 
 const navItems = [
   {
@@ -25,12 +28,33 @@ const navItems = [
     href: "/profile",
     icon: "👤",
     description: "Your Activity"
+  },
+  {
+    name: "Surveys",
+    href: "/surveys",
+    icon: "📋",
+    description: "Encrypted Surveys"
+  },
+  {
+    name: "Study",
+    href: "/study",
+    icon: "📚",
+    description: "Encrypted Study Time"
   }
 ];
 
 export function Navigation() {
   const pathname = usePathname();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const contractAddress = useContractAddress();
+
+  // Pausers can stop vote creation and ballots in an emergency; polled so every page notices
+  const { data: isPaused } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: EncryptedVotingSystemABI,
+    functionName: "paused",
+    query: { refetchInterval: 10000 },
+  });
 
   return (
     <nav className="fixed top-0 left-0 right-0 z-50 bg-black/80 backdrop-blur-xl border-b border-orange-500/20">
@@ -169,6 +193,12 @@ export function Navigation() {
           )}
         </AnimatePresence>
       </div>
+
+      {isPaused && (
+        <div className="bg-red-900/90 border-t border-red-500/40 text-center text-red-100 text-sm font-semibold py-2 px-4">
+          ⏸️ Voting is paused: no votes can be created and no ballots cast until a pauser resumes it. Results stay readable.
+        </div>
+      )}
     </nav>
   );
 }
@@ -1,11 +1,17 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useAccount, usePublicClient } from "wagmi";
+import { useMemo, useState } from "react";
+import { useAccount } from "wagmi";
 import { motion, AnimatePresence } from "framer-motion";
-import { useEncryptedVotingSystem } from "../hooks/useEncryptedVotingSystem";
 import { ethers } from "ethers";
-import { EncryptedVotingSystemABI } from "../abi/EncryptedVotingSystemABI";
+import {
+  approvedOptions,
+  BallotType,
+  useEncryptedVotingSystem,
+  UseEncryptedVotingSystemState,
+  Vote,
+  VoteState
+} from "../hooks/useEncryptedVotingSystem";
 
 // Achievement type definition
 type Achievement = {
@@ -72,6 +78,11 @@ function AchievementCard({ achievement }: { achievement: Achievement }) {
   );
 }
 
+// Status shown for a vote: its lifecycle state, e.g. "open" or "tallied"
+const voteStatus = (state: VoteState) => VoteState[state].toLowerCase();
+
+const isFinished = (status: string) => status === 'closed' || status === 'tallied';
+
 // Vote history item type
 type VoteHistoryItemType = {
   id: number;
@@ -99,11 +110,11 @@ function VoteHistoryItem({ vote }: { vote: VoteHistoryItemType }) {
         </div>
         <div className="text-right">
           <div className={`inline-block px-3 py-1 rounded-full text-xs font-semibold mb-2 ${
-            vote.status === 'completed'
+            isFinished(vote.status)
               ? "bg-green-900/50 text-green-300 border border-green-500/30"
               : "bg-blue-900/50 text-blue-300 border border-blue-500/30"
           }`}>
-            {vote.status === 'completed' ? '✅' : '⏳'} {vote.status}
+            {vote.status === 'cancelled' ? '🚫' : isFinished(vote.status) ? '✅' : '⏳'} {vote.status}
           </div>
           <div className="text-gray-300 text-sm">
             Result: <span className="text-orange-400 font-semibold">{vote.result}</span>
@@ -159,72 +170,132 @@ function PrivacySettings() {
   );
 }
 
+const shortAddress = (account: string) => `${account.slice(0, 6)}...${account.slice(-4)}`;
+
+// Votes the connected account can still delegate: open or scheduled, not ranked-choice, not voted in yet
+const isDelegable = (vote: Vote, hasVoted: boolean) =>
+  vote.active && !hasVoted && vote.ballotType !== BallotType.Ranked &&
+  (vote.state === VoteState.Open || vote.state === VoteState.Scheduled);
+
+function DelegateForm({ current, disabled, onDelegate }: {
+  current: string;
+  disabled: boolean;
+  onDelegate: (delegatee: string) => Promise<void>;
+}) {
+  const [delegatee, setDelegatee] = useState("");
+  const valid = ethers.isAddress(delegatee);
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <input
+        type="text"
+        placeholder="0x... delegate address"
+        value={delegatee}
+        onChange={(e) => setDelegatee(e.target.value.trim())}
+        className="flex-1 px-4 py-2 bg-black/50 border-2 border-teal-500/30 rounded-xl focus:border-teal-400 text-white placeholder-gray-500 font-mono text-sm"
+      />
+      <button
+        onClick={() => onDelegate(delegatee).then(() => setDelegatee("")).catch(() => undefined)}
+        disabled={disabled || !valid}
+        className="px-4 py-2 rounded-xl font-bold text-sm bg-gradient-to-r from-teal-500 to-cyan-600 text-white disabled:opacity-40"
+      >
+        🤝 Delegate
+      </button>
+      {current !== ethers.ZeroAddress && (
+        <button
+          onClick={() => onDelegate(ethers.ZeroAddress).catch(() => undefined)}
+          disabled={disabled}
+          className="px-4 py-2 rounded-xl font-bold text-sm border-2 border-red-500/40 text-red-300 hover:bg-red-500/10 disabled:opacity-40"
+        >
+          ✕ Clear
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Liquid democracy: the delegate's ballot counts for the account with its own weight, until it votes itself
+function DelegationSettings({ voting }: { voting: UseEncryptedVotingSystemState }) {
+  const { votes, userVotes, globalDelegate, isLoading, message, delegate } = voting;
+  const delegable = votes.filter(vote => isDelegable(vote, userVotes[vote.id] !== undefined));
+  const castForYou = votes.filter(vote => vote.ballotDelegate !== ethers.ZeroAddress);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-xl font-black text-white mb-2">🤝 Delegation</h3>
+        <p className="text-gray-300 text-sm drop-shadow-sm">
+          Your delegate&apos;s encrypted ballot is counted for you with your own voting weight. Voting yourself
+          always replaces it, and nobody can see what your delegate chose.
+        </p>
+      </div>
+
+      {globalDelegate !== undefined && (
+        <div className="p-4 bg-black/30 rounded-lg border border-teal-500/30 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-white font-semibold">Every vote</h4>
+            <span className="text-teal-300 font-mono text-sm">
+              {globalDelegate === ethers.ZeroAddress ? "Not delegated" : shortAddress(globalDelegate)}
+            </span>
+          </div>
+          <DelegateForm current={globalDelegate} disabled={isLoading} onDelegate={(to) => delegate(0, to)} />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="text-white font-semibold">Per vote</h4>
+        {delegable.length > 0 ? delegable.map(vote => (
+          <div key={vote.id} className="p-4 bg-black/30 rounded-lg border border-gray-600/30 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <span className="text-white text-sm font-semibold">#{vote.id} {vote.title}</span>
+              <span className="text-teal-300 font-mono text-sm">
+                {vote.delegate === ethers.ZeroAddress ? "Not delegated" : shortAddress(vote.delegate)}
+                {vote.delegate !== ethers.ZeroAddress && vote.delegate === globalDelegate && " (every vote)"}
+              </span>
+            </div>
+            <DelegateForm
+              current={vote.delegate === globalDelegate ? ethers.ZeroAddress : vote.delegate}
+              disabled={isLoading}
+              onDelegate={(to) => delegate(vote.id, to)}
+            />
+          </div>
+        )) : (
+          <p className="text-gray-500 text-sm">No open vote to delegate</p>
+        )}
+      </div>
+
+      {castForYou.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-white font-semibold">Ballots cast for you</h4>
+          {castForYou.map(vote => (
+            <div key={vote.id} className="flex items-center justify-between p-3 bg-black/30 rounded-lg">
+              <span className="text-white text-sm">{vote.title}</span>
+              <span className="text-teal-300 text-sm">🤝 by <span className="font-mono">{shortAddress(vote.ballotDelegate)}</span></span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && <p className="text-gray-400 text-sm">{message}</p>}
+    </div>
+  );
+}
+
 export function Profile() {
   const { address, isConnected } = useAccount();
-  const publicClient = usePublicClient();
-  const [activeTab, setActiveTab] = useState<'overview' | 'history' | 'created' | 'achievements' | 'settings'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'history' | 'created' | 'delegation' | 'achievements' | 'settings'>('overview');
   const contractAddress = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || "0x5FbDB2315678afecb367f032d93F642f64180aa3";
-  const { votes, userVotes, decryptedUserVotes, loadVotes } = useEncryptedVotingSystem(contractAddress);
-  const [voteStats, setVoteStats] = useState<Record<number, { voteCount: number; participants: number }>>({});
-
-  // Load votes on mount
-  useEffect(() => {
-    if (isConnected && loadVotes) {
-      loadVotes();
-      
-      // Refresh every 10 seconds
-      const interval = setInterval(() => {
-        loadVotes();
-      }, 10000);
-      
-      return () => clearInterval(interval);
-    }
-  }, [isConnected, loadVotes]);
-
-  // Load vote statistics from contract
-  useEffect(() => {
-    const loadVoteStats = async () => {
-      if (!contractAddress || !publicClient || votes.length === 0) return;
-
-      try {
-        let rpcUrl = "http://localhost:8545";
-        if (publicClient) {
-          const client = publicClient as { transport?: { url?: string } };
-          if (client.transport?.url) {
-            rpcUrl = client.transport.url;
-          }
-        }
-        
-        const provider = new ethers.JsonRpcProvider(rpcUrl);
-        const contract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, provider);
-
-        const statsMap: Record<number, { voteCount: number; participants: number }> = {};
-        
-        for (const vote of votes) {
-          try {
-            const voteCount = await contract.getVoteCount(vote.id);
-            const encryptedVotes = await contract.getEncryptedVoteChoices(vote.id);
-            
-            statsMap[vote.id] = {
-              voteCount: Number(voteCount),
-              participants: Array.isArray(encryptedVotes) ? encryptedVotes.length : 0
-            };
-          } catch (error) {
-            console.warn(`Failed to load stats for vote ${vote.id}:`, error);
-            statsMap[vote.id] = { voteCount: 0, participants: 0 };
-          }
-        }
-
-        setVoteStats(statsMap);
-      } catch (error) {
-        console.error("Error loading vote statistics:", error);
-      }
-    };
-
-    if (isConnected && votes.length > 0) {
-      loadVoteStats();
-    }
-  }, [contractAddress, publicClient, votes, isConnected]);
+  const voting = useEncryptedVotingSystem(contractAddress);
+  const { votes, userVotes, decryptedUserVotes, ballotCounts } = voting;
+
+  // Ballot counts come from the vote event index, which follows new blocks, so nothing is polled here
+  const voteStats = useMemo(
+    () => Object.fromEntries(votes.map((vote): [number, { voteCount: number; participants: number }] => [vote.id, {
+      voteCount: ballotCounts[vote.id] ?? 0,
+      participants: ballotCounts[vote.id] ?? 0
+    }])),
+    [votes, ballotCounts]
+  );
 
   // Calculate real statistics from votes data
   const userVotingHistory = votes.filter(vote => {
@@ -233,11 +304,13 @@ export function Profile() {
   }).map(vote => ({
     id: vote.id,
     title: vote.title,
-    status: vote.active ? 'active' : 'completed',
+    status: voteStatus(vote.state),
     votes: voteStats[vote.id]?.voteCount || 0,
-    result: decryptedUserVotes[vote.id] !== undefined 
-      ? `Option ${decryptedUserVotes[vote.id]}` 
-      : 'Pending',
+    result: decryptedUserVotes[vote.id] === undefined
+      ? 'Pending'
+      : vote.ballotType === BallotType.Approval
+        ? `Options ${approvedOptions(decryptedUserVotes[vote.id], vote.options.length).join(', ') || 'none'}`
+        : `Option ${decryptedUserVotes[vote.id]}`,
     date: new Date(vote.startTime * 1000).toISOString().split('T')[0]
   }));
 
@@ -246,7 +319,8 @@ export function Profile() {
   ).map(vote => ({
     id: vote.id,
     title: vote.title,
-    status: vote.active ? 'active' : 'completed',
+    status: voteStatus(vote.state),
+    cancelReason: vote.cancelReason,
     participants: voteStats[vote.id]?.participants || 0,
     date: new Date(vote.startTime * 1000).toISOString().split('T')[0]
   }));
@@ -255,7 +329,7 @@ export function Profile() {
   const userStats = {
     totalVotes: userVotingHistory.length,
     createdVotes: userCreatedVotes.length,
-    activeVotes: userVotingHistory.filter(v => v.status === 'active').length,
+    activeVotes: userVotingHistory.filter(v => v.status === 'open').length,
     reputation: userVotingHistory.length * 10 + userCreatedVotes.length * 20,
     level: userVotingHistory.length < 5 ? 'Beginner' : 
            userVotingHistory.length < 20 ? 'Intermediate' : 
@@ -269,6 +343,7 @@ export function Profile() {
     { id: 'overview', label: 'Overview', icon: '📊' },
     { id: 'history', label: 'Voting History', icon: '📋' },
     { id: 'created', label: 'Created Votes', icon: '🚀' },
+    { id: 'delegation', label: 'Delegation', icon: '🤝' },
     { id: 'achievements', label: 'Achievements', icon: '🏆' },
     { id: 'settings', label: 'Settings', icon: '⚙️' }
   ];
@@ -377,7 +452,7 @@ export function Profile() {
                           <p className="text-gray-300 text-xs drop-shadow-sm">{vote.date}</p>
                         </div>
                         <div className={`px-2 py-1 rounded text-xs font-semibold ${
-                          vote.status === 'completed' ? 'bg-green-900/50 text-green-300' : 'bg-blue-900/50 text-blue-300'
+                          isFinished(vote.status) ? 'bg-green-900/50 text-green-300' : 'bg-blue-900/50 text-blue-300'
                         }`}>
                           {vote.status}
                         </div>
@@ -480,9 +555,14 @@ export function Profile() {
                         <p className="text-gray-300 text-sm drop-shadow-sm">
                           👥 {vote.participants} participants • 📅 {vote.date}
                         </p>
+                        {vote.cancelReason && (
+                          <p className="text-red-300 text-sm mt-1">🚫 {vote.cancelReason}</p>
+                        )}
                       </div>
                       <div className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                        vote.status === 'active'
+                        vote.status === 'cancelled'
+                          ? "bg-red-900/50 text-red-300 border border-red-500/30"
+                          : vote.status === 'open'
                           ? "bg-blue-900/50 text-blue-300 border border-blue-500/30"
                           : "bg-green-900/50 text-green-300 border border-green-500/30"
                       }`}>
@@ -501,6 +581,18 @@ export function Profile() {
             </motion.div>
           )}
 
+          {activeTab === 'delegation' && (
+            <motion.div
+              key="delegation"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="bg-black/40 backdrop-blur-sm border-2 border-teal-500/20 rounded-2xl p-6"
+            >
+              <DelegationSettings voting={voting} />
+            </motion.div>
+          )}
+
           {activeTab === 'achievements' && (
             <motion.div
               key="achievements"
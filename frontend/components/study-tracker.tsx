@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount } from "wagmi";
+import { motion } from "framer-motion";
+import { useEncryptedStudyTracker } from "../hooks/useEncryptedStudyTracker";
+
+// Day number of the tracker (days since the Unix epoch, in UTC) as a calendar date
+const formatStudyDate = (day: number) =>
+  new Date(day * 86400 * 1000).toLocaleDateString(undefined, { timeZone: "UTC", dateStyle: "medium" });
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+
+function StudyStat({ label, icon, minutes }: { label: string; icon: string; minutes: number | undefined }) {
+  return (
+    <div className="bg-black/30 border border-orange-500/20 rounded-xl p-6 text-center space-y-2">
+      <div className="text-3xl">{icon}</div>
+      <p className="text-gray-300 text-sm drop-shadow-sm">{label}</p>
+      <p className="text-3xl font-black text-orange-400">
+        {minutes === undefined ? "🔒 Encrypted" : formatMinutes(minutes)}
+      </p>
+    </div>
+  );
+}
+
+export function StudyTracker() {
+  const { isConnected } = useAccount();
+  const { studyTrackerAddress, studyTime, isReady, isLoading, message, recordStudyTime, decryptStudyTime } =
+    useEncryptedStudyTracker();
+  const [minutes, setMinutes] = useState("");
+
+  const handleRecord = async () => {
+    try {
+      await recordStudyTime(Number(minutes));
+      setMinutes("");
+    } catch {
+      // The hook reports the error in its message
+    }
+  };
+
+  const handleDecrypt = async () => {
+    try {
+      await decryptStudyTime();
+    } catch {
+      // The hook reports the error in its message
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-8">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-center space-y-6"
+        >
+          <div className="text-6xl">🔐</div>
+          <h1 className="text-3xl font-black text-white">Access Restricted</h1>
+          <p className="text-gray-300 max-w-md mx-auto drop-shadow-sm">
+            Please connect your wallet to record and view your encrypted study time.
+          </p>
+        </motion.div>
+      </div>
+    );
+  }
+
+  if (!studyTrackerAddress) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-8">
+        <div className="text-center space-y-6">
+          <div className="text-6xl">📚</div>
+          <h1 className="text-3xl font-black text-white">Study Tracker Not Deployed</h1>
+          <p className="text-gray-300 max-w-md mx-auto drop-shadow-sm">
+            Deploy EncryptedStudyTracker on this network with{" "}
+            <code className="text-orange-400">npx hardhat deploy --tags EncryptedStudyTracker</code>, then run{" "}
+            <code className="text-orange-400">npm run genabi</code> in the frontend.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const studiedToday = !!studyTime && studyTime.lastStudyDate === studyTime.currentDate;
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-black/40 backdrop-blur-sm border-2 border-orange-500/20 rounded-2xl p-8"
+        >
+          <h1 className="text-3xl font-black text-white flex items-center gap-3 mb-2">
+            <span className="text-4xl">📚</span>
+            Study Tracker
+          </h1>
+          <p className="text-gray-300 drop-shadow-sm">
+            Your study minutes are stored encrypted on-chain. Only you can decrypt them.
+          </p>
+          {studyTime && studyTime.lastStudyDate > 0 && (
+            <p className="text-gray-400 text-sm mt-2">
+              Last session: {studiedToday ? "today" : formatStudyDate(studyTime.lastStudyDate)}
+            </p>
+          )}
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="grid grid-cols-1 md:grid-cols-2 gap-6"
+        >
+          <StudyStat label="Today" icon="⏱️" minutes={studyTime?.dailyMinutes} />
+          <StudyStat label="Total" icon="🏆" minutes={studyTime?.totalMinutes} />
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="bg-black/40 backdrop-blur-sm border-2 border-orange-500/20 rounded-2xl p-6 space-y-4"
+        >
+          <h2 className="text-xl font-black text-white">Record a Study Session</h2>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+              placeholder="Minutes studied"
+              className="flex-1 px-4 py-3 bg-black/30 border-2 border-orange-500/20 rounded-xl text-white placeholder-gray-400 focus:border-orange-500 focus:outline-none"
+            />
+            <button
+              onClick={handleRecord}
+              disabled={!isReady || isLoading || !minutes}
+              className="px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 text-white font-bold rounded-xl hover:from-orange-400 hover:to-red-400 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              🔐 Record
+            </button>
+            <button
+              onClick={handleDecrypt}
+              disabled={!isReady || isLoading || !studyTime}
+              className="px-6 py-3 bg-black/30 text-gray-200 font-bold rounded-xl border-2 border-orange-500/20 hover:border-orange-500/40 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              🔓 Decrypt
+            </button>
+          </div>
+          {message && <p className="text-sm text-gray-300 drop-shadow-sm">{message}</p>}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useAccount } from "wagmi";
+import { motion } from "framer-motion";
+import {
+  QuestionResult,
+  QuestionType,
+  Survey,
+  SurveyQuestion,
+  useEncryptedSurvey,
+  UseEncryptedSurveyState,
+} from "../hooks/useEncryptedSurvey";
+import { isSurveyValid, newQuestion, SurveyBuilder } from "./SurveyBuilder";
+
+// datetime-local inputs hold minute-granular local times, e.g. "2026-11-02T09:00"
+const toDateTimeInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+
+const fromDateTimeInput = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+const inOneWeek = () => toDateTimeInput(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
+
+const inputClass =
+  "w-full px-4 py-3 bg-black/50 border-2 border-orange-500/30 rounded-xl focus:border-orange-400 focus:ring-2 focus:ring-orange-500/20 text-white placeholder-gray-500 font-semibold transition-all duration-300";
+
+const emptySurvey = () => ({
+  title: "",
+  description: "",
+  endsAt: inOneWeek(),
+  questions: [newQuestion(QuestionType.Choice), newQuestion(QuestionType.Rating)],
+});
+
+// Aggregates of one question: the share of each option, or the average rating
+function QuestionResultView({ question, result }: { question: SurveyQuestion; result: QuestionResult }) {
+  if (question.questionType === QuestionType.Rating) {
+    return (
+      <p className="text-gray-300 text-sm">
+        Average:{" "}
+        <span className="text-orange-400 font-bold text-lg">
+          {result.average === undefined ? "–" : result.average.toFixed(2)}
+        </span>{" "}
+        / {question.maxRating} from {result.count} answers
+      </p>
+    );
+  }
+
+  const answered = result.counts.reduce((sum, count) => sum + count, 0);
+  return (
+    <div className="space-y-2">
+      {question.options.map((option, index) => {
+        const count = result.counts[index] ?? 0;
+        const share = answered > 0 ? (count / answered) * 100 : 0;
+        return (
+          <div key={index} className="space-y-1">
+            <div className="flex justify-between text-sm text-gray-300">
+              <span>{option}</span>
+              <span className="font-bold text-orange-400">{count}</span>
+            </div>
+            <div className="h-2 bg-black/50 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-orange-500 to-red-500 rounded-full"
+                style={{ width: `${share}%` }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function SurveyCard({ survey, surveying }: { survey: Survey; surveying: UseEncryptedSurveyState }) {
+  const { results, isReady, isLoading, respond, decryptSurveyResults } = surveying;
+  const [answers, setAnswers] = useState<(number | undefined)[]>([]);
+  const now = Math.floor(Date.now() / 1000);
+  const isOpen = now >= survey.startTime && now < survey.endTime;
+  const hasEnded = now >= survey.endTime;
+  const surveyResults = results[survey.id];
+
+  const setAnswer = (index: number, answer: number | undefined) =>
+    setAnswers((previous) => survey.questions.map((_, i) => (i === index ? answer : previous[i])));
+
+  const handleRespond = async () => {
+    try {
+      await respond(survey.id, answers);
+    } catch {
+      // The hook reports the error in its message
+    }
+  };
+
+  const handleDecrypt = async () => {
+    try {
+      await decryptSurveyResults(survey.id);
+    } catch {
+      // The hook reports the error in its message
+    }
+  };
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm border-2 border-orange-500/20 rounded-2xl p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-black text-white">{survey.title}</h3>
+          {survey.description && <p className="text-gray-300 text-sm drop-shadow-sm">{survey.description}</p>}
+        </div>
+        <div className="text-right text-xs text-gray-400 whitespace-nowrap">
+          <p>{survey.responseCount} responses</p>
+          <p>
+            {hasEnded ? "Ended" : isOpen ? "Ends" : "Opens"}:{" "}
+            {new Date((isOpen || hasEnded ? survey.endTime : survey.startTime) * 1000).toLocaleString()}
+          </p>
+        </div>
+      </div>
+
+      {survey.questions.map((question, index) => (
+        <div key={index} className="p-4 bg-black/30 border border-orange-500/20 rounded-xl space-y-3">
+          <p className="text-white font-semibold">
+            {index + 1}. {question.prompt}
+          </p>
+
+          {surveyResults ? (
+            <QuestionResultView question={question} result={surveyResults[index]} />
+          ) : isOpen && !survey.hasResponded ? (
+            question.questionType === QuestionType.Choice ? (
+              <div className="flex flex-wrap gap-2">
+                {question.options.map((option, optionIndex) => (
+                  <button
+                    key={optionIndex}
+                    onClick={() => setAnswer(index, answers[index] === optionIndex ? undefined : optionIndex)}
+                    className={`px-3 py-2 rounded-lg text-sm font-semibold transition-all duration-300 ${
+                      answers[index] === optionIndex
+                        ? "bg-orange-500 text-white"
+                        : "bg-black/30 text-gray-300 border border-orange-500/20 hover:border-orange-500/40"
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <input
+                type="number"
+                min={question.minRating}
+                max={question.maxRating}
+                value={answers[index] ?? ""}
+                onChange={(e) =>
+                  setAnswer(index, e.target.value === "" ? undefined : Math.round(Number(e.target.value)))
+                }
+                placeholder={`${question.minRating} to ${question.maxRating}`}
+                className={inputClass}
+              />
+            )
+          ) : (
+            <p className="text-gray-500 text-xs">🔒 Answers stay encrypted; only the aggregates can be decrypted</p>
+          )}
+        </div>
+      ))}
+
+      {isOpen && !survey.hasResponded && (
+        <div className="space-y-2">
+          <p className="text-gray-400 text-xs">
+            Unanswered questions are submitted as an encrypted out-of-range answer, which counts for nothing.
+          </p>
+          <button
+            onClick={handleRespond}
+            disabled={!isReady || isLoading}
+            className="w-full px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 text-white font-bold rounded-xl hover:from-orange-400 hover:to-red-400 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            🔐 Submit Encrypted Response
+          </button>
+        </div>
+      )}
+      {survey.hasResponded && !hasEnded && <p className="text-green-400 text-sm font-semibold">✅ You responded</p>}
+      {hasEnded && !surveyResults && (
+        <button
+          onClick={handleDecrypt}
+          disabled={!isReady || isLoading}
+          className="w-full px-6 py-3 bg-black/30 text-gray-200 font-bold rounded-xl border-2 border-orange-500/20 hover:border-orange-500/40 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          🔓 Decrypt Aggregate Results
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Survey variant of the create form: title, description, the question builder and the end of answering.
+ * Mounted by the create form of the Vote page when Survey is picked, so the survey contract is only read then.
+ */
+export function SurveyCreateForm({ onClose }: { onClose: () => void }) {
+  const { isReady, isLoading, message, createSurvey } = useEncryptedSurvey();
+  const [newSurvey, setNewSurvey] = useState(emptySurvey);
+
+  const handleCreateSurvey = async () => {
+    if (!newSurvey.title.trim() || !newSurvey.endsAt || !isSurveyValid(newSurvey.questions)) {
+      return;
+    }
+    try {
+      await createSurvey(
+        newSurvey.title,
+        newSurvey.description,
+        newSurvey.questions,
+        0,
+        fromDateTimeInput(newSurvey.endsAt),
+      );
+      setNewSurvey(emptySurvey());
+      onClose();
+    } catch {
+      // The hook reports the error in its message
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <input
+        type="text"
+        placeholder="Survey title"
+        value={newSurvey.title}
+        onChange={(e) => setNewSurvey((prev) => ({ ...prev, title: e.target.value }))}
+        className={inputClass}
+      />
+      <textarea
+        placeholder="What is this survey about?"
+        value={newSurvey.description}
+        onChange={(e) => setNewSurvey((prev) => ({ ...prev, description: e.target.value }))}
+        rows={3}
+        className={`${inputClass} resize-none`}
+      />
+      <SurveyBuilder
+        questions={newSurvey.questions}
+        onChange={(questions) => setNewSurvey((prev) => ({ ...prev, questions }))}
+      />
+      <div className="space-y-2">
+        <label className="text-orange-300 font-bold text-sm uppercase tracking-wider drop-shadow-sm">ENDS</label>
+        <input
+          type="datetime-local"
+          value={newSurvey.endsAt}
+          onChange={(e) => setNewSurvey((prev) => ({ ...prev, endsAt: e.target.value }))}
+          className={inputClass}
+        />
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={handleCreateSurvey}
+          disabled={!isReady || isLoading || !newSurvey.title.trim() || !isSurveyValid(newSurvey.questions)}
+          className="flex-1 px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 text-white font-bold rounded-xl hover:from-orange-400 hover:to-red-400 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? "⏳ CREATING..." : "🚀 CREATE SURVEY"}
+        </button>
+        <button
+          onClick={onClose}
+          className="px-6 py-3 border-2 border-gray-600 rounded-xl font-bold hover:border-gray-400 text-gray-300 hover:text-white transition-all duration-300"
+        >
+          CANCEL
+        </button>
+      </div>
+      {message && <p className="text-sm text-gray-300 drop-shadow-sm">{message}</p>}
+    </div>
+  );
+}
+
+export function Surveys() {
+  const { isConnected } = useAccount();
+  const surveying = useEncryptedSurvey();
+  const { surveyAddress, surveys, message } = surveying;
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-8">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="text-center space-y-6"
+        >
+          <div className="text-6xl">🔐</div>
+          <h1 className="text-3xl font-black text-white">Access Restricted</h1>
+          <p className="text-gray-300 max-w-md mx-auto drop-shadow-sm">
+            Please connect your wallet to create and answer encrypted surveys.
+          </p>
+        </motion.div>
+      </div>
+    );
+  }
+
+  if (!surveyAddress) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-8">
+        <div className="text-center space-y-6">
+          <div className="text-6xl">📋</div>
+          <h1 className="text-3xl font-black text-white">Surveys Not Deployed</h1>
+          <p className="text-gray-300 max-w-md mx-auto drop-shadow-sm">
+            Deploy EncryptedSurvey on this network with{" "}
+            <code className="text-orange-400">npx hardhat deploy --tags EncryptedSurvey</code>, then run{" "}
+            <code className="text-orange-400">npm run genabi</code> in the frontend.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-black/40 backdrop-blur-sm border-2 border-orange-500/20 rounded-2xl p-8 space-y-4"
+        >
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-black text-white flex items-center gap-3 mb-2">
+                <span className="text-4xl">📋</span>
+                Surveys
+              </h1>
+              <p className="text-gray-300 drop-shadow-sm">
+                Answers are encrypted in one proof per response. Only option counts and rating averages are revealed,
+                once a survey has ended.
+              </p>
+            </div>
+            <Link
+              href="/vote"
+              className="px-6 py-3 bg-gradient-to-r from-orange-500 to-red-500 text-white font-bold rounded-xl hover:from-orange-400 hover:to-red-400 transition-all duration-300 whitespace-nowrap"
+            >
+              🚀 New Survey
+            </Link>
+          </div>
+
+          {message && <p className="text-sm text-gray-300 drop-shadow-sm">{message}</p>}
+        </motion.div>
+
+        {surveys.length === 0 ? (
+          <p className="text-center text-gray-400">No surveys yet.</p>
+        ) : (
+          surveys.map((survey) => <SurveyCard key={survey.id} survey={survey} surveying={surveying} />)
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { useMemo } from "react";
+import { useChainId } from "wagmi";
+import { EncryptedVotingSystemAddresses } from "../abi/EncryptedVotingSystemAddresses";
+
+// Get contract address based on current chain
+// Priority: chain-specific address > environment variable > default localhost
+// Use useMemo to recalculate when chainId changes
+export const useContractAddress = () => {
+  const chainId = useChainId();
+
+  return useMemo(() => {
+    // First, try to get address from addresses file based on current chain
+    const chainIdStr = chainId.toString();
+    const chainAddress = EncryptedVotingSystemAddresses[chainIdStr as keyof typeof EncryptedVotingSystemAddresses];
+
+    if (chainAddress) {
+      return chainAddress.address;
+    }
+
+    // If no chain-specific address found, use environment variable if set
+    if (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS) {
+      return process.env.NEXT_PUBLIC_CONTRACT_ADDRESS;
+    }
+
+    // Fallback to localhost address
+    return "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+  }, [chainId]);
+};
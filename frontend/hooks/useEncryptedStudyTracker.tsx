@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
+import { ethers } from "ethers";
+import { useFhevm } from "../fhevm/useFhevm";
+import { FhevmDecryptionSignature } from "../fhevm/FhevmDecryptionSignature";
+import { useInMemoryStorage } from "./useInMemoryStorage";
+import { EncryptedStudyTrackerABI } from "../abi/EncryptedStudyTrackerABI";
+import { EncryptedStudyTrackerAddresses } from "../abi/EncryptedStudyTrackerAddresses";
+
+// Encrypted study minutes of the connected account; each counter is undefined until it is decrypted
+export interface StudyTime {
+  dailyHandle: string; // ZeroHash when the account has not studied today
+  totalHandle: string; // ZeroHash before the first session
+  lastStudyDate: number; // days since the Unix epoch, zero before the first session
+  currentDate: number;
+  dailyMinutes?: number;
+  totalMinutes?: number;
+}
+
+export interface UseEncryptedStudyTrackerState {
+  studyTrackerAddress: string | undefined; // undefined when the tracker is not deployed on the current chain
+  studyTime: StudyTime | undefined;
+  isReady: boolean;
+  isLoading: boolean;
+  message: string;
+  recordStudyTime: (minutes: number) => Promise<void>;
+  decryptStudyTime: () => Promise<void>;
+  loadStudyTime: () => Promise<void>;
+}
+
+export function useEncryptedStudyTracker(): UseEncryptedStudyTrackerState {
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+
+  const [ethersSigner, setEthersSigner] = useState<ethers.JsonRpcSigner | undefined>(undefined);
+  const [studyTime, setStudyTime] = useState<StudyTime | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const trackerEntry =
+    EncryptedStudyTrackerAddresses[chainId.toString() as keyof typeof EncryptedStudyTrackerAddresses];
+  const studyTrackerAddress =
+    trackerEntry && trackerEntry.address !== ethers.ZeroAddress ? trackerEntry.address : undefined;
+
+  const eip1193Provider = walletClient as unknown as ethers.Eip1193Provider | undefined;
+  const { instance: fhevmInstance } = useFhevm({
+    provider: chainId === 31337 ? "http://localhost:8545" : eip1193Provider,
+    chainId,
+    initialMockChains: { 31337: "http://localhost:8545" },
+    enabled: isConnected && !!studyTrackerAddress,
+  });
+
+  useEffect(() => {
+    if (!eip1193Provider) {
+      setEthersSigner(undefined);
+      return;
+    }
+    new ethers.BrowserProvider(eip1193Provider)
+      .getSigner()
+      .then(setEthersSigner)
+      .catch((error) => {
+        console.error("[useEncryptedStudyTracker] Error setting up ethers:", error);
+        setEthersSigner(undefined);
+      });
+  }, [eip1193Provider]);
+
+  // The getters read the caller's counters, so they are called through the signer
+  const loadStudyTime = useCallback(async () => {
+    if (!studyTrackerAddress || !ethersSigner) {
+      setStudyTime(undefined);
+      return;
+    }
+    const contract = new ethers.Contract(studyTrackerAddress, EncryptedStudyTrackerABI, ethersSigner);
+    const [dailyHandle, totalHandle, lastStudyDate, currentDate] = await Promise.all([
+      contract.getDailyStudyTime(),
+      contract.getTotalStudyTime(),
+      contract.getLastStudyDate(),
+      contract.getCurrentDate(),
+    ]);
+    setStudyTime((previous) => ({
+      dailyHandle,
+      totalHandle,
+      lastStudyDate: Number(lastStudyDate),
+      currentDate: Number(currentDate),
+      // Decrypted minutes stay valid while their handle is unchanged
+      dailyMinutes: previous?.dailyHandle === dailyHandle ? previous?.dailyMinutes : undefined,
+      totalMinutes: previous?.totalHandle === totalHandle ? previous?.totalMinutes : undefined,
+    }));
+  }, [studyTrackerAddress, ethersSigner]);
+
+  useEffect(() => {
+    loadStudyTime().catch((error) => console.error("[useEncryptedStudyTracker] Error loading study time:", error));
+  }, [loadStudyTime, address]);
+
+  const recordStudyTime = useCallback(
+    async (minutes: number) => {
+      if (!studyTrackerAddress || !ethersSigner || !fhevmInstance || !address) {
+        const error = new Error("Wallet signer or FHEVM instance not available");
+        setMessage(error.message);
+        throw error;
+      }
+      if (!Number.isInteger(minutes) || minutes <= 0) {
+        const error = new Error("Study time must be a positive number of minutes");
+        setMessage(error.message);
+        throw error;
+      }
+
+      try {
+        setIsLoading(true);
+        setMessage("Encrypting study time...");
+        const encryptedInput = fhevmInstance.createEncryptedInput(studyTrackerAddress, address);
+        encryptedInput.add32(minutes);
+        const encrypted = await encryptedInput.encrypt();
+
+        setMessage("Submitting encrypted study time...");
+        const contract = new ethers.Contract(studyTrackerAddress, EncryptedStudyTrackerABI, ethersSigner);
+        const tx = await contract.recordStudyTime(encrypted.handles[0], encrypted.inputProof);
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
+
+        setMessage(`Recorded ${minutes} minutes of study`);
+        await loadStudyTime();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Error recording study time: ${errorMessage}`);
+        console.error("[useEncryptedStudyTracker] Error recording study time:", error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [studyTrackerAddress, ethersSigner, fhevmInstance, address, loadStudyTime],
+  );
+
+  // Decrypt both counters with a single signed userDecrypt request; uninitialized handles read as zero
+  const decryptStudyTime = useCallback(async () => {
+    if (!studyTrackerAddress || !ethersSigner || !fhevmInstance || !studyTime) {
+      const error = new Error("Wallet signer or FHEVM instance not available");
+      setMessage(error.message);
+      throw error;
+    }
+
+    try {
+      setIsLoading(true);
+      const handles = [studyTime.dailyHandle, studyTime.totalHandle].filter((handle) => handle !== ethers.ZeroHash);
+      let clear: Record<string, bigint | boolean | string> = {};
+      if (handles.length > 0) {
+        setMessage("Sign the decryption request in your wallet...");
+        const signature = await FhevmDecryptionSignature.loadOrSign(
+          fhevmInstance,
+          [studyTrackerAddress],
+          ethersSigner,
+          fhevmDecryptionSignatureStorage,
+        );
+        if (!signature) {
+          throw new Error("Decryption request was not signed");
+        }
+
+        setMessage("Decrypting study time...");
+        clear = await fhevmInstance.userDecrypt(
+          handles.map((handle) => ({ handle, contractAddress: studyTrackerAddress })),
+          signature.privateKey,
+          signature.publicKey,
+          signature.signature,
+          signature.contractAddresses,
+          signature.userAddress,
+          signature.startTimestamp,
+          signature.durationDays,
+        );
+      }
+
+      setStudyTime({
+        ...studyTime,
+        dailyMinutes: Number(clear[studyTime.dailyHandle] ?? 0),
+        totalMinutes: Number(clear[studyTime.totalHandle] ?? 0),
+      });
+      setMessage("");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setMessage(`Error decrypting study time: ${errorMessage}`);
+      console.error("[useEncryptedStudyTracker] Error decrypting study time:", error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [studyTrackerAddress, ethersSigner, fhevmInstance, studyTime, fhevmDecryptionSignatureStorage]);
+
+  return {
+    studyTrackerAddress,
+    studyTime,
+    isReady: !!fhevmInstance && !!ethersSigner,
+    isLoading,
+    message,
+    recordStudyTime,
+    decryptStudyTime,
+    loadStudyTime,
+  };
+}
@@ -0,0 +1,318 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAccount, useChainId, useWalletClient } from "wagmi";
+import { ethers } from "ethers";
+import { useFhevm } from "../fhevm/useFhevm";
+import { FhevmDecryptionSignature } from "../fhevm/FhevmDecryptionSignature";
+import { useInMemoryStorage } from "./useInMemoryStorage";
+import { EncryptedSurveyABI } from "../abi/EncryptedSurveyABI";
+import { EncryptedSurveyAddresses } from "../abi/EncryptedSurveyAddresses";
+
+// Mirrors EncryptedSurvey.QuestionType
+export enum QuestionType {
+  Choice = 0, // one option index
+  Rating = 1, // one number between the question's bounds
+}
+
+// Limits enforced by EncryptedSurvey.createSurvey
+export const MAX_SURVEY_QUESTIONS = 10;
+export const MAX_SURVEY_OPTIONS = 10;
+
+export interface SurveyQuestion {
+  prompt: string;
+  questionType: QuestionType;
+  options: string[]; // empty for rating questions
+  minRating: number;
+  maxRating: number;
+}
+
+export interface Survey {
+  id: number;
+  title: string;
+  description: string;
+  creator: string;
+  startTime: number;
+  endTime: number;
+  responseCount: number;
+  questions: SurveyQuestion[];
+  hasResponded: boolean;
+}
+
+// Decrypted aggregates of a question: option counts of choice questions, sum and count of rating questions
+export interface QuestionResult {
+  counts: number[];
+  sum: number;
+  count: number;
+  average: number | undefined; // undefined without valid rating answers
+}
+
+export interface UseEncryptedSurveyState {
+  surveyAddress: string | undefined; // undefined when the survey contract is not deployed on the current chain
+  surveys: Survey[];
+  results: Record<number, QuestionResult[]>; // surveyId -> results per question
+  isReady: boolean;
+  isLoading: boolean;
+  message: string;
+  createSurvey: (
+    title: string,
+    description: string,
+    questions: SurveyQuestion[],
+    startTime: number,
+    endTime: number
+  ) => Promise<void>;
+  respond: (surveyId: number, answers: (number | undefined)[]) => Promise<void>;
+  decryptSurveyResults: (surveyId: number) => Promise<void>;
+  loadSurveys: () => Promise<void>;
+}
+
+/**
+ * Answer counting for nothing, used for skipped questions: an option index past the options,
+ * or a rating outside the bounds. Undefined for ratings spanning every euint8 value, which cannot be skipped.
+ */
+export function skipAnswer(question: SurveyQuestion): number | undefined {
+  if (question.questionType === QuestionType.Choice) {
+    return 255;
+  }
+  if (question.maxRating < 255) {
+    return 255;
+  }
+  return question.minRating > 0 ? 0 : undefined;
+}
+
+export function useEncryptedSurvey(): UseEncryptedSurveyState {
+  const { address, isConnected } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+  const { storage: fhevmDecryptionSignatureStorage } = useInMemoryStorage();
+
+  const [ethersSigner, setEthersSigner] = useState<ethers.JsonRpcSigner | undefined>(undefined);
+  const [surveys, setSurveys] = useState<Survey[]>([]);
+  const [results, setResults] = useState<Record<number, QuestionResult[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const surveyEntry = EncryptedSurveyAddresses[chainId.toString() as keyof typeof EncryptedSurveyAddresses];
+  const surveyAddress = surveyEntry && surveyEntry.address !== ethers.ZeroAddress ? surveyEntry.address : undefined;
+
+  const eip1193Provider = walletClient as unknown as ethers.Eip1193Provider | undefined;
+  const { instance: fhevmInstance } = useFhevm({
+    provider: chainId === 31337 ? "http://localhost:8545" : eip1193Provider,
+    chainId,
+    initialMockChains: { 31337: "http://localhost:8545" },
+    enabled: isConnected && !!surveyAddress,
+  });
+
+  useEffect(() => {
+    if (!eip1193Provider) {
+      setEthersSigner(undefined);
+      return;
+    }
+    new ethers.BrowserProvider(eip1193Provider)
+      .getSigner()
+      .then(setEthersSigner)
+      .catch((error) => {
+        console.error("[useEncryptedSurvey] Error setting up ethers:", error);
+        setEthersSigner(undefined);
+      });
+  }, [eip1193Provider]);
+
+  const loadSurveys = useCallback(async () => {
+    if (!surveyAddress || !ethersSigner) {
+      setSurveys([]);
+      return;
+    }
+    const contract = new ethers.Contract(surveyAddress, EncryptedSurveyABI, ethersSigner);
+    const nextSurveyId = Number(await contract.getNextSurveyId());
+
+    const loaded: Survey[] = [];
+    for (let id = nextSurveyId - 1; id >= 1; id--) {
+      const [survey, questions, hasResponded] = await Promise.all([
+        contract.getSurvey(id),
+        contract.getQuestions(id),
+        address ? contract.hasResponded(id, address) : false,
+      ]);
+      loaded.push({
+        id,
+        title: survey.title,
+        description: survey.description,
+        creator: survey.creator,
+        startTime: Number(survey.startTime),
+        endTime: Number(survey.endTime),
+        responseCount: Number(survey.responseCount),
+        questions: questions.map((question: SurveyQuestion) => ({
+          prompt: question.prompt,
+          questionType: Number(question.questionType) as QuestionType,
+          options: [...question.options],
+          minRating: Number(question.minRating),
+          maxRating: Number(question.maxRating),
+        })),
+        hasResponded,
+      });
+    }
+    setSurveys(loaded);
+  }, [surveyAddress, ethersSigner, address]);
+
+  useEffect(() => {
+    loadSurveys().catch((error) => console.error("[useEncryptedSurvey] Error loading surveys:", error));
+  }, [loadSurveys]);
+
+  const createSurvey = useCallback(
+    async (title: string, description: string, questions: SurveyQuestion[], startTime: number, endTime: number) => {
+      if (!surveyAddress || !ethersSigner) {
+        const error = new Error("Wallet signer not available");
+        setMessage(error.message);
+        throw error;
+      }
+
+      try {
+        setIsLoading(true);
+        setMessage("Creating survey...");
+        const contract = new ethers.Contract(surveyAddress, EncryptedSurveyABI, ethersSigner);
+        // Every question starts with encrypted zero aggregates, so creation costs gas per option
+        const tx = await contract.createSurvey(title, description, questions, startTime, endTime);
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
+
+        setMessage(`Survey "${title}" created`);
+        await loadSurveys();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Error creating survey: ${errorMessage}`);
+        console.error("[useEncryptedSurvey] Error creating survey:", error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [surveyAddress, ethersSigner, loadSurveys]
+  );
+
+  // Every answer is encrypted into one input, so a single proof covers the whole response
+  const respond = useCallback(
+    async (surveyId: number, answers: (number | undefined)[]) => {
+      const survey = surveys.find((item) => item.id === surveyId);
+      if (!surveyAddress || !ethersSigner || !fhevmInstance || !address || !survey) {
+        const error = new Error("Wallet signer or FHEVM instance not available");
+        setMessage(error.message);
+        throw error;
+      }
+
+      try {
+        setIsLoading(true);
+        setMessage("Encrypting answers...");
+        const encryptedInput = fhevmInstance.createEncryptedInput(surveyAddress, address);
+        survey.questions.forEach((question, index) => {
+          const answer = answers[index] ?? skipAnswer(question);
+          if (answer === undefined) {
+            throw new Error(`Question ${index + 1} must be answered`);
+          }
+          encryptedInput.add8(answer);
+        });
+        const encrypted = await encryptedInput.encrypt();
+
+        setMessage("Submitting encrypted response...");
+        const contract = new ethers.Contract(surveyAddress, EncryptedSurveyABI, ethersSigner);
+        const tx = await contract.respond(surveyId, encrypted.handles, encrypted.inputProof);
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
+
+        setMessage("Response recorded");
+        await loadSurveys();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Error submitting response: ${errorMessage}`);
+        console.error("[useEncryptedSurvey] Error submitting response:", error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [surveys, surveyAddress, ethersSigner, fhevmInstance, address, loadSurveys]
+  );
+
+  // Grant the caller access to the aggregates of an ended survey, then decrypt them in one userDecrypt request
+  const decryptSurveyResults = useCallback(
+    async (surveyId: number) => {
+      const survey = surveys.find((item) => item.id === surveyId);
+      if (!surveyAddress || !ethersSigner || !fhevmInstance || !survey) {
+        const error = new Error("Wallet signer or FHEVM instance not available");
+        setMessage(error.message);
+        throw error;
+      }
+
+      try {
+        setIsLoading(true);
+        setMessage("Requesting access to the survey results...");
+        const contract = new ethers.Contract(surveyAddress, EncryptedSurveyABI, ethersSigner);
+        const tx = await contract.requestSurveyResults(surveyId);
+        await tx.wait();
+
+        const aggregates: { counts: string[]; sum: string; count: string }[] = [];
+        for (let index = 0; index < survey.questions.length; index++) {
+          const aggregate = await contract.getEncryptedAggregate(surveyId, index);
+          aggregates.push({ counts: [...aggregate.counts], sum: aggregate.sum, count: aggregate.count });
+        }
+        const handles = aggregates
+          .flatMap((aggregate) => [...aggregate.counts, aggregate.sum, aggregate.count])
+          .filter((handle) => handle !== ethers.ZeroHash);
+
+        setMessage("Sign the decryption request in your wallet...");
+        const signature = await FhevmDecryptionSignature.loadOrSign(
+          fhevmInstance,
+          [surveyAddress],
+          ethersSigner,
+          fhevmDecryptionSignatureStorage
+        );
+        if (!signature) {
+          throw new Error("Decryption request was not signed");
+        }
+
+        setMessage("Decrypting survey results...");
+        const clear = await fhevmInstance.userDecrypt(
+          handles.map((handle) => ({ handle, contractAddress: surveyAddress })),
+          signature.privateKey,
+          signature.publicKey,
+          signature.signature,
+          signature.contractAddresses,
+          signature.userAddress,
+          signature.startTimestamp,
+          signature.durationDays
+        );
+
+        const value = (handle: string) => Number(clear[handle] ?? 0);
+        const questionResults = aggregates.map((aggregate) => {
+          const sum = value(aggregate.sum);
+          const count = value(aggregate.count);
+          return {
+            counts: aggregate.counts.map(value),
+            sum,
+            count,
+            average: count > 0 ? sum / count : undefined,
+          };
+        });
+        setResults((previous) => ({ ...previous, [surveyId]: questionResults }));
+        setMessage("");
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        setMessage(`Error decrypting survey results: ${errorMessage}`);
+        console.error("[useEncryptedSurvey] Error decrypting survey results:", error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [surveys, surveyAddress, ethersSigner, fhevmInstance, fhevmDecryptionSignatureStorage]
+  );
+
+  return {
+    surveyAddress,
+    surveys,
+    results,
+    isReady: !!fhevmInstance && !!ethersSigner,
+    isLoading,
+    message,
+    createSurvey,
+    respond,
+    decryptSurveyResults,
+    loadSurveys,
+  };
+}
@@ -1,9 +1,93 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useAccount, useChainId, useWalletClient } from "wagmi";
 import { ethers } from "ethers";
 import { useFhevm } from "../fhevm/useFhevm";
 import { useInMemoryStorage } from "./useInMemoryStorage";
 import { EncryptedVotingSystemABI } from "../abi/EncryptedVotingSystemABI";
+import { EncryptedVotingSystemAddresses } from "../abi/EncryptedVotingSystemAddresses";
+import { VoteFactoryABI } from "../abi/VoteFactoryABI";
+import { VoteFactoryAddresses } from "../abi/VoteFactoryAddresses";
+import { buildMerkleTree } from "../lib/merkle";
+import { packRanking } from "../lib/ranking";
+import { RANKED_NOT_RELAYED, RELAYER_URL, relayBallot } from "../lib/relayer";
+import {
+  ELECTION_VOTE_ID,
+  followVoteIndex,
+  IndexedBallot,
+  IndexedVote,
+  IndexTarget,
+  readVoteIndex,
+  syncVoteIndex,
+} from "../lib/voteIndex";
+
+// Mirrors EncryptedVotingSystem.EligibilityMode
+export enum EligibilityMode {
+  Open = 0,
+  Allowlist = 1,
+  Merkle = 2,
+}
+
+// Mirrors EncryptedVotingSystem.BallotType
+export enum BallotType {
+  Plurality = 0,
+  Ranked = 1,
+  Approval = 2,
+}
+
+// Mirrors EncryptedVotingSystem.VoteState, read with getVoteState
+export enum VoteState {
+  Draft = 0,
+  Scheduled = 1,
+  Open = 2,
+  Closed = 3,
+  Tallied = 4,
+  Cancelled = 5,
+}
+
+// Mirrors BallotTally.Threshold: what the first option needs among the counted ballots
+export enum Threshold {
+  None = 0,
+  Majority = 1,
+  Supermajority = 2,
+  Count = 3,
+}
+
+// Mirrors BallotTally.Rules, evaluated on the encrypted tally when the vote closes
+export interface VoteRules {
+  quorum: number; // minimum number of ballots, 0 for none
+  threshold: Threshold;
+  thresholdCount: number; // ballots the first option needs with Threshold.Count
+  outcomeOnly: boolean; // only pass/fail is ever published, never the counts
+}
+
+export const NO_RULES: VoteRules = { quorum: 0, threshold: Threshold.None, thresholdCount: 0, outcomeOnly: false };
+
+export const hasRules = (rules: VoteRules) => rules.quorum > 0 || rules.threshold !== Threshold.None;
+
+// Role IDs of EncryptedVotingSystem, keccak256 of the role constant names
+export const ROLES = {
+  admin: ethers.id("ADMIN_ROLE"),
+  voteCreator: ethers.id("VOTE_CREATOR_ROLE"),
+  tallier: ethers.id("TALLIER_ROLE"),
+  pauser: ethers.id("PAUSER_ROLE"),
+};
+
+export type RoleName = keyof typeof ROLES;
+
+// Roles of the connected account, counting roles open to everyone
+export type AccountRoles = Record<RoleName, boolean>;
+
+const NO_ROLES: AccountRoles = { admin: false, voteCreator: false, tallier: false, pauser: false };
+
+export interface VoteWeighting {
+  token: string; // ERC20Votes / ERC721Votes token snapshotted at vote creation
+  unit: bigint; // token amount worth one vote, e.g. 1e18 for an 18-decimals ERC-20
+}
+
+export interface VoteEligibility {
+  mode: EligibilityMode;
+  members: string[]; // allowlisted addresses, or the member list the Merkle root is built from
+}
 
 export interface Vote {
   id: number;
@@ -12,31 +96,146 @@ export interface Vote {
   options: string[];
   startTime: number;
   endTime: number;
-  active: boolean;
+  active: boolean; // endVote has not run yet
+  state: VoteState;
   creator: string;
+  liveResults: boolean; // results may be decrypted before the vote has ended
+  eligibility: EligibilityMode;
+  merkleRoot: string;
+  isEligible: boolean; // whether the connected account may vote
+  weightToken: string; // zero address for one ballot one vote
+  ballotType: BallotType;
+  allowRevote: boolean; // voters may replace their ballot until the end time
+  cancelReason?: string; // reason given by whoever cancelled the vote
+  rules: VoteRules;
+  archived: boolean; // moved out of the vote list by archiveVote
+  delegate: string; // who votes for the connected account, from this vote or every vote; zero address for nobody
+  ballotDelegate: string; // delegate whose ballot counts for the connected account, zero address for none
 }
 
 export interface VoteResult {
   voteId: number;
   optionId: number;
   count: number;
+  weight: number; // sum of ballot weights, equal to count for unweighted votes
+  share: number; // fraction of the ballots cast counting for the option; approval shares can add up to more than 1
+}
+
+// Confirmed transaction of an admin action, reported as-is instead of an optimistic success message
+export interface TransactionResult {
+  hash: string;
+  blockNumber: number;
+  summary: string; // what the transaction did, read from its events
+}
+
+// Where a vote lives: the EncryptedVotingSystem deployment, or the instance of a VoteFactory election
+export interface VoteLocation {
+  address: string; // EncryptedVotingSystem contract holding the vote
+  voteId: number; // ID of the vote in that contract
+}
+
+// An event of an admin transaction, with the ID the vote is listed under
+interface VoteEvent {
+  name: string;
+  voteId: number;
+  args: ethers.Result;
+}
+
+// Timestamped vote events of the index, for activity charts
+export interface VoteActivity {
+  votes: IndexedVote[];
+  ballots: IndexedBallot[];
 }
 
-interface UseEncryptedVotingSystemState {
+// Encrypted handles of the per-option counters, and of the per-option weights for weighted votes
+interface TallyHandles {
+  counts: string[];
+  weights: string[];
+}
+
+export const isWeightedVote = (vote: Vote) => vote.weightToken !== ethers.ZeroAddress;
+
+// State of a vote read before the given time, following EncryptedVotingSystem.getVoteState:
+// without an event, only reaching the start or end time can have changed it
+const stateAt = (vote: Vote, timestamp: number): VoteState => {
+  if (vote.state !== VoteState.Scheduled && vote.state !== VoteState.Open) {
+    return vote.state;
+  }
+  if (timestamp > vote.endTime) {
+    return VoteState.Closed;
+  }
+  return timestamp < vote.startTime ? VoteState.Scheduled : VoteState.Open;
+};
+
+// A ranking packs one 4-bit option index per preference, so 0xF can end it
+export const MAX_RANKED_OPTIONS = 15;
+
+// An approval ballot is one bit per option of an encrypted 32-bit value
+export const MAX_APPROVAL_OPTIONS = 32;
+
+// Bitmask cast by castVote in approval votes: bit i approves option i
+export const approvalBitmask = (approved: number[]) =>
+  approved.reduce((mask, option) => mask | (1 << option), 0) >>> 0;
+
+// Options approved by an approval bitmask, for displaying a decrypted approval ballot
+export const approvedOptions = (bitmask: number, optionCount: number) =>
+  Array.from({ length: optionCount }, (_, option) => option).filter(option => (bitmask >>> option) & 1);
+
+export interface UseEncryptedVotingSystemState {
   contractAddress: string | undefined;
+  factoryAddress: string | undefined; // VoteFactory of the current chain, undefined when votes live in contractAddress
   votes: Vote[];
+  ballotCounts: Record<number, number>; // voteId -> ballots cast, from the vote event index
+  activity: VoteActivity;
   currentVote: Vote | null;
   userVotes: Record<number, string>; // voteId -> encrypted handle
   decryptedResults: Record<number, VoteResult[]>; // voteId -> results
   decryptedUserVotes: Record<number, number>; // voteId -> decrypted vote option
+  publishedResults: Record<number, VoteResult[]>; // voteId -> oracle-verified results, public to everyone
+  publishedSpoiled: Record<number, number>; // voteId -> oracle-verified number of spoiled ballots
+  rankedRounds: Record<number, number[][]>; // voteId -> count per option of every instant-runoff round
+  publishedOutcomes: Record<number, boolean>; // voteId -> oracle-verified pass/fail of votes with rules
+  contractOwner: string | undefined; // always an admin
+  pendingOwner: string | undefined; // proposed owner until they accept, zero address when none
+  accountRoles: AccountRoles;
+  // Delegate of the connected account in every vote, undefined with a VoteFactory whose elections are delegated apart
+  globalDelegate: string | undefined;
   isLoading: boolean;
   message: string | undefined;
-  createVote: (title: string, description: string, options: string[], durationDays: number) => Promise<number>;
+  createVote: (
+    title: string,
+    description: string,
+    options: string[],
+    startTime: number,
+    endTime: number,
+    liveResults?: boolean,
+    eligibility?: VoteEligibility,
+    weighting?: VoteWeighting,
+    ballotType?: BallotType,
+    allowRevote?: boolean,
+    draft?: boolean,
+    rules?: VoteRules
+  ) => Promise<number>;
+  publishVote: (voteId: number) => Promise<void>;
+  cancelVote: (voteId: number, reason: string) => Promise<void>;
+  closeVoteEarly: (voteId: number) => Promise<void>;
+  grantRole: (role: RoleName, account: string) => Promise<void>;
+  revokeRole: (role: RoleName, account: string) => Promise<void>;
+  transferOwnership: (newOwner: string) => Promise<void>;
+  acceptOwnership: () => Promise<void>;
   castVote: (voteId: number, optionId: number) => Promise<void>;
+  castRankedVote: (voteId: number, ranking: number[]) => Promise<void>;
+  proveEligibility: (voteId: number, members: string[]) => Promise<void>;
+  delegate: (voteId: number, delegatee: string) => Promise<void>;
+  endVote: (voteId: number) => Promise<void>;
+  endExpiredVotes: () => Promise<TransactionResult>;
+  archiveVote: (voteId: number) => Promise<TransactionResult>;
+  wipeBallots: (voteId: number) => Promise<TransactionResult>;
   decryptUserVote: (voteId: number) => Promise<number>;
   decryptVoteResults: (voteId: number) => Promise<VoteResult[]>;
   loadVotes: () => Promise<void>;
   refreshVote: (voteId: number) => Promise<void>;
+  locateVote: (voteId: number) => VoteLocation;
 }
 
 export function useEncryptedVotingSystem(contractAddress: string | undefined): UseEncryptedVotingSystemState {
@@ -48,11 +247,69 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
   const [votes, setVotes] = useState<Vote[]>([]);
   const [currentVote, setCurrentVote] = useState<Vote | null>(null);
   const [userVotes, setUserVotes] = useState<Record<number, string>>({});
+  const [publishedResults, setPublishedResults] = useState<Record<number, VoteResult[]>>({});
+  const [publishedSpoiled, setPublishedSpoiled] = useState<Record<number, number>>({});
+  const [rankedRounds, setRankedRounds] = useState<Record<number, number[][]>>({});
+  const [publishedOutcomes, setPublishedOutcomes] = useState<Record<number, boolean>>({});
+  const [contractOwner, setContractOwner] = useState<string | undefined>(undefined);
+  const [pendingOwner, setPendingOwner] = useState<string | undefined>(undefined);
+  const [accountRoles, setAccountRoles] = useState<AccountRoles>(NO_ROLES);
+  const [globalDelegate, setGlobalDelegate] = useState<string | undefined>(undefined);
+  const [elections, setElections] = useState<string[]>([]); // election instances, election ID = position + 1
+  const [ballotCounts, setBallotCounts] = useState<Record<number, number>>({});
+  const [activity, setActivity] = useState<VoteActivity>({ votes: [], ballots: [] });
+  // Votes read by loadVotes, with the index block they were read at; reset for another account or chain history
+  const voteCache = useRef<{ key: string; block: number; votes: Map<number, { vote: Vote; block: number }> }>({
+    key: "",
+    block: -1,
+    votes: new Map(),
+  });
+
+  const factoryEntry = VoteFactoryAddresses[chainId.toString() as keyof typeof VoteFactoryAddresses];
+  const factoryAddress = factoryEntry && factoryEntry.address !== ethers.ZeroAddress ? factoryEntry.address : undefined;
+
+  // Vote events are indexed from the block of the factory, or of the deployment without one
+  const indexTarget = useMemo((): IndexTarget | undefined => {
+    if (!contractAddress) {
+      return undefined;
+    }
+    const deployment = EncryptedVotingSystemAddresses[chainId.toString() as keyof typeof EncryptedVotingSystemAddresses];
+    const deploymentBlock = deployment?.address.toLowerCase() === contractAddress.toLowerCase() ? deployment.blockNumber : 0;
+    return {
+      chainId,
+      contract: contractAddress,
+      factory: factoryAddress,
+      fromBlock: factoryAddress ? factoryEntry.blockNumber : deploymentBlock,
+    };
+  }, [chainId, contractAddress, factoryAddress, factoryEntry]);
+
+  // With a VoteFactory every election is an EncryptedVotingSystem instance of its own, listed under its election ID;
+  // without one, votes are listed under their ID in the contractAddress deployment
+  const locateVote = useCallback((voteId: number): VoteLocation => {
+    if (!factoryAddress) {
+      return { address: contractAddress ?? ethers.ZeroAddress, voteId };
+    }
+    const election = elections[voteId - 1];
+    if (!election) {
+      throw new Error(`Election #${voteId} not found, please refresh the votes`);
+    }
+    return { address: election, voteId: ELECTION_VOTE_ID };
+  }, [factoryAddress, contractAddress, elections]);
+
+  // Inverse of locateVote for the events of a contract
+  const listedVoteId = useCallback((emitter: string, voteId: number) => {
+    if (!factoryAddress) {
+      return voteId;
+    }
+    return elections.findIndex(election => election.toLowerCase() === emitter.toLowerCase()) + 1;
+  }, [factoryAddress, elections]);
+
   // Helper functions for localStorage persistence
   const getStorageKey = useCallback((suffix: string) => {
-    if (!contractAddress || !address) return null;
-    return `crypto-vote:${contractAddress}:${address}:${suffix}`;
-  }, [contractAddress, address]);
+    const namespace = factoryAddress ?? contractAddress;
+    if (!namespace || !address) return null;
+    return `crypto-vote:${namespace}:${address}:${suffix}`;
+  }, [factoryAddress, contractAddress, address]);
 
   const loadDecryptedResultsFromStorage = useCallback((): Record<number, VoteResult[]> => {
     const key = getStorageKey("decryptedResults");
@@ -104,6 +361,16 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
 
   const [decryptedResults, setDecryptedResults] = useState<Record<number, VoteResult[]>>({});
   const [decryptedUserVotes, setDecryptedUserVotes] = useState<Record<number, number>>({});
+
+  // A changed ballot makes the previously decrypted one stale
+  const forgetDecryptedUserVote = useCallback((voteId: number) => {
+    setDecryptedUserVotes(prev => {
+      const updated = { ...prev };
+      delete updated[voteId];
+      saveDecryptedUserVotesToStorage(updated);
+      return updated;
+    });
+  }, [saveDecryptedUserVotesToStorage]);
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<string | undefined>(undefined);
   const [ethersSigner, setEthersSigner] = useState<ethers.JsonRpcSigner | undefined>(undefined);
@@ -161,14 +428,65 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
     setupEthers();
   }, [walletClient, chainId]);
 
+  // Instance receiving the next vote of an account in factory mode: its latest election while no vote was created
+  // in it, so a failed createVote does not leave empty elections behind, or a new election
+  const prepareElection = useCallback(
+    async (signer: ethers.Signer, account: string): Promise<{ election: string; electionId: number }> => {
+      const factory = new ethers.Contract(factoryAddress!, VoteFactoryABI, signer);
+      const created: string[] = [...(await factory.getElectionsByCreator(account))];
+      const latest = created[created.length - 1];
+      if (latest) {
+        const instance = new ethers.Contract(latest, EncryptedVotingSystemABI, signer);
+        if (Number(await instance.getNextVoteId()) === ELECTION_VOTE_ID) {
+          return { election: latest, electionId: Number(await factory.electionIdOf(latest)) };
+        }
+      }
+
+      setMessage("Deploying the election contract...");
+      const tx = await factory.createElection();
+      const receipt = await tx.wait();
+      for (const log of receipt.logs) {
+        const parsed = factory.interface.parseLog(log);
+        if (parsed?.name === "ElectionCreated") {
+          return { election: parsed.args.election as string, electionId: Number(parsed.args.electionId) };
+        }
+      }
+      throw new Error("ElectionCreated event not found");
+    },
+    [factoryAddress]
+  );
+
   const createVote = useCallback(
-    async (title: string, description: string, options: string[], durationDays: number): Promise<number> => {
+    async (
+      title: string,
+      description: string,
+      options: string[],
+      startTime: number,
+      endTime: number,
+      liveResults = false,
+      eligibility: VoteEligibility = { mode: EligibilityMode.Open, members: [] },
+      weighting?: VoteWeighting,
+      ballotType = BallotType.Plurality,
+      allowRevote = false,
+      draft = false,
+      rules: VoteRules = NO_RULES
+    ): Promise<number> => {
       console.log("[useEncryptedVotingSystem] createVote called", {
         title,
         description,
         options,
-        durationDays,
+        startTime,
+        endTime,
+        liveResults,
+        eligibility: eligibility.mode,
+        members: eligibility.members.length,
+        weightToken: weighting?.token,
+        ballotType,
+        allowRevote,
+        draft,
+        rules,
         contractAddress,
+        factoryAddress,
         hasEthersSigner: !!ethersSigner,
         address,
       });
@@ -203,6 +521,38 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
         throw error;
       }
 
+      if (ballotType === BallotType.Ranked && options.length > MAX_RANKED_OPTIONS) {
+        const error = new Error(`Ranked votes are limited to ${MAX_RANKED_OPTIONS} options`);
+        setMessage(error.message);
+        throw error;
+      }
+
+      if (ballotType === BallotType.Approval && options.length > MAX_APPROVAL_OPTIONS) {
+        const error = new Error(`Approval votes are limited to ${MAX_APPROVAL_OPTIONS} options`);
+        setMessage(error.message);
+        throw error;
+      }
+
+      // Same bounds as the contract: 0 opens right away, and votes last 1 minute to 365 days
+      const opensAt = startTime || Math.floor(Date.now() / 1000);
+      if (endTime - opensAt < 60 || endTime - opensAt > 365 * 24 * 60 * 60) {
+        const error = new Error("Votes must last between 1 minute and 365 days");
+        setMessage(error.message);
+        throw error;
+      }
+
+      if (rules.outcomeOnly && (rules.threshold === Threshold.None || liveResults)) {
+        const error = new Error("Outcome-only votes need a threshold and embargoed results");
+        setMessage(error.message);
+        throw error;
+      }
+
+      if (eligibility.mode !== EligibilityMode.Open && eligibility.members.length === 0) {
+        const error = new Error("Restricted votes need at least one member address");
+        setMessage(error.message);
+        throw error;
+      }
+
       try {
         setIsLoading(true);
         setMessage("Creating voting...");
@@ -217,11 +567,27 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
           );
         }
 
-        const contract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, ethersSigner);
+        // With a VoteFactory the vote is the only one of an election instance, listed under the election ID
+        const election = factoryAddress ? await prepareElection(ethersSigner, address) : undefined;
+        const contract = new ethers.Contract(election?.election ?? contractAddress, EncryptedVotingSystemABI, ethersSigner);
 
         console.log("[useEncryptedVotingSystem] Creating vote with options:", options);
 
-        const tx = await contract.createVote(title, description, options, durationDays, {
+        const settings = {
+          liveResults,
+          eligibility: eligibility.mode,
+          merkleRoot: eligibility.mode === EligibilityMode.Merkle
+            ? buildMerkleTree(eligibility.members).root
+            : ethers.ZeroHash,
+          weightToken: weighting?.token ?? ethers.ZeroAddress,
+          weightUnit: weighting?.unit ?? BigInt(0),
+          ballotType,
+          allowRevote,
+          draft,
+          rules,
+        };
+
+        const tx = await contract.createVote(title, description, options, startTime, endTime, settings, {
           gasLimit: 5000000,
         });
         console.log("[useEncryptedVotingSystem] Transaction sent:", tx.hash);
@@ -256,7 +622,21 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
           voteId = Number(nextId) - 1;
         }
 
-        setMessage(`Vote "${title}" created successfully with ID: ${voteId}`);
+        if (eligibility.mode === EligibilityMode.Allowlist) {
+          setMessage(`Adding ${eligibility.members.length} voters to the allowlist...`);
+          const allowlistTx = await contract.addToAllowlist(voteId, eligibility.members);
+          await allowlistTx.wait();
+        }
+
+        if (election) {
+          voteId = election.electionId;
+        }
+
+        setMessage(
+          draft
+            ? `Draft vote "${title}" created with ID: ${voteId}. Publish it to open voting.`
+            : `Vote "${title}" created successfully with ID: ${voteId}`
+        );
 
         // Refresh votes list
         await loadVotes();
@@ -271,9 +651,155 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
         setIsLoading(false);
       }
     },
-    [contractAddress, ethersSigner, ethersProvider, address]
+    [contractAddress, factoryAddress, ethersSigner, ethersProvider, address, prepareElection]
   );
 
+  // Final tallies are published on-chain by the decryption oracle once a vote ends,
+  // so anyone can read them without requesting ACL access or signing anything.
+  // Outcome-only votes publish no counts, just whether they passed.
+  const readPublishedResults = useCallback(async (contract: ethers.Contract, location: VoteLocation, voteId: number) => {
+    const [published, counts, spoiled, weights] = await contract.getPublishedResults(location.voteId);
+    if (!published) {
+      return undefined;
+    }
+    const [outcomePublished, passed] = await contract.getPublishedOutcome(location.voteId);
+    const ballots = Number(await contract.getVoteCount(location.voteId));
+    const results = (counts as bigint[]).map((count, optionId): VoteResult => ({
+      voteId,
+      optionId,
+      count: Number(count),
+      weight: Number(weights[optionId] ?? count),
+      share: ballots > 0 ? Number(count) / ballots : 0
+    }));
+    return { results, spoiled: Number(spoiled), passed: outcomePublished ? Boolean(passed) : undefined };
+  }, []);
+
+  // Instant-runoff rounds are published by the vote creator after tallying the rankings off-chain
+  const readRankedRounds = useCallback(async (contract: ethers.Contract, voteId: number) => {
+    const rounds: bigint[][] = await contract.getRankedRounds(voteId);
+    return rounds.map(round => round.map(Number));
+  }, []);
+
+  const readVoteRules = useCallback(async (contract: ethers.Contract, voteId: number): Promise<VoteRules> => {
+    const rules = await contract.getVoteRules(voteId);
+    return {
+      quorum: Number(rules.quorum),
+      threshold: Number(rules.threshold),
+      thresholdCount: Number(rules.thresholdCount),
+      outcomeOnly: rules.outcomeOnly,
+    };
+  }, []);
+
+  // The reason is only kept in the VoteCancelled event
+  const readCancelReason = useCallback(async (contract: ethers.Contract, voteId: number) => {
+    try {
+      const [event] = await contract.queryFilter(contract.filters.VoteCancelled(voteId));
+      return event && "args" in event ? String(event.args.reason) : undefined;
+    } catch (error) {
+      console.warn(`[useEncryptedVotingSystem] Could not read the cancellation reason of vote ${voteId}:`, error);
+      return undefined;
+    }
+  }, []);
+
+  // Read a vote from the contract holding it, listed under the given ID
+  const readVote = useCallback(async (contract: ethers.Contract, location: VoteLocation, id: number): Promise<Vote> => {
+    const voteId = location.voteId;
+    const voteData = await contract.getVote(voteId);
+    const voteRecord = await contract.votes(voteId);
+    const state: VoteState = Number(await contract.getVoteState(voteId));
+    const [eligibility, merkleRoot] = await contract.getVoteEligibility(voteId);
+    const [delegate, ballotDelegate] = address
+      ? await contract.getDelegation(voteId, address)
+      : [ethers.ZeroAddress, ethers.ZeroAddress];
+    return {
+      id,
+      title: voteData.title,
+      description: voteData.description,
+      options: voteData.options,
+      startTime: Number(voteData.startTime),
+      endTime: Number(voteData.endTime),
+      active: voteData.active,
+      state,
+      creator: voteData.creator,
+      liveResults: voteData.liveResults,
+      eligibility: Number(eligibility),
+      merkleRoot,
+      isEligible: address ? await contract.isEligible(voteId, address) : Number(eligibility) === EligibilityMode.Open,
+      weightToken: (await contract.getVoteWeighting(voteId)).token,
+      ballotType: Number(voteRecord.ballotType),
+      allowRevote: voteRecord.allowRevote,
+      cancelReason: state === VoteState.Cancelled ? await readCancelReason(contract, voteId) : undefined,
+      rules: await readVoteRules(contract, voteId),
+      archived: await contract.isVoteArchived(voteId),
+      delegate,
+      ballotDelegate
+    };
+  }, [address, readCancelReason, readVoteRules]);
+
+  const refreshVote = useCallback(async (voteId: number) => {
+    if (!contractAddress || !address) {
+      return;
+    }
+
+    try {
+      // Create a provider - use ethersProvider if available, otherwise create one
+      let provider = ethersProvider;
+      if (!provider) {
+        if (chainId === 31337) {
+          provider = new ethers.JsonRpcProvider("http://localhost:8545");
+        } else if (walletClient) {
+          provider = new ethers.BrowserProvider(walletClient as any) as any;
+        } else {
+          console.log("[useEncryptedVotingSystem] No provider available for refreshVote");
+          return;
+        }
+      }
+
+      const location = locateVote(voteId);
+      const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, provider);
+
+      // Reload specific vote
+      const updatedVote = await readVote(contract, location, voteId);
+
+      setVotes(prev => prev.map(vote => vote.id === voteId ? updatedVote : vote));
+
+      if (!updatedVote.active) {
+        const published = await readPublishedResults(contract, location, voteId);
+        if (published) {
+          setPublishedResults(prev => ({ ...prev, [voteId]: published.results }));
+          setPublishedSpoiled(prev => ({ ...prev, [voteId]: published.spoiled }));
+          const { passed } = published;
+          if (passed !== undefined) {
+            setPublishedOutcomes(prev => ({ ...prev, [voteId]: passed }));
+          }
+        }
+        if (updatedVote.ballotType === BallotType.Ranked) {
+          const rounds = await readRankedRounds(contract, location.voteId);
+          setRankedRounds(prev => ({ ...prev, [voteId]: rounds }));
+        }
+      }
+
+      // Check if user has voted and update userVotes
+      const hasVoted = await contract.hasVotedInVote(location.voteId, address);
+      if (hasVoted) {
+        const ballot = await contract.getEncryptedBallot(location.voteId, address);
+        setUserVotes(prev => ({
+          ...prev,
+          [voteId]: ethers.hexlify(ballot)
+        }));
+      } else {
+        // User hasn't voted, remove from userVotes if present
+        setUserVotes(prev => {
+          const updated = { ...prev };
+          delete updated[voteId];
+          return updated;
+        });
+      }
+    } catch (error) {
+      console.error(`[useEncryptedVotingSystem] Error refreshing vote ${voteId}:`, error);
+    }
+  }, [contractAddress, ethersProvider, address, chainId, walletClient, locateVote, readVote, readPublishedResults, readRankedRounds]);
+
   const castVote = useCallback(
     async (voteId: number, optionId: number) => {
       console.log("[useEncryptedVotingSystem] castVote called", {
@@ -317,11 +843,12 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
 
       try {
         setIsLoading(true);
+        const location = locateVote(voteId);
         setMessage("Encrypting vote...");
 
         // Encrypt the option ID using FHEVM
         const encryptedInput = fhevmInstance.createEncryptedInput(
-          contractAddress as `0x${string}`,
+          location.address as `0x${string}`,
           address as `0x${string}`
         );
         encryptedInput.add32(optionId);
@@ -330,22 +857,38 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
 
         setMessage("Submitting encrypted vote...");
 
-        const contract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, ethersSigner);
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersSigner);
 
         const encryptedOptionHandle = encrypted.handles[0];
         if (!encryptedOptionHandle || !encrypted.inputProof || encrypted.inputProof.length === 0) {
           throw new Error("Encryption failed - missing handle or proof");
         }
 
-        console.log("[useEncryptedVotingSystem] Submitting vote transaction...");
-        const tx = await contract.castVote(voteId, encryptedOptionHandle, encrypted.inputProof, {
-          gasLimit: 5000000,
-        });
-        console.log("[useEncryptedVotingSystem] Vote transaction sent:", tx.hash);
+        // Gasless when a relayer is configured and the election trusts a ballot forwarder; older deployments have none
+        const forwarder: string = RELAYER_URL
+          ? await contract.ballotForwarder().catch(() => ethers.ZeroAddress)
+          : ethers.ZeroAddress;
+        if (forwarder !== ethers.ZeroAddress) {
+          setMessage("Sign your ballot in your wallet, the relayer pays the gas...");
+          await relayBallot(
+            ethersSigner,
+            forwarder,
+            location.address,
+            location.voteId,
+            encryptedOptionHandle,
+            encrypted.inputProof
+          );
+        } else {
+          console.log("[useEncryptedVotingSystem] Submitting vote transaction...");
+          const tx = await contract.castVote(location.voteId, encryptedOptionHandle, encrypted.inputProof, {
+            gasLimit: 5000000,
+          });
+          console.log("[useEncryptedVotingSystem] Vote transaction sent:", tx.hash);
 
-        setMessage("Waiting for vote confirmation...");
-        const receipt = await tx.wait();
-        console.log("[useEncryptedVotingSystem] Vote confirmed, block:", receipt.blockNumber);
+          setMessage("Waiting for vote confirmation...");
+          const receipt = await tx.wait();
+          console.log("[useEncryptedVotingSystem] Vote confirmed, block:", receipt.blockNumber);
+        }
 
         setMessage("Vote cast successfully! Your vote has been encrypted and recorded.");
 
@@ -354,6 +897,7 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
           ...prev,
           [voteId]: ethers.hexlify(encryptedOptionHandle)
         }));
+        forgetDecryptedUserVote(voteId);
 
         // Refresh vote data
         await refreshVote(voteId);
@@ -367,264 +911,328 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
         setIsLoading(false);
       }
     },
-    [contractAddress, ethersSigner, fhevmInstance, ethersProvider, address]
+    [contractAddress, ethersSigner, fhevmInstance, ethersProvider, address, forgetDecryptedUserVote, locateVote, refreshVote]
   );
 
-  const decryptUserVote = useCallback(
-    async (voteId: number): Promise<number> => {
-      if (!contractAddress || !ethersProvider || !fhevmInstance || !ethersSigner || !address) {
-        setMessage("Missing requirements for decryption");
-        throw new Error("Missing requirements for decryption");
+  const castRankedVote = useCallback(
+    async (voteId: number, ranking: number[]) => {
+      if (!contractAddress || !ethersSigner || !fhevmInstance || !address) {
+        const error = new Error("Wallet signer or FHEVM instance not available");
+        setMessage(error.message);
+        throw error;
       }
 
       try {
-        setMessage("Checking vote permissions...");
+        setIsLoading(true);
+        const location = locateVote(voteId);
+        setMessage("Encrypting ranking...");
 
-        // First, verify user has voted and get the encrypted vote
-        const contract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, ethersProvider);
-        const hasVoted = await contract.hasVotedInVote(voteId, address);
+        const encryptedInput = fhevmInstance.createEncryptedInput(
+          location.address as `0x${string}`,
+          address as `0x${string}`
+        );
+        encryptedInput.add64(packRanking(ranking));
+        const encrypted = await encryptedInput.encrypt();
 
-        if (!hasVoted) {
-          throw new Error("You haven't voted in this vote yet");
-        }
+        setMessage(
+          RELAYER_URL ? `${RANKED_NOT_RELAYED}. Submitting encrypted ranking...` : "Submitting encrypted ranking..."
+        );
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersSigner);
+        const tx = await contract.castRankedVote(location.voteId, encrypted.handles[0], encrypted.inputProof, {
+          gasLimit: 5000000,
+        });
 
-        // Request decryption from contract
-        const requestId = Date.now();
-        console.log("[useEncryptedVotingSystem] Requesting vote decryption for voteId:", voteId);
+        setMessage("Waiting for vote confirmation...");
+        await tx.wait();
 
-        // Get all encrypted votes (now allowed at any time)
-        const encryptedVotes = await contract.getEncryptedVoteChoices(voteId);
-        console.log("[useEncryptedVotingSystem] Got encrypted votes:", encryptedVotes);
+        setMessage("Ranking cast successfully! Your preferences have been encrypted and recorded.");
+        forgetDecryptedUserVote(voteId);
+        await refreshVote(voteId);
+      } catch (error: any) {
+        const errorMessage = error.reason || error.message || String(error);
+        setMessage(`Error casting ranked vote: ${errorMessage}`);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, ethersSigner, fhevmInstance, address, forgetDecryptedUserVote, locateVote, refreshVote]
+  );
 
-        if (encryptedVotes.length === 0) {
-          throw new Error("No encrypted votes found for this vote");
-        }
+  const proveEligibility = useCallback(
+    async (voteId: number, members: string[]) => {
+      if (!contractAddress || !ethersSigner || !address) {
+        const error = new Error("Wallet signer not available");
+        setMessage(error.message);
+        throw error;
+      }
 
-        // Request decryption of vote results
-        const signerContract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, ethersSigner);
-        const tx = await signerContract.requestDecryptVoteResults(voteId, requestId);
-        console.log("[useEncryptedVotingSystem] Decryption request sent:", tx.hash);
+      try {
+        setIsLoading(true);
+        const location = locateVote(voteId);
+        setMessage("Proving membership...");
 
-        setMessage("Waiting for decryption request confirmation...");
-        const receipt = await tx.wait();
-        console.log("[useEncryptedVotingSystem] Decryption request confirmed");
+        const tree = buildMerkleTree(members);
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersSigner);
 
-        setMessage("Decrypting voting results...");
+        // The member list must match the root committed when the vote was created
+        const [, merkleRoot] = await contract.getVoteEligibility(location.voteId);
+        if (merkleRoot !== tree.root) {
+          throw new Error("This member list does not match the vote's Merkle root");
+        }
 
-        // Prepare handle-contract pairs for all encrypted votes
-        const handleContractPairs = encryptedVotes.map((encryptedVote: any) => ({
-          handle: ethers.hexlify(encryptedVote),
-          contractAddress: contractAddress as `0x${string}`
-        }));
+        const tx = await contract.proveEligibility(location.voteId, tree.getProof(address));
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
 
-        // Generate keypair for EIP712 signature
-        let keypair: { publicKey: Uint8Array; privateKey: Uint8Array };
-        if (typeof (fhevmInstance as any).generateKeypair === "function") {
-          keypair = (fhevmInstance as any).generateKeypair();
-        } else {
-          keypair = {
-            publicKey: new Uint8Array(32).fill(0),
-            privateKey: new Uint8Array(32).fill(0),
-          };
-        }
+        setMessage("Membership proven. You can now cast your vote.");
+        await refreshVote(voteId);
+      } catch (error: any) {
+        const errorMessage = error.reason || error.message || String(error);
+        setMessage(`Error proving membership: ${errorMessage}`);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, ethersSigner, address, locateVote, refreshVote]
+  );
 
-        // Create EIP712 signature
-        const contractAddresses = [contractAddress as `0x${string}`];
-        const startTimestamp = Math.floor(Date.now() / 1000).toString();
-        const durationDays = "10";
+  const publishVote = useCallback(
+    async (voteId: number) => {
+      if (!contractAddress || !ethersSigner) {
+        const error = new Error("Wallet signer not available");
+        setMessage(error.message);
+        throw error;
+      }
 
-        let eip712: any;
-        if (typeof (fhevmInstance as any).createEIP712 === "function") {
-          eip712 = (fhevmInstance as any).createEIP712(
-            keypair.publicKey,
-            contractAddresses,
-            startTimestamp,
-            durationDays
-          );
-        } else {
-          eip712 = {
-            domain: {
-              name: "FHEVM",
-              version: "1",
-              chainId: chainId,
-              verifyingContract: contractAddresses[0],
-            },
-            types: {
-              UserDecryptRequestVerification: [
-                { name: "publicKey", type: "bytes" },
-                { name: "contractAddresses", type: "address[]" },
-                { name: "startTimestamp", type: "string" },
-                { name: "durationDays", type: "string" },
-              ],
-            },
-            message: {
-              publicKey: ethers.hexlify(keypair.publicKey),
-              contractAddresses,
-              startTimestamp,
-              durationDays,
-            },
-          };
-        }
+      try {
+        setIsLoading(true);
+        const location = locateVote(voteId);
+        setMessage("Publishing vote...");
 
-        // Sign the EIP712 message
-        const signature = await ethersSigner.signTypedData(
-          eip712.domain,
-          { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
-          eip712.message
-        );
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersSigner);
+        const tx = await contract.publishVote(location.voteId);
 
-        // For local mock network, remove "0x" prefix from signature
-        const signatureForDecrypt = chainId === 31337
-          ? signature.replace("0x", "")
-          : signature;
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
 
-        console.log("[useEncryptedVotingSystem] Decrypting with:", {
-          handleCount: handleContractPairs.length,
-          contractAddress,
-          userAddress: address,
-          chainId,
-        });
+        setMessage("Vote published. Voting opens at its start time.");
+        await refreshVote(voteId);
+      } catch (error: any) {
+        const errorMessage = error.reason || error.message || String(error);
+        setMessage(`Error publishing vote: ${errorMessage}`);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, ethersSigner, locateVote, refreshVote]
+  );
 
-        // Decrypt using userDecrypt method
-        const decryptedResult = await (fhevmInstance as any).userDecrypt(
-          handleContractPairs,
-          keypair.privateKey,
-          keypair.publicKey,
-          signatureForDecrypt,
-          contractAddresses,
-          address as `0x${string}`,
-          startTimestamp,
-          durationDays
-        );
+  const cancelVote = useCallback(
+    async (voteId: number, reason: string) => {
+      if (!contractAddress || !ethersSigner) {
+        const error = new Error("Wallet signer not available");
+        setMessage(error.message);
+        throw error;
+      }
 
-        console.log("[useEncryptedVotingSystem] Decryption successful:", decryptedResult);
+      if (!reason.trim()) {
+        const error = new Error("Please give a reason for cancelling the vote");
+        setMessage(error.message);
+        throw error;
+      }
 
-        // Process all decrypted votes to generate statistics
-        const voteCounts: Record<number, number> = {};
-        for (let i = 0; i < handleContractPairs.length; i++) {
-          const handle = handleContractPairs[i].handle;
-          const optionId = Number(decryptedResult[handle] || 0);
-          voteCounts[optionId] = (voteCounts[optionId] || 0) + 1;
-        }
+      try {
+        setIsLoading(true);
+        const location = locateVote(voteId);
+        setMessage("Cancelling vote...");
 
-        // Generate VoteResult array
-        const results: VoteResult[] = Object.entries(voteCounts).map(([optionId, count]) => ({
-          voteId,
-          optionId: Number(optionId),
-          count: Number(count)
-        }));
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersSigner);
+        const tx = await contract.cancelVote(location.voteId, reason.trim());
 
-        // Store results
-        setDecryptedResults(prev => {
-          const updated = {
-            ...prev,
-            [voteId]: results
-          };
-          // Persist to localStorage
-          saveDecryptedResultsToStorage(updated);
-          return updated;
-        });
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
 
-        // Extract user's vote from the decrypted results using the correct user vote handle
-        const userVoteHandle = userVotes[voteId];
-        if (userVoteHandle) {
-          const decryptedVote = Number(decryptedResult[userVoteHandle] || 0);
-          setDecryptedUserVotes(prev => {
-            const updated = {
-              ...prev,
-              [voteId]: decryptedVote
-            };
-            // Persist to localStorage
-            saveDecryptedUserVotesToStorage(updated);
-            return updated;
-          });
-        } else {
-          console.warn("[useEncryptedVotingSystem] No user vote handle found for voteId:", voteId);
-        }
+        setMessage("Vote cancelled. Its ballots will never be tallied.");
+        await refreshVote(voteId);
+      } catch (error: any) {
+        const errorMessage = error.reason || error.message || String(error);
+        setMessage(`Error cancelling vote: ${errorMessage}`);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, ethersSigner, locateVote, refreshVote]
+  );
 
-        setMessage(`Voting results decrypted successfully.`);
+  const closeVoteEarly = useCallback(
+    async (voteId: number) => {
+      if (!contractAddress || !ethersSigner) {
+        const error = new Error("Wallet signer not available");
+        setMessage(error.message);
+        throw error;
+      }
 
-        // Return the decrypted user vote
-        return userVoteHandle ? Number(decryptedResult[userVoteHandle] || 0) : 0;
-      } catch (error: any) {
-        console.error("[useEncryptedVotingSystem] Error decrypting vote:", error);
-        const errorMessage = error.message || String(error);
+      try {
+        setIsLoading(true);
+        const location = locateVote(voteId);
+        setMessage("Closing vote...");
 
-        if (errorMessage.includes("not authorized") || errorMessage.includes("authorized")) {
-          setMessage(`Decryption failed: You don't have permission to decrypt this vote. This may happen if the vote was from a different contract deployment.`);
-        } else {
-          setMessage(`Error decrypting vote: ${errorMessage}`);
-        }
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersSigner);
+        const tx = await contract.closeVoteEarly(location.voteId);
+
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
+
+        setMessage("Vote closed. Verified results will be published once the decryption oracle responds.");
+        await refreshVote(voteId);
+      } catch (error: any) {
+        const errorMessage = error.reason || error.message || String(error);
+        setMessage(`Error closing vote: ${errorMessage}`);
         throw error;
+      } finally {
+        setIsLoading(false);
       }
     },
-    [contractAddress, ethersProvider, fhevmInstance, ethersSigner, address, chainId, userVotes, saveDecryptedResultsToStorage, saveDecryptedUserVotesToStorage]
+    [contractAddress, ethersSigner, locateVote, refreshVote]
   );
 
-  const decryptVoteResults = useCallback(
-    async (voteId: number): Promise<VoteResult[]> => {
-      if (!contractAddress || !ethersProvider || !fhevmInstance || !ethersSigner || !address) {
-      setMessage("Missing requirements for decryption");
-        throw new Error("Missing requirements for decryption");
+  // A role granted to the zero address is open to every account
+  const readAccountRoles = useCallback(async (contract: ethers.Contract, account: string) => {
+    const roles = { ...NO_ROLES };
+    for (const role of Object.keys(ROLES) as RoleName[]) {
+      roles[role] = await contract.hasRole(ROLES[role], account) || await contract.hasRole(ROLES[role], ethers.ZeroAddress);
     }
+    return roles;
+  }, []);
 
-    try {
-        setMessage("Checking vote status...");
+  // Send a role or ownership transaction, then reload the owner and the roles of the connected account
+  const sendAccessTransaction = useCallback(
+    async (action: string, send: (contract: ethers.Contract) => Promise<ethers.ContractTransactionResponse>) => {
+      if (!contractAddress || !ethersSigner || !address) {
+        const error = new Error("Wallet signer not available");
+        setMessage(error.message);
+        throw error;
+      }
 
-        const contract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, ethersProvider);
+      try {
+        setIsLoading(true);
+        setMessage(`${action}...`);
 
-        // Check if voting has ended
-        const voteData = await contract.getVote(voteId);
-        if (voteData.active) {
-          throw new Error("Cannot decrypt results while voting is still active");
-        }
+        const contract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, ethersSigner);
+        const tx = await send(contract);
 
-        // Request results decryption
-        const requestId = Date.now();
-        console.log("[useEncryptedVotingSystem] Requesting results decryption for voteId:", voteId);
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
 
-        const tx = await contract.requestDecryptVoteResults(voteId, requestId);
-        console.log("[useEncryptedVotingSystem] Results decryption request sent:", tx.hash);
+        setContractOwner(await contract.owner());
+        setPendingOwner(await contract.pendingOwner());
+        setAccountRoles(await readAccountRoles(contract, address));
+        setMessage(`${action}: done`);
+      } catch (error: any) {
+        const errorMessage = error.reason || error.message || String(error);
+        setMessage(`Error: ${action}: ${errorMessage}`);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, ethersSigner, address, readAccountRoles]
+  );
 
-        setMessage("Waiting for decryption request confirmation...");
-        const receipt = await tx.wait();
-        console.log("[useEncryptedVotingSystem] Results decryption request confirmed");
+  const grantRole = useCallback(
+    async (role: RoleName, account: string) => {
+      if (!ethers.isAddress(account)) {
+        const error = new Error("Please enter a valid account address");
+        setMessage(error.message);
+        throw error;
+      }
+      await sendAccessTransaction(`Granting ${role} role`, contract => contract.grantRole(ROLES[role], account));
+    },
+    [sendAccessTransaction]
+  );
 
-        // Get encrypted vote choices
-        const encryptedVoteChoices = await contract.getEncryptedVoteChoices(voteId);
+  const revokeRole = useCallback(
+    async (role: RoleName, account: string) => {
+      if (!ethers.isAddress(account)) {
+        const error = new Error("Please enter a valid account address");
+        setMessage(error.message);
+        throw error;
+      }
+      await sendAccessTransaction(`Revoking ${role} role`, contract => contract.revokeRole(ROLES[role], account));
+    },
+    [sendAccessTransaction]
+  );
 
-        setMessage("Decrypting voting results...");
+  // The new owner only takes over once they call acceptOwnership
+  const transferOwnership = useCallback(
+    async (newOwner: string) => {
+      if (!ethers.isAddress(newOwner)) {
+        const error = new Error("Please enter a valid owner address");
+        setMessage(error.message);
+        throw error;
+      }
+      await sendAccessTransaction("Proposing new owner", contract => contract.transferOwnership(newOwner));
+    },
+    [sendAccessTransaction]
+  );
 
-        const results: VoteResult[] = [];
-        const handleContractPairs = [];
+  const acceptOwnership = useCallback(
+    () => sendAccessTransaction("Accepting ownership", contract => contract.acceptOwnership()),
+    [sendAccessTransaction]
+  );
 
-        // Process each encrypted vote choice
-        for (let i = 0; i < encryptedVoteChoices.length; i++) {
-          const handle = ethers.hexlify(encryptedVoteChoices[i]);
-          handleContractPairs.push({
-            handle,
-            contractAddress: contractAddress as `0x${string}`
-          });
-        }
+  const endVote = useCallback(
+    async (voteId: number) => {
+      if (!contractAddress || !ethersSigner) {
+        const error = new Error("Wallet signer not available");
+        setMessage(error.message);
+        throw error;
+      }
 
-        if (handleContractPairs.length === 0) {
-          // No votes cast yet
-          setMessage("No votes have been cast in this vote yet");
-          setDecryptedResults(prev => {
-            const updated = {
-              ...prev,
-              [voteId]: []
-            };
-            saveDecryptedResultsToStorage(updated);
-            return updated;
-          });
-          return [];
-        }
+      try {
+        setIsLoading(true);
+        const location = locateVote(voteId);
+        setMessage("Ending vote...");
+
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersSigner);
+        const tx = await contract.endVote(location.voteId);
+
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
+
+        setMessage("Vote ended. Verified results will be published once the decryption oracle responds.");
+        await refreshVote(voteId);
+      } catch (error: any) {
+        const errorMessage = error.reason || error.message || String(error);
+        setMessage(`Error ending vote: ${errorMessage}`);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, ethersSigner, locateVote, refreshVote]
+  );
+
+  // Decrypt a set of handles owned by a contract with a single EIP712-signed userDecrypt request
+  const userDecryptHandles = useCallback(
+    async (handles: string[], handleContract: string): Promise<Record<string, bigint | boolean | string>> => {
+      if (!contractAddress || !fhevmInstance || !ethersSigner || !address) {
+        throw new Error("Missing requirements for decryption");
+      }
+
+      const handleContractPairs = handles.map((handle) => ({
+        handle,
+        contractAddress: handleContract as `0x${string}`
+      }));
 
       // Generate keypair for EIP712 signature
       let keypair: { publicKey: Uint8Array; privateKey: Uint8Array };
-        if (typeof (fhevmInstance as any).generateKeypair === "function") {
-          keypair = (fhevmInstance as any).generateKeypair();
+      if (typeof (fhevmInstance as any).generateKeypair === "function") {
+        keypair = (fhevmInstance as any).generateKeypair();
       } else {
         keypair = {
           publicKey: new Uint8Array(32).fill(0),
@@ -632,14 +1240,14 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
         };
       }
 
-        // Create EIP712 signature
-        const contractAddresses = [contractAddress as `0x${string}`];
+      // Create EIP712 signature
+      const contractAddresses = [handleContract as `0x${string}`];
       const startTimestamp = Math.floor(Date.now() / 1000).toString();
       const durationDays = "10";
 
       let eip712: any;
-        if (typeof (fhevmInstance as any).createEIP712 === "function") {
-          eip712 = (fhevmInstance as any).createEIP712(
+      if (typeof (fhevmInstance as any).createEIP712 === "function") {
+        eip712 = (fhevmInstance as any).createEIP712(
           keypair.publicKey,
           contractAddresses,
           startTimestamp,
@@ -677,45 +1285,206 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
         eip712.message
       );
 
-        // For local mock network, remove "0x" prefix from signature
+      // For local mock network, remove "0x" prefix from signature
       const signatureForDecrypt = chainId === 31337
         ? signature.replace("0x", "")
         : signature;
 
-        console.log("[useEncryptedVotingSystem] Decrypting results with:", {
-          handleCount: handleContractPairs.length,
-          contractAddress,
-          chainId,
+      console.log("[useEncryptedVotingSystem] Decrypting with:", {
+        handleCount: handleContractPairs.length,
+        handleContract,
+        userAddress: address,
+        chainId,
+      });
+
+      // Decrypt using userDecrypt method
+      return (fhevmInstance as any).userDecrypt(
+        handleContractPairs,
+        keypair.privateKey,
+        keypair.publicKey,
+        signatureForDecrypt,
+        contractAddresses,
+        address as `0x${string}`,
+        startTimestamp,
+        durationDays
+      );
+    },
+    [contractAddress, fhevmInstance, ethersSigner, address, chainId]
+  );
+
+  // Grant the connected account ACL access to the per-option counters of a vote
+  const requestTallyAccess = useCallback(
+    async (voteId: number): Promise<TallyHandles> => {
+      if (!contractAddress || !ethersSigner) {
+        throw new Error("Missing requirements for decryption");
+      }
+
+      const location = locateVote(voteId);
+      const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersSigner);
+
+      const requestId = Date.now();
+      console.log("[useEncryptedVotingSystem] Requesting results decryption for voteId:", voteId);
+
+      const tx = await contract.requestDecryptVoteResults(location.voteId, requestId);
+      console.log("[useEncryptedVotingSystem] Results decryption request sent:", tx.hash);
+
+      setMessage("Waiting for decryption request confirmation...");
+      await tx.wait();
+      console.log("[useEncryptedVotingSystem] Results decryption request confirmed");
+
+      const tallies = await contract.getEncryptedTallies(location.voteId);
+      const weights = await contract.getEncryptedWeightedTallies(location.voteId);
+      return {
+        counts: tallies.map((tally: string) => ethers.hexlify(tally)),
+        weights: weights.map((weight: string) => ethers.hexlify(weight))
+      };
+    },
+    [contractAddress, ethersSigner, locateVote]
+  );
+
+  // Build one VoteResult per option from decrypted counters
+  const toVoteResults = (
+    voteId: number,
+    tallyHandles: TallyHandles,
+    decrypted: Record<string, bigint | boolean | string>,
+    ballots: number
+  ) =>
+    tallyHandles.counts.map((handle, optionId): VoteResult => {
+      const count = Number(decrypted[handle] || 0);
+      const weightHandle = tallyHandles.weights[optionId];
+      return {
+        voteId,
+        optionId,
+        count,
+        weight: weightHandle ? Number(decrypted[weightHandle] || 0) : count,
+        share: ballots > 0 ? count / ballots : 0
+      };
+    });
+
+  const decryptUserVote = useCallback(
+    async (voteId: number): Promise<number> => {
+      if (!contractAddress || !ethersProvider || !fhevmInstance || !ethersSigner || !address) {
+        setMessage("Missing requirements for decryption");
+        throw new Error("Missing requirements for decryption");
+      }
+
+      try {
+        setMessage("Checking vote permissions...");
+
+        // First, verify user has voted and get the encrypted vote
+        const location = locateVote(voteId);
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersProvider);
+        const hasVoted = await contract.hasVotedInVote(location.voteId, address);
+
+        if (!hasVoted) {
+          throw new Error("You haven't voted in this vote yet");
+        }
+
+        const resultsAvailable = await contract.areResultsAvailable(location.voteId);
+        if (!resultsAvailable) {
+          throw new Error("Results are embargoed until the vote has ended");
+        }
+
+        const userVoteHandle = ethers.hexlify(await contract.getEncryptedBallot(location.voteId, address));
+        const voteCount = Number(await contract.getVoteCount(location.voteId));
+        const tallyHandles = await requestTallyAccess(voteId);
+
+        setMessage("Decrypting voting results...");
+
+        // Decrypt the counters together with the user's own ballot
+        const decryptedResult = await userDecryptHandles([...tallyHandles.counts, ...tallyHandles.weights, userVoteHandle], location.address);
+        console.log("[useEncryptedVotingSystem] Decryption successful:", decryptedResult);
+
+        const results = toVoteResults(voteId, tallyHandles, decryptedResult, voteCount);
+
+        // Store results
+        setDecryptedResults(prev => {
+          const updated = {
+            ...prev,
+            [voteId]: results
+          };
+          // Persist to localStorage
+          saveDecryptedResultsToStorage(updated);
+          return updated;
         });
 
-        // Decrypt using userDecrypt method
-        const decryptedResults = await (fhevmInstance as any).userDecrypt(
-          handleContractPairs,
-          keypair.privateKey,
-          keypair.publicKey,
-          signatureForDecrypt,
-          contractAddresses,
-          address as `0x${string}`,
-          startTimestamp,
-          durationDays
-        );
+        const decryptedVote = Number(decryptedResult[userVoteHandle] || 0);
+        setDecryptedUserVotes(prev => {
+          const updated = {
+            ...prev,
+            [voteId]: decryptedVote
+          };
+          // Persist to localStorage
+          saveDecryptedUserVotesToStorage(updated);
+          return updated;
+        });
+
+        setMessage(`Voting results decrypted successfully.`);
+
+        // Return the decrypted user vote
+        return decryptedVote;
+      } catch (error: any) {
+        console.error("[useEncryptedVotingSystem] Error decrypting vote:", error);
+        const errorMessage = error.message || String(error);
 
-        // Count votes by option
-        const voteCounts: Record<number, number> = {};
-        for (let i = 0; i < handleContractPairs.length; i++) {
-          const handle = handleContractPairs[i].handle;
-          const optionId = Number(decryptedResults[handle] || 0);
-          voteCounts[optionId] = (voteCounts[optionId] || 0) + 1;
+        if (errorMessage.includes("not authorized") || errorMessage.includes("authorized")) {
+          setMessage(`Decryption failed: You don't have permission to decrypt this vote. Votes of an older contract deployment are listed under Previous Deployments.`);
+        } else {
+          setMessage(`Error decrypting vote: ${errorMessage}`);
+        }
+        throw error;
+      }
+    },
+    [contractAddress, ethersProvider, fhevmInstance, ethersSigner, address, requestTallyAccess, userDecryptHandles, saveDecryptedResultsToStorage, saveDecryptedUserVotesToStorage, locateVote]
+  );
+
+  const decryptVoteResults = useCallback(
+    async (voteId: number): Promise<VoteResult[]> => {
+      if (!contractAddress || !ethersProvider || !fhevmInstance || !ethersSigner || !address) {
+        setMessage("Missing requirements for decryption");
+        throw new Error("Missing requirements for decryption");
+      }
+
+      try {
+        setMessage("Checking vote status...");
+
+        const location = locateVote(voteId);
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersProvider);
+
+        // Embargoed votes can only be decrypted once endVote has run
+        const resultsAvailable = await contract.areResultsAvailable(location.voteId);
+        if (!resultsAvailable) {
+          throw new Error("Results are embargoed until the vote has ended");
         }
 
-        // Convert to VoteResult array
-        Object.entries(voteCounts).forEach(([optionId, count]) => {
-          results.push({
+        const voteCount = Number(await contract.getVoteCount(location.voteId));
+        const tallyHandles = await requestTallyAccess(voteId);
+
+        if (voteCount === 0) {
+          // No votes cast yet, every counter is still zero
+          setMessage("No votes have been cast in this vote yet");
+          const emptyResults = tallyHandles.counts.map((_, optionId): VoteResult => ({
             voteId,
-            optionId: parseInt(optionId),
-            count
+            optionId,
+            count: 0,
+            weight: 0,
+            share: 0
+          }));
+          setDecryptedResults(prev => {
+            const updated = {
+              ...prev,
+              [voteId]: emptyResults
+            };
+            saveDecryptedResultsToStorage(updated);
+            return updated;
           });
-        });
+          return emptyResults;
+        }
+
+        setMessage("Decrypting voting results...");
+
+        const decrypted = await userDecryptHandles([...tallyHandles.counts, ...tallyHandles.weights], location.address);
+        const results = toVoteResults(voteId, tallyHandles, decrypted, voteCount);
 
         console.log("[useEncryptedVotingSystem] Results decryption successful:", results);
         setMessage(`Voting results decrypted successfully`);
@@ -744,11 +1513,11 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
         throw error;
       }
     },
-    [contractAddress, ethersProvider, fhevmInstance, ethersSigner, address, chainId, saveDecryptedResultsToStorage]
+    [contractAddress, ethersProvider, fhevmInstance, ethersSigner, address, requestTallyAccess, userDecryptHandles, saveDecryptedResultsToStorage, locateVote]
   );
 
   const loadVotes = useCallback(async () => {
-    if (!contractAddress) {
+    if (!contractAddress || !indexTarget) {
       return;
     }
 
@@ -798,67 +1567,116 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
 
       const contract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, provider);
 
-      // Get next vote ID to know how many votes exist
-      const nextVoteId = await contract.getNextVoteId();
-      const voteCount = Number(nextVoteId);
+      // The vote event index lists the votes, their ballot counts and the account's ballots.
+      // Votes are only read from their contract again once the index has new events for them.
+      await syncVoteIndex(provider, indexTarget);
+      const index = await readVoteIndex(indexTarget);
+      setElections(index.elections);
+      setBallotCounts(Object.fromEntries(index.votes.map(indexed => [indexed.id, indexed.ballots])));
+      setActivity({ votes: index.votes, ballots: index.ballots });
+      const votedIn = new Set(
+        index.ballots
+          .filter(ballot => ballot.voter === address?.toLowerCase() && !ballot.delegated)
+          .map(ballot => ballot.voteId)
+      );
+
+      const cacheKey = `${chainId}:${factoryAddress ?? contractAddress}:${address ?? ""}`;
+      if (voteCache.current.key !== cacheKey || index.block < voteCache.current.block) {
+        voteCache.current = { key: cacheKey, block: index.block, votes: new Map() };
+      }
+      const cachedVotes = voteCache.current.votes;
+      voteCache.current.block = index.block;
+      const now = (await provider.getBlock("latest"))?.timestamp ?? Math.floor(Date.now() / 1000);
 
+      const sources: Record<number, { location: VoteLocation; contract: ethers.Contract }> = {};
       const loadedVotes: Vote[] = [];
+      const readVotes: Vote[] = [];
+
+      for (const indexed of index.votes) {
+        const location = { address: indexed.contract, voteId: indexed.contractVoteId };
+        sources[indexed.id] = {
+          location,
+          contract: indexed.contract === contractAddress.toLowerCase()
+            ? contract
+            : new ethers.Contract(indexed.contract, EncryptedVotingSystemABI, provider)
+        };
 
-      // Load all votes
-      for (let i = 1; i < voteCount; i++) {
+        const cached = cachedVotes.get(indexed.id);
+        if (cached && cached.block >= indexed.updatedBlock) {
+          loadedVotes.push({ ...cached.vote, state: stateAt(cached.vote, now) });
+          continue;
+        }
         try {
-          const voteData = await contract.getVote(i);
-          const vote: Vote = {
-            id: i,
-            title: voteData.title,
-            description: voteData.description,
-            options: voteData.options,
-            startTime: Number(voteData.startTime),
-            endTime: Number(voteData.endTime),
-            active: voteData.active,
-            creator: voteData.creator
-          };
+          const vote = await readVote(sources[indexed.id].contract, location, indexed.id);
+          cachedVotes.set(indexed.id, { vote, block: index.block });
           loadedVotes.push(vote);
+          readVotes.push(vote);
         } catch (error) {
-          // Vote might not exist, continue
-          console.warn(`Failed to load vote ${i}:`, error);
+          console.warn(`Failed to load vote ${indexed.id}:`, error);
         }
       }
 
       setVotes(loadedVotes);
+      setContractOwner(await contract.owner());
+      setPendingOwner(await contract.pendingOwner());
+      const roles = address ? await readAccountRoles(contract, address) : NO_ROLES;
+      // Anyone can create a vote through the factory, in an election of their own
+      setAccountRoles(factoryAddress && address ? { ...roles, voteCreator: true } : roles);
+      // Vote ID 0 holds the delegations of every vote
+      setGlobalDelegate(!factoryAddress && address ? (await contract.getDelegation(0, address))[0] : undefined);
+
+      const publishedMap: Record<number, VoteResult[]> = {};
+      const spoiledMap: Record<number, number> = {};
+      const outcomesMap: Record<number, boolean> = {};
+      const roundsMap: Record<number, number[][]> = {};
+      for (const vote of readVotes) {
+        if (vote.active) continue;
+        const source = sources[vote.id];
+        try {
+          const published = await readPublishedResults(source.contract, source.location, vote.id);
+          if (published) {
+            publishedMap[vote.id] = published.results;
+            spoiledMap[vote.id] = published.spoiled;
+            if (published.passed !== undefined) {
+              outcomesMap[vote.id] = published.passed;
+            }
+          }
+          if (vote.ballotType === BallotType.Ranked) {
+            roundsMap[vote.id] = await readRankedRounds(source.contract, source.location.voteId);
+          }
+        } catch (error) {
+          console.warn(`[useEncryptedVotingSystem] Could not load published results for vote ${vote.id}:`, error);
+        }
+      }
+      setPublishedResults(prev => ({ ...prev, ...publishedMap }));
+      setPublishedSpoiled(prev => ({ ...prev, ...spoiledMap }));
+      setPublishedOutcomes(prev => ({ ...prev, ...outcomesMap }));
+      setRankedRounds(prev => ({ ...prev, ...roundsMap }));
       
-      // Load user's voting status for all votes
+      // Load user's voting status for the votes read again, which includes every vote with a new ballot
       if (address) {
         const userVotesMap: Record<number, string> = {};
-        for (const vote of loadedVotes) {
+        const notVoted: number[] = [];
+        for (const vote of readVotes) {
+          const source = sources[vote.id];
+          if (!votedIn.has(vote.id)) {
+            notVoted.push(vote.id);
+            continue;
+          }
           try {
-            const hasVoted = await contract.hasVotedInVote(vote.id, address);
-            if (hasVoted) {
-              try {
-                // Get the user's encrypted vote handle
-                // Note: In a real implementation, we'd need a method to get the specific user's vote
-                // For now, we'll use a placeholder to indicate the user has voted
-                const encryptedVotes = await contract.getEncryptedVoteChoices(vote.id);
-                if (encryptedVotes.length > 0) {
-                  // Store a marker that user has voted (we'll use the first encrypted vote as a placeholder)
-                  // In production, we'd need to track which encrypted vote belongs to which user
-                  userVotesMap[vote.id] = ethers.hexlify(encryptedVotes[0]);
-                } else {
-                  // User has voted but we can't get the handle, use a placeholder
-                  userVotesMap[vote.id] = "0x1"; // Placeholder to indicate user has voted
-                }
-              } catch (error) {
-                // If we can't get encrypted votes, still mark that user has voted
-                userVotesMap[vote.id] = "0x1"; // Placeholder
-                console.warn(`[useEncryptedVotingSystem] Could not get encrypted vote for vote ${vote.id}:`, error);
-              }
-            }
+            // The user's own encrypted ballot handle, only decryptable by the user
+            const ballot = await source.contract.getEncryptedBallot(source.location.voteId, address);
+            userVotesMap[vote.id] = ethers.hexlify(ballot);
           } catch (error) {
             console.warn(`[useEncryptedVotingSystem] Could not check voting status for vote ${vote.id}:`, error);
           }
         }
-        // Update userVotes state, preserving existing entries
-        setUserVotes(prev => ({ ...prev, ...userVotesMap }));
+        // Update userVotes state, preserving the entries of votes without new events
+        setUserVotes(prev => {
+          const updated = { ...prev, ...userVotesMap };
+          notVoted.forEach(voteId => delete updated[voteId]);
+          return updated;
+        });
       }
       
       setMessage(`Loaded ${loadedVotes.length} votes`);
@@ -878,84 +1696,164 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
     } finally {
       setIsLoading(false);
     }
-  }, [contractAddress, ethersProvider, chainId, address, walletClient]);
+  }, [contractAddress, factoryAddress, indexTarget, ethersProvider, chainId, address, walletClient, readVote, readPublishedResults, readRankedRounds, readAccountRoles]);
 
-  const refreshVote = useCallback(async (voteId: number) => {
-    if (!contractAddress || !address) {
-      return;
-    }
+  // Let another address vote for the connected account in a vote, or in every vote with vote ID 0.
+  // The zero address clears the delegation.
+  const delegate = useCallback(
+    async (voteId: number, delegatee: string) => {
+      if (!contractAddress || !ethersSigner || !address) {
+        const error = new Error("Wallet signer not available");
+        setMessage(error.message);
+        throw error;
+      }
 
-    try {
-      // Create a provider - use ethersProvider if available, otherwise create one
-      let provider = ethersProvider;
-      if (!provider) {
-        if (chainId === 31337) {
-          provider = new ethers.JsonRpcProvider("http://localhost:8545");
-        } else if (walletClient) {
-          provider = new ethers.BrowserProvider(walletClient as any) as any;
+      try {
+        setIsLoading(true);
+        if (voteId === 0 && factoryAddress) {
+          throw new Error("Every election of the vote factory is delegated on its own");
+        }
+        const location = voteId === 0 ? { address: contractAddress, voteId } : locateVote(voteId);
+        const clearing = delegatee === ethers.ZeroAddress;
+        setMessage(clearing ? "Clearing delegation..." : "Delegating...");
+
+        const contract = new ethers.Contract(location.address, EncryptedVotingSystemABI, ethersSigner);
+        const tx = await contract.delegate(location.voteId, delegatee);
+
+        setMessage("Waiting for confirmation...");
+        await tx.wait();
+
+        setMessage(clearing ? "Delegation cleared" : `Delegated to ${delegatee.slice(0, 6)}...${delegatee.slice(-4)}`);
+        if (voteId === 0) {
+          // Every vote falls back to the global delegate, so no cached vote is up to date anymore
+          voteCache.current.key = "";
+          await loadVotes();
         } else {
-          console.log("[useEncryptedVotingSystem] No provider available for refreshVote");
-          return;
+          await refreshVote(voteId);
         }
+      } catch (error) {
+        const failure = error as { reason?: string; message?: string };
+        const errorMessage = failure.reason || failure.message || String(error);
+        setMessage(`Error delegating: ${errorMessage}`);
+        throw error;
+      } finally {
+        setIsLoading(false);
       }
+    },
+    [contractAddress, factoryAddress, ethersSigner, address, locateVote, loadVotes, refreshVote]
+  );
 
-      const contract = new ethers.Contract(contractAddress, EncryptedVotingSystemABI, provider);
+  // Send an admin action on votes, then reload the votes it changed and report what its events say it did
+  const sendMaintenanceTransaction = useCallback(
+    async (
+      action: string,
+      send: (signer: ethers.Signer) => Promise<ethers.ContractTransactionResponse>,
+      summarize: (events: VoteEvent[]) => string
+    ): Promise<TransactionResult> => {
+      if (!contractAddress || !ethersSigner) {
+        const error = new Error("Wallet signer not available");
+        setMessage(error.message);
+        throw error;
+      }
 
-      // Reload specific vote
-      const voteData = await contract.getVote(voteId);
-      const updatedVote: Vote = {
-        id: voteId,
-        title: voteData.title,
-        description: voteData.description,
-        options: voteData.options,
-        startTime: Number(voteData.startTime),
-        endTime: Number(voteData.endTime),
-        active: voteData.active,
-        creator: voteData.creator
-      };
+      try {
+        setIsLoading(true);
+        setMessage(`${action}...`);
 
-      setVotes(prev => prev.map(vote => vote.id === voteId ? updatedVote : vote));
+        const tx = await send(ethersSigner);
 
-      // Check if user has voted and update userVotes
-      const hasVoted = await contract.hasVotedInVote(voteId, address);
-      if (hasVoted) {
-        try {
-          const encryptedVotes = await contract.getEncryptedVoteChoices(voteId);
-          if (encryptedVotes.length > 0) {
-            // For now, just use the first encrypted vote as the user's vote
-            // In a real implementation, we'd need to track which vote belongs to which user
-            const handle = ethers.hexlify(encryptedVotes[0]);
-            setUserVotes(prev => ({
-              ...prev,
-              [voteId]: handle
-            }));
-          } else {
-            // User has voted but we can't get the handle, use a placeholder
-            setUserVotes(prev => ({
-              ...prev,
-              [voteId]: "0x1" // Placeholder to indicate user has voted
-            }));
+        setMessage("Waiting for confirmation...");
+        const receipt = await tx.wait();
+        if (!receipt) {
+          throw new Error("Transaction receipt not available");
+        }
+
+        // Events of the deployment and of the election instances, listed under the ID of their vote
+        const votingSystem = new ethers.Interface(EncryptedVotingSystemABI);
+        const emitters = [contractAddress, ...elections].map(emitter => emitter.toLowerCase());
+        const events: VoteEvent[] = [];
+        for (const log of receipt.logs) {
+          const parsed = emitters.includes(log.address.toLowerCase()) ? votingSystem.parseLog(log) : null;
+          if (parsed && parsed.fragment.inputs.some(input => input.name === "voteId")) {
+            events.push({ name: parsed.name, voteId: listedVoteId(log.address, Number(parsed.args.voteId)), args: parsed.args });
           }
-        } catch (error) {
-          // If we can't get encrypted votes, still mark that user has voted
-          setUserVotes(prev => ({
-            ...prev,
-            [voteId]: "0x1" // Placeholder
-          }));
-          console.warn(`[useEncryptedVotingSystem] Could not get encrypted votes for vote ${voteId}:`, error);
         }
-      } else {
-        // User hasn't voted, remove from userVotes if present
-        setUserVotes(prev => {
-          const updated = { ...prev };
-          delete updated[voteId];
-          return updated;
-        });
+        const result = { hash: receipt.hash, blockNumber: receipt.blockNumber, summary: summarize(events) };
+
+        await loadVotes();
+        setMessage(result.summary);
+        return result;
+      } catch (error: any) {
+        const errorMessage = error.reason || error.message || String(error);
+        setMessage(`Error: ${action}: ${errorMessage}`);
+        throw error;
+      } finally {
+        setIsLoading(false);
       }
-    } catch (error) {
-      console.error(`[useEncryptedVotingSystem] Error refreshing vote ${voteId}:`, error);
-    }
-  }, [contractAddress, ethersProvider, address, chainId, walletClient]);
+    },
+    [contractAddress, ethersSigner, elections, listedVoteId, loadVotes]
+  );
+
+  // Every vote that has not ended is sent; the contract skips the ones still before their end time
+  const endExpiredVotes = useCallback(
+    () => {
+      const voteIds = votes.filter(vote => vote.active).map(vote => vote.id);
+      return sendMaintenanceTransaction(
+        "Ending expired votes",
+        // With a VoteFactory the listed IDs are election IDs, ended through the factory
+        signer => factoryAddress
+          ? new ethers.Contract(factoryAddress, VoteFactoryABI, signer).endExpiredElections(voteIds)
+          : new ethers.Contract(contractAddress!, EncryptedVotingSystemABI, signer).endExpiredVotes(voteIds),
+        events => {
+          const ended = events.filter(event => event.name === "VotingEnded").map(event => `#${event.voteId}`);
+          return ended.length > 0
+            ? `Ended ${ended.length} vote(s): ${ended.join(", ")}. Results will be published once the decryption oracle responds.`
+            : "No vote was past its end time, nothing was ended";
+        }
+      );
+    },
+    [votes, contractAddress, factoryAddress, sendMaintenanceTransaction]
+  );
+
+  const archiveVote = useCallback(
+    (voteId: number) =>
+      sendMaintenanceTransaction(
+        `Archiving vote #${voteId}`,
+        signer => {
+          const location = locateVote(voteId);
+          return new ethers.Contract(location.address, EncryptedVotingSystemABI, signer).archiveVote(location.voteId);
+        },
+        events => events.some(event => event.name === "VoteArchived") ? `Vote #${voteId} archived` : `Vote #${voteId} was not archived`
+      ),
+    [sendMaintenanceTransaction, locateVote]
+  );
+
+  const wipeBallots = useCallback(
+    async (voteId: number) => {
+      const result = await sendMaintenanceTransaction(
+        `Wiping the ballots of vote #${voteId}`,
+        signer => {
+          const location = locateVote(voteId);
+          return new ethers.Contract(location.address, EncryptedVotingSystemABI, signer).wipeBallots(location.voteId);
+        },
+        events => {
+          const wiped = events.find(event => event.name === "BallotsWiped");
+          return `Wiped ${wiped ? Number(wiped.args.ballotCount) : 0} ballot(s) of vote #${voteId}`;
+        }
+      );
+
+      // Ballots and tallies decrypted before the wipe no longer exist on-chain
+      forgetDecryptedUserVote(voteId);
+      setDecryptedResults(prev => {
+        const updated = { ...prev };
+        delete updated[voteId];
+        saveDecryptedResultsToStorage(updated);
+        return updated;
+      });
+      return result;
+    },
+    [sendMaintenanceTransaction, locateVote, forgetDecryptedUserVote, saveDecryptedResultsToStorage]
+  );
 
   // Load decrypted results from localStorage on mount or when address/contract changes
   useEffect(() => {
@@ -983,20 +1881,56 @@ export function useEncryptedVotingSystem(contractAddress: string | undefined): U
     }
   }, [contractAddress, ethersProvider, address, loadVotes]);
 
+  // Follow new blocks, reloading the votes when they carry vote events
+  useEffect(() => {
+    if (!indexTarget || !ethersProvider || !address) {
+      return;
+    }
+    return followVoteIndex(ethersProvider, indexTarget, () => {
+      loadVotes();
+    });
+  }, [indexTarget, ethersProvider, address, loadVotes]);
+
   return {
     contractAddress,
+    factoryAddress,
     votes,
+    ballotCounts,
+    activity,
     currentVote,
     userVotes,
     decryptedResults,
     decryptedUserVotes,
+    publishedResults,
+    publishedSpoiled,
+    rankedRounds,
+    publishedOutcomes,
+    contractOwner,
+    pendingOwner,
+    accountRoles,
+    globalDelegate,
     isLoading,
     message,
     createVote,
+    publishVote,
+    cancelVote,
+    closeVoteEarly,
+    grantRole,
+    revokeRole,
+    transferOwnership,
+    acceptOwnership,
     castVote,
+    castRankedVote,
+    proveEligibility,
+    delegate,
+    endVote,
+    endExpiredVotes,
+    archiveVote,
+    wipeBallots,
     decryptUserVote,
     decryptVoteResults,
     loadVotes,
     refreshVote,
+    locateVote,
   };
 }
\ No newline at end of file
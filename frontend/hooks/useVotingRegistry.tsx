@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useState } from "react";
+import { useChainId, useWalletClient } from "wagmi";
+import { ethers } from "ethers";
+import { VotingRegistryABI } from "../abi/VotingRegistryABI";
+import { VotingRegistryAddresses } from "../abi/VotingRegistryAddresses";
+import { isLegacyDeployment, legacyVoteState, votingSystemAbi } from "../lib/deployments";
+import { VoteState } from "./useEncryptedVotingSystem";
+
+// Where a vote of an older deployment was copied by task:vote-migrate
+export interface VoteMigration {
+  votingSystem: string;
+  voteId: number;
+}
+
+// Read-only view of a vote of an older deployment
+export interface PreviousVote {
+  id: number;
+  title: string;
+  options: string[];
+  state: VoteState;
+  counts?: number[]; // oracle-verified counts, undefined until published or for outcome-only votes
+  migratedTo?: VoteMigration;
+}
+
+export interface PreviousDeployment {
+  version: number; // starting at 1, in registration order
+  label: string;
+  votingSystem: string;
+  registeredAt: number;
+  votes: PreviousVote[];
+}
+
+export interface UseVotingRegistryState {
+  registryAddress: string | undefined; // undefined when no registry is deployed on the current chain
+  previousDeployments: PreviousDeployment[]; // newest first, without the deployment in use
+  isLoading: boolean;
+  loadPreviousDeployments: () => Promise<void>;
+}
+
+// Lists the votes of the deployments registered before the current one.
+// Ballots stay bound to the deployment they were cast in, so older votes are only shown, never voted on.
+export const useVotingRegistry = (currentAddress: string | undefined): UseVotingRegistryState => {
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+  const [previousDeployments, setPreviousDeployments] = useState<PreviousDeployment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const registryEntry = VotingRegistryAddresses[chainId.toString() as keyof typeof VotingRegistryAddresses];
+  const registryAddress =
+    registryEntry && registryEntry.address !== ethers.ZeroAddress ? registryEntry.address : undefined;
+
+  // Legacy deployments have neither vote states nor published results: their state follows the end time
+  const readVote = useCallback(
+    async (
+      registry: ethers.Contract,
+      contract: ethers.Contract,
+      legacy: boolean,
+      now: number,
+      voteId: number,
+    ): Promise<PreviousVote> => {
+      const vote = await contract.getVote(voteId);
+      const state: VoteState = legacy
+        ? legacyVoteState(vote.active, vote.endTime, now)
+        : Number(await contract.getVoteState(voteId));
+      const [published, counts] = legacy ? [false, []] : await contract.getPublishedResults(voteId);
+      const migration = await registry.getMigration(await contract.getAddress(), voteId);
+      return {
+        id: voteId,
+        title: vote.title,
+        options: [...vote.options],
+        state,
+        counts: published && counts.length > 0 ? (counts as bigint[]).map(Number) : undefined,
+        migratedTo: migration.votingSystem !== ethers.ZeroAddress
+          ? { votingSystem: migration.votingSystem, voteId: Number(migration.voteId) }
+          : undefined,
+      };
+    },
+    []
+  );
+
+  const loadPreviousDeployments = useCallback(async () => {
+    if (!registryAddress || !currentAddress) {
+      setPreviousDeployments([]);
+      return;
+    }
+
+    // Same provider selection as useEncryptedVotingSystem.loadVotes
+    let provider: ethers.Provider;
+    if (chainId === 31337) {
+      provider = new ethers.JsonRpcProvider("http://localhost:8545");
+    } else if (walletClient) {
+      provider = new ethers.BrowserProvider(walletClient as unknown as ethers.Eip1193Provider);
+    } else {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const registry = new ethers.Contract(registryAddress, VotingRegistryABI, provider);
+      const registered = await registry.getDeployments();
+      const now = (await provider.getBlock("latest"))?.timestamp ?? Math.floor(Date.now() / 1000);
+
+      const deployments: PreviousDeployment[] = [];
+      for (let index = registered.length - 1; index >= 0; index--) {
+        const deployment = registered[index];
+        if (deployment.votingSystem.toLowerCase() === currentAddress.toLowerCase()) {
+          continue;
+        }
+
+        // Each deployment is read with the ABI of its registered version
+        const legacy = isLegacyDeployment(deployment.version);
+        const contract = new ethers.Contract(deployment.votingSystem, votingSystemAbi(deployment.version), provider);
+        const votes: PreviousVote[] = [];
+        try {
+          const nextVoteId = Number(await contract.getNextVoteId());
+          for (let voteId = 1; voteId < nextVoteId; voteId++) {
+            votes.push(await readVote(registry, contract, legacy, now, voteId));
+          }
+        } catch (error) {
+          console.warn(`[useVotingRegistry] Could not read the votes of ${deployment.votingSystem}:`, error);
+        }
+
+        deployments.push({
+          version: index + 1,
+          label: deployment.version,
+          votingSystem: deployment.votingSystem,
+          registeredAt: Number(deployment.registeredAt),
+          votes,
+        });
+      }
+      setPreviousDeployments(deployments);
+    } catch (error) {
+      console.error("[useVotingRegistry] Error loading previous deployments:", error);
+      setPreviousDeployments([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [registryAddress, currentAddress, chainId, walletClient, readVote]);
+
+  useEffect(() => {
+    loadPreviousDeployments();
+  }, [loadPreviousDeployments]);
+
+  return { registryAddress, previousDeployments, isLoading, loadPreviousDeployments };
+};
@@ -0,0 +1,107 @@
+// Time series of voting activity, built from the block timestamps of the vote event index (lib/voteIndex.ts).
+// Buckets follow the local calendar: hours, days from midnight and weeks from Monday.
+
+export type ActivityUnit = "hour" | "day" | "week";
+
+export interface ActivityRange {
+  label: string;
+  unit: ActivityUnit;
+  buckets: number;
+}
+
+export interface ActivityPoint {
+  start: number; // timestamp of the start of the bucket, in seconds
+  label: string;
+  value: number;
+}
+
+export const BALLOT_RANGES: ActivityRange[] = [
+  { label: "24h", unit: "hour", buckets: 24 },
+  { label: "7d", unit: "day", buckets: 7 },
+  { label: "30d", unit: "day", buckets: 30 },
+];
+
+export const POLL_RANGES: ActivityRange[] = [
+  { label: "7d", unit: "day", buckets: 7 },
+  { label: "30d", unit: "day", buckets: 30 },
+  { label: "90d", unit: "day", buckets: 90 },
+];
+
+export const VOTER_RANGES: ActivityRange[] = [
+  { label: "4w", unit: "week", buckets: 4 },
+  { label: "12w", unit: "week", buckets: 12 },
+  { label: "26w", unit: "week", buckets: 26 },
+];
+
+/**
+ * Start of the hour, day or week a timestamp falls in, in seconds.
+ */
+export function bucketStart(timestamp: number, unit: ActivityUnit): number {
+  const date = new Date(timestamp * 1000);
+  date.setMinutes(0, 0, 0);
+  if (unit !== "hour") {
+    date.setHours(0);
+  }
+  if (unit === "week") {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  }
+  return Math.floor(date.getTime() / 1000);
+}
+
+// Bucket starts of a range ending with the bucket of `now`, oldest first.
+// Days and weeks step through the calendar, so daylight saving changes do not shift them.
+function bucketStarts(range: ActivityRange, now: number): number[] {
+  const date = new Date(bucketStart(now, range.unit) * 1000);
+  const starts: number[] = [];
+  for (let i = 0; i < range.buckets; i++) {
+    starts.unshift(Math.floor(date.getTime() / 1000));
+    if (range.unit === "hour") {
+      date.setHours(date.getHours() - 1);
+    } else {
+      date.setDate(date.getDate() - (range.unit === "week" ? 7 : 1));
+    }
+  }
+  return starts;
+}
+
+function bucketLabel(start: number, unit: ActivityUnit): string {
+  const date = new Date(start * 1000);
+  return unit === "hour"
+    ? `${date.getHours().toString().padStart(2, "0")}:00`
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+/**
+ * Number of events per bucket, e.g. ballots per hour or polls created per day.
+ */
+export function countPerBucket(timestamps: number[], range: ActivityRange, now: number): ActivityPoint[] {
+  const points = bucketStarts(range, now).map((start) => ({ start, label: bucketLabel(start, range.unit), value: 0 }));
+  const byStart = new Map(points.map((point) => [point.start, point]));
+  for (const timestamp of timestamps) {
+    const point = byStart.get(bucketStart(timestamp, range.unit));
+    if (point) {
+      point.value++;
+    }
+  }
+  return points;
+}
+
+/**
+ * Number of distinct keys per bucket, e.g. voters casting at least one ballot per week.
+ */
+export function distinctPerBucket(
+  entries: { key: string; timestamp: number }[],
+  range: ActivityRange,
+  now: number,
+): ActivityPoint[] {
+  const keys = new Map<number, Set<string>>();
+  for (const entry of entries) {
+    const start = bucketStart(entry.timestamp, range.unit);
+    keys.set(start, (keys.get(start) ?? new Set()).add(entry.key));
+  }
+  return bucketStarts(range, now).map((start) => ({
+    start,
+    label: bucketLabel(start, range.unit),
+    value: keys.get(start)?.size ?? 0,
+  }));
+}
@@ -0,0 +1,35 @@
+import { EncryptedVotingSystemABI } from "../abi/EncryptedVotingSystemABI";
+import { EncryptedVotingSystemLegacyABI } from "../abi/EncryptedVotingSystemLegacyABI";
+
+// ABIs of the EncryptedVotingSystem deployments listed by the VotingRegistry. A deployment made before the registry
+// predates vote states, published results, eligibility, weighting and rules: task:registry-register --legacy labels
+// it LEGACY_LABEL, and it is read with the legacy ABI. The Hardhat tasks read registered deployments with this
+// module too.
+
+export const LEGACY_LABEL = "legacy";
+
+// Mirrors EncryptedVotingSystem.VoteState.Open and Closed, the only states of legacy votes
+const OPEN = 2;
+const CLOSED = 3;
+
+/**
+ * Whether a registered deployment was labelled as made before the registry.
+ */
+export function isLegacyDeployment(label: string): boolean {
+  return label === LEGACY_LABEL;
+}
+
+/**
+ * The ABI to read a registered deployment with, from its registry label.
+ */
+export function votingSystemAbi(label: string) {
+  return isLegacyDeployment(label) ? EncryptedVotingSystemLegacyABI : EncryptedVotingSystemABI;
+}
+
+/**
+ * The VoteState of a legacy vote, as an index of EncryptedVotingSystem.VoteState. Legacy votes open at creation and
+ * have no oracle: they are open until their end time, and closed after it whether or not endVote was called.
+ */
+export function legacyVoteState(active: boolean, endTime: bigint, now: number): number {
+  return active && BigInt(now) <= endTime ? OPEN : CLOSED;
+}
@@ -0,0 +1,72 @@
+import { ethers } from "ethers";
+
+// Member lists for restricted votes: parsing uploaded address lists and building
+// the Merkle tree checked on-chain by EncryptedVotingSystem.proveEligibility. The
+// Hardhat tasks and tests build their trees with this module too.
+
+/**
+ * Extract the addresses of an uploaded list or CSV file.
+ * Any cell that is a valid address is kept, so header rows and extra columns are ignored.
+ */
+export function parseAddressList(text: string): string[] {
+  const addresses = text
+    .split(/[\s,;]+/)
+    .map((cell) => cell.trim().replace(/^"|"$/g, ""))
+    .filter((cell) => ethers.isAddress(cell))
+    .map((cell) => ethers.getAddress(cell));
+
+  return Array.from(new Set(addresses));
+}
+
+const hashLeaf = (address: string) => ethers.solidityPackedKeccak256(["address"], [address]);
+
+// Pairs are hashed in sorted order, so proofs do not need left/right flags
+const hashPair = (a: string, b: string) =>
+  a < b
+    ? ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [a, b])
+    : ethers.solidityPackedKeccak256(["bytes32", "bytes32"], [b, a]);
+
+export interface MerkleTree {
+  root: string;
+  getProof: (address: string) => string[];
+}
+
+/**
+ * Build a sorted-pair Merkle tree over keccak256(abi.encodePacked(address)) leaves.
+ * An odd node at the end of a layer is promoted to the next layer unchanged.
+ */
+export function buildMerkleTree(addresses: string[]): MerkleTree {
+  if (addresses.length === 0) {
+    throw new Error("Member list is empty");
+  }
+
+  const members = addresses.map((address) => ethers.getAddress(address));
+  const layers: string[][] = [members.map(hashLeaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const getProof = (address: string) => {
+    let index = members.indexOf(ethers.getAddress(address));
+    if (index === -1) {
+      throw new Error(`${address} is not in the member list`);
+    }
+
+    const proof: string[] = [];
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index ^ 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    return proof;
+  };
+
+  return { root: layers[layers.length - 1][0], getProof };
+}
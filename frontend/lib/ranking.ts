@@ -0,0 +1,28 @@
+// Ranked ballots of EncryptedVotingSystem: one 4-bit option index per preference,
+// first preference in the lowest bits, ended by 0xF. The instant-runoff tally that
+// reads them back lives in tasks/instantRunoff.ts.
+
+const RANK_END = BigInt(0xf);
+
+/**
+ * Pack option indices, most preferred first, into the 64-bit value encrypted by castRankedVote.
+ */
+export function packRanking(ranking: number[]): bigint {
+  if (ranking.length === 0 || ranking.length > 15) {
+    throw new Error("A ranking must list between 1 and 15 options");
+  }
+
+  return ranking.reduceRight((packed, option) => (packed << BigInt(4)) | BigInt(option), RANK_END);
+}
+
+/**
+ * Index of the option that won the final instant-runoff round, or undefined before rounds are published.
+ */
+export function runoffWinner(rounds: number[][]): number | undefined {
+  if (rounds.length === 0) {
+    return undefined;
+  }
+
+  const finalRound = rounds[rounds.length - 1];
+  return finalRound.indexOf(Math.max(...finalRound));
+}
@@ -0,0 +1,74 @@
+// Gasless voting: the voter signs an EIP-712 ballot and a relayer, e.g. the one started by
+// `npx hardhat task:relayer`, casts it through the BallotForwarder and pays the gas.
+import { ethers } from "ethers";
+import { BallotForwarderABI } from "../abi/BallotForwarderABI";
+
+// Relayer casting signed ballots, votes are sent by the voter when unset
+export const RELAYER_URL = process.env.NEXT_PUBLIC_RELAYER_URL;
+
+// The forwarder only casts castVote ballots, so voters send their ranked ballots themselves
+export const RANKED_NOT_RELAYED = "Ranked-choice ballots cannot be relayed, your wallet pays the gas of this one";
+
+// Time a signed ballot stays valid for the relayer
+const BALLOT_VALIDITY = 60 * 60;
+
+// Mirrors BallotForwarder.Ballot
+const BALLOT_TYPES = {
+  Ballot: [
+    { name: "voter", type: "address" },
+    { name: "election", type: "address" },
+    { name: "voteId", type: "uint256" },
+    { name: "encryptedChoice", type: "bytes32" },
+    { name: "inputProof", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Sign a ballot for castVote and have the relayer cast it, resolving to the relayer's transaction hash.
+ * The choice is encrypted for the election and the voter, exactly as for a castVote sent by the voter.
+ */
+export async function relayBallot(
+  signer: ethers.JsonRpcSigner,
+  forwarder: string,
+  election: string,
+  voteId: number,
+  encryptedChoice: Uint8Array,
+  inputProof: Uint8Array,
+): Promise<string> {
+  if (!RELAYER_URL) {
+    throw new Error("Relayer URL not configured. Please set NEXT_PUBLIC_RELAYER_URL in .env.local");
+  }
+
+  const provider = signer.provider;
+  const forwarderContract = new ethers.Contract(forwarder, BallotForwarderABI, provider);
+  const latestBlock = await provider.getBlock("latest");
+  const ballot = {
+    voter: signer.address,
+    election,
+    voteId,
+    encryptedChoice: ethers.hexlify(encryptedChoice),
+    inputProof: ethers.hexlify(inputProof),
+    nonce: (await forwarderContract.nonces(signer.address)).toString(),
+    deadline: (latestBlock?.timestamp ?? Math.floor(Date.now() / 1000)) + BALLOT_VALIDITY,
+  };
+  const domain = {
+    name: "BallotForwarder",
+    version: "1",
+    chainId: (await provider.getNetwork()).chainId,
+    verifyingContract: forwarder,
+  };
+  const signature = await signer.signTypedData(domain, BALLOT_TYPES, ballot);
+
+  const response = await fetch(RELAYER_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ballot, signature }),
+  });
+  const result = (await response.json()) as { txHash: string; error?: string };
+  if (!response.ok) {
+    throw new Error(`Relayer rejected the ballot: ${result.error}`);
+  }
+  return result.txHash;
+}
@@ -0,0 +1,333 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { ethers } from "ethers";
+import { EncryptedVotingSystemABI } from "../abi/EncryptedVotingSystemABI";
+import { VoteFactoryABI } from "../abi/VoteFactoryABI";
+
+// Local index of the vote events of a deployment. Logs are replayed from the deployment block into IndexedDB, then
+// followed block by block, so pages list votes and count ballots without reading every vote on each refresh.
+
+// Mirrors VoteFactory.ELECTION_VOTE_ID: each election instance holds a single vote
+export const ELECTION_VOTE_ID = 1;
+
+// Blocks per eth_getLogs request, below the range limit of public RPC providers
+const LOG_BLOCK_RANGE = 5000;
+
+// Contracts whose votes are indexed: an EncryptedVotingSystem deployment, or the elections of a VoteFactory
+export interface IndexTarget {
+  chainId: number;
+  contract: string;
+  factory?: string;
+  // Deployment block of the factory, or of the contract without one, as genabi reads it from the deployment receipt.
+  // 0 when unknown: the index is not configured then, reading every log since genesis would take millions of blocks.
+  fromBlock: number;
+}
+
+// A vote as its events describe it, listed under the same ID as useEncryptedVotingSystem lists it
+export interface IndexedVote {
+  source: string;
+  id: number;
+  contract: string; // EncryptedVotingSystem holding the vote, lowercase
+  contractVoteId: number; // ID of the vote in that contract
+  creator: string;
+  title: string;
+  createdBlock: number;
+  createdAt: number; // timestamp of the creation block
+  ballots: number; // voters counted since the vote was created or its ballots were wiped, delegators included
+  ended: boolean; // VotingEnded was emitted
+  updatedBlock: number; // block of the latest event of the vote, of any kind
+}
+
+export interface IndexedBallot {
+  source: string;
+  voteId: number;
+  voter: string; // lowercase
+  delegated: boolean; // cast for the voter by their delegate, until the voter votes directly
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface VoteIndexSnapshot {
+  block: number; // last indexed block, -1 before the first sync
+  elections: string[]; // factory targets only: instances in creation order, election ID = position + 1
+  votes: IndexedVote[];
+  ballots: IndexedBallot[]; // latest ballot of each voter in each vote, their own or one cast by their delegate
+}
+
+interface IndexCursor {
+  source: string;
+  block: number;
+  elections: string[];
+}
+
+interface VoteIndexDB extends DBSchema {
+  votes: {
+    key: [string, number];
+    value: IndexedVote;
+  };
+  ballots: {
+    key: [string, number, string];
+    value: IndexedBallot;
+  };
+  cursors: {
+    key: string;
+    value: IndexCursor;
+  };
+}
+
+let __dbPromise: Promise<IDBPDatabase<VoteIndexDB>> | undefined = undefined;
+
+async function _getDB(): Promise<IDBPDatabase<VoteIndexDB> | undefined> {
+  if (__dbPromise) {
+    return __dbPromise;
+  }
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+  __dbPromise = openDB<VoteIndexDB>("crypto-vote-index", 3, {
+    upgrade(db, oldVersion) {
+      // Version 1 did not record block timestamps, version 2 did not count delegators: index everything again
+      if (oldVersion < 3) {
+        for (const store of [...db.objectStoreNames]) {
+          db.deleteObjectStore(store);
+        }
+      }
+      if (!db.objectStoreNames.contains("votes")) {
+        db.createObjectStore("votes", { keyPath: ["source", "id"] });
+      }
+      if (!db.objectStoreNames.contains("ballots")) {
+        db.createObjectStore("ballots", { keyPath: ["source", "voteId", "voter"] });
+      }
+      if (!db.objectStoreNames.contains("cursors")) {
+        db.createObjectStore("cursors", { keyPath: "source" });
+      }
+    },
+  });
+  return __dbPromise;
+}
+
+// Syncs run one after the other per source, so a sync requested after a transaction always sees its block
+const __syncs = new Map<string, Promise<number>>();
+
+export function indexSource(target: IndexTarget): string {
+  return `${target.chainId}:${(target.factory ?? target.contract).toLowerCase()}`;
+}
+
+// Whether the deployment block of a target is known, without which its votes cannot be indexed
+function _isConfigured(target: IndexTarget): boolean {
+  return target.fromBlock > 0;
+}
+
+/**
+ * Index the vote events up to the latest block. Returns the number of vote events indexed.
+ */
+export function syncVoteIndex(provider: ethers.Provider, target: IndexTarget): Promise<number> {
+  if (!_isConfigured(target)) {
+    return Promise.reject(
+      new Error(
+        `Vote index not configured: the deployment block of ${target.factory ?? target.contract} on chain ` +
+          `${target.chainId} is unknown. Set its blockNumber in the frontend/abi addresses file, or run ` +
+          `'npm run genabi' with its deployment file.`,
+      ),
+    );
+  }
+  const source = indexSource(target);
+  const previous = __syncs.get(source) ?? Promise.resolve(0);
+  const sync = previous
+    .catch(() => 0)
+    .then(async () => {
+      const db = await _getDB();
+      return db ? _sync(db, provider, target, source) : 0;
+    });
+  __syncs.set(source, sync);
+  return sync;
+}
+
+/**
+ * Keep the index of a target in sync with new blocks, calling onUpdate when vote events were indexed.
+ * Returns the function that stops following.
+ */
+export function followVoteIndex(provider: ethers.Provider, target: IndexTarget, onUpdate: () => void): () => void {
+  if (!_isConfigured(target)) {
+    return () => {};
+  }
+  const listener = async () => {
+    try {
+      if ((await syncVoteIndex(provider, target)) > 0) {
+        onUpdate();
+      }
+    } catch (error) {
+      console.warn("[voteIndex] Could not index the new block:", error);
+    }
+  };
+  provider.on("block", listener);
+  return () => {
+    provider.off("block", listener);
+  };
+}
+
+export async function readVoteIndex(target: IndexTarget): Promise<VoteIndexSnapshot> {
+  const db = await _getDB();
+  if (!db) {
+    return { block: -1, elections: [], votes: [], ballots: [] };
+  }
+
+  const source = indexSource(target);
+  const cursor = await db.get("cursors", source);
+  const votes = await db.getAll("votes", IDBKeyRange.bound([source, 0], [source, Infinity]));
+  const ballots = await db.getAll("ballots", IDBKeyRange.bound([source, 0, ""], [source, Infinity, "\uffff"]));
+  return { block: cursor?.block ?? -1, elections: cursor?.elections ?? [], votes, ballots };
+}
+
+async function _sync(
+  db: IDBPDatabase<VoteIndexDB>,
+  provider: ethers.Provider,
+  target: IndexTarget,
+  source: string,
+): Promise<number> {
+  const latest = await provider.getBlockNumber();
+  let cursor = await db.get("cursors", source);
+  if (cursor && cursor.block > latest) {
+    // The chain went back, e.g. a restarted Hardhat node: index it again from scratch
+    await _clear(db, source);
+    cursor = undefined;
+  }
+  if (!cursor) {
+    cursor = { source, block: target.fromBlock - 1, elections: [] };
+  }
+
+  const factory = new ethers.Interface(VoteFactoryABI);
+  const electionCreated = factory.getEvent("ElectionCreated")!.topicHash;
+  const votingSystem = new ethers.Interface(EncryptedVotingSystemABI);
+  const timedEvents = ["VoteCreated", "VoteCast", "DelegatedBallotCast"].map(
+    (name) => votingSystem.getEvent(name)!.topicHash,
+  );
+  let indexed = 0;
+  while (cursor.block < latest) {
+    const fromBlock = cursor.block + 1;
+    const toBlock = Math.min(latest, cursor.block + LOG_BLOCK_RANGE);
+
+    // Elections are listed before reading the range's vote events, which include those of the new instances
+    const elections: string[] = [...cursor.elections];
+    if (target.factory) {
+      const created = await provider.getLogs({
+        address: target.factory,
+        topics: [electionCreated],
+        fromBlock,
+        toBlock,
+      });
+      for (const log of created) {
+        elections.push(String(factory.parseLog(log)!.args.election).toLowerCase());
+      }
+    }
+
+    const contracts = target.factory ? elections : [target.contract.toLowerCase()];
+    const logs = contracts.length > 0 ? await provider.getLogs({ address: contracts, fromBlock, toBlock }) : [];
+    const timestamps = await _blockTimestamps(
+      provider,
+      logs.filter((log) => timedEvents.includes(log.topics[0])),
+    );
+    cursor = { source, block: toBlock, elections };
+    indexed += await _apply(db, cursor, !!target.factory, logs, timestamps);
+  }
+  return indexed;
+}
+
+// Timestamps of the blocks of some logs, read before the IndexedDB transaction that would otherwise commit
+// while waiting for the provider
+async function _blockTimestamps(provider: ethers.Provider, logs: ethers.Log[]): Promise<Map<number, number>> {
+  const timestamps = new Map<number, number>();
+  for (const log of logs) {
+    if (!timestamps.has(log.blockNumber)) {
+      const block = await provider.getBlock(log.blockNumber);
+      timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+    }
+  }
+  return timestamps;
+}
+
+// Store the vote events of a range of blocks and move the cursor past it, in a single transaction
+async function _apply(
+  db: IDBPDatabase<VoteIndexDB>,
+  cursor: IndexCursor,
+  isFactory: boolean,
+  logs: ethers.Log[],
+  timestamps: Map<number, number>,
+): Promise<number> {
+  const votingSystem = new ethers.Interface(EncryptedVotingSystemABI);
+  const tx = db.transaction(["votes", "ballots", "cursors"], "readwrite");
+  const votes = tx.objectStore("votes");
+  const ballots = tx.objectStore("ballots");
+  let indexed = 0;
+
+  for (const log of logs) {
+    const parsed = votingSystem.parseLog(log);
+    if (!parsed || !parsed.fragment.inputs.some((input) => input.name === "voteId")) {
+      continue;
+    }
+    const contract = log.address.toLowerCase();
+    const contractVoteId = Number(parsed.args.voteId);
+    // Elections are listed under their election ID; only their election vote is shown
+    if (isFactory && contractVoteId !== ELECTION_VOTE_ID) {
+      continue;
+    }
+    const id = isFactory ? cursor.elections.indexOf(contract) + 1 : contractVoteId;
+
+    if (parsed.name === "VoteCreated") {
+      await votes.put({
+        source: cursor.source,
+        id,
+        contract,
+        contractVoteId,
+        creator: String(parsed.args.creator),
+        title: String(parsed.args.title),
+        createdBlock: log.blockNumber,
+        createdAt: timestamps.get(log.blockNumber) ?? 0,
+        ballots: 0,
+        ended: false,
+        updatedBlock: log.blockNumber,
+      });
+      indexed++;
+      continue;
+    }
+
+    const vote = await votes.get([cursor.source, id]);
+    if (!vote) {
+      continue;
+    }
+    vote.updatedBlock = log.blockNumber;
+    if (parsed.name === "VoteCast" || parsed.name === "DelegatedBallotCast") {
+      // Like getVoteCount, a voter counts from the first ballot counted for them, their own or their delegate's
+      const voter = String(parsed.name === "VoteCast" ? parsed.args.voter : parsed.args.delegator).toLowerCase();
+      if (!(await ballots.get([cursor.source, id, voter]))) {
+        vote.ballots++;
+      }
+      await ballots.put({
+        source: cursor.source,
+        voteId: id,
+        voter,
+        delegated: parsed.name === "DelegatedBallotCast",
+        blockNumber: log.blockNumber,
+        timestamp: timestamps.get(log.blockNumber) ?? 0,
+      });
+    } else if (parsed.name === "VotingEnded") {
+      vote.ended = true;
+    } else if (parsed.name === "BallotsWiped") {
+      vote.ballots = 0;
+      await ballots.delete(IDBKeyRange.bound([cursor.source, id, ""], [cursor.source, id, "\uffff"]));
+    }
+    await votes.put(vote);
+    indexed++;
+  }
+
+  await tx.objectStore("cursors").put(cursor);
+  await tx.done;
+  return indexed;
+}
+
+async function _clear(db: IDBPDatabase<VoteIndexDB>, source: string) {
+  const tx = db.transaction(["votes", "ballots", "cursors"], "readwrite");
+  await tx.objectStore("votes").delete(IDBKeyRange.bound([source, 0], [source, Infinity]));
+  await tx.objectStore("ballots").delete(IDBKeyRange.bound([source, 0, ""], [source, Infinity, "\uffff"]));
+  await tx.objectStore("cursors").delete(source);
+  await tx.done;
+}
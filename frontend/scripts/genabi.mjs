@@ -135,23 +135,48 @@ if (deployLocalhost && deploySepolia) {
 */
 
 
-const tsCode = `
+// Entries of an addresses file generated before, by chain ID, for the chains without a deployment file here
+function readPreviousAddresses(contractName) {
+  const addressesFile = path.join(outdir, `${contractName}Addresses.ts`);
+  const previous = {};
+  if (!fs.existsSync(addressesFile)) {
+    return previous;
+  }
+  const entry = /"(\d+)": \{ address: "(0x[0-9a-fA-F]{40})"[^}]*?(?:blockNumber: (\d+))? \}/g;
+  for (const [, chainId, address, blockNumber] of fs.readFileSync(addressesFile, "utf-8").matchAll(entry)) {
+    previous[chainId] = { address, receipt: { blockNumber: Number(blockNumber ?? 0) } };
+  }
+  return previous;
+}
+
+// blockNumber is where the vote event index starts, 0 when the deployment receipt is not available.
+// A chain without a deployment file keeps its previous entry, e.g. a deployment made from another checkout.
+function addressesCode(contractName, sepolia, localhost) {
+  const previous = readPreviousAddresses(contractName);
+  const entry = (chainId, chainName, deployment) => {
+    const { address, receipt } = deployment ?? previous[chainId] ?? {};
+    return `"${chainId}": { address: "${address || "0x0000000000000000000000000000000000000000"}", chainId: ${chainId}, chainName: "${chainName}", blockNumber: ${receipt?.blockNumber ?? 0} }`;
+  };
+  return `
 /*
   This file is auto-generated.
   Command: 'npm run genabi'
 */
-export const ${CONTRACT_NAME}ABI = ${JSON.stringify(primaryDeployment.abi, null, 2)} as const;
-\n`;
-const tsAddresses = `
+export const ${contractName}Addresses = {
+  ${entry(11155111, "sepolia", sepolia)},
+  ${entry(31337, "hardhat", localhost)},
+};
+`;
+}
+
+const tsCode = `
 /*
   This file is auto-generated.
   Command: 'npm run genabi'
 */
-export const ${CONTRACT_NAME}Addresses = {
-  "11155111": { address: "${deploySepolia?.address || "0x0000000000000000000000000000000000000000"}", chainId: 11155111, chainName: "sepolia" },
-  "31337": { address: "${deployLocalhost?.address || "0x0000000000000000000000000000000000000000"}", chainId: 31337, chainName: "hardhat" },
-};
-`;
+export const ${CONTRACT_NAME}ABI = ${JSON.stringify(primaryDeployment.abi, null, 2)} as const;
+\n`;
+const tsAddresses = addressesCode(CONTRACT_NAME, deploySepolia, deployLocalhost);
 
 console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}ABI.ts`)}`);
 console.log(`Generated ${path.join(outdir, `${CONTRACT_NAME}Addresses.ts`)}`);
@@ -163,3 +188,37 @@ fs.writeFileSync(
   tsAddresses,
   "utf-8"
 );
+
+// Contracts the frontend can do without: their addresses are zero on chains where they were never deployed
+function writeOptionalContract(contractName) {
+  const optionalLocalhost = deployLocalhost && readDeployment("localhost", 31337, contractName, true /* optional */);
+  const optionalSepolia = deploySepolia && readDeployment("sepolia", 11155111, contractName, true /* optional */);
+  const optionalDeployment = optionalLocalhost || optionalSepolia;
+
+  if (optionalDeployment) {
+    const tsOptionalCode = `
+/*
+  This file is auto-generated.
+  Command: 'npm run genabi'
+*/
+export const ${contractName}ABI = ${JSON.stringify(optionalDeployment.abi, null, 2)} as const;
+\n`;
+    fs.writeFileSync(path.join(outdir, `${contractName}ABI.ts`), tsOptionalCode, "utf-8");
+    console.log(`Generated ${path.join(outdir, `${contractName}ABI.ts`)}`);
+  }
+
+  const tsOptionalAddresses = addressesCode(contractName, optionalSepolia, optionalLocalhost);
+  fs.writeFileSync(path.join(outdir, `${contractName}Addresses.ts`), tsOptionalAddresses, "utf-8");
+  console.log(`Generated ${path.join(outdir, `${contractName}Addresses.ts`)}`);
+}
+
+// Without a registry the frontend only lists the current deployment's votes
+writeOptionalContract("VotingRegistry");
+// Without a factory every vote lives in the EncryptedVotingSystem deployment
+writeOptionalContract("VoteFactory");
+// Without a study tracker the study page asks for a deployment
+writeOptionalContract("EncryptedStudyTracker");
+// Without a survey contract the survey page asks for a deployment
+writeOptionalContract("EncryptedSurvey");
+// Without a forwarder voters send their ballots themselves
+writeOptionalContract("BallotForwarder");
@@ -9,6 +9,9 @@ require("solidity-coverage");
 
 require("./tasks/accounts.ts");
 require("./tasks/EncryptedVotingSystem.ts");
+require("./tasks/VotingRegistry.ts");
+require("./tasks/VoteFactory.ts");
+require("./tasks/BallotForwarder.ts");
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -92,8 +95,10 @@ const config = {
       // https://hardhat.org/hardhat-network/#solidity-optimizer-support
       optimizer: {
         enabled: true,
-        runs: 800,
+        runs: 50, // Favours bytecode size over call gas, also for the 24KB contract size limit
       },
+      // The IR pipeline keeps EncryptedVotingSystem below the 24KB contract size limit
+      viaIR: true,
       evmVersion: "cancun",
     },
   },
@@ -10,6 +10,9 @@ import "solidity-coverage";
 
 import "./tasks/accounts.ts";
 import "./tasks/EncryptedVotingSystem.ts";
+import "./tasks/VotingRegistry.ts";
+import "./tasks/VoteFactory.ts";
+import "./tasks/BallotForwarder.ts";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -99,8 +102,10 @@ const config = {
       // https://hardhat.org/hardhat-network/#solidity-optimizer-support
       optimizer: {
         enabled: true,
-        runs: 800,
+        runs: 50, // Favours bytecode size over call gas, also for the 24KB contract size limit
       },
+      // The IR pipeline keeps EncryptedVotingSystem below the 24KB contract size limit
+      viaIR: true,
       evmVersion: "cancun",
     },
   },
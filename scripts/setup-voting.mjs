@@ -15,7 +15,34 @@ const CONTRACT_ABI = [
       {"internalType": "string", "name": "title", "type": "string"},
       {"internalType": "string", "name": "description", "type": "string"},
       {"internalType": "string[]", "name": "options", "type": "string[]"},
-      {"internalType": "uint256", "name": "durationInDays", "type": "uint256"}
+      {"internalType": "uint256", "name": "startTime", "type": "uint256"},
+      {"internalType": "uint256", "name": "endTime", "type": "uint256"},
+      {
+        "components": [
+          {"internalType": "bool", "name": "liveResults", "type": "bool"},
+          {"internalType": "enum EncryptedVotingSystem.EligibilityMode", "name": "eligibility", "type": "uint8"},
+          {"internalType": "bytes32", "name": "merkleRoot", "type": "bytes32"},
+          {"internalType": "address", "name": "weightToken", "type": "address"},
+          {"internalType": "uint256", "name": "weightUnit", "type": "uint256"},
+          {"internalType": "enum EncryptedVotingSystem.BallotType", "name": "ballotType", "type": "uint8"},
+          {"internalType": "bool", "name": "allowRevote", "type": "bool"},
+          {"internalType": "bool", "name": "draft", "type": "bool"},
+          {
+            "components": [
+              {"internalType": "uint32", "name": "quorum", "type": "uint32"},
+              {"internalType": "enum BallotTally.Threshold", "name": "threshold", "type": "uint8"},
+              {"internalType": "uint32", "name": "thresholdCount", "type": "uint32"},
+              {"internalType": "bool", "name": "outcomeOnly", "type": "bool"}
+            ],
+            "internalType": "struct BallotTally.Rules",
+            "name": "rules",
+            "type": "tuple"
+          }
+        ],
+        "internalType": "struct EncryptedVotingSystem.VoteSettings",
+        "name": "settings",
+        "type": "tuple"
+      }
     ],
     "name": "createVote",
     "outputs": [{"internalType": "uint256", "name": "voteId", "type": "uint256"}],
@@ -66,12 +93,25 @@ async function setupVoting(options = DEFAULT_OPTIONS) {
       console.log(`  ${index + 1}. ${option}`);
     });
 
-    // Create vote with title, description, options, and duration
+    // Create vote with title, description, options, and schedule: opening right away for 7 days
+    const latestBlock = await provider.getBlock('latest');
     const tx = await contract.createVote(
       "Demo Voting Session",
       "This is a demonstration of FHE-based encrypted voting",
       options,
-      7 // 7 days duration
+      0,
+      latestBlock.timestamp + 7 * 24 * 60 * 60,
+      {
+        liveResults: false,
+        eligibility: 0, // Open
+        merkleRoot: ethers.ZeroHash,
+        weightToken: ethers.ZeroAddress,
+        weightUnit: 0n,
+        ballotType: 0, // Plurality
+        allowRevote: false,
+        draft: false,
+        rules: { quorum: 0, threshold: 0, thresholdCount: 0, outcomeOnly: false } // No pass rules
+      }
     );
     console.log('⏳ Transaction submitted:', tx.hash);
 
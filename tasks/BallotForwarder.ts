@@ -0,0 +1,188 @@
+import { task } from "hardhat/config.js";
+import type { TaskArguments } from "hardhat/types.js";
+import { createServer } from "http";
+
+// EIP-712 types of BallotForwarder.Ballot, signed by voters under the "BallotForwarder" domain at version "1"
+const BALLOT_TYPES = {
+  Ballot: [
+    { name: "voter", type: "address" },
+    { name: "election", type: "address" },
+    { name: "voteId", type: "uint256" },
+    { name: "encryptedChoice", type: "bytes32" },
+    { name: "inputProof", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// BallotType.Ranked: the forwarder only casts castVote ballots, rankings are sent with castRankedVote by the voter
+const RANKED_BALLOT = 1;
+const RANKED_NOT_RELAYED = "Ranked-choice ballots cannot be relayed, the voter must send them with castRankedVote";
+
+// Largest request body the relayer reads, a ballot with its input proof is far smaller
+const MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * Gasless voting: voters sign ballots, a relayer casts them through the BallotForwarder and pays the gas.
+ *
+ * 1. With a local node running and the contracts deployed, start the relayer in its own terminal:
+ *
+ *   npx hardhat --network localhost task:relayer
+ *
+ * 2. Sign a ballot with an account holding no ETH and send it to the relayer, or vote gaslessly in the frontend
+ *    with NEXT_PUBLIC_RELAYER_URL=http://localhost:8546
+ *
+ *   npx hardhat --network localhost task:vote-cast-signed --vote 1 --option 0 --account 5
+ */
+task("task:relayer", "Runs a relayer casting signed ballots through the BallotForwarder, until stopped")
+  .addOptionalParam("forwarder", "Optionally specify the BallotForwarder contract address")
+  .addOptionalParam("port", "The port to listen on", "8546")
+  .addOptionalParam("account", "Index of the account paying the gas", "0")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const forwarderDeployment = taskArguments.forwarder
+      ? { address: taskArguments.forwarder }
+      : await deployments.get("BallotForwarder");
+    console.log(`BallotForwarder: ${forwarderDeployment.address}`);
+
+    const relayer = (await ethers.getSigners())[parseInt(taskArguments.account)];
+    const forwarderContract = await ethers.getContractAt("BallotForwarder", forwarderDeployment.address, relayer);
+
+    // Cast one signed ballot, checking it with a call first so that rejected ballots cost the relayer nothing
+    const relay = async (body: string) => {
+      const { ballot, signature } = JSON.parse(body);
+      const election = await ethers.getContractAt("EncryptedVotingSystem", ballot.election);
+      if ((await election.ballotForwarder()) !== forwarderDeployment.address) {
+        throw new Error(`${ballot.election} does not accept ballots from this forwarder`);
+      }
+      if (Number((await election.votes(ballot.voteId)).ballotType) === RANKED_BALLOT) {
+        throw new Error(RANKED_NOT_RELAYED);
+      }
+      await forwarderContract.castVoteBySig.staticCall(ballot, signature);
+
+      const tx = await forwarderContract.castVoteBySig(ballot, signature);
+      console.log(`Ballot of ${ballot.voter} in vote ${ballot.voteId} of ${ballot.election}, tx:${tx.hash}`);
+      await tx.wait();
+      return tx.hash;
+    };
+
+    // POST / with a JSON { ballot, signature } body; browsers need the CORS headers
+    const server = createServer((request, response) => {
+      response.setHeader("Access-Control-Allow-Origin", "*");
+      response.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+      response.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      const reply = (status: number, payload: object) => {
+        response.writeHead(status, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(payload));
+      };
+      if (request.method === "OPTIONS") {
+        response.writeHead(204);
+        response.end();
+        return;
+      }
+      if (request.method !== "POST") {
+        reply(405, { error: "Only POST requests with a signed ballot are accepted" });
+        return;
+      }
+
+      let body = "";
+      request.on("data", (chunk) => {
+        body += chunk;
+        if (body.length > MAX_BODY_SIZE) {
+          reply(413, { error: "Request body too large" });
+          request.destroy();
+        }
+      });
+      request.on("end", () => {
+        if (response.writableEnded) {
+          return;
+        }
+        relay(body)
+          .then((txHash) => reply(200, { txHash }))
+          .catch((error) => {
+            const failure = error as { reason?: string; message?: string };
+            console.error(`Rejected ballot: ${failure.reason ?? failure.message}`);
+            reply(400, { error: failure.reason ?? failure.message });
+          });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.on("error", reject);
+      server.on("close", resolve);
+      server.listen(parseInt(taskArguments.port), () => {
+        console.log(`Relaying signed ballots from ${relayer.address} on http://localhost:${taskArguments.port}`);
+      });
+    });
+  });
+
+/**
+ * Casts a ballot without paying gas: the voter only signs it, and the relayer started by task:relayer casts it.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-cast-signed --vote 1 --option 0 --account 5
+ *   - npx hardhat --network localhost task:vote-cast-signed --vote 1 --option 2 --url http://localhost:8546
+ */
+task("task:vote-cast-signed", "Signs an encrypted ballot and sends it to a relayer")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the vote")
+  .addParam("option", "The option index to vote for, or the approval bitmask in approval votes")
+  .addOptionalParam("account", "Index of the voting account", "0")
+  .addOptionalParam("url", "The relayer URL", "http://localhost:8546")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const voter = (await ethers.getSigners())[parseInt(taskArguments.account)];
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+    const forwarderAddress = await votingSystemContract.ballotForwarder();
+    if (forwarderAddress === ethers.ZeroAddress) {
+      throw new Error("This EncryptedVotingSystem was deployed without a ballot forwarder");
+    }
+    const forwarderContract = await ethers.getContractAt("BallotForwarder", forwarderAddress);
+    const voteId = parseInt(taskArguments.vote);
+    if (Number((await votingSystemContract.votes(voteId)).ballotType) === RANKED_BALLOT) {
+      throw new Error(RANKED_NOT_RELAYED);
+    }
+
+    // Encrypted for the voting contract and the voter, exactly like for castVote
+    const encryptedChoice = await fhevm
+      .createEncryptedInput(votingSystemDeployment.address, voter.address)
+      .add32(parseInt(taskArguments.option))
+      .encrypt();
+    const ballot = {
+      voter: voter.address,
+      election: votingSystemDeployment.address,
+      voteId,
+      encryptedChoice: ethers.hexlify(encryptedChoice.handles[0]),
+      inputProof: ethers.hexlify(encryptedChoice.inputProof),
+      nonce: (await forwarderContract.nonces(voter.address)).toString(),
+      deadline: (await ethers.provider.getBlock("latest"))!.timestamp + 3600,
+    };
+    const domain = {
+      name: "BallotForwarder",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: forwarderAddress,
+    };
+    const signature = await voter.signTypedData(domain, BALLOT_TYPES, ballot);
+    console.log(`Ballot of ${voter.address} signed, sending it to ${taskArguments.url}...`);
+
+    const response = await fetch(taskArguments.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ballot, signature }),
+    });
+    const result = (await response.json()) as { txHash: string; error?: string };
+    if (!response.ok) {
+      throw new Error(`Relayer rejected the ballot: ${result.error}`);
+    }
+    console.log(`Ballot cast in vote ${ballot.voteId} by the relayer, tx:${result.txHash}`);
+  });
@@ -1,5 +1,9 @@
 import { task } from "hardhat/config.js";
-import type { TaskArguments } from "hardhat/types.js";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types.js";
+import { readFileSync } from "fs";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { packRanking, runInstantRunoff, unpackRanking } from "./instantRunoff";
+import { buildMerkleTree, parseAddressList } from "../frontend/lib/merkle";
 
 /**
  * Tutorial: Deploy and Interact Locally (--network localhost)
@@ -13,15 +17,21 @@ import type { TaskArguments } from "hardhat/types.js";
  *
  *   npx hardhat --network localhost deploy
  *
- * 3. Initialize voting with options
+ * 3. Create a vote with options
  *
- *   npx hardhat --network localhost task:vote-init --options "Alice,Bob,Charlie"
+ *   npx hardhat --network localhost task:vote-init --options "Alice,Bob,Charlie" --title "Team lead" --live
  *
  * 4. Interact with the EncryptedVotingSystem contract
  *
- *   npx hardhat --network localhost task:vote-cast --option 0
- *   npx hardhat --network localhost task:vote-results
- *   npx hardhat --network localhost task:vote-status
+ *   npx hardhat --network localhost task:vote-list
+ *   npx hardhat --network localhost task:vote-cast --vote 1 --option 0
+ *   npx hardhat --network localhost task:vote-status --vote 1
+ *   npx hardhat --network localhost task:vote-decrypt --vote 1
+ *
+ * 5. End the vote and read the results published by the decryption oracle
+ *
+ *   npx hardhat --network localhost task:vote-close --vote 1
+ *   npx hardhat --network localhost task:vote-results --vote 1
  *
  *
  * Tutorial: Deploy and Interact on Sepolia (--network sepolia)
@@ -31,14 +41,15 @@ import type { TaskArguments } from "hardhat/types.js";
  *
  *   npx hardhat --network sepolia deploy
  *
- * 2. Initialize voting with options
+ * 2. Create a vote with options
  *
- *   npx hardhat --network sepolia task:vote-init --options "Alice,Bob,Charlie"
+ *   npx hardhat --network sepolia task:vote-init --options "Alice,Bob,Charlie" --title "Team lead"
  *
  * 3. Interact with the EncryptedVotingSystem contract
  *
- *   npx hardhat --network sepolia task:vote-cast --option 0
- *   npx hardhat --network sepolia task:vote-results
+ *   npx hardhat --network sepolia task:vote-cast --vote 1 --option 0
+ *   npx hardhat --network sepolia task:vote-status --vote 1
+ *   npx hardhat --network sepolia task:vote-results --vote 1
  *
  */
 
@@ -55,128 +66,816 @@ task("task:vote-address", "Prints the EncryptedVotingSystem address").setAction(
   console.log("EncryptedVotingSystem address is " + votingSystem.address);
 });
 
+const ELIGIBILITY_MODES: Record<string, number> = { open: 0, allowlist: 1, merkle: 2 };
+const BALLOT_TYPES: Record<string, number> = { plurality: 0, ranked: 1, approval: 2 };
+const BALLOT_NAMES = Object.keys(BALLOT_TYPES);
+const THRESHOLDS: Record<string, number> = { none: 0, majority: 1, supermajority: 2, count: 3 };
+
 /**
  * Example:
  *   - npx hardhat --network localhost task:vote-init --options "Alice,Bob,Charlie"
- *   - npx hardhat --network sepolia task:vote-init --options "Option A,Option B"
+ *   - npx hardhat --network sepolia task:vote-init --options "Option A,Option B" --eligibility merkle --members members.csv
+ *   - npx hardhat --network localhost task:vote-init --options "Yes,No" --quorum 10 --threshold supermajority
  */
-task("task:vote-init", "Initializes voting with options")
+task("task:vote-init", "Creates a vote with options")
   .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
   .addParam("options", "Comma-separated list of voting options")
+  .addOptionalParam("title", "The vote title", "Untitled vote")
+  .addOptionalParam("description", "The vote description", "Created from the command line")
+  .addOptionalParam("start", "Date and time voting opens, e.g. 2026-11-02T09:00 (default: right away)")
+  .addOptionalParam("end", "Date and time voting closes (default: --duration days after the start)")
+  .addOptionalParam("duration", "Voting duration in days when --end is not given", "7")
+  .addOptionalParam("eligibility", "Who can vote: open, allowlist or merkle", "open")
+  .addOptionalParam("members", "Address list or CSV file of the voters allowed in allowlist/merkle mode")
+  .addOptionalParam("weightToken", "ERC20Votes / ERC721Votes token weighting ballots by the balance at creation")
+  .addOptionalParam("weightDecimals", "Decimals of the weighting token, one whole token is worth one vote", "18")
+  .addFlag("live", "Allow results to be decrypted while the vote is running")
+  .addOptionalParam("ballot", "Ballot type: plurality, ranked (instant runoff) or approval", "plurality")
+  .addFlag("revote", "Allow voters to replace their ballot until the vote ends")
+  .addFlag("draft", "Create the vote as a draft, opened later with task:vote-publish")
+  .addOptionalParam("quorum", "Minimum number of ballots for the vote to pass", "0")
+  .addOptionalParam(
+    "threshold",
+    "Share of counted ballots the first option needs: none, majority, supermajority or count",
+    "none",
+  )
+  .addOptionalParam(
+    "thresholdCount",
+    "Ballots, or weight in weighted votes, the first option needs with --threshold count",
+    "0",
+  )
+  .addFlag("outcomeOnly", "Only publish whether the vote passed, never the counts")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
+    const eligibility = ELIGIBILITY_MODES[String(taskArguments.eligibility).toLowerCase()];
+    if (eligibility === undefined) {
+      throw new Error(`Argument --eligibility must be one of ${Object.keys(ELIGIBILITY_MODES).join(", ")}`);
+    }
+    const ballotType = BALLOT_TYPES[String(taskArguments.ballot).toLowerCase()];
+    if (ballotType === undefined) {
+      throw new Error(`Argument --ballot must be one of ${Object.keys(BALLOT_TYPES).join(", ")}`);
+    }
+    const threshold = THRESHOLDS[String(taskArguments.threshold).toLowerCase()];
+    if (threshold === undefined) {
+      throw new Error(`Argument --threshold must be one of ${Object.keys(THRESHOLDS).join(", ")}`);
+    }
+
+    const members: string[] = taskArguments.members ? readMembers(taskArguments.members) : [];
+    if (eligibility !== ELIGIBILITY_MODES.open && members.length === 0) {
+      throw new Error(`Argument --members must point to a file with at least one address`);
+    }
+
     const votingSystemDeployment = taskArguments.address
       ? { address: taskArguments.address }
       : await deployments.get("EncryptedVotingSystem");
 
     console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
 
-    const signers = await ethers.getSigners();
     const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
 
     const options = taskArguments.options.split(",").map((opt: string) => opt.trim());
-    console.log(`Initializing voting with options: ${options.join(", ")}`);
+    console.log(`Creating vote with options: ${options.join(", ")}`);
+
+    // A zero start time opens the vote in the creation block
+    const startTime = taskArguments.start ? parseTimestamp("start", taskArguments.start) : 0;
+    const endTime = taskArguments.end
+      ? parseTimestamp("end", taskArguments.end)
+      : (startTime || (await ethers.provider.getBlock("latest"))!.timestamp) + parseInt(taskArguments.duration) * 86400;
+
+    const merkleRoot = eligibility === ELIGIBILITY_MODES.merkle ? buildMerkleTree(members).root : ethers.ZeroHash;
+    const tx = await votingSystemContract.createVote(
+      taskArguments.title,
+      taskArguments.description,
+      options,
+      startTime,
+      endTime,
+      {
+        liveResults: taskArguments.live,
+        eligibility,
+        merkleRoot,
+        weightToken: taskArguments.weightToken ?? ethers.ZeroAddress,
+        weightUnit: taskArguments.weightToken ? ethers.parseUnits("1", parseInt(taskArguments.weightDecimals)) : 0n,
+        ballotType,
+        allowRevote: taskArguments.revote,
+        draft: taskArguments.draft,
+        rules: {
+          quorum: parseInt(taskArguments.quorum),
+          threshold,
+          thresholdCount: parseInt(taskArguments.thresholdCount),
+          outcomeOnly: taskArguments.outcomeOnly,
+        },
+      },
+    );
+    const receipt = await tx.wait();
+
+    const event = receipt!.logs
+      .map((log) => votingSystemContract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "VoteCreated");
+    if (!event) {
+      throw new Error("VoteCreated event not found");
+    }
+    const voteId = Number(event.args.voteId);
+    console.log(`Vote ${voteId} created successfully!`);
+
+    if (eligibility === ELIGIBILITY_MODES.allowlist) {
+      await (await votingSystemContract.addToAllowlist(voteId, members)).wait();
+      console.log(`Added ${members.length} voters to the allowlist`);
+    } else if (eligibility === ELIGIBILITY_MODES.merkle) {
+      console.log(`Merkle root of ${members.length} members: ${merkleRoot}`);
+    }
+    if (taskArguments.draft) {
+      console.log(`Vote ${voteId} is a draft, publish it with task:vote-publish --vote ${voteId}`);
+    }
+  });
+
+/**
+ * Addresses of a list or CSV file, parsed like the member lists uploaded in the frontend
+ */
+function readMembers(file: string): string[] {
+  return parseAddressList(readFileSync(file, "utf8"));
+}
+
+/**
+ * Unix timestamp of a date argument, read in the local time zone unless it carries an offset
+ */
+function parseTimestamp(argument: string, value: string): number {
+  const milliseconds = Date.parse(value);
+  if (isNaN(milliseconds)) {
+    throw new Error(`Argument --${argument} must be a date, e.g. 2026-11-02T09:00`);
+  }
+  return Math.floor(milliseconds / 1000);
+}
 
-    const tx = await votingSystemContract.initializeVoting(options);
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vote-publish --vote 1
+ */
+task("task:vote-publish", "Publishes a draft vote so that it opens at its start time")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the draft vote")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const voteId = parseInt(taskArguments.vote);
+    const tx = await votingSystemContract.publishVote(voteId);
+    console.log(`Wait for tx:${tx.hash}...`);
     await tx.wait();
 
-    console.log("Voting initialized successfully!");
+    const [, , , startTime, endTime] = await votingSystemContract.getVote(voteId);
+    console.log(
+      `Vote ${voteId} published, open from ${new Date(Number(startTime) * 1000).toLocaleString()} ` +
+        `to ${new Date(Number(endTime) * 1000).toLocaleString()}`,
+    );
   });
 
 /**
+ * Must be run by the vote creator or an admin.
+ *
  * Example:
- *   - npx hardhat --network localhost task:vote-cast --option 0
- *   - npx hardhat --network sepolia task:vote-cast --option 1
+ *   - npx hardhat --network localhost task:vote-close --vote 1
  */
-task("task:vote-cast", "Casts a vote for the specified option")
+task("task:vote-close", "Closes an open vote early and requests the publication of its results")
   .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
-  .addParam("option", "The option index to vote for")
+  .addParam("vote", "The ID of the open vote")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
     const votingSystemDeployment = taskArguments.address
       ? { address: taskArguments.address }
       : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
 
+    const tx = await votingSystemContract.closeVoteEarly(parseInt(taskArguments.vote));
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Vote ${taskArguments.vote} closed, results will be published by the decryption oracle`);
+  });
+
+/**
+ * Must be run by the vote creator or an admin.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-cancel --vote 1 --reason "Duplicate of vote 2"
+ */
+task("task:vote-cancel", "Cancels a vote that has not ended; its ballots are never tallied")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the vote")
+  .addParam("reason", "Why the vote is cancelled, shown to its voters")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
     console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
 
-    const signers = await ethers.getSigners();
     const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
 
-    const optionId = parseInt(taskArguments.option);
-    console.log(`Casting vote for option ${optionId}...`);
+    const tx = await votingSystemContract.cancelVote(parseInt(taskArguments.vote), taskArguments.reason);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Vote ${taskArguments.vote} cancelled: ${taskArguments.reason}`);
+  });
+
+/**
+ * Must be run by the vote creator or an admin. Archived votes are hidden from the frontend's vote list.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-archive --vote 1
+ */
+task("task:vote-archive", "Archives an ended or cancelled vote; its results stay readable")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the ended vote")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
 
-    const tx = await votingSystemContract.connect(signers[0]).castVote(optionId, "0x00");
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const tx = await votingSystemContract.archiveVote(parseInt(taskArguments.vote));
+    console.log(`Wait for tx:${tx.hash}...`);
     await tx.wait();
+    console.log(`Vote ${taskArguments.vote} archived`);
+  });
 
-    console.log(`Vote cast successfully for option ${optionId}!`);
+/**
+ * Must be run by an admin, on the local Hardhat network only. Wiped voters may vote again.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-wipe --vote 1
+ */
+task("task:vote-wipe", "Drops every ballot cast in a test vote that has not ended")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the vote")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const tx = await votingSystemContract.wipeBallots(parseInt(taskArguments.vote));
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    const wiped = receipt?.logs
+      .map((log) => votingSystemContract.interface.parseLog(log))
+      .find((event) => event?.name === "BallotsWiped");
+    console.log(`Wiped ${wiped?.args.ballotCount ?? 0} ballot(s) of vote ${taskArguments.vote}`);
   });
 
 /**
+ * Anyone may run it. Votes that are not past their end time, or already ended, are skipped.
+ *
  * Example:
- *   - npx hardhat --network localhost task:vote-results
- *   - npx hardhat --network sepolia task:vote-results
+ *   - npx hardhat --network localhost task:vote-end-expired
+ *   - npx hardhat --network sepolia task:vote-end-expired --votes "1,4,5"
  */
-task("task:vote-results", "Shows current voting results")
+task("task:vote-end-expired", "Ends every vote past its end time and requests the publication of their results")
   .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addOptionalParam("votes", "Comma-separated IDs of the votes to end, every vote by default")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
     const votingSystemDeployment = taskArguments.address
       ? { address: taskArguments.address }
       : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const nextVoteId = Number(await votingSystemContract.getNextVoteId());
+    const voteIds: number[] = taskArguments.votes
+      ? taskArguments.votes.split(",").map((voteId: string) => parseInt(voteId.trim()))
+      : Array.from({ length: nextVoteId - 1 }, (_, index) => index + 1);
+
+    const ended = await votingSystemContract.endExpiredVotes.staticCall(voteIds);
+    if (ended === 0n) {
+      console.log("No expired vote to end");
+      return;
+    }
+
+    const tx = await votingSystemContract.endExpiredVotes(voteIds);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Ended ${ended} expired vote(s), results will be published by the decryption oracle`);
+  });
+
+/**
+ * Must be run by a pauser. Blocks vote creation and ballots until task:vote-unpause.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-pause
+ */
+task("task:vote-pause", "Pauses vote creation and ballots in an emergency")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
 
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const tx = await votingSystemContract.pause();
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log("Voting paused: no votes can be created and no ballots cast");
+  });
+
+/**
+ * Must be run by a pauser.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-unpause
+ */
+task("task:vote-unpause", "Resumes vote creation and ballots after a pause")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
     console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
 
     const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
 
-    const optionCount = await votingSystemContract.getOptionCount();
-    const totalVotes = await votingSystemContract.getTotalVotes();
+    const tx = await votingSystemContract.unpause();
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log("Voting resumed");
+  });
 
-    console.log(`\nVoting Results (Total votes: ${totalVotes})`);
-    console.log("=".repeat(40));
+const ROLES: Record<string, string> = {
+  admin: "ADMIN_ROLE",
+  creator: "VOTE_CREATOR_ROLE",
+  tallier: "TALLIER_ROLE",
+  pauser: "PAUSER_ROLE",
+};
+
+// "everyone" stands for the zero address, which opens a role to every account
+function parseRoleArguments(ethers: HardhatRuntimeEnvironment["ethers"], taskArguments: TaskArguments) {
+  const roleName = ROLES[String(taskArguments.role).toLowerCase()];
+  if (roleName === undefined) {
+    throw new Error(`Argument --role must be one of ${Object.keys(ROLES).join(", ")}`);
+  }
+  const account = taskArguments.account === "everyone" ? ethers.ZeroAddress : taskArguments.account;
+  if (!ethers.isAddress(account)) {
+    throw new Error(`Argument --account must be an address or "everyone"`);
+  }
+  return { roleName, role: ethers.id(roleName), account };
+}
+
+/**
+ * Must be run by an admin.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:role-grant --role tallier --account 0x70997970C51812dc3A010C7d01b50e20d17dc79C
+ *   - npx hardhat --network localhost task:role-grant --role creator --account everyone
+ */
+task("task:role-grant", "Grants a role of the EncryptedVotingSystem contract to an account")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("role", `The role: ${Object.keys(ROLES).join(", ")}`)
+  .addParam("account", `The account receiving the role, or "everyone"`)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const { roleName, role, account } = parseRoleArguments(ethers, taskArguments);
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const tx = await votingSystemContract.grantRole(role, account);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`${roleName} granted to ${taskArguments.account}`);
+  });
 
-    for (let i = 0; i < Number(optionCount); i++) {
-      const description = await votingSystemContract.getOptionDescription(i);
-      const voteCount = await votingSystemContract.getVoteCount(i);
-      const percentage = totalVotes > 0 ? ((Number(voteCount) / Number(totalVotes)) * 100).toFixed(1) : "0.0";
-      console.log(`${description}: ${voteCount} votes (${percentage}%)`);
+/**
+ * Must be run by an admin.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:role-revoke --role creator --account everyone
+ */
+task("task:role-revoke", "Revokes a role of the EncryptedVotingSystem contract from an account")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("role", `The role: ${Object.keys(ROLES).join(", ")}`)
+  .addParam("account", `The account losing the role, or "everyone"`)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+    const { roleName, role, account } = parseRoleArguments(ethers, taskArguments);
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const tx = await votingSystemContract.revokeRole(role, account);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`${roleName} revoked from ${taskArguments.account}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:role-check --account 0x70997970C51812dc3A010C7d01b50e20d17dc79C
+ */
+task("task:role-check", "Shows the roles an account holds and the pending ownership transfer")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("account", `The account to check, or "everyone" for the roles open to every account`)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    console.log(`Owner: ${await votingSystemContract.owner()}`);
+    console.log(`Pending owner: ${await votingSystemContract.pendingOwner()}`);
+    for (const roleArgument of Object.keys(ROLES)) {
+      const { roleName, role, account } = parseRoleArguments(ethers, { ...taskArguments, role: roleArgument });
+      console.log(`${roleName}: ${await votingSystemContract.hasRole(role, account)}`);
     }
   });
 
 /**
+ * Decrypts the rankings of an ended ranked-choice vote, runs the instant runoff and publishes every round.
+ * Must be run by the vote creator or a tallier, the only accounts allowed to decrypt the rankings.
+ * The contract only accepts the rounds once the oracle has published the first preferences, which the first round
+ * must match; the later rounds are trusted to the account publishing them.
+ *
  * Example:
- *   - npx hardhat --network localhost task:vote-status
- *   - npx hardhat --network sepolia task:vote-status
+ *   - npx hardhat --network localhost task:vote-tally-ranked --vote 1
+ *   - npx hardhat --network sepolia task:vote-tally-ranked --vote 1 --dry-run
  */
-task("task:vote-status", "Shows voting status and information")
+task("task:vote-tally-ranked", "Runs and publishes the instant-runoff rounds of a ranked-choice vote")
   .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the ranked-choice vote")
+  .addFlag("dryRun", "Print the rounds without publishing them")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const [creator] = await ethers.getSigners();
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const voteId = parseInt(taskArguments.vote);
+    const [, , options] = await votingSystemContract.getVote(voteId);
+    const [published, firstPreferences] = await votingSystemContract.getPublishedResults(voteId);
+    if (!published) {
+      throw new Error(`The first preferences of vote ${voteId} are not published yet, wait for the decryption oracle`);
+    }
+    if (firstPreferences.length === 0) {
+      throw new Error(`Vote ${voteId} only reveals its outcome, its runoff rounds cannot be verified`);
+    }
+
+    await (await votingSystemContract.connect(creator).grantRankedBallotAccess(voteId)).wait();
+    const [voters, encryptedRankings] = await votingSystemContract.getRankedBallots(voteId);
+    console.log(`Decrypting ${voters.length} rankings...`);
+
+    const rankings: number[][] = [];
+    for (const encryptedRanking of encryptedRankings) {
+      const packed = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedRanking,
+        votingSystemDeployment.address,
+        creator,
+      );
+      rankings.push(unpackRanking(BigInt(packed), options.length));
+    }
+
+    const rounds = runInstantRunoff(rankings, options.length);
+    rounds.forEach((counts, round) => {
+      console.log(`\nRound ${round + 1}`);
+      counts.forEach((count, option) => console.log(`  ${options[option]}: ${count}`));
+    });
+
+    if (rounds[0].some((count, option) => BigInt(count) !== firstPreferences[option])) {
+      throw new Error(`Round 1 differs from the published first preferences of vote ${voteId}`);
+    }
+    if (taskArguments.dryRun) {
+      return;
+    }
+
+    const tx = await votingSystemContract.connect(creator).publishRankedRounds(voteId, rounds);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Published ${rounds.length} rounds for vote ${voteId}`);
+  });
+
+// Mirrors EncryptedVotingSystem.VoteState
+const VOTE_STATES = ["draft", "scheduled", "open", "closed", "tallied", "cancelled"];
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vote-list
+ *   - npx hardhat --network sepolia task:vote-list --archived
+ */
+task("task:vote-list", "Lists the votes of the EncryptedVotingSystem contract")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addFlag("archived", "Also list archived votes")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments } = hre;
 
     const votingSystemDeployment = taskArguments.address
       ? { address: taskArguments.address }
       : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const nextVoteId = Number(await votingSystemContract.getNextVoteId());
+    let listed = 0;
+    for (let voteId = 1; voteId < nextVoteId; voteId++) {
+      const archived = await votingSystemContract.isVoteArchived(voteId);
+      if (archived && !taskArguments.archived) {
+        continue;
+      }
+      const [title, , options, , endTime] = await votingSystemContract.getVote(voteId);
+      const state = VOTE_STATES[Number(await votingSystemContract.getVoteState(voteId))];
+      const ballots = await votingSystemContract.getVoteCount(voteId);
+      console.log(
+        `#${voteId} "${title}" (${state}${archived ? ", archived" : ""}): ${options.join(" / ")}, ` +
+          `${ballots} voter(s), ends ${new Date(Number(endTime) * 1000).toLocaleString()}`,
+      );
+      listed++;
+    }
+    if (listed === 0) {
+      console.log("No votes");
+    }
+  });
+
+/**
+ * Encrypts the ballot with the FHEVM plugin and casts it from the first signer. Merkle votes need --members the
+ * first time, to prove the signer is in the member list the vote was created with.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-cast --vote 1 --option 0
+ *   - npx hardhat --network localhost task:vote-cast --vote 2 --ranking "2,0,1"
+ *   - npx hardhat --network localhost task:vote-cast --vote 3 --approve "0,2"
+ *   - npx hardhat --network sepolia task:vote-cast --vote 4 --option 1 --members members.csv
+ */
+task("task:vote-cast", "Casts an encrypted ballot in a vote")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the vote")
+  .addOptionalParam("option", "The option index to vote for, in plurality votes")
+  .addOptionalParam("ranking", "Comma-separated option indices, most preferred first, in ranked votes")
+  .addOptionalParam("approve", "Comma-separated indices of the approved options, in approval votes")
+  .addOptionalParam("members", "Address list or CSV file of the members of a merkle vote")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
 
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
     console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
 
-    const signers = await ethers.getSigners();
+    const [voter] = await ethers.getSigners();
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const voteId = parseInt(taskArguments.vote);
+    const [, , options] = await votingSystemContract.getVote(voteId);
+    const ballotType = Number((await votingSystemContract.votes(voteId)).ballotType);
+    const indices = (argument: string): number[] => {
+      const value = taskArguments[argument];
+      if (value === undefined) {
+        throw new Error(`Argument --${argument} is required in ${BALLOT_NAMES[ballotType]} votes`);
+      }
+      const parsed = String(value)
+        .split(",")
+        .map((index) => parseInt(index.trim()));
+      if (parsed.some((index) => !Number.isInteger(index) || index < 0 || index >= options.length)) {
+        throw new Error(`Argument --${argument} must list option indices between 0 and ${options.length - 1}`);
+      }
+      return parsed;
+    };
+
+    if (!(await votingSystemContract.isEligible(voteId, voter.address))) {
+      const [mode] = await votingSystemContract.getVoteEligibility(voteId);
+      if (Number(mode) !== ELIGIBILITY_MODES.merkle || !taskArguments.members) {
+        throw new Error(`${voter.address} is not eligible to vote in vote ${voteId}`);
+      }
+      const proof = buildMerkleTree(readMembers(taskArguments.members)).getProof(voter.address);
+      await (await votingSystemContract.connect(voter).proveEligibility(voteId, proof)).wait();
+      console.log(`Eligibility of ${voter.address} proven`);
+    }
+
+    const revote = await votingSystemContract.hasVotedInVote(voteId, voter.address);
+    const input = fhevm.createEncryptedInput(votingSystemDeployment.address, voter.address);
+    let tx;
+    if (ballotType === BALLOT_TYPES.ranked) {
+      const ranking = indices("ranking");
+      console.log(`Ranking ${ranking.map((option) => options[option]).join(" > ")}...`);
+      const encryptedRanking = await input.add64(packRanking(ranking)).encrypt();
+      tx = await votingSystemContract
+        .connect(voter)
+        .castRankedVote(voteId, encryptedRanking.handles[0], encryptedRanking.inputProof);
+    } else {
+      const chosen = indices(ballotType === BALLOT_TYPES.approval ? "approve" : "option");
+      console.log(`Voting for ${chosen.map((option) => options[option]).join(", ")}...`);
+      // Approval ballots are a bitmask, bit i approving option i
+      const choice =
+        ballotType === BALLOT_TYPES.approval
+          ? chosen.reduce((bitmask, option) => bitmask | (1 << option), 0)
+          : chosen[0];
+      const encryptedChoice = await input.add32(choice).encrypt();
+      tx = await votingSystemContract
+        .connect(voter)
+        .castVote(voteId, encryptedChoice.handles[0], encryptedChoice.inputProof);
+    }
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+
+    console.log(`Ballot ${revote ? "replaced" : "cast"} in vote ${voteId}`);
+  });
+
+/**
+ * Shows the results published by the decryption oracle once a vote has ended.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-results --vote 1
+ */
+task("task:vote-results", "Shows the published results of a vote")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the vote")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const voteId = parseInt(taskArguments.vote);
+    const [title, , options] = await votingSystemContract.getVote(voteId);
+    const state = VOTE_STATES[Number(await votingSystemContract.getVoteState(voteId))];
+    console.log(`\n#${voteId} "${title}" (${state})`);
+    console.log("=".repeat(40));
+
+    const [outcomePublished, passed] = await votingSystemContract.getPublishedOutcome(voteId);
+    if (outcomePublished) {
+      console.log(`Outcome: ${passed ? "passed" : "failed"}`);
+    }
+
+    const [published, counts, spoiled, weights] = await votingSystemContract.getPublishedResults(voteId);
+    if (!published) {
+      console.log("Results not published yet");
+      return;
+    }
+    if (counts.length === 0) {
+      console.log("Only the outcome of this vote is revealed");
+      return;
+    }
+
+    const total = counts.reduce((sum, count) => sum + Number(count), 0);
+    options.forEach((option, index) => {
+      const percentage = total > 0 ? ((Number(counts[index]) / total) * 100).toFixed(1) : "0.0";
+      const weight = weights.length > 0 ? `, ${weights[index]} weighted` : "";
+      console.log(`${option}: ${counts[index]} votes (${percentage}%${weight})`);
+    });
+    console.log(`Spoiled ballots: ${spoiled}`);
+
+    const rounds = await votingSystemContract.getRankedRounds(voteId);
+    if (rounds.length > 0) {
+      const finalRound = rounds[rounds.length - 1].map(Number);
+      const winner = finalRound.indexOf(Math.max(...finalRound));
+      console.log(`Instant-runoff winner after ${rounds.length} round(s): ${options[winner]}`);
+    }
+  });
+
+/**
+ * Decrypts the tallies of a vote with the first signer's key. Anyone may decrypt them once the vote has ended, or
+ * while it runs when it was created with --live; outcome-only votes never reveal them.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-decrypt --vote 1
+ */
+task("task:vote-decrypt", "Decrypts the encrypted tallies of a vote")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the vote")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const [reader] = await ethers.getSigners();
     const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
 
-    const optionCount = await votingSystemContract.getOptionCount();
-    const totalVotes = await votingSystemContract.getTotalVotes();
-    const isVotingActive = await votingSystemContract.isVotingActive();
-    const votingEndTime = await votingSystemContract.getVotingEndTime();
-    const hasVoted = await votingSystemContract.hasVoted(signers[0].address);
-
-    console.log("\nVoting Status");
-    console.log("=".repeat(20));
-    console.log(`Options available: ${optionCount}`);
-    console.log(`Total votes cast: ${totalVotes}`);
-    console.log(`Voting active: ${isVotingActive}`);
-    console.log(`Voting ends: ${new Date(Number(votingEndTime) * 1000).toLocaleString()}`);
-    console.log(`Current user has voted: ${hasVoted}`);
+    const voteId = parseInt(taskArguments.vote);
+    const [, , options, , , , creator] = await votingSystemContract.getVote(voteId);
+    if (creator === ethers.ZeroAddress) {
+      throw new Error(`Vote ${voteId} does not exist`);
+    }
+    if (!(await votingSystemContract.areResultsAvailable(voteId))) {
+      const state = VOTE_STATES[Number(await votingSystemContract.getVoteState(voteId))];
+      throw new Error(
+        state === "cancelled"
+          ? `Vote ${voteId} was cancelled, its tallies are never revealed`
+          : `The tallies of vote ${voteId} are embargoed until it has ended, it is ${state}`,
+      );
+    }
+    if ((await votingSystemContract.getVoteRules(voteId)).outcomeOnly) {
+      throw new Error(`Vote ${voteId} only reveals its outcome, run task:vote-results to read it`);
+    }
+
+    // Grants the signer ACL access to every counter of the vote
+    await (await votingSystemContract.connect(reader).requestDecryptVoteResults(voteId, 0)).wait();
+
+    const decrypt = (type: FhevmType.euint32 | FhevmType.euint64, handle: string) =>
+      fhevm.userDecryptEuint(type, handle, votingSystemDeployment.address, reader);
+    const tallies = await votingSystemContract.getEncryptedTallies(voteId);
+    const weights = await votingSystemContract.getEncryptedWeightedTallies(voteId);
+    for (let i = 0; i < options.length; i++) {
+      const weight = weights.length > 0 ? `, ${await decrypt(FhevmType.euint64, weights[i])} weighted` : "";
+      console.log(`${options[i]}: ${await decrypt(FhevmType.euint32, tallies[i])} votes${weight}`);
+    }
+    const spoiled = await votingSystemContract.getEncryptedSpoiledCount(voteId);
+    console.log(`Spoiled ballots: ${await decrypt(FhevmType.euint32, spoiled)}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:vote-status --vote 1
+ *   - npx hardhat --network sepolia task:vote-status --vote 1
+ */
+task("task:vote-status", "Shows the settings of a vote and the first signer's ballot status")
+  .addOptionalParam("address", "Optionally specify the EncryptedVotingSystem contract address")
+  .addParam("vote", "The ID of the vote")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const votingSystemDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("EncryptedVotingSystem");
+    console.log(`EncryptedVotingSystem: ${votingSystemDeployment.address}`);
+
+    const [account] = await ethers.getSigners();
+    const votingSystemContract = await ethers.getContractAt("EncryptedVotingSystem", votingSystemDeployment.address);
+
+    const voteId = parseInt(taskArguments.vote);
+    const [title, description, options, startTime, endTime, , creator, liveResults] =
+      await votingSystemContract.getVote(voteId);
+    const voteRecord = await votingSystemContract.votes(voteId);
+    const [mode] = await votingSystemContract.getVoteEligibility(voteId);
+    const [totalVotes, uniqueVoters] = await votingSystemContract.getVoteStatistics(voteId);
+
+    console.log(`\n#${voteId} "${title}"`);
+    console.log("=".repeat(40));
+    console.log(`Description: ${description}`);
+    console.log(`Options: ${options.map((option, index) => `${index}. ${option}`).join(", ")}`);
+    console.log(`State: ${VOTE_STATES[Number(await votingSystemContract.getVoteState(voteId))]}`);
+    console.log(`Opens: ${new Date(Number(startTime) * 1000).toLocaleString()}`);
+    console.log(`Closes: ${new Date(Number(endTime) * 1000).toLocaleString()}`);
+    console.log(`Creator: ${creator}`);
+    console.log(`Ballot: ${BALLOT_NAMES[Number(voteRecord.ballotType)]}${voteRecord.allowRevote ? ", revotable" : ""}`);
+    console.log(`Eligibility: ${Object.keys(ELIGIBILITY_MODES)[Number(mode)]}`);
+    console.log(`Live results: ${liveResults}`);
+    console.log(`Ballots cast: ${totalVotes} by ${uniqueVoters} voter(s)`);
+    console.log(`Voting paused: ${await votingSystemContract.paused()}`);
+    console.log(`${account.address} eligible: ${await votingSystemContract.isEligible(voteId, account.address)}`);
+    console.log(`${account.address} has voted: ${await votingSystemContract.hasVotedInVote(voteId, account.address)}`);
   });
 
 /**
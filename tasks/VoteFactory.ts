@@ -0,0 +1,79 @@
+import { task } from "hardhat/config.js";
+import type { TaskArguments } from "hardhat/types.js";
+
+// Mirrors EncryptedVotingSystem.VoteState
+const VOTE_STATES = ["draft", "scheduled", "open", "closed", "tallied", "cancelled"];
+
+/**
+ * Deploys the instance of a new election. Its vote is then created with task:vote-init --address, and managed
+ * like any vote with the other task:vote-* tasks, passing the instance as --address and 1 as --vote.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:election-create
+ *   - npx hardhat --network localhost task:vote-init --address 0x... --options "Yes,No" --title "Board election"
+ */
+task("task:election-create", "Deploys the EncryptedVotingSystem instance of a new election, owned by the caller")
+  .addOptionalParam("factory", "Optionally specify the VoteFactory contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const factoryDeployment = taskArguments.factory
+      ? { address: taskArguments.factory }
+      : await deployments.get("VoteFactory");
+    console.log(`VoteFactory: ${factoryDeployment.address}`);
+
+    const factoryContract = await ethers.getContractAt("VoteFactory", factoryDeployment.address);
+
+    const tx = await factoryContract.createElection();
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+
+    const event = receipt!.logs
+      .map((log) => factoryContract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "ElectionCreated");
+    if (!event) {
+      throw new Error("ElectionCreated event not found");
+    }
+    console.log(`Election ${event.args.electionId} deployed at ${event.args.election}`);
+    console.log(`Create its vote with: task:vote-init --address ${event.args.election} --options ...`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:election-list
+ *   - npx hardhat --network localhost task:election-list --creator 0x70997970C51812dc3A010C7d01b50e20d17dc79C
+ */
+task("task:election-list", "Lists the elections deployed by the VoteFactory")
+  .addOptionalParam("factory", "Optionally specify the VoteFactory contract address")
+  .addOptionalParam("creator", "Only list the elections created by this account")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const factoryDeployment = taskArguments.factory
+      ? { address: taskArguments.factory }
+      : await deployments.get("VoteFactory");
+    console.log(`VoteFactory: ${factoryDeployment.address}`);
+
+    const factoryContract = await ethers.getContractAt("VoteFactory", factoryDeployment.address);
+
+    const elections: string[] = taskArguments.creator
+      ? [...(await factoryContract.getElectionsByCreator(taskArguments.creator))]
+      : [...(await factoryContract.getElections())];
+    if (elections.length === 0) {
+      console.log("No elections");
+      return;
+    }
+
+    for (const election of elections) {
+      const electionId = await factoryContract.electionIdOf(election);
+      const instance = await ethers.getContractAt("EncryptedVotingSystem", election);
+      const owner = await instance.owner();
+      if ((await instance.getNextVoteId()) === 1n) {
+        console.log(`#${electionId} ${election} owned by ${owner}: no vote created yet`);
+        continue;
+      }
+      const vote = await instance.getVote(1);
+      const state = VOTE_STATES[Number(await instance.getVoteState(1))];
+      console.log(`#${electionId} ${election} owned by ${owner}: "${vote.title}" (${state})`);
+    }
+  });
@@ -0,0 +1,241 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task } from "hardhat/config.js";
+import type { TaskArguments } from "hardhat/types.js";
+import { EncryptedVotingSystemLegacyABI } from "../frontend/abi/EncryptedVotingSystemLegacyABI";
+import { LEGACY_LABEL, isLegacyDeployment, legacyVoteState } from "../frontend/lib/deployments";
+
+// Mirrors EncryptedVotingSystem.VoteState and EligibilityMode
+const VOTE_STATES = ["draft", "scheduled", "open", "closed", "tallied", "cancelled"];
+const ALLOWLIST = 1;
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:registry-list
+ */
+task("task:registry-list", "Lists the registered EncryptedVotingSystem deployments, oldest first")
+  .addOptionalParam("registry", "Optionally specify the VotingRegistry contract address")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const registryDeployment = taskArguments.registry
+      ? { address: taskArguments.registry }
+      : await deployments.get("VotingRegistry");
+    console.log(`VotingRegistry: ${registryDeployment.address}`);
+
+    const registryContract = await ethers.getContractAt("VotingRegistry", registryDeployment.address);
+
+    const registered = await registryContract.getDeployments();
+    registered.forEach((deployment, index) => {
+      const registeredAt = new Date(Number(deployment.registeredAt) * 1000).toISOString();
+      const current = index === registered.length - 1 ? " (current)" : "";
+      console.log(
+        `v${index + 1} ${deployment.votingSystem} ${deployment.version} registered ${registeredAt}${current}`,
+      );
+    });
+  });
+
+/**
+ * Registers an EncryptedVotingSystem deployed without the deploy script as the latest version. A deployment made
+ * before the registry is registered with --legacy, so that the frontend and task:vote-migrate read it with the
+ * legacy ABI; it must come first, so deploy the registry alone, register it, then deploy the new version.
+ *
+ * Example:
+ *   - npx hardhat --network sepolia deploy --tags VotingRegistry
+ *   - npx hardhat --network sepolia task:registry-register --address 0x98D6225AAfEa695d236B17F17cea4c401B03951D --legacy
+ *   - npx hardhat --network sepolia deploy
+ */
+task("task:registry-register", "Registers an already-deployed EncryptedVotingSystem as the latest version")
+  .addOptionalParam("registry", "Optionally specify the VotingRegistry contract address")
+  .addParam("address", "The EncryptedVotingSystem deployment to register")
+  .addOptionalParam("label", "The release label of the deployment (default: the package version)")
+  .addFlag("legacy", "The deployment predates the registry and is read with the legacy ABI")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const registryDeployment = taskArguments.registry
+      ? { address: taskArguments.registry }
+      : await deployments.get("VotingRegistry");
+    console.log(`VotingRegistry: ${registryDeployment.address}`);
+
+    const registryContract = await ethers.getContractAt("VotingRegistry", registryDeployment.address);
+
+    const address = ethers.getAddress(taskArguments.address);
+    if ((await ethers.provider.getCode(address)) === "0x") {
+      throw new Error(`No contract is deployed at ${address}`);
+    }
+    if ((await registryContract.versionOf(address)) !== 0n) {
+      throw new Error(`${address} is already registered as version ${await registryContract.versionOf(address)}`);
+    }
+    if (taskArguments.legacy && (await registryContract.getDeployments()).length > 0) {
+      throw new Error("A legacy deployment must be registered first, before the deploy script registers a new version");
+    }
+
+    const { version } = JSON.parse(fs.readFileSync(path.join(hre.config.paths.root, "package.json"), "utf-8"));
+    const label = taskArguments.legacy ? LEGACY_LABEL : (taskArguments.label ?? version);
+
+    const tx = await registryContract.register(address, label);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`${address} registered as version ${await registryContract.versionOf(address)} (${label})`);
+  });
+
+/**
+ * Copies the votes that have not ended from an older deployment to a newer one, and records the copies in the
+ * registry. Only the vote metadata moves: ballots stay encrypted under the ACL of the older contract, so voters
+ * of open votes must vote again, and weighted votes take a new balance snapshot. Ended and cancelled votes are
+ * not copied; they stay readable in the older deployment.
+ * Each deployment is read with the ABI of its registered version. Votes of a legacy deployment are copied as open,
+ * single-choice votes without rules, the only kind it has, and cannot be cancelled there.
+ * Must be run by the registry owner, holding the vote creator role of the newer deployment.
+ *
+ * Example:
+ *   - npx hardhat --network localhost task:vote-migrate --cancelSource
+ *   - npx hardhat --network sepolia task:vote-migrate --from 0x98D6225AAfEa695d236B17F17cea4c401B03951D
+ */
+task("task:vote-migrate", "Copies the votes that have not ended to a newer EncryptedVotingSystem deployment")
+  .addOptionalParam("registry", "Optionally specify the VotingRegistry contract address")
+  .addOptionalParam("from", "The older deployment (default: the version before the current one)")
+  .addOptionalParam("to", "The newer deployment (default: the current version)")
+  .addOptionalParam("votes", "Comma-separated IDs of the votes to copy, every vote that has not ended by default")
+  .addFlag("cancelSource", "Cancel each copied vote in the older deployment, pointing its voters to the copy")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const registryDeployment = taskArguments.registry
+      ? { address: taskArguments.registry }
+      : await deployments.get("VotingRegistry");
+    console.log(`VotingRegistry: ${registryDeployment.address}`);
+
+    const registryContract = await ethers.getContractAt("VotingRegistry", registryDeployment.address);
+
+    const deploymentsList = await registryContract.getDeployments();
+    const registered = deploymentsList.map((deployment) => deployment.votingSystem);
+    const to = taskArguments.to ? ethers.getAddress(taskArguments.to) : registered[registered.length - 1];
+    const from = taskArguments.from ? ethers.getAddress(taskArguments.from) : registered[registered.indexOf(to) - 1];
+    if (!from || !to) {
+      throw new Error("The registry needs an older and a newer deployment to migrate votes");
+    }
+    console.log(`Migrating votes from ${from} to ${to}`);
+
+    const legacy = isLegacyDeployment(deploymentsList[registered.indexOf(from)]?.version ?? "");
+    if (legacy && taskArguments.cancelSource) {
+      throw new Error(`${from} is a legacy deployment, its votes cannot be cancelled`);
+    }
+    const source = await ethers.getContractAt("EncryptedVotingSystem", from);
+    const legacySource = new ethers.Contract(from, EncryptedVotingSystemLegacyABI, ethers.provider);
+    const target = await ethers.getContractAt("EncryptedVotingSystem", to);
+
+    // Legacy votes are open to anyone, take one choice per ballot and have tallies decryptable at any time
+    const readSettings = async (voteId: number, liveResults: boolean, draft: boolean) => {
+      if (legacy) {
+        return {
+          liveResults: true,
+          eligibility: 0,
+          merkleRoot: ethers.ZeroHash,
+          weightToken: ethers.ZeroAddress,
+          weightUnit: 0,
+          ballotType: 0,
+          allowRevote: false,
+          draft: false,
+          rules: { quorum: 0, threshold: 0, thresholdCount: 0, outcomeOnly: false },
+        };
+      }
+      const record = await source.votes(voteId);
+      const [eligibility, merkleRoot] = await source.getVoteEligibility(voteId);
+      const [weightToken, weightUnit] = await source.getVoteWeighting(voteId);
+      const rules = await source.getVoteRules(voteId);
+      return {
+        liveResults,
+        eligibility,
+        merkleRoot,
+        weightToken,
+        weightUnit,
+        ballotType: record.ballotType,
+        allowRevote: record.allowRevote,
+        draft,
+        rules: {
+          quorum: rules.quorum,
+          threshold: rules.threshold,
+          thresholdCount: rules.thresholdCount,
+          outcomeOnly: rules.outcomeOnly,
+        },
+      };
+    };
+
+    const voteIds: number[] = taskArguments.votes
+      ? taskArguments.votes.split(",").map((voteId: string) => parseInt(voteId.trim()))
+      : Array.from({ length: Number(await source.getNextVoteId()) - 1 }, (_, index) => index + 1);
+
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const fromVoteIds: number[] = [];
+    const toVoteIds: number[] = [];
+    for (const voteId of voteIds) {
+      const migration = await registryContract.getMigration(from, voteId);
+      if (migration.votingSystem !== ethers.ZeroAddress) {
+        console.log(`Vote ${voteId} was already copied to ${migration.votingSystem} as vote ${migration.voteId}`);
+        continue;
+      }
+      const vote = legacy ? await legacySource.getVote(voteId) : await source.getVote(voteId);
+      const state = legacy
+        ? VOTE_STATES[legacyVoteState(vote.active, vote.endTime, now)]
+        : VOTE_STATES[Number(await source.getVoteState(voteId))];
+      if (state !== "draft" && state !== "scheduled" && state !== "open") {
+        console.log(`Vote ${voteId} is ${state}, skipped: it stays readable in ${from}`);
+        continue;
+      }
+      const settings = await readSettings(voteId, !legacy && vote.liveResults, state === "draft");
+
+      // A vote that has started opens right away in the newer deployment
+      const tx = await target.createVote(
+        vote.title,
+        vote.description,
+        [...vote.options],
+        vote.startTime > BigInt(now) ? vote.startTime : 0,
+        vote.endTime,
+        settings,
+      );
+      await tx.wait();
+      const copyId = Number(await target.getNextVoteId()) - 1;
+      console.log(`Vote ${voteId} copied as vote ${copyId}`);
+
+      // The allowlist is not enumerable on-chain, so it is rebuilt from the eligibility events
+      if (Number(settings.eligibility) === ALLOWLIST) {
+        const eligible = new Map<string, boolean>();
+        for (const event of await source.queryFilter(source.filters.EligibilityUpdated(voteId))) {
+          eligible.set(event.args.voter, event.args.eligible);
+        }
+        const members = [...eligible].filter(([, allowed]) => allowed).map(([voter]) => voter);
+        if (members.length > 0) {
+          await (await target.addToAllowlist(copyId, members)).wait();
+        }
+        console.log(`  Copied ${members.length} allowlisted voter(s)`);
+      }
+
+      const ballotCount = await (legacy ? legacySource : source).getVoteCount(voteId);
+      if (ballotCount > 0n) {
+        console.log(`  ${ballotCount} ballot(s) cannot be copied, their voters must vote again`);
+      }
+
+      fromVoteIds.push(voteId);
+      toVoteIds.push(copyId);
+    }
+
+    if (fromVoteIds.length === 0) {
+      console.log("No vote to migrate");
+      return;
+    }
+
+    const tx = await registryContract.recordMigrations(from, to, fromVoteIds, toVoteIds);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+    console.log(`Migrated ${fromVoteIds.length} vote(s), recorded in the registry`);
+
+    // Sources are only cancelled once their copies are recorded, so a failed run never strands a cancelled vote
+    if (taskArguments.cancelSource) {
+      for (let i = 0; i < fromVoteIds.length; i++) {
+        await (await source.cancelVote(fromVoteIds[i], `Moved to ${to} as vote ${toVoteIds[i]}`)).wait();
+        console.log(`Vote ${fromVoteIds[i]} cancelled in ${from}`);
+      }
+    }
+  });
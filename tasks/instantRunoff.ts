@@ -0,0 +1,66 @@
+/**
+ * Instant-runoff tally of the ranked ballots of EncryptedVotingSystem.
+ *
+ * A ranking packs one 4-bit option index per preference, first preference in the lowest bits.
+ * It ends at the first 0xF nibble; an out-of-range or repeated option also ends it, so a ballot
+ * whose first preference is invalid is spoiled, exactly as the on-chain first-round counters treat it.
+ */
+
+export const RANK_END = 0xf;
+
+/**
+ * Pack option indices, most preferred first, into the 64-bit value encrypted by castRankedVote.
+ */
+export function packRanking(ranking: number[]): bigint {
+  return [...ranking, RANK_END].reduceRight((packed, option) => (packed << 4n) | BigInt(option), 0n);
+}
+
+/**
+ * Decode a packed ranking into option indices, most preferred first.
+ */
+export function unpackRanking(packed: bigint, optionCount: number): number[] {
+  const ranking: number[] = [];
+  for (let shift = 0n; shift < 64n; shift += 4n) {
+    const option = Number((packed >> shift) & 0xfn);
+    if (option === RANK_END || option >= optionCount || ranking.includes(option)) {
+      break;
+    }
+    ranking.push(option);
+  }
+  return ranking;
+}
+
+/**
+ * Run instant-runoff rounds until an option holds a majority of the ballots still ranking a continuing option.
+ * Each round counts every ballot for its most preferred continuing option, then eliminates the option with
+ * the fewest votes; on a tie the highest option index is eliminated, so the outcome is deterministic.
+ * @returns Count per option of every round, eliminated options counting zero
+ */
+export function runInstantRunoff(rankings: number[][], optionCount: number): number[][] {
+  const continuing = new Set(Array.from({ length: optionCount }, (_, option) => option));
+  const rounds: number[][] = [];
+
+  for (;;) {
+    const counts = new Array<number>(optionCount).fill(0);
+    for (const ranking of rankings) {
+      const preference = ranking.find((option) => continuing.has(option));
+      if (preference !== undefined) {
+        counts[preference]++;
+      }
+    }
+    rounds.push(counts);
+
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    if (continuing.size <= 1 || total === 0 || Math.max(...counts) * 2 > total) {
+      return rounds;
+    }
+
+    let eliminated = -1;
+    for (const option of continuing) {
+      if (eliminated === -1 || counts[option] <= counts[eliminated]) {
+        eliminated = option;
+      }
+    }
+    continuing.delete(eliminated);
+  }
+}
@@ -0,0 +1,231 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { BallotForwarder, EncryptedVotingSystem, EncryptedVotingSystem__factory, VoteFactory } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+// Embargoed, open, unweighted plurality vote without revoting or pass rules
+const DEFAULT_SETTINGS = {
+  liveResults: false,
+  eligibility: 0,
+  merkleRoot: ethers.ZeroHash,
+  weightToken: ethers.ZeroAddress,
+  weightUnit: 0n,
+  ballotType: 0,
+  allowRevote: false,
+  draft: false,
+  rules: { quorum: 0, threshold: 0, thresholdCount: 0, outcomeOnly: false },
+};
+
+const BALLOT_TYPES = {
+  Ballot: [
+    { name: "voter", type: "address" },
+    { name: "election", type: "address" },
+    { name: "voteId", type: "uint256" },
+    { name: "encryptedChoice", type: "bytes32" },
+    { name: "inputProof", type: "bytes" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+type Ballot = {
+  voter: string;
+  election: string;
+  voteId: number;
+  encryptedChoice: string;
+  inputProof: string;
+  nonce: bigint;
+  deadline: number;
+};
+
+async function deployFixture() {
+  const forwarder = (await (await ethers.getContractFactory("BallotForwarder")).deploy()) as BallotForwarder;
+
+  const ballotTally = await (await ethers.getContractFactory("BallotTally")).deploy();
+  const rankedBallots = await (await ethers.getContractFactory("RankedBallots")).deploy();
+  const voteDetails = await (await ethers.getContractFactory("VoteDetails")).deploy();
+  const voteDelegation = await (await ethers.getContractFactory("VoteDelegation")).deploy();
+  const voterEligibility = await (await ethers.getContractFactory("VoterEligibility")).deploy();
+  const factory = (await ethers.getContractFactory("EncryptedVotingSystem", {
+    libraries: {
+      BallotTally: await ballotTally.getAddress(),
+      RankedBallots: await rankedBallots.getAddress(),
+      VoteDetails: await voteDetails.getAddress(),
+      VoteDelegation: await voteDelegation.getAddress(),
+      VoterEligibility: await voterEligibility.getAddress(),
+    },
+  })) as EncryptedVotingSystem__factory;
+  const votingSystem = (await factory.deploy(await forwarder.getAddress())) as EncryptedVotingSystem;
+
+  return { forwarder, votingSystem };
+}
+
+describe("BallotForwarder", function () {
+  let alice: HardhatEthersSigner;
+  let relayer: HardhatEthersSigner;
+  let forwarder: BallotForwarder;
+  let votingSystem: EncryptedVotingSystem;
+
+  before(async function () {
+    [, alice, relayer] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ forwarder, votingSystem } = await deployFixture());
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    await (await votingSystem.createVote("Gasless", "Relayed", ["Yes", "No"], 0, endTime, DEFAULT_SETTINGS)).wait();
+  });
+
+  async function latestTimestamp() {
+    return (await ethers.provider.getBlock("latest"))!.timestamp;
+  }
+
+  // Encrypt an option for the election and the voter, like for castVote, and sign it as a ballot
+  async function signBallot(
+    election: EncryptedVotingSystem,
+    voter: HardhatEthersSigner,
+    optionId: number,
+    overrides: Partial<Ballot> = {},
+  ) {
+    const electionAddress = await election.getAddress();
+    const encrypted = await fhevm.createEncryptedInput(electionAddress, voter.address).add32(optionId).encrypt();
+    const ballot: Ballot = {
+      voter: voter.address,
+      election: electionAddress,
+      voteId: 1,
+      encryptedChoice: ethers.hexlify(encrypted.handles[0]),
+      inputProof: ethers.hexlify(encrypted.inputProof),
+      nonce: await forwarder.nonces(voter.address),
+      deadline: (await latestTimestamp()) + 3600,
+      ...overrides,
+    };
+    const domain = {
+      name: "BallotForwarder",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await forwarder.getAddress(),
+    };
+    const signature = await voter.signTypedData(domain, BALLOT_TYPES, ballot);
+    return { ballot, signature };
+  }
+
+  it("should cast a signed ballot for the voter, with the relayer paying the gas", async function () {
+    const { ballot, signature } = await signBallot(votingSystem, alice, 1);
+    expect(await forwarder.hashBallot(ballot)).to.eq(
+      ethers.TypedDataEncoder.hash(
+        {
+          name: "BallotForwarder",
+          version: "1",
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: await forwarder.getAddress(),
+        },
+        BALLOT_TYPES,
+        ballot,
+      ),
+    );
+
+    const aliceBalance = await ethers.provider.getBalance(alice.address);
+    await expect(forwarder.connect(relayer).castVoteBySig(ballot, signature))
+      .to.emit(forwarder, "BallotForwarded")
+      .withArgs(alice.address, await votingSystem.getAddress(), 1, 0, relayer.address)
+      .and.to.emit(votingSystem, "VoteCast")
+      .withArgs(1, alice.address);
+
+    expect(await ethers.provider.getBalance(alice.address)).to.eq(aliceBalance);
+    expect(await forwarder.nonces(alice.address)).to.eq(1);
+    expect(await votingSystem.hasVotedInVote(1, alice.address)).to.be.true;
+    expect(await votingSystem.hasVotedInVote(1, relayer.address)).to.be.false;
+
+    // The ballot is the voter's own: they can decrypt it, and it is counted in the tallies
+    const handle = await votingSystem.getEncryptedBallot(1, alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, await votingSystem.getAddress(), alice)).to.eq(1n);
+    await (await votingSystem.closeVoteEarly(1)).wait();
+    await fhevm.awaitDecryptionOracle();
+    const [, counts] = await votingSystem.getPublishedResults(1);
+    expect(counts.map(Number)).to.deep.eq([0, 1]);
+  });
+
+  it("should reject replayed, expired, tampered and invalidated ballots", async function () {
+    const { ballot, signature } = await signBallot(votingSystem, alice, 0);
+
+    await expect(forwarder.connect(relayer).castVoteBySig({ ...ballot, voteId: 2 }, signature)).to.be.revertedWith(
+      "Signer is not the voter",
+    );
+    await expect(
+      forwarder.connect(relayer).castVoteBySig({ ...ballot, voter: relayer.address }, signature),
+    ).to.be.revertedWith("Signer is not the voter");
+    await expect(forwarder.connect(relayer).castVoteBySig(ballot, signature.slice(0, -2))).to.be.revertedWith(
+      "Invalid signature length",
+    );
+
+    const expired = await signBallot(votingSystem, alice, 0, { deadline: (await latestTimestamp()) - 1 });
+    await expect(forwarder.connect(relayer).castVoteBySig(expired.ballot, expired.signature)).to.be.revertedWith(
+      "Ballot signature expired",
+    );
+
+    // Taking back a ballot before it is cast
+    await expect(forwarder.connect(alice).useNonce()).to.emit(forwarder, "NonceUsed").withArgs(alice.address, 0);
+    await expect(forwarder.connect(relayer).castVoteBySig(ballot, signature)).to.be.revertedWith(
+      "Invalid ballot nonce",
+    );
+
+    const current = await signBallot(votingSystem, alice, 0);
+    await (await forwarder.connect(relayer).castVoteBySig(current.ballot, current.signature)).wait();
+    await expect(forwarder.connect(relayer).castVoteBySig(current.ballot, current.signature)).to.be.revertedWith(
+      "Invalid ballot nonce",
+    );
+
+    // The election's checks still apply, and a rejected ballot leaves the nonce unused
+    const again = await signBallot(votingSystem, alice, 1);
+    await expect(forwarder.connect(relayer).castVoteBySig(again.ballot, again.signature)).to.be.revertedWith(
+      "Already voted in this vote",
+    );
+    expect(await forwarder.nonces(alice.address)).to.eq(2);
+  });
+
+  it("should only accept inputs encrypted for the voter", async function () {
+    // The relayer signs a ballot with the voter's encrypted input as its own
+    const { ballot } = await signBallot(votingSystem, alice, 0);
+    const copied = await signBallot(votingSystem, relayer, 0, {
+      encryptedChoice: ballot.encryptedChoice,
+      inputProof: ballot.inputProof,
+    });
+    await expect(forwarder.connect(relayer).castVoteBySig(copied.ballot, copied.signature)).to.be.reverted;
+
+    // Only the forwarder can cast a vote for another address
+    const encrypted = await fhevm
+      .createEncryptedInput(await votingSystem.getAddress(), alice.address)
+      .add32(0)
+      .encrypt();
+    const call = votingSystem.interface.encodeFunctionData("castVote", [1, encrypted.handles[0], encrypted.inputProof]);
+    await expect(
+      relayer.sendTransaction({ to: await votingSystem.getAddress(), data: ethers.concat([call, alice.address]) }),
+    ).to.be.reverted;
+    expect(await votingSystem.hasVotedInVote(1, alice.address)).to.be.false;
+  });
+
+  it("should cast signed ballots in the elections VoteFactory clones", async function () {
+    const voteFactory = (await (
+      await ethers.getContractFactory("VoteFactory")
+    ).deploy(await votingSystem.getAddress())) as VoteFactory;
+    await (await voteFactory.connect(alice).createElection()).wait();
+    const election = await ethers.getContractAt("EncryptedVotingSystem", await voteFactory.getElection(1));
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    await (
+      await election.connect(alice).createVote("Election", "Cloned", ["A", "B"], 0, endTime, DEFAULT_SETTINGS)
+    ).wait();
+
+    expect(await election.ballotForwarder()).to.eq(await forwarder.getAddress());
+    const { ballot, signature } = await signBallot(election, alice, 0);
+    await (await forwarder.connect(relayer).castVoteBySig(ballot, signature)).wait();
+    expect(await election.hasVotedInVote(1, alice.address)).to.be.true;
+    expect(await votingSystem.getVoteCount(1)).to.eq(0);
+  });
+});
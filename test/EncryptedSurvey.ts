@@ -0,0 +1,153 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { EncryptedSurvey, EncryptedSurvey__factory } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+const CHOICE = 0;
+const RATING = 1;
+
+// A choice question over three teams followed by a 1-10 rating
+const QUESTIONS = [
+  {
+    prompt: "Which team are you in?",
+    questionType: CHOICE,
+    options: ["Core", "Web", "Ops"],
+    minRating: 0,
+    maxRating: 0,
+  },
+  { prompt: "How satisfied are you?", questionType: RATING, options: [], minRating: 1, maxRating: 10 },
+];
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("EncryptedSurvey")) as EncryptedSurvey__factory;
+  const surveyContract = (await factory.deploy()) as EncryptedSurvey;
+  const surveyContractAddress = await surveyContract.getAddress();
+
+  return { surveyContract, surveyContractAddress };
+}
+
+describe("EncryptedSurvey", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let surveyContract: EncryptedSurvey;
+  let surveyContractAddress: string;
+
+  before(async function () {
+    [deployer, alice, bob, carol] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ surveyContract, surveyContractAddress } = await deployFixture());
+  });
+
+  async function latestTimestamp() {
+    return (await ethers.provider.getBlock("latest"))!.timestamp;
+  }
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  async function createSurvey() {
+    const endTime = (await latestTimestamp()) + 86400;
+    await (await surveyContract.createSurvey("Team survey", "Quarterly check-in", QUESTIONS, 0, endTime)).wait();
+    return 1;
+  }
+
+  // Every answer of a response is encrypted into a single input proof
+  async function respond(respondent: HardhatEthersSigner, surveyId: number, answers: number[]) {
+    const input = fhevm.createEncryptedInput(surveyContractAddress, respondent.address);
+    answers.forEach((answer) => input.add8(answer));
+    const encrypted = await input.encrypt();
+    return surveyContract.connect(respondent).respond(surveyId, encrypted.handles, encrypted.inputProof);
+  }
+
+  async function decrypt(handle: string, user: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(FhevmType.euint32, handle, surveyContractAddress, user);
+  }
+
+  it("should create a survey with choice and rating questions", async function () {
+    const surveyId = await createSurvey();
+
+    const survey = await surveyContract.getSurvey(surveyId);
+    expect(survey.title).to.eq("Team survey");
+    expect(survey.creator).to.eq(deployer.address);
+    expect(survey.questionCount).to.eq(2);
+    expect(survey.responseCount).to.eq(0);
+
+    const questions = await surveyContract.getQuestions(surveyId);
+    expect(questions[0].options).to.deep.eq(["Core", "Web", "Ops"]);
+    expect(questions[1].questionType).to.eq(RATING);
+    expect(questions[1].maxRating).to.eq(10);
+    expect(await surveyContract.getNextSurveyId()).to.eq(2);
+  });
+
+  it("should reject invalid questions", async function () {
+    const endTime = (await latestTimestamp()) + 86400;
+    const [choice, rating] = QUESTIONS;
+
+    await expect(surveyContract.createSurvey("Empty", "", [], 0, endTime)).to.be.revertedWith(
+      "Surveys have 1 to 10 questions",
+    );
+    await expect(
+      surveyContract.createSurvey("One option", "", [{ ...choice, options: ["Core"] }], 0, endTime),
+    ).to.be.revertedWith("Choice questions have 2 to 10 options");
+    await expect(
+      surveyContract.createSurvey("Bad bounds", "", [{ ...rating, minRating: 5, maxRating: 5 }], 0, endTime),
+    ).to.be.revertedWith("Rating bounds must be increasing");
+    await expect(
+      surveyContract.createSurvey("Rated options", "", [{ ...rating, options: ["A"] }], 0, endTime),
+    ).to.be.revertedWith("Rating questions have no options");
+  });
+
+  it("should aggregate encrypted answers into option counts, rating sum and rating count", async function () {
+    const surveyId = await createSurvey();
+
+    await (await respond(alice, surveyId, [0, 8])).wait();
+    await (await respond(bob, surveyId, [2, 5])).wait();
+    // Out-of-range answers skip both questions
+    await (await respond(carol, surveyId, [7, 0])).wait();
+
+    expect((await surveyContract.getSurvey(surveyId)).responseCount).to.eq(3);
+    expect(await surveyContract.hasResponded(surveyId, alice.address)).to.eq(true);
+    await expect(respond(alice, surveyId, [1, 3])).to.be.revertedWith("Already responded to this survey");
+
+    await increaseTime(86400);
+    await (await surveyContract.connect(bob).requestSurveyResults(surveyId)).wait();
+
+    const choice = await surveyContract.getEncryptedAggregate(surveyId, 0);
+    const counts = [];
+    for (const handle of choice.counts) {
+      counts.push(await decrypt(handle, bob));
+    }
+    expect(counts).to.deep.eq([1n, 0n, 1n]);
+
+    const rating = await surveyContract.getEncryptedAggregate(surveyId, 1);
+    expect(rating.counts).to.have.lengthOf(0);
+    expect(await decrypt(rating.sum, bob)).to.eq(13n);
+    expect(await decrypt(rating.count, bob)).to.eq(2n);
+  });
+
+  it("should require one answer per question and an open survey", async function () {
+    const surveyId = await createSurvey();
+
+    await expect(respond(alice, surveyId, [0])).to.be.revertedWith("One answer per question required");
+    await expect(respond(alice, 2, [0, 5])).to.be.revertedWith("Survey does not exist");
+    await expect(surveyContract.requestSurveyResults(surveyId)).to.be.revertedWith(
+      "Results are embargoed until the survey has ended",
+    );
+
+    await increaseTime(86400);
+    await expect(respond(alice, surveyId, [0, 5])).to.be.revertedWith("Survey has ended");
+  });
+});
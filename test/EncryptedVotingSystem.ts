@@ -1,8 +1,10 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm } from "hardhat";
-import { EncryptedVotingSystem, EncryptedVotingSystem__factory } from "../types";
+import { EncryptedVotingSystem, EncryptedVotingSystem__factory, MockVotesToken } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { runInstantRunoff, unpackRanking } from "../tasks/instantRunoff";
+import { buildMerkleTree } from "../frontend/lib/merkle";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -11,9 +13,53 @@ type Signers = {
   charlie: HardhatEthersSigner;
 };
 
+const EligibilityMode = { Open: 0, Allowlist: 1, Merkle: 2 };
+const BallotType = { Plurality: 0, Ranked: 1, Approval: 2 };
+const Role = {
+  Admin: ethers.id("ADMIN_ROLE"),
+  VoteCreator: ethers.id("VOTE_CREATOR_ROLE"),
+  Tallier: ethers.id("TALLIER_ROLE"),
+  Pauser: ethers.id("PAUSER_ROLE"),
+};
+const VoteState = { Draft: 0, Scheduled: 1, Open: 2, Closed: 3, Tallied: 4, Cancelled: 5 };
+const Threshold = { None: 0, Majority: 1, Supermajority: 2, Count: 3 };
+
+const NO_RULES = { quorum: 0, threshold: Threshold.None, thresholdCount: 0, outcomeOnly: false };
+
+// Embargoed, open, unweighted plurality vote without revoting or pass rules
+const DEFAULT_SETTINGS = {
+  liveResults: false,
+  eligibility: EligibilityMode.Open,
+  merkleRoot: ethers.ZeroHash,
+  weightToken: ethers.ZeroAddress,
+  weightUnit: 0n,
+  ballotType: BallotType.Plurality,
+  allowRevote: false,
+  draft: false,
+  rules: NO_RULES,
+};
+
+// Pack option indices four bits each, first preference lowest, terminated by 0xF
+function packRanking(ranking: number[]) {
+  return [...ranking, 0xf].reduceRight((packed, option) => (packed << 4n) | BigInt(option), 0n);
+}
+
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("EncryptedVotingSystem")) as EncryptedVotingSystem__factory;
-  const votingSystemContract = (await factory.deploy()) as EncryptedVotingSystem;
+  const ballotTally = await (await ethers.getContractFactory("BallotTally")).deploy();
+  const rankedBallots = await (await ethers.getContractFactory("RankedBallots")).deploy();
+  const voteDetails = await (await ethers.getContractFactory("VoteDetails")).deploy();
+  const voteDelegation = await (await ethers.getContractFactory("VoteDelegation")).deploy();
+  const voterEligibility = await (await ethers.getContractFactory("VoterEligibility")).deploy();
+  const factory = (await ethers.getContractFactory("EncryptedVotingSystem", {
+    libraries: {
+      BallotTally: await ballotTally.getAddress(),
+      RankedBallots: await rankedBallots.getAddress(),
+      VoteDetails: await voteDetails.getAddress(),
+      VoteDelegation: await voteDelegation.getAddress(),
+      VoterEligibility: await voterEligibility.getAddress(),
+    },
+  })) as EncryptedVotingSystem__factory;
+  const votingSystemContract = (await factory.deploy(ethers.ZeroAddress)) as EncryptedVotingSystem;
   const votingSystemContractAddress = await votingSystemContract.getAddress();
 
   return { votingSystemContract, votingSystemContractAddress };
@@ -44,376 +90,1169 @@ describe("EncryptedVotingSystem", function () {
     ({ votingSystemContract, votingSystemContractAddress } = await deployFixture());
   });
 
-  it("should initialize voting with options", async function () {
+  async function createVote(
+    options: string[],
+    liveResults = true,
+    eligibility = EligibilityMode.Open,
+    merkleRoot = ethers.ZeroHash,
+    weightToken = ethers.ZeroAddress,
+    weightUnit = 0n,
+    ballotType = BallotType.Plurality,
+    allowRevote = false,
+    draft = false,
+  ) {
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    await votingSystemContract.createVote("Test vote", "Test description", options, 0, endTime, {
+      liveResults,
+      eligibility,
+      merkleRoot,
+      weightToken,
+      weightUnit,
+      ballotType,
+      allowRevote,
+      draft,
+      rules: NO_RULES,
+    });
+    return Number(await votingSystemContract.getNextVoteId()) - 1;
+  }
+
+  async function latestTimestamp() {
+    return (await ethers.provider.getBlock("latest"))!.timestamp;
+  }
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  async function castEncryptedVote(voter: HardhatEthersSigner, voteId: number, optionId: number) {
+    const encryptedOption = await fhevm
+      .createEncryptedInput(votingSystemContractAddress, voter.address)
+      .add32(optionId)
+      .encrypt();
+
+    const tx = await votingSystemContract
+      .connect(voter)
+      .castVote(voteId, encryptedOption.handles[0], encryptedOption.inputProof);
+    await tx.wait();
+  }
+
+  async function decryptTallies(voteId: number, reader: HardhatEthersSigner) {
+    await (await votingSystemContract.connect(reader).requestDecryptVoteResults(voteId, 0)).wait();
+
+    const tallies = await votingSystemContract.getEncryptedTallies(voteId);
+    const counts: number[] = [];
+    for (const tally of tallies) {
+      counts.push(
+        Number(await fhevm.userDecryptEuint(FhevmType.euint32, tally, votingSystemContractAddress, reader)),
+      );
+    }
+    return counts;
+  }
+
+  it("should create a vote with options", async function () {
     const options = ["Option A", "Option B", "Option C"];
-    await votingSystemContract.initializeVoting(options);
+    const voteId = await createVote(options);
 
     const nextVoteId = await votingSystemContract.getNextVoteId();
     expect(nextVoteId).to.equal(2); // Should be incremented after creating vote
-  });
 
-    const optionCount = await votingSystemContract.getOptionCount();
-    expect(optionCount).to.eq(3);
+    const vote = await votingSystemContract.getVote(voteId);
+    expect(vote.options).to.deep.eq(options);
+    expect(vote.active).to.be.true;
 
-    for (let i = 0; i < options.length; i++) {
-      const description = await votingSystemContract.getOptionDescription(i);
-      expect(description).to.eq(options[i]);
-    }
+    const tallies = await votingSystemContract.getEncryptedTallies(voteId);
+    expect(tallies.length).to.eq(options.length);
   });
 
   it("should allow users to cast votes", async function () {
-    const options = ["Option A", "Option B"];
-    await votingSystemContract.initializeVoting(options);
+    const voteId = await createVote(["Option A", "Option B"]);
 
     // Alice votes for option 0
-    await votingSystemContract.connect(signers.alice).castVote(0, "0x00");
-
-    const voteCount0 = await votingSystemContract.getVoteCount(0);
-    const voteCount1 = await votingSystemContract.getVoteCount(1);
-    const totalVotes = await votingSystemContract.getTotalVotes();
+    await castEncryptedVote(signers.alice, voteId, 0);
 
-    expect(voteCount0).to.eq(1);
-    expect(voteCount1).to.eq(0);
-    expect(totalVotes).to.eq(1);
+    expect(await votingSystemContract.getVoteCount(voteId)).to.eq(1);
+    expect(await votingSystemContract.hasVotedInVote(voteId, signers.alice.address)).to.be.true;
+    expect(await decryptTallies(voteId, signers.alice)).to.deep.eq([1, 0]);
   });
 
   it("should prevent double voting", async function () {
-    const options = ["Option A", "Option B"];
-    await votingSystemContract.initializeVoting(options);
+    const voteId = await createVote(["Option A", "Option B"]);
 
     // Alice votes for option 0
-    await votingSystemContract.connect(signers.alice).castVote(0, "0x00");
+    await castEncryptedVote(signers.alice, voteId, 0);
 
     // Alice tries to vote again - should fail
-    await expect(
-      votingSystemContract.connect(signers.alice).castVote(1, "0x00")
-    ).to.be.revertedWith("Already voted");
+    await expect(castEncryptedVote(signers.alice, voteId, 1)).to.be.revertedWith("Already voted in this vote");
   });
 
-  it("should track multiple votes correctly", async function () {
-    const options = ["Option A", "Option B"];
-    await votingSystemContract.initializeVoting(options);
+  it("should tally multiple votes homomorphically per option", async function () {
+    const voteId = await createVote(["Option A", "Option B"]);
 
     // Alice votes for option 0
-    await votingSystemContract.connect(signers.alice).castVote(0, "0x00");
+    await castEncryptedVote(signers.alice, voteId, 0);
 
     // Bob votes for option 1
-    await votingSystemContract.connect(signers.bob).castVote(1, "0x00");
+    await castEncryptedVote(signers.bob, voteId, 1);
 
     // Charlie votes for option 0
-    await votingSystemContract.connect(signers.charlie).castVote(0, "0x00");
+    await castEncryptedVote(signers.charlie, voteId, 0);
+
+    expect(await votingSystemContract.getVoteCount(voteId)).to.eq(3);
+    expect(await decryptTallies(voteId, signers.deployer)).to.deep.eq([2, 1]);
+  });
 
-    const voteCount0 = await votingSystemContract.getVoteCount(0);
-    const voteCount1 = await votingSystemContract.getVoteCount(1);
-    const totalVotes = await votingSystemContract.getTotalVotes();
+  it("should only grant ballot access to its voter", async function () {
+    const voteId = await createVote(["Option A", "Option B"]);
+    await castEncryptedVote(signers.alice, voteId, 1);
 
-    expect(voteCount0).to.eq(2);
-    expect(voteCount1).to.eq(1);
-    expect(totalVotes).to.eq(3);
+    const ballot = await votingSystemContract.getEncryptedBallot(voteId, signers.alice.address);
+    const clearBallot = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      ballot,
+      votingSystemContractAddress,
+      signers.alice,
+    );
+    expect(clearBallot).to.eq(1);
+
+    // Requesting the results grants access to the counters, not to the individual ballots
+    await (await votingSystemContract.connect(signers.bob).requestDecryptVoteResults(voteId, 0)).wait();
+    await expect(
+      fhevm.userDecryptEuint(FhevmType.euint32, ballot, votingSystemContractAddress, signers.bob),
+    ).to.be.rejected;
   });
 
-  it("should provide voting statistics for vote analytics", async function () {
-    const options = ["Option A", "Option B"];
-    await votingSystemContract.initializeVoting(options);
+  it("should embargo results until the vote has ended", async function () {
+    const voteId = await createVote(["Option A", "Option B"], false);
+    await castEncryptedVote(signers.alice, voteId, 1);
 
-    // Alice votes for option 0
-    await votingSystemContract.connect(signers.alice).castVote(0, "0x00");
+    expect(await votingSystemContract.areResultsAvailable(voteId)).to.be.false;
+    await expect(
+      votingSystemContract.connect(signers.alice).requestDecryptVoteResults(voteId, 0),
+    ).to.be.revertedWith("Results are embargoed until the vote has ended");
 
-    // Bob votes for option 1
-    await votingSystemContract.connect(signers.bob).castVote(1, "0x00");
+    await ethers.provider.send("evm_increaseTime", [7 * 86400]);
+    await ethers.provider.send("evm_mine", []);
 
-    const [totalVotes, uniqueVoters, isActive] = await votingSystemContract.getVoteStatistics(0);
+    // The end time alone does not lift the embargo, endVote has to run
+    expect(await votingSystemContract.areResultsAvailable(voteId)).to.be.false;
+    await (await votingSystemContract.endVote(voteId)).wait();
 
-    expect(totalVotes).to.equal(2);
-    expect(uniqueVoters).to.equal(2);
-    expect(isActive).to.be.true;
+    expect(await votingSystemContract.areResultsAvailable(voteId)).to.be.true;
+    expect(await decryptTallies(voteId, signers.bob)).to.deep.eq([0, 1]);
   });
 
-  it("should support batch voting for multiple vote submissions", async function () {
-    const options = ["Option A", "Option B", "Option C"];
-    await votingSystemContract.initializeVoting(options);
+  it("should allow live results when the vote opts in", async function () {
+    const voteId = await createVote(["Option A", "Option B"], true);
+    await castEncryptedVote(signers.alice, voteId, 0);
 
-    // Create encrypted votes for batch submission
-    const encryptedVote0 = await fhevm
-      .createEncryptedInput(votingSystemContractAddress, signers.alice.address)
-      .add32(0)
-      .encrypt();
+    expect(await votingSystemContract.areResultsAvailable(voteId)).to.be.true;
+    expect(await decryptTallies(voteId, signers.bob)).to.deep.eq([1, 0]);
+  });
 
-    const encryptedVote1 = await fhevm
-      .createEncryptedInput(votingSystemContractAddress, signers.bob.address)
-      .add32(1)
-      .encrypt();
+  it("should embargo batch-initialized votes", async function () {
+    const now = await latestTimestamp();
+    await votingSystemContract.batchInitializeVotes(["Vote"], ["Description"], [["A", "B"]], [0], [now + 3600]);
 
-    // Batch cast votes
-    await votingSystemContract.connect(signers.alice).batchCastVotes(
-      [0, 0], // Same vote ID
-      [encryptedVote0.handles[0], encryptedVote1.handles[0]],
-      [encryptedVote0.inputProof, encryptedVote1.inputProof]
-    );
+    expect(await votingSystemContract.areResultsAvailable(1)).to.be.false;
+  });
+
+  it("should publish verified results through the decryption oracle when the vote ends", async function () {
+    const voteId = await createVote(["Option A", "Option B", "Option C"], false);
+    await castEncryptedVote(signers.alice, voteId, 2);
+    await castEncryptedVote(signers.bob, voteId, 0);
+    await castEncryptedVote(signers.charlie, voteId, 2);
+
+    await ethers.provider.send("evm_increaseTime", [7 * 86400]);
+    await ethers.provider.send("evm_mine", []);
+
+    await expect(votingSystemContract.endVote(voteId)).to.emit(votingSystemContract, "ResultsPublicationRequested");
 
-    const totalVotes = await votingSystemContract.getTotalVotes();
-    expect(totalVotes).to.eq(2);
+    let [published, counts] = await votingSystemContract.getPublishedResults(voteId);
+    expect(published).to.be.false;
+    expect(counts).to.deep.eq([]);
+
+    await fhevm.awaitDecryptionOracle();
+
+    [published, counts] = await votingSystemContract.getPublishedResults(voteId);
+    expect(published).to.be.true;
+    expect(counts.map(Number)).to.deep.eq([1, 0, 2]);
+
+    const events = await votingSystemContract.queryFilter(votingSystemContract.filters.ResultsPublished(voteId));
+    expect(events.length).to.eq(1);
+    expect(events[0].args.counts.map(Number)).to.deep.eq([1, 0, 2]);
+    expect(events[0].args.spoiled).to.eq(0);
   });
 
-  it("should validate voting options within valid range", async function () {
-    const options = ["Option A", "Option B", "Option C"];
-    await votingSystemContract.initializeVoting(options);
+  it("should move a scheduled vote through its lifecycle states", async function () {
+    const startTime = (await latestTimestamp()) + 3600;
+    await votingSystemContract.createVote(
+      "Scheduled",
+      "Opens in an hour",
+      ["Yes", "No"],
+      startTime,
+      startTime + 90 * 60,
+      DEFAULT_SETTINGS,
+    );
+    const voteId = Number(await votingSystemContract.getNextVoteId()) - 1;
+
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Scheduled);
+    await expect(castEncryptedVote(signers.alice, voteId, 0)).to.be.revertedWith("Voting has not started yet");
+
+    await increaseTime(3600);
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Open);
+    await castEncryptedVote(signers.alice, voteId, 0);
 
-    expect(await votingSystemContract.validateVoteOption(0, 0)).to.be.true; // Valid option
-    expect(await votingSystemContract.validateVoteOption(0, 2)).to.be.true; // Valid option
-    expect(await votingSystemContract.validateVoteOption(0, 3)).to.be.false; // Invalid option
+    await increaseTime(90 * 60);
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Closed);
+    await (await votingSystemContract.endVote(voteId)).wait();
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Closed);
+
+    await fhevm.awaitDecryptionOracle();
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Tallied);
   });
 
-  it("should calculate participation rate for voting analytics", async function () {
-    const options = ["Yes", "No"];
-    await votingSystemContract.initializeVoting(options);
+  it("should keep draft votes closed until their creator publishes them", async function () {
+    const voteId = await createVote(
+      ["Yes", "No"],
+      true,
+      EligibilityMode.Open,
+      ethers.ZeroHash,
+      ethers.ZeroAddress,
+      0n,
+      BallotType.Plurality,
+      false,
+      true,
+    );
 
-    // Cast some votes
-    await votingSystemContract.connect(signers.alice).castVote(0, "0x00");
-    await votingSystemContract.connect(signers.bob).castVote(1, "0x00");
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Draft);
+    await expect(castEncryptedVote(signers.alice, voteId, 0)).to.be.revertedWith("Vote has not been published yet");
+    await expect(votingSystemContract.connect(signers.alice).publishVote(voteId)).to.be.revertedWith(
+      "Only the vote creator can publish the vote",
+    );
 
-    const [participationRate, actualVotes] = await votingSystemContract.getParticipationRate(0, 10);
+    await expect(votingSystemContract.publishVote(voteId)).to.emit(votingSystemContract, "VotePublished");
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Open);
+    await castEncryptedVote(signers.alice, voteId, 0);
 
-    expect(actualVotes).to.equal(2);
-    expect(participationRate).to.equal(20); // 2/10 * 100 = 20%
+    await expect(votingSystemContract.publishVote(voteId)).to.be.revertedWith("Vote is not a draft");
   });
 
-  it("should support batch vote initialization for multiple votes", async function () {
-    const titles = ["Vote 1", "Vote 2"];
-    const descriptions = ["Description 1", "Description 2"];
-    const optionsList = [["A", "B"], ["X", "Y", "Z"]];
-    const startTimes = [Math.floor(Date.now() / 1000), Math.floor(Date.now() / 1000) + 100];
-    const endTimes = [Math.floor(Date.now() / 1000) + 3600, Math.floor(Date.now() / 1000) + 3700];
+  it("should let the creator or owner cancel a vote without ever tallying it", async function () {
+    const voteId = await createVote(["Yes", "No"]);
+    await castEncryptedVote(signers.alice, voteId, 0);
 
-    await votingSystemContract.batchInitializeVotes(
-      titles,
-      descriptions,
-      optionsList,
-      startTimes,
-      endTimes
+    await expect(votingSystemContract.connect(signers.bob).cancelVote(voteId, "Spam")).to.be.revertedWith(
+      "Not the creator or an admin",
     );
+    await expect(votingSystemContract.cancelVote(voteId, "")).to.be.revertedWith("Cancellation reason required");
 
-    const nextVoteId = await votingSystemContract.getNextVoteId();
-    expect(nextVoteId).to.equal(3); // Started from 1, added 2 more
+    await expect(votingSystemContract.cancelVote(voteId, "Duplicate poll"))
+      .to.emit(votingSystemContract, "VoteCancelled")
+      .withArgs(voteId, signers.deployer.address, "Duplicate poll");
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Cancelled);
+    expect(await votingSystemContract.areResultsAvailable(voteId)).to.be.false;
+
+    await expect(castEncryptedVote(signers.bob, voteId, 1)).to.be.revertedWith("Vote was cancelled");
+    await expect(votingSystemContract.requestDecryptVoteResults(voteId, 1)).to.be.revertedWith(
+      "Results are embargoed until the vote has ended",
+    );
+
+    await increaseTime(7 * 86400);
+    await expect(votingSystemContract.endVote(voteId)).to.be.revertedWith("Vote is already ended");
+    await expect(votingSystemContract.cancelVote(voteId, "Again")).to.be.revertedWith("Vote is already ended");
   });
 
-  it("should record daily study time and accumulate total study time", async function () {
-    // Encrypt study time (30 minutes) as a euint32
-    const studyMinutes = 30;
-    const encryptedStudyTime = await fhevm
-      .createEncryptedInput(studyTrackerContractAddress, signers.alice.address)
-      .add32(studyMinutes)
-      .encrypt();
+  it("should not cancel a vote once its end time has passed", async function () {
+    const voteId = await createVote(["Yes", "No"]);
+    await castEncryptedVote(signers.alice, voteId, 0);
+
+    // Closed but not ended yet: the ballots are final and can still be tallied
+    await increaseTime(7 * 86400 + 1);
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Closed);
+    await expect(votingSystemContract.cancelVote(voteId, "Too late")).to.be.revertedWith("Vote is already ended");
+
+    await (await votingSystemContract.endVote(voteId)).wait();
+    await expect(votingSystemContract.cancelVote(voteId, "Too late")).to.be.revertedWith("Vote is already ended");
+    expect(await votingSystemContract.getVoteState(voteId)).to.not.eq(VoteState.Cancelled);
+  });
 
-    // Record study time
-    const tx = await studyTrackerContract
+  it("should let the owner close a vote early and publish its results", async function () {
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    await votingSystemContract
       .connect(signers.alice)
-      .recordStudyTime(encryptedStudyTime.handles[0], encryptedStudyTime.inputProof);
-    await tx.wait();
+      .createVote("Quorum", "Closes once everyone voted", ["Yes", "No"], 0, endTime, DEFAULT_SETTINGS);
+    const voteId = Number(await votingSystemContract.getNextVoteId()) - 1;
+    await castEncryptedVote(signers.alice, voteId, 0);
+    await castEncryptedVote(signers.bob, voteId, 0);
 
-    // Get encrypted values
-    const encryptedDailyTime = await studyTrackerContract.getDailyStudyTime();
-    const encryptedTotalTime = await studyTrackerContract.getTotalStudyTime();
+    await expect(votingSystemContract.connect(signers.bob).closeVoteEarly(voteId)).to.be.revertedWith(
+      "Not the creator or an admin",
+    );
+    await expect(votingSystemContract.closeVoteEarly(voteId))
+      .to.emit(votingSystemContract, "VoteClosedEarly")
+      .withArgs(voteId, signers.deployer.address)
+      .and.to.emit(votingSystemContract, "ResultsPublicationRequested");
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Closed);
+    await expect(castEncryptedVote(signers.charlie, voteId, 1)).to.be.revertedWith("Voting has ended");
+
+    await fhevm.awaitDecryptionOracle();
+    const [published, counts] = await votingSystemContract.getPublishedResults(voteId);
+    expect(published).to.be.true;
+    expect(counts.map(Number)).to.deep.eq([2, 0]);
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Tallied);
+  });
 
-    // Check that handles are initialized (non-zero)
-    expect(encryptedDailyTime).to.not.eq(ethers.ZeroHash);
-    expect(encryptedTotalTime).to.not.eq(ethers.ZeroHash);
+  it("should restrict vote creation and role management to role holders", async function () {
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    const createAs = (signer: HardhatEthersSigner) =>
+      votingSystemContract
+        .connect(signer)
+        .createVote("Roles", "Who may create votes", ["Yes", "No"], 0, endTime, DEFAULT_SETTINGS);
 
-    // Decrypt and verify
-    const clearDailyTime = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedDailyTime,
-      studyTrackerContractAddress,
-      signers.alice,
+    expect(await votingSystemContract.hasRole(Role.Admin, signers.deployer.address)).to.be.true;
+    expect(await votingSystemContract.hasRole(Role.Pauser, signers.deployer.address)).to.be.true;
+    expect(await votingSystemContract.hasRole(Role.VoteCreator, ethers.ZeroAddress)).to.be.true;
+    await (await createAs(signers.bob)).wait();
+
+    await expect(
+      votingSystemContract.connect(signers.bob).grantRole(Role.Admin, signers.bob.address),
+    ).to.be.revertedWith("Caller lacks the required role");
+
+    await expect(votingSystemContract.revokeRole(Role.VoteCreator, ethers.ZeroAddress))
+      .to.emit(votingSystemContract, "RoleRevoked")
+      .withArgs(Role.VoteCreator, ethers.ZeroAddress, signers.deployer.address);
+    await expect(createAs(signers.bob)).to.be.revertedWith("Caller lacks the required role");
+
+    await (await votingSystemContract.grantRole(Role.Admin, signers.alice.address)).wait();
+    await expect(votingSystemContract.connect(signers.alice).grantRole(Role.VoteCreator, signers.bob.address))
+      .to.emit(votingSystemContract, "RoleGranted")
+      .withArgs(Role.VoteCreator, signers.bob.address, signers.alice.address);
+    await (await createAs(signers.bob)).wait();
+    const voteId = Number(await votingSystemContract.getNextVoteId()) - 1;
+
+    // Admins can cancel any vote, like the owner
+    await expect(votingSystemContract.connect(signers.alice).cancelVote(voteId, "Test run")).to.emit(
+      votingSystemContract,
+      "VoteCancelled",
     );
-    const clearTotalTime = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedTotalTime,
-      studyTrackerContractAddress,
-      signers.alice,
+  });
+
+  it("should only transfer ownership once the new owner accepts it", async function () {
+    await expect(
+      votingSystemContract.connect(signers.alice).transferOwnership(signers.alice.address),
+    ).to.be.revertedWith("Only owner can transfer ownership");
+
+    await expect(votingSystemContract.transferOwnership(signers.alice.address))
+      .to.emit(votingSystemContract, "OwnershipTransferStarted")
+      .withArgs(signers.deployer.address, signers.alice.address);
+    expect(await votingSystemContract.owner()).to.eq(signers.deployer.address);
+    expect(await votingSystemContract.pendingOwner()).to.eq(signers.alice.address);
+
+    await expect(votingSystemContract.connect(signers.bob).acceptOwnership()).to.be.revertedWith(
+      "Only the pending owner can accept ownership",
+    );
+    await expect(votingSystemContract.connect(signers.alice).acceptOwnership())
+      .to.emit(votingSystemContract, "OwnershipTransferred")
+      .withArgs(signers.deployer.address, signers.alice.address);
+
+    expect(await votingSystemContract.owner()).to.eq(signers.alice.address);
+    expect(await votingSystemContract.pendingOwner()).to.eq(ethers.ZeroAddress);
+    expect(await votingSystemContract.hasRole(Role.Admin, signers.alice.address)).to.be.true;
+    expect(await votingSystemContract.hasRole(Role.Admin, signers.deployer.address)).to.be.false;
+  });
+
+  it("should block vote creation and ballots while paused", async function () {
+    const voteId = await createVote(["Yes", "No"]);
+    await castEncryptedVote(signers.alice, voteId, 0);
+
+    await expect(votingSystemContract.connect(signers.alice).pause()).to.be.revertedWith(
+      "Caller lacks the required role",
+    );
+    await expect(votingSystemContract.pause()).to.emit(votingSystemContract, "Paused").withArgs(signers.deployer.address);
+    expect(await votingSystemContract.paused()).to.be.true;
+
+    await expect(createVote(["Yes", "No"])).to.be.revertedWith("Voting is paused");
+    await expect(castEncryptedVote(signers.bob, voteId, 1)).to.be.revertedWith("Voting is paused");
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    await expect(
+      votingSystemContract.batchInitializeVotes(["Batch"], ["Paused"], [["Yes", "No"]], [0], [endTime]),
+    ).to.be.revertedWith("Voting is paused");
+
+    // Views and closing keep working
+    expect(await votingSystemContract.getVoteCount(voteId)).to.eq(1);
+    await (await votingSystemContract.closeVoteEarly(voteId)).wait();
+
+    await expect(votingSystemContract.unpause()).to.emit(votingSystemContract, "Unpaused");
+    await (
+      await votingSystemContract.batchInitializeVotes(["Batch"], ["Unpaused"], [["Yes", "No"]], [0], [endTime])
+    ).wait();
+  });
+
+  it("should end every expired vote in one call and skip the rest", async function () {
+    const expiredId = await createVote(["Yes", "No"]);
+    const cancelledId = await createVote(["Yes", "No"]);
+    await (await votingSystemContract.cancelVote(cancelledId, "Duplicate")).wait();
+    await increaseTime(7 * 86400 + 1);
+    const openId = await createVote(["Yes", "No"]);
+
+    const voteIds = [expiredId, cancelledId, openId, 999];
+    expect(await votingSystemContract.endExpiredVotes.staticCall(voteIds)).to.eq(1);
+    await expect(votingSystemContract.connect(signers.alice).endExpiredVotes(voteIds))
+      .to.emit(votingSystemContract, "VotingEnded")
+      .withArgs(expiredId);
+
+    expect((await votingSystemContract.getVote(expiredId)).active).to.be.false;
+    expect(await votingSystemContract.getVoteState(openId)).to.eq(VoteState.Open);
+  });
+
+  it("should let the creator or an admin archive ended votes", async function () {
+    const voteId = await createVote(["Yes", "No"]);
+
+    await expect(votingSystemContract.archiveVote(voteId)).to.be.revertedWith("Vote has not ended");
+    await (await votingSystemContract.closeVoteEarly(voteId)).wait();
+    await expect(votingSystemContract.connect(signers.alice).archiveVote(voteId)).to.be.revertedWith(
+      "Not the creator or an admin",
+    );
+    await expect(votingSystemContract.archiveVote(999)).to.be.revertedWith("Vote does not exist");
+
+    await expect(votingSystemContract.archiveVote(voteId))
+      .to.emit(votingSystemContract, "VoteArchived")
+      .withArgs(voteId, signers.deployer.address);
+    expect(await votingSystemContract.isVoteArchived(voteId)).to.be.true;
+    await expect(votingSystemContract.archiveVote(voteId)).to.be.revertedWith("Vote is already archived");
+  });
+
+  it("should let an admin wipe the ballots of a local test vote", async function () {
+    const voteId = await createVote(["Yes", "No"]);
+    await castEncryptedVote(signers.alice, voteId, 0);
+    await castEncryptedVote(signers.bob, voteId, 1);
+
+    await expect(votingSystemContract.connect(signers.alice).wipeBallots(voteId)).to.be.revertedWith(
+      "Caller lacks the required role",
     );
+    await expect(votingSystemContract.wipeBallots(voteId))
+      .to.emit(votingSystemContract, "BallotsWiped")
+      .withArgs(voteId, signers.deployer.address, 2);
+
+    expect(await votingSystemContract.getVoteCount(voteId)).to.eq(0);
+    expect(await votingSystemContract.hasVotedInVote(voteId, signers.alice.address)).to.be.false;
+    expect(await votingSystemContract.getEncryptedBallot(voteId, signers.alice.address)).to.eq(ethers.ZeroHash);
+
+    // Wiped voters may vote again, and only the new ballots are counted
+    await castEncryptedVote(signers.alice, voteId, 1);
+    expect(await decryptTallies(voteId, signers.alice)).to.deep.eq([0, 1]);
+
+    await (await votingSystemContract.closeVoteEarly(voteId)).wait();
+    await expect(votingSystemContract.wipeBallots(voteId)).to.be.revertedWith("Vote is already ended");
+  });
+
+  it("should validate batch-initialized votes like created votes", async function () {
+    const now = await latestTimestamp();
+
+    await expect(
+      votingSystemContract.batchInitializeVotes([""], ["Description"], [["A", "B"]], [0], [now + 3600]),
+    ).to.be.revertedWith("Title cannot be empty");
+    await expect(
+      votingSystemContract.batchInitializeVotes(["Vote"], ["Description"], [["A", "B"]], [now - 60], [now + 3600]),
+    ).to.be.revertedWith("Start time cannot be in the past");
+    await expect(
+      votingSystemContract.batchInitializeVotes(["Vote"], ["Description"], [["A", "B"]], [now + 60], [now + 90]),
+    ).to.be.revertedWith("Duration must be between 1 minute and 365 days");
+  });
+
+  it("should reject oracle callbacks without valid KMS signatures", async function () {
+    const voteId = await createVote(["Option A", "Option B"], false);
+    await ethers.provider.send("evm_increaseTime", [7 * 86400]);
+    await ethers.provider.send("evm_mine", []);
+    await (await votingSystemContract.endVote(voteId)).wait();
 
-    expect(clearDailyTime).to.eq(studyMinutes);
-    expect(clearTotalTime).to.eq(studyMinutes);
+    const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32"], [5, 5]);
+    await expect(votingSystemContract.publishResults(0, cleartexts, "0x")).to.be.reverted;
   });
 
-  it("should accumulate multiple daily study sessions", async function () {
-    // First study session: 45 minutes
-    const firstSession = 45;
-    const encryptedFirst = await fhevm
-      .createEncryptedInput(studyTrackerContractAddress, signers.alice.address)
-      .add32(firstSession)
+  it("should count out-of-range ballots as spoiled instead of tallying them", async function () {
+    const voteId = await createVote(["Option A", "Option B"]);
+    await castEncryptedVote(signers.alice, voteId, 1);
+    await castEncryptedVote(signers.bob, voteId, 999);
+    await castEncryptedVote(signers.charlie, voteId, 2);
+
+    expect(await decryptTallies(voteId, signers.alice)).to.deep.eq([0, 1]);
+    const spoiled = await votingSystemContract.getEncryptedSpoiledCount(voteId);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, spoiled, votingSystemContractAddress, signers.alice),
+    ).to.eq(2);
+
+    await ethers.provider.send("evm_increaseTime", [7 * 86400]);
+    await ethers.provider.send("evm_mine", []);
+    await (await votingSystemContract.endVote(voteId)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    const [published, counts, publishedSpoiled] = await votingSystemContract.getPublishedResults(voteId);
+    expect(published).to.be.true;
+    expect(counts.map(Number)).to.deep.eq([0, 1]);
+    expect(publishedSpoiled).to.eq(2);
+  });
+
+  it("should only accept ballots from allowlisted voters", async function () {
+    const voteId = await createVote(["Yes", "No"], true, EligibilityMode.Allowlist);
+    expect(await votingSystemContract.isEligible(voteId, signers.alice.address)).to.be.false;
+
+    const encryptedOption = await fhevm
+      .createEncryptedInput(votingSystemContractAddress, signers.alice.address)
+      .add32(0)
       .encrypt();
+    await expect(
+      votingSystemContract
+        .connect(signers.alice)
+        .castVote(voteId, encryptedOption.handles[0], encryptedOption.inputProof),
+    ).to.be.revertedWith("Not eligible to vote");
+    await expect(
+      votingSystemContract
+        .connect(signers.alice)
+        .batchCastVotes([voteId], [encryptedOption.handles[0]], [encryptedOption.inputProof]),
+    ).to.be.revertedWith("Not eligible to vote");
 
-    let tx = await studyTrackerContract
-      .connect(signers.alice)
-      .recordStudyTime(encryptedFirst.handles[0], encryptedFirst.inputProof);
-    await tx.wait();
+    await expect(
+      votingSystemContract.connect(signers.alice).addToAllowlist(voteId, [signers.alice.address]),
+    ).to.be.revertedWith("Only the creator sets allowlists");
 
-    // Second study session: 25 minutes (same day)
-    const secondSession = 25;
-    const encryptedSecond = await fhevm
-      .createEncryptedInput(studyTrackerContractAddress, signers.alice.address)
-      .add32(secondSession)
+    await expect(votingSystemContract.addToAllowlist(voteId, [signers.alice.address, signers.bob.address]))
+      .to.emit(votingSystemContract, "EligibilityUpdated")
+      .withArgs(voteId, signers.alice.address, true);
+    await votingSystemContract.removeFromAllowlist(voteId, [signers.bob.address]);
+
+    expect(await votingSystemContract.isEligible(voteId, signers.alice.address)).to.be.true;
+    expect(await votingSystemContract.isEligible(voteId, signers.bob.address)).to.be.false;
+
+    await castEncryptedVote(signers.alice, voteId, 0);
+    expect(await decryptTallies(voteId, signers.alice)).to.deep.eq([1, 0]);
+  });
+
+  it("should let members of a Merkle root prove their eligibility", async function () {
+    const members = [signers.deployer.address, signers.alice.address, signers.bob.address];
+    const tree = buildMerkleTree(members);
+
+    await expect(
+      createVote(["Yes", "No"], true, EligibilityMode.Merkle, ethers.ZeroHash),
+    ).to.be.revertedWith("Merkle root required for Merkle eligibility only");
+
+    const voteId = await createVote(["Yes", "No"], true, EligibilityMode.Merkle, tree.root);
+    const [mode, root] = await votingSystemContract.getVoteEligibility(voteId);
+    expect(mode).to.eq(EligibilityMode.Merkle);
+    expect(root).to.eq(tree.root);
+
+    await expect(
+      votingSystemContract.connect(signers.charlie).proveEligibility(voteId, tree.getProof(signers.bob.address)),
+    ).to.be.revertedWith("Invalid Merkle proof");
+
+    await (await votingSystemContract.connect(signers.bob).proveEligibility(voteId, tree.getProof(signers.bob.address))).wait();
+    expect(await votingSystemContract.isEligible(voteId, signers.bob.address)).to.be.true;
+
+    await castEncryptedVote(signers.bob, voteId, 1);
+    expect(await decryptTallies(voteId, signers.bob)).to.deep.eq([0, 1]);
+  });
+
+  it("should weight ballots by the token balance snapshot taken at vote creation", async function () {
+    const token = (await (await ethers.getContractFactory("MockVotesToken")).deploy()) as MockVotesToken;
+    const tokenAddress = await token.getAddress();
+    await token.mint(signers.alice.address, ethers.parseEther("3"));
+    await token.mint(signers.bob.address, ethers.parseEther("1.5"));
+
+    const voteId = await createVote(
+      ["Yes", "No"],
+      false,
+      EligibilityMode.Open,
+      ethers.ZeroHash,
+      tokenAddress,
+      ethers.parseEther("1"),
+    );
+    // Balances acquired after the snapshot do not count
+    await token.mint(signers.bob.address, ethers.parseEther("10"));
+
+    expect(await votingSystemContract.getVoterWeight(voteId, signers.alice.address)).to.eq(3);
+    expect(await votingSystemContract.getVoterWeight(voteId, signers.bob.address)).to.eq(1);
+
+    await castEncryptedVote(signers.alice, voteId, 0);
+    await castEncryptedVote(signers.bob, voteId, 1);
+
+    const encryptedOption = await fhevm
+      .createEncryptedInput(votingSystemContractAddress, signers.charlie.address)
+      .add32(0)
       .encrypt();
+    await expect(
+      votingSystemContract
+        .connect(signers.charlie)
+        .castVote(voteId, encryptedOption.handles[0], encryptedOption.inputProof),
+    ).to.be.revertedWith("No voting weight at snapshot");
 
-    tx = await studyTrackerContract
-      .connect(signers.alice)
-      .recordStudyTime(encryptedSecond.handles[0], encryptedSecond.inputProof);
-    await tx.wait();
+    await ethers.provider.send("evm_increaseTime", [7 * 86400]);
+    await ethers.provider.send("evm_mine", []);
+    await (await votingSystemContract.endVote(voteId)).wait();
+
+    expect(await decryptTallies(voteId, signers.bob)).to.deep.eq([1, 1]);
+    const weights = [];
+    for (const weight of await votingSystemContract.getEncryptedWeightedTallies(voteId)) {
+      weights.push(
+        Number(await fhevm.userDecryptEuint(FhevmType.euint64, weight, votingSystemContractAddress, signers.bob)),
+      );
+    }
+    expect(weights).to.deep.eq([3, 1]);
+
+    await fhevm.awaitDecryptionOracle();
+    const [published, counts, spoiled, publishedWeights] = await votingSystemContract.getPublishedResults(voteId);
+    expect(published).to.be.true;
+    expect(counts.map(Number)).to.deep.eq([1, 1]);
+    expect(spoiled).to.eq(0);
+    expect(publishedWeights.map(Number)).to.deep.eq([3, 1]);
+  });
 
-    // Get encrypted values
-    const encryptedDailyTime = await studyTrackerContract.getDailyStudyTime();
-    const encryptedTotalTime = await studyTrackerContract.getTotalStudyTime();
+  it("should tally ranked ballots by instant runoff and publish every round", async function () {
+    const options = ["Red", "Green", "Blue"];
+    const voteId = await createVote(
+      options,
+      false,
+      EligibilityMode.Open,
+      ethers.ZeroHash,
+      ethers.ZeroAddress,
+      0n,
+      BallotType.Ranked,
+    );
 
-    // Check that handles are initialized (non-zero)
-    expect(encryptedDailyTime).to.not.eq(ethers.ZeroHash);
-    expect(encryptedTotalTime).to.not.eq(ethers.ZeroHash);
+    const castRankedVote = async (voter: HardhatEthersSigner, ranking: number[]) => {
+      const encryptedRanking = await fhevm
+        .createEncryptedInput(votingSystemContractAddress, voter.address)
+        .add64(packRanking(ranking))
+        .encrypt();
+      await (
+        await votingSystemContract
+          .connect(voter)
+          .castRankedVote(voteId, encryptedRanking.handles[0], encryptedRanking.inputProof)
+      ).wait();
+    };
 
-    // Decrypt and verify
-    const clearDailyTime = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedDailyTime,
-      studyTrackerContractAddress,
-      signers.alice,
+    // Blue leads the first round, but Red wins once the tied Green and then Blue are eliminated
+    await castRankedVote(signers.alice, [2]);
+    await castRankedVote(signers.bob, [1, 0]);
+    await castRankedVote(signers.charlie, [0, 1]);
+
+    const plurality = await fhevm
+      .createEncryptedInput(votingSystemContractAddress, signers.deployer.address)
+      .add32(0)
+      .encrypt();
+    await expect(
+      votingSystemContract.castVote(voteId, plurality.handles[0], plurality.inputProof),
+    ).to.be.revertedWith("Vote requires a ranked ballot");
+    await castRankedVote(signers.deployer, [2, 0]);
+
+    await expect(votingSystemContract.grantRankedBallotAccess(voteId)).to.be.revertedWith("Vote has not ended");
+
+    await ethers.provider.send("evm_increaseTime", [7 * 86400]);
+    await ethers.provider.send("evm_mine", []);
+    await (await votingSystemContract.endVote(voteId)).wait();
+    await expect(votingSystemContract.publishRankedRounds(voteId, [[1, 1, 2]])).to.be.revertedWith(
+      "First round not published",
     );
-    const clearTotalTime = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedTotalTime,
-      studyTrackerContractAddress,
-      signers.alice,
+
+    // The first preferences are tallied on-chain like plurality ballots
+    await fhevm.awaitDecryptionOracle();
+    const [, firstRound] = await votingSystemContract.getPublishedResults(voteId);
+    expect(firstRound.map(Number)).to.deep.eq([1, 1, 2]);
+
+    await expect(
+      votingSystemContract.connect(signers.alice).grantRankedBallotAccess(voteId),
+    ).to.be.revertedWith("Not the creator or a tallier");
+    await (await votingSystemContract.grantRankedBallotAccess(voteId)).wait();
+
+    const [voters, encryptedRankings] = await votingSystemContract.getRankedBallots(voteId);
+    expect(voters).to.deep.eq([
+      signers.alice.address,
+      signers.bob.address,
+      signers.charlie.address,
+      signers.deployer.address,
+    ]);
+    const rankings = [];
+    for (const encryptedRanking of encryptedRankings) {
+      const packed = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedRanking,
+        votingSystemContractAddress,
+        signers.deployer,
+      );
+      rankings.push(unpackRanking(BigInt(packed), options.length));
+    }
+    expect(rankings).to.deep.eq([[2], [1, 0], [0, 1], [2, 0]]);
+
+    // Ties eliminate the highest option index; Alice's ballot is exhausted once Blue is out
+    const rounds = runInstantRunoff(rankings, options.length);
+    expect(rounds).to.deep.eq([
+      [1, 1, 2],
+      [2, 0, 2],
+      [3, 0, 0],
+    ]);
+
+    // The first round is checked against the oracle-published counts, later rounds against the runoff rules
+    await expect(votingSystemContract.publishRankedRounds(voteId, [[2, 0, 2]])).to.be.revertedWith(
+      "First round differs from results",
+    );
+    await expect(
+      votingSystemContract.publishRankedRounds(voteId, [
+        [1, 1, 2],
+        [3, 0, 1],
+      ]),
+    ).to.be.revertedWith("Round is not a runoff");
+    await expect(
+      votingSystemContract.publishRankedRounds(voteId, [
+        [1, 1, 2],
+        [2, 0, 3],
+      ]),
+    ).to.be.revertedWith("Round is not a runoff");
+
+    await expect(votingSystemContract.publishRankedRounds(voteId, rounds))
+      .to.emit(votingSystemContract, "RankedRoundsPublished")
+      .withArgs(voteId, 3);
+    expect((await votingSystemContract.getRankedRounds(voteId)).map((round) => round.map(Number))).to.deep.eq(rounds);
+    await expect(votingSystemContract.publishRankedRounds(voteId, rounds)).to.be.revertedWith(
+      "Rounds already published",
     );
+  });
+
+  it("should add every approved option of an approval ballot to its counter", async function () {
+    const voteId = await createVote(
+      ["Pizza", "Sushi", "Tacos"],
+      false,
+      EligibilityMode.Open,
+      ethers.ZeroHash,
+      ethers.ZeroAddress,
+      0n,
+      BallotType.Approval,
+    );
+
+    await castEncryptedVote(signers.alice, voteId, 0b101);
+    await castEncryptedVote(signers.bob, voteId, 0b011);
+    // A bit beyond the options spoils the whole ballot
+    await castEncryptedVote(signers.charlie, voteId, 0b1001);
 
-    expect(clearDailyTime).to.eq(firstSession + secondSession); // 70 minutes
-    expect(clearTotalTime).to.eq(firstSession + secondSession); // 70 minutes
+    const ballot = await votingSystemContract.getEncryptedBallot(voteId, signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, ballot, votingSystemContractAddress, signers.alice),
+    ).to.eq(0b101);
+
+    await ethers.provider.send("evm_increaseTime", [7 * 86400]);
+    await ethers.provider.send("evm_mine", []);
+    await (await votingSystemContract.endVote(voteId)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    const [published, counts, spoiled] = await votingSystemContract.getPublishedResults(voteId);
+    expect(published).to.be.true;
+    expect(counts.map(Number)).to.deep.eq([2, 1, 1]);
+    expect(spoiled).to.eq(1);
   });
 
-  it("should maintain separate study records for different users", async function () {
-    // Alice studies 60 minutes
-    const aliceStudyTime = 60;
-    const encryptedAlice = await fhevm
-      .createEncryptedInput(studyTrackerContractAddress, signers.alice.address)
-      .add32(aliceStudyTime)
-      .encrypt();
+  it("should publish whether the first option met the quorum and majority threshold", async function () {
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    const rules = { ...NO_RULES, quorum: 3, threshold: Threshold.Majority };
+    await votingSystemContract.createVote("Motion", "Adopt the budget", ["Yes", "No"], 0, endTime, {
+      ...DEFAULT_SETTINGS,
+      rules,
+    });
+    const voteId = Number(await votingSystemContract.getNextVoteId()) - 1;
+    expect((await votingSystemContract.getVoteRules(voteId)).quorum).to.eq(3);
+
+    await castEncryptedVote(signers.alice, voteId, 0);
+    await castEncryptedVote(signers.bob, voteId, 0);
+    await castEncryptedVote(signers.charlie, voteId, 1);
+
+    await increaseTime(7 * 86400);
+    await (await votingSystemContract.endVote(voteId)).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await votingSystemContract.getPublishedOutcome(voteId)).to.deep.eq([true, true]);
+    const [, counts] = await votingSystemContract.getPublishedResults(voteId);
+    expect(counts.map(Number)).to.deep.eq([2, 1]);
+  });
 
-    let tx = await studyTrackerContract
-      .connect(signers.alice)
-      .recordStudyTime(encryptedAlice.handles[0], encryptedAlice.inputProof);
-    await tx.wait();
+  it("should fail a vote that misses its quorum regardless of the tally", async function () {
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    await votingSystemContract.createVote("Motion", "Adopt the budget", ["Yes", "No"], 0, endTime, {
+      ...DEFAULT_SETTINGS,
+      rules: { ...NO_RULES, quorum: 3, threshold: Threshold.Majority },
+    });
+    const voteId = Number(await votingSystemContract.getNextVoteId()) - 1;
 
-    // Bob studies 45 minutes
-    const bobStudyTime = 45;
-    const encryptedBob = await fhevm
-      .createEncryptedInput(studyTrackerContractAddress, signers.bob.address)
-      .add32(bobStudyTime)
-      .encrypt();
+    await castEncryptedVote(signers.alice, voteId, 0);
+    await castEncryptedVote(signers.bob, voteId, 0);
 
-    tx = await studyTrackerContract
-      .connect(signers.bob)
-      .recordStudyTime(encryptedBob.handles[0], encryptedBob.inputProof);
-    await tx.wait();
+    await increaseTime(7 * 86400);
+    await expect(votingSystemContract.endVote(voteId)).to.emit(votingSystemContract, "ResultsPublicationRequested");
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await votingSystemContract.getPublishedOutcome(voteId)).to.deep.eq([true, false]);
+  });
 
-    // Verify Alice's records
-    const aliceDailyTime = await studyTrackerContract.connect(signers.alice).getDailyStudyTime();
-    const aliceTotalTime = await studyTrackerContract.connect(signers.alice).getTotalStudyTime();
+  it("should compare the ballot weights with the threshold of weighted votes", async function () {
+    const token = (await (await ethers.getContractFactory("MockVotesToken")).deploy()) as MockVotesToken;
+    await token.mint(signers.alice.address, ethers.parseEther("1"));
+    await token.mint(signers.bob.address, ethers.parseEther("1"));
+    await token.mint(signers.charlie.address, ethers.parseEther("5"));
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    const settings = { ...DEFAULT_SETTINGS, weightToken: await token.getAddress(), weightUnit: ethers.parseEther("1") };
+
+    // Two ballots of three for the motion, but two units of weight of seven
+    await votingSystemContract.createVote("Motion", "Adopt the budget", ["Yes", "No"], 0, endTime, {
+      ...settings,
+      rules: { ...NO_RULES, threshold: Threshold.Majority },
+    });
+    const majorityId = Number(await votingSystemContract.getNextVoteId()) - 1;
+    await castEncryptedVote(signers.alice, majorityId, 0);
+    await castEncryptedVote(signers.bob, majorityId, 0);
+    await castEncryptedVote(signers.charlie, majorityId, 1);
+
+    // One ballot for the motion, with the five units of weight it needs; the spoiled ballot weighs nothing
+    await votingSystemContract.createVote("Motion", "Amend the charter", ["Yes", "No"], 0, endTime, {
+      ...settings,
+      rules: { ...NO_RULES, threshold: Threshold.Count, thresholdCount: 5 },
+    });
+    const countId = Number(await votingSystemContract.getNextVoteId()) - 1;
+    await castEncryptedVote(signers.alice, countId, 1);
+    await castEncryptedVote(signers.bob, countId, 7);
+    await castEncryptedVote(signers.charlie, countId, 0);
+
+    await increaseTime(7 * 86400);
+    await (await votingSystemContract.endExpiredVotes([majorityId, countId])).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await votingSystemContract.getPublishedOutcome(majorityId)).to.deep.eq([true, false]);
+    expect(await votingSystemContract.getPublishedOutcome(countId)).to.deep.eq([true, true]);
+    const [, counts, spoiled, weights] = await votingSystemContract.getPublishedResults(countId);
+    expect(counts.map(Number)).to.deep.eq([1, 1]);
+    expect(spoiled).to.eq(1);
+    expect(weights.map(Number)).to.deep.eq([5, 1]);
+  });
 
-    const aliceClearDaily = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      aliceDailyTime,
-      studyTrackerContractAddress,
-      signers.alice,
+  it("should only publish the outcome of outcome-only votes", async function () {
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    const rules = { ...NO_RULES, threshold: Threshold.Supermajority, outcomeOnly: true };
+    await expect(
+      votingSystemContract.createVote("Motion", "Amend the charter", ["Yes", "No"], 0, endTime, {
+        ...DEFAULT_SETTINGS,
+        liveResults: true,
+        rules,
+      }),
+    ).to.be.revertedWith("Outcome-only votes need a threshold and embargoed results");
+
+    await votingSystemContract.createVote("Motion", "Amend the charter", ["Yes", "No"], 0, endTime, {
+      ...DEFAULT_SETTINGS,
+      rules,
+    });
+    const voteId = Number(await votingSystemContract.getNextVoteId()) - 1;
+
+    await castEncryptedVote(signers.alice, voteId, 0);
+    await castEncryptedVote(signers.bob, voteId, 1);
+    await castEncryptedVote(signers.charlie, voteId, 1);
+
+    await increaseTime(7 * 86400);
+    await (await votingSystemContract.endVote(voteId)).wait();
+    await expect(votingSystemContract.requestDecryptVoteResults(voteId, 0)).to.be.revertedWith(
+      "Vote only reveals its outcome",
     );
-    const aliceClearTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      aliceTotalTime,
-      studyTrackerContractAddress,
-      signers.alice,
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await votingSystemContract.getPublishedOutcome(voteId)).to.deep.eq([true, false]);
+    const [published, counts] = await votingSystemContract.getPublishedResults(voteId);
+    expect(published).to.be.true;
+    expect(counts).to.be.empty;
+    expect(await votingSystemContract.getVoteState(voteId)).to.eq(VoteState.Tallied);
+  });
+
+  it("should let voters replace their ballot before the deadline when revoting is allowed", async function () {
+    const voteId = await createVote(
+      ["Option A", "Option B"],
+      true,
+      EligibilityMode.Open,
+      ethers.ZeroHash,
+      ethers.ZeroAddress,
+      0n,
+      BallotType.Plurality,
+      true,
     );
 
-    expect(aliceClearDaily).to.eq(aliceStudyTime);
-    expect(aliceClearTotal).to.eq(aliceStudyTime);
+    await castEncryptedVote(signers.alice, voteId, 0);
+    await castEncryptedVote(signers.bob, voteId, 0);
 
-    // Verify Bob's records
-    const bobDailyTime = await studyTrackerContract.connect(signers.bob).getDailyStudyTime();
-    const bobTotalTime = await studyTrackerContract.connect(signers.bob).getTotalStudyTime();
+    const encryptedOption = await fhevm
+      .createEncryptedInput(votingSystemContractAddress, signers.alice.address)
+      .add32(1)
+      .encrypt();
+    await expect(
+      votingSystemContract
+        .connect(signers.alice)
+        .castVote(voteId, encryptedOption.handles[0], encryptedOption.inputProof),
+    )
+      .to.emit(votingSystemContract, "VoteChanged")
+      .withArgs(voteId, signers.alice.address);
+
+    // The replaced ballot is subtracted, so Alice still counts once
+    expect(await votingSystemContract.getVoteCount(voteId)).to.eq(2);
+    expect(await decryptTallies(voteId, signers.alice)).to.deep.eq([1, 1]);
+
+    const ballot = await votingSystemContract.getEncryptedBallot(voteId, signers.alice.address);
+    expect(
+      await fhevm.userDecryptEuint(FhevmType.euint32, ballot, votingSystemContractAddress, signers.alice),
+    ).to.eq(1);
+
+    await ethers.provider.send("evm_increaseTime", [7 * 86400 + 1]);
+    await ethers.provider.send("evm_mine", []);
+    const lateOption = await fhevm
+      .createEncryptedInput(votingSystemContractAddress, signers.bob.address)
+      .add32(1)
+      .encrypt();
+    await expect(
+      votingSystemContract.connect(signers.bob).castVote(voteId, lateOption.handles[0], lateOption.inputProof),
+    ).to.be.revertedWith("Voting has ended");
+  });
 
-    const bobClearDaily = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      bobDailyTime,
-      studyTrackerContractAddress,
-      signers.bob,
+  it("should cast a delegate's ballot along delegation chains with each delegator's weight", async function () {
+    const token = (await (await ethers.getContractFactory("MockVotesToken")).deploy()) as MockVotesToken;
+    await token.mint(signers.alice.address, ethers.parseEther("2"));
+    await token.mint(signers.bob.address, ethers.parseEther("3"));
+    await token.mint(signers.charlie.address, ethers.parseEther("1"));
+    const voteId = await createVote(
+      ["Yes", "No"],
+      true,
+      EligibilityMode.Open,
+      ethers.ZeroHash,
+      await token.getAddress(),
+      ethers.parseEther("1"),
     );
-    const bobClearTotal = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      bobTotalTime,
-      studyTrackerContractAddress,
-      signers.bob,
+
+    // Alice delegates every vote to Bob, who delegates this vote to Charlie
+    await expect(votingSystemContract.connect(signers.alice).delegate(0, signers.bob.address))
+      .to.emit(votingSystemContract, "DelegateChanged")
+      .withArgs(0, signers.alice.address, signers.bob.address);
+    await (await votingSystemContract.connect(signers.bob).delegate(voteId, signers.charlie.address)).wait();
+
+    await castEncryptedVote(signers.charlie, voteId, 1);
+    expect(await votingSystemContract.getVoteCount(voteId)).to.eq(3);
+    expect(await votingSystemContract.hasVotedInVote(voteId, signers.alice.address)).to.be.false;
+    const [delegatee, ballotDelegate] = await votingSystemContract.getDelegation(voteId, signers.alice.address);
+    expect(delegatee).to.eq(signers.bob.address);
+    expect(ballotDelegate).to.eq(signers.charlie.address);
+
+    const decryptWeights = async () => {
+      const weights = [];
+      for (const weight of await votingSystemContract.getEncryptedWeightedTallies(voteId)) {
+        weights.push(
+          Number(await fhevm.userDecryptEuint(FhevmType.euint64, weight, votingSystemContractAddress, signers.bob)),
+        );
+      }
+      return weights;
+    };
+    expect(await decryptTallies(voteId, signers.bob)).to.deep.eq([0, 3]);
+    expect(await decryptWeights()).to.deep.eq([0, 6]);
+
+    // Alice's direct vote replaces the ballot Charlie cast for her
+    await castEncryptedVote(signers.alice, voteId, 0);
+    expect(await votingSystemContract.getVoteCount(voteId)).to.eq(3);
+    expect((await votingSystemContract.getDelegation(voteId, signers.alice.address))[1]).to.eq(ethers.ZeroAddress);
+    expect(await decryptTallies(voteId, signers.bob)).to.deep.eq([1, 2]);
+    expect(await decryptWeights()).to.deep.eq([2, 4]);
+  });
+
+  it("should reject self-delegation, delegation cycles and delegating a vote already voted in", async function () {
+    const voteId = await createVote(["Option A", "Option B"]);
+
+    await expect(
+      votingSystemContract.connect(signers.alice).delegate(0, signers.alice.address),
+    ).to.be.revertedWith("Cannot delegate to yourself");
+
+    // Alice -> Bob -> Charlie, so Charlie cannot delegate back to Alice
+    await (await votingSystemContract.connect(signers.alice).delegate(0, signers.bob.address)).wait();
+    await (await votingSystemContract.connect(signers.bob).delegate(0, signers.charlie.address)).wait();
+    await expect(
+      votingSystemContract.connect(signers.charlie).delegate(0, signers.alice.address),
+    ).to.be.revertedWith("Delegation would create a cycle");
+    await expect(
+      votingSystemContract.connect(signers.charlie).delegate(voteId, signers.alice.address),
+    ).to.be.revertedWith("Delegation would create a cycle");
+
+    await castEncryptedVote(signers.charlie, voteId, 1);
+    await expect(
+      votingSystemContract.connect(signers.charlie).delegate(voteId, signers.deployer.address),
+    ).to.be.revertedWith("Already voted in this vote");
+
+    // Delegating to a voter who already voted casts their ballot right away
+    await expect(votingSystemContract.connect(signers.deployer).delegate(voteId, signers.charlie.address))
+      .to.emit(votingSystemContract, "DelegatedBallotCast")
+      .withArgs(voteId, signers.deployer.address, signers.charlie.address);
+    expect(await decryptTallies(voteId, signers.charlie)).to.deep.eq([0, 4]);
+
+    const rankedId = await createVote(
+      ["Option A", "Option B"],
+      true,
+      EligibilityMode.Open,
+      ethers.ZeroHash,
+      ethers.ZeroAddress,
+      0n,
+      BallotType.Ranked,
     );
+    await expect(
+      votingSystemContract.connect(signers.alice).delegate(rankedId, signers.bob.address),
+    ).to.be.revertedWith("Ranked votes cannot be delegated");
 
-    expect(bobClearDaily).to.eq(bobStudyTime);
-    expect(bobClearTotal).to.eq(bobStudyTime);
+    const allowlistId = await createVote(["Option A", "Option B"], true, EligibilityMode.Allowlist);
+    await expect(
+      votingSystemContract.connect(signers.alice).delegate(allowlistId, signers.bob.address),
+    ).to.be.revertedWith("Not eligible to vote");
   });
 
-  it("should reset daily study time on new day", async function () {
-    // Set up: record study time today
-    const todayStudyTime = 90;
-    const encryptedToday = await fhevm
-      .createEncryptedInput(studyTrackerContractAddress, signers.alice.address)
-      .add32(todayStudyTime)
-      .encrypt();
+  it("should reject delegations a ballot cannot represent and let delegates turn delegations down", async function () {
+    const voteId = await createVote(["Option A", "Option B"]);
+    const voters = (await ethers.getSigners()).slice(4, 9);
 
-    let tx = await studyTrackerContract
-      .connect(signers.alice)
-      .recordStudyTime(encryptedToday.handles[0], encryptedToday.inputProof);
-    await tx.wait();
+    // Bob and the four voters delegating to him all count in Charlie's ballot
+    await (await votingSystemContract.connect(signers.bob).delegate(voteId, signers.charlie.address)).wait();
+    for (const voter of voters.slice(0, 4)) {
+      await (await votingSystemContract.connect(voter).delegate(voteId, signers.bob.address)).wait();
+    }
+    await expect(votingSystemContract.connect(voters[4]).delegate(voteId, signers.bob.address)).to.be.revertedWith(
+      "Delegate represents too many",
+    );
+    await expect(
+      votingSystemContract.connect(signers.alice).delegate(voteId, signers.charlie.address),
+    ).to.be.revertedWith("Delegate represents too many");
 
-    // Manually advance time by 1 day (86400 seconds)
-    await ethers.provider.send("evm_increaseTime", [86400]);
-    await ethers.provider.send("evm_mine", []);
+    // Bob turns down a delegation made to fill the chain, which makes room for Alice
+    await expect(
+      votingSystemContract.connect(signers.charlie).removeDelegator(voteId, voters[0].address),
+    ).to.be.revertedWith("Not delegating to the caller");
+    await expect(votingSystemContract.connect(signers.bob).removeDelegator(voteId, voters[0].address))
+      .to.emit(votingSystemContract, "DelegateChanged")
+      .withArgs(voteId, voters[0].address, ethers.ZeroAddress);
+    await (await votingSystemContract.connect(signers.alice).delegate(voteId, signers.charlie.address)).wait();
+
+    await castEncryptedVote(signers.charlie, voteId, 1);
+    expect(await votingSystemContract.getVoteCount(voteId)).to.eq(6);
+    expect(await votingSystemContract.hasVotedInVote(voteId, voters[0].address)).to.be.false;
+    expect(await decryptTallies(voteId, signers.charlie)).to.deep.eq([0, 6]);
+  });
 
-    // Record study time for the new day
-    const newDayStudyTime = 60;
-    const encryptedNewDay = await fhevm
-      .createEncryptedInput(studyTrackerContractAddress, signers.alice.address)
-      .add32(newDayStudyTime)
-      .encrypt();
+  it("should provide voting statistics for vote analytics", async function () {
+    const voteId = await createVote(["Option A", "Option B"]);
 
-    tx = await studyTrackerContract
-      .connect(signers.alice)
-      .recordStudyTime(encryptedNewDay.handles[0], encryptedNewDay.inputProof);
-    await tx.wait();
+    // Alice votes for option 0
+    await castEncryptedVote(signers.alice, voteId, 0);
 
-    // Get encrypted values
-    const encryptedDailyTime = await studyTrackerContract.getDailyStudyTime();
-    const encryptedTotalTime = await studyTrackerContract.getTotalStudyTime();
+    // Bob votes for option 1
+    await castEncryptedVote(signers.bob, voteId, 1);
 
-    // Check that handles are initialized (non-zero)
-    expect(encryptedDailyTime).to.not.eq(ethers.ZeroHash);
-    expect(encryptedTotalTime).to.not.eq(ethers.ZeroHash);
+    const [totalVotes, uniqueVoters, isActive] = await votingSystemContract.getVoteStatistics(voteId);
 
-    // Decrypt and verify
-    const clearDailyTime = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedDailyTime,
-      studyTrackerContractAddress,
-      signers.alice,
+    expect(totalVotes).to.equal(2);
+    expect(uniqueVoters).to.equal(2);
+    expect(isActive).to.be.true;
+  });
+
+  it("should count each voter once per vote and once across votes", async function () {
+    const revotableId = await createVote(
+      ["Option A", "Option B"],
+      true,
+      EligibilityMode.Open,
+      ethers.ZeroHash,
+      ethers.ZeroAddress,
+      0n,
+      BallotType.Plurality,
+      true,
     );
-    const clearTotalTime = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedTotalTime,
-      studyTrackerContractAddress,
-      signers.alice,
+    const otherId = await createVote(["Yes", "No"]);
+
+    // Alice replaces her ballot, then votes again in the other vote
+    await castEncryptedVote(signers.alice, revotableId, 0);
+    await castEncryptedVote(signers.alice, revotableId, 1);
+    await castEncryptedVote(signers.alice, otherId, 0);
+    await castEncryptedVote(signers.bob, otherId, 1);
+
+    const [totalVotes, uniqueVoters] = await votingSystemContract.getVoteStatistics(revotableId);
+    expect(totalVotes).to.equal(2);
+    expect(uniqueVoters).to.equal(1);
+    expect(await votingSystemContract.getVoteCount(revotableId)).to.equal(1);
+    expect(await votingSystemContract.getParticipantCount()).to.equal(2);
+
+    // Delegators count like direct voters, once even when they then vote themselves
+    await (await votingSystemContract.connect(signers.charlie).delegate(otherId, signers.bob.address)).wait();
+    expect(await votingSystemContract.getVoteCount(otherId)).to.equal(3);
+    expect(await votingSystemContract.getParticipantCount()).to.equal(3);
+    await castEncryptedVote(signers.charlie, revotableId, 0);
+    expect(await votingSystemContract.getParticipantCount()).to.equal(3);
+  });
+
+  it("should support batch voting for multiple vote submissions", async function () {
+    const firstVoteId = await createVote(["Option A", "Option B", "Option C"]);
+    const secondVoteId = await createVote(["Yes", "No"]);
+
+    // Create encrypted votes for batch submission
+    const encryptedVote0 = await fhevm
+      .createEncryptedInput(votingSystemContractAddress, signers.alice.address)
+      .add32(2)
+      .encrypt();
+
+    const encryptedVote1 = await fhevm
+      .createEncryptedInput(votingSystemContractAddress, signers.alice.address)
+      .add32(1)
+      .encrypt();
+
+    // Batch cast votes
+    await votingSystemContract.connect(signers.alice).batchCastVotes(
+      [firstVoteId, secondVoteId],
+      [encryptedVote0.handles[0], encryptedVote1.handles[0]],
+      [encryptedVote0.inputProof, encryptedVote1.inputProof]
     );
 
-    expect(clearDailyTime).to.eq(newDayStudyTime); // Only new day's time
-    expect(clearTotalTime).to.eq(todayStudyTime + newDayStudyTime); // Accumulated total
+    expect(await votingSystemContract.getVoteCount(firstVoteId)).to.eq(1);
+    expect(await votingSystemContract.getVoteCount(secondVoteId)).to.eq(1);
+    expect(await decryptTallies(firstVoteId, signers.alice)).to.deep.eq([0, 0, 1]);
+    expect(await decryptTallies(secondVoteId, signers.alice)).to.deep.eq([0, 1]);
+  });
+
+  it("should validate voting options within valid range", async function () {
+    const voteId = await createVote(["Option A", "Option B", "Option C"]);
+
+    expect(await votingSystemContract.validateVoteOption(voteId, 0)).to.be.true; // Valid option
+    expect(await votingSystemContract.validateVoteOption(voteId, 2)).to.be.true; // Valid option
+    expect(await votingSystemContract.validateVoteOption(voteId, 3)).to.be.false; // Invalid option
   });
 
-  it("should return correct current date", async function () {
-    const currentDate = await studyTrackerContract.getCurrentDate();
-    const expectedDate = Math.floor(Date.now() / 1000 / 86400);
+  it("should calculate participation rate for voting analytics", async function () {
+    const voteId = await createVote(["Yes", "No"]);
+
+    // Cast some votes
+    await castEncryptedVote(signers.alice, voteId, 0);
+    await castEncryptedVote(signers.bob, voteId, 1);
+
+    const [participationRate, actualVotes] = await votingSystemContract.getParticipationRate(voteId, 10);
 
-    // Allow for some time difference in testing
-    expect(Number(currentDate)).to.be.closeTo(expectedDate, 1);
+    expect(actualVotes).to.equal(2);
+    expect(participationRate).to.equal(20); // 2/10 * 100 = 20%
+  });
+
+  it("should support batch vote initialization for multiple votes", async function () {
+    const titles = ["Vote 1", "Vote 2"];
+    const descriptions = ["Description 1", "Description 2"];
+    const optionsList = [["A", "B"], ["X", "Y", "Z"]];
+    const now = await latestTimestamp();
+    const startTimes = [0, now + 100];
+    const endTimes = [now + 3600, now + 3700];
+
+    await votingSystemContract.batchInitializeVotes(
+      titles,
+      descriptions,
+      optionsList,
+      startTimes,
+      endTimes
+    );
+
+    const nextVoteId = await votingSystemContract.getNextVoteId();
+    expect(nextVoteId).to.equal(3); // Started from 1, added 2 more
+    expect((await votingSystemContract.getEncryptedTallies(2)).length).to.eq(3);
   });
 });
@@ -0,0 +1,153 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { EncryptedVotingSystem, EncryptedVotingSystem__factory, VoteFactory, VoteFactory__factory } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+// Embargoed, open, unweighted plurality vote without revoting or pass rules
+const DEFAULT_SETTINGS = {
+  liveResults: false,
+  eligibility: 0,
+  merkleRoot: ethers.ZeroHash,
+  weightToken: ethers.ZeroAddress,
+  weightUnit: 0n,
+  ballotType: 0,
+  allowRevote: false,
+  draft: false,
+  rules: { quorum: 0, threshold: 0, thresholdCount: 0, outcomeOnly: false },
+};
+
+async function deployFixture() {
+  const ballotTally = await (await ethers.getContractFactory("BallotTally")).deploy();
+  const rankedBallots = await (await ethers.getContractFactory("RankedBallots")).deploy();
+  const voteDetails = await (await ethers.getContractFactory("VoteDetails")).deploy();
+  const voteDelegation = await (await ethers.getContractFactory("VoteDelegation")).deploy();
+  const voterEligibility = await (await ethers.getContractFactory("VoterEligibility")).deploy();
+  const votingSystemFactory = (await ethers.getContractFactory("EncryptedVotingSystem", {
+    libraries: {
+      BallotTally: await ballotTally.getAddress(),
+      RankedBallots: await rankedBallots.getAddress(),
+      VoteDetails: await voteDetails.getAddress(),
+      VoteDelegation: await voteDelegation.getAddress(),
+      VoterEligibility: await voterEligibility.getAddress(),
+    },
+  })) as EncryptedVotingSystem__factory;
+  const implementation = (await votingSystemFactory.deploy(ethers.ZeroAddress)) as EncryptedVotingSystem;
+
+  const factory = (await ethers.getContractFactory("VoteFactory")) as VoteFactory__factory;
+  const voteFactory = (await factory.deploy(await implementation.getAddress())) as VoteFactory;
+
+  return { implementation, voteFactory };
+}
+
+describe("VoteFactory", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let implementation: EncryptedVotingSystem;
+  let voteFactory: VoteFactory;
+
+  before(async function () {
+    [deployer, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ implementation, voteFactory } = await deployFixture());
+  });
+
+  async function latestTimestamp() {
+    return (await ethers.provider.getBlock("latest"))!.timestamp;
+  }
+
+  // Deploy an election owned by the creator and create its vote
+  async function createElection(creator: HardhatEthersSigner, title: string) {
+    await (await voteFactory.connect(creator).createElection()).wait();
+    const elections = await voteFactory.getElectionsByCreator(creator.address);
+    const election = await ethers.getContractAt("EncryptedVotingSystem", elections[elections.length - 1]);
+
+    const endTime = (await latestTimestamp()) + 7 * 86400;
+    await (
+      await election.connect(creator).createVote(title, "Election", ["Yes", "No"], 0, endTime, DEFAULT_SETTINGS)
+    ).wait();
+    return election;
+  }
+
+  async function castEncryptedVote(election: EncryptedVotingSystem, voter: HardhatEthersSigner, optionId: number) {
+    const encryptedOption = await fhevm
+      .createEncryptedInput(await election.getAddress(), voter.address)
+      .add32(optionId)
+      .encrypt();
+    await (await election.connect(voter).castVote(1, encryptedOption.handles[0], encryptedOption.inputProof)).wait();
+  }
+
+  it("should deploy an initialized instance per election, indexed by creator", async function () {
+    await expect(voteFactory.connect(alice).createElection()).to.emit(voteFactory, "ElectionCreated");
+    await (await voteFactory.connect(bob).createElection()).wait();
+    await (await voteFactory.connect(alice).createElection()).wait();
+
+    const elections = await voteFactory.getElections();
+    expect(elections.length).to.eq(3);
+    expect(await voteFactory.getElectionsByCreator(alice.address)).to.deep.eq([elections[0], elections[2]]);
+    expect(await voteFactory.getElection(2)).to.eq(elections[1]);
+    expect(await voteFactory.electionIdOf(elections[2])).to.eq(3);
+    expect(await voteFactory.electionIdOf(alice.address)).to.eq(0);
+    await expect(voteFactory.getElection(4)).to.be.revertedWith("Election does not exist");
+
+    // The creator owns the instance, the factory owner moderates it
+    const election = await ethers.getContractAt("EncryptedVotingSystem", elections[0]);
+    expect(await election.owner()).to.eq(alice.address);
+    expect(await election.hasRole(ethers.id("ADMIN_ROLE"), deployer.address)).to.be.true;
+    expect(await election.getNextVoteId()).to.eq(1);
+
+    await expect(election.initialize(bob.address, bob.address)).to.be.revertedWith("Already initialized");
+    await expect(implementation.initialize(bob.address, bob.address)).to.be.revertedWith("Already initialized");
+  });
+
+  it("should keep the ballots and tallies of each election apart", async function () {
+    const first = await createElection(alice, "First");
+    const second = await createElection(bob, "Second");
+
+    await castEncryptedVote(first, alice, 0);
+    await castEncryptedVote(first, bob, 0);
+    await castEncryptedVote(second, alice, 1);
+
+    expect(await first.getVoteCount(1)).to.eq(2);
+    expect(await second.getVoteCount(1)).to.eq(1);
+    expect(await implementation.getNextVoteId()).to.eq(1);
+
+    // Ending both through the factory publishes each election's own results
+    await ethers.provider.send("evm_increaseTime", [7 * 86400]);
+    await ethers.provider.send("evm_mine", []);
+    await (await voteFactory.endExpiredElections([1, 2])).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    const [, firstCounts] = await first.getPublishedResults(1);
+    const [, secondCounts] = await second.getPublishedResults(1);
+    expect(firstCounts.map(Number)).to.deep.eq([2, 0]);
+    expect(secondCounts.map(Number)).to.deep.eq([0, 1]);
+
+    // ACL grants of one instance do not cover the handles of another
+    const ballot = await first.getEncryptedBallot(1, alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, ballot, await first.getAddress(), alice)).to.eq(0n);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, ballot, await second.getAddress(), alice)).to.be.rejected;
+  });
+
+  it("should only let the creator add votes, and the factory owner moderate them", async function () {
+    const election = await createElection(alice, "Moderated");
+    const endTime = (await latestTimestamp()) + 86400;
+
+    await expect(
+      election.connect(bob).createVote("Hijack", "Not mine", ["Yes", "No"], 0, endTime, DEFAULT_SETTINGS),
+    ).to.be.revertedWith("Caller lacks the required role");
+
+    await expect(election.connect(deployer).cancelVote(1, "Spam"))
+      .to.emit(election, "VoteCancelled")
+      .withArgs(1, deployer.address, "Spam");
+  });
+});
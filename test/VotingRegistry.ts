@@ -0,0 +1,78 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers } from "hardhat";
+import { VotingRegistry, VotingRegistry__factory } from "../types";
+import { expect } from "chai";
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("VotingRegistry")) as VotingRegistry__factory;
+  const registry = (await factory.deploy()) as VotingRegistry;
+
+  return { registry };
+}
+
+describe("VotingRegistry", function () {
+  let deployer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let registry: VotingRegistry;
+
+  // Stand-ins for EncryptedVotingSystem deployments: the registry only stores their addresses
+  const first = ethers.Wallet.createRandom().address;
+  const second = ethers.Wallet.createRandom().address;
+
+  before(async function () {
+    [deployer, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    ({ registry } = await deployFixture());
+  });
+
+  it("should list registered deployments oldest first with the latest as current", async function () {
+    expect(await registry.latest()).to.eq(ethers.ZeroAddress);
+
+    await expect(registry.register(first, "0.1.0"))
+      .to.emit(registry, "DeploymentRegistered")
+      .withArgs(1, first, "0.1.0");
+    await (await registry.register(second, "0.2.0")).wait();
+
+    const deployments = await registry.getDeployments();
+    expect(deployments.map((deployment) => deployment.votingSystem)).to.deep.eq([first, second]);
+    expect(deployments[1].version).to.eq("0.2.0");
+    expect(await registry.latest()).to.eq(second);
+    expect(await registry.versionOf(first)).to.eq(1);
+    expect(await registry.versionOf(alice.address)).to.eq(0);
+
+    await expect(registry.register(first, "again")).to.be.revertedWith("Deployment already registered");
+    await expect(registry.connect(alice).register(alice.address, "rogue")).to.be.revertedWith(
+      "Only owner can manage the registry",
+    );
+  });
+
+  it("should only record migrations to a newer deployment", async function () {
+    await (await registry.register(first, "0.1.0")).wait();
+    await (await registry.register(second, "0.2.0")).wait();
+
+    await expect(registry.recordMigrations(second, first, [1], [1])).to.be.revertedWith(
+      "Votes must move to a newer deployment",
+    );
+    await expect(registry.recordMigrations(first, second, [1, 2], [1])).to.be.revertedWith("Array length mismatch");
+
+    await expect(registry.recordMigrations(first, second, [2, 3], [1, 2]))
+      .to.emit(registry, "VoteMigrated")
+      .withArgs(first, 3, second, 2);
+
+    const migration = await registry.getMigration(first, 2);
+    expect(migration.votingSystem).to.eq(second);
+    expect(migration.voteId).to.eq(1);
+    expect((await registry.getMigration(first, 1)).votingSystem).to.eq(ethers.ZeroAddress);
+  });
+
+  it("should hand the registry over to a new owner", async function () {
+    await expect(registry.transferOwnership(alice.address))
+      .to.emit(registry, "OwnershipTransferred")
+      .withArgs(deployer.address, alice.address);
+
+    await expect(registry.register(first, "0.1.0")).to.be.revertedWith("Only owner can manage the registry");
+    await (await registry.connect(alice).register(first, "0.1.0")).wait();
+  });
+});